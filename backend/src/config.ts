@@ -7,10 +7,27 @@
  */
 
 import dotenv from 'dotenv';
+import path from 'path';
 
 // Load environment variables from .env file
 dotenv.config();
 
+/**
+ * Default cap on the number of issues fetched by a single search
+ */
+const DEFAULT_MAX_SEARCH_RESULTS = 5000;
+
+/**
+ * Parse a count setting (non-negative integer)
+ * 
+ * @param value - Environment variable value
+ * @returns Parsed count, or null if the value is not a non-negative integer (e.g., "abc", "-1", "2.5")
+ */
+const parseCount = (value: string): number | null => {
+  const count = Number(value.trim());
+  return value.trim() !== '' && Number.isInteger(count) && count >= 0 ? count : null;
+};
+
 /**
  * Application configuration object
  * Contains all configuration settings needed by the application
@@ -33,10 +50,34 @@ export const config = {
     // Not required in Connect mode
     apiToken: process.env.JIRA_API_TOKEN || '',
     
-    // Shared secret for verifying JWT tokens from Jira Connect
-    // This is provided by Jira when the app is installed
-    // Required for Connect mode after installation
-    sharedSecret: process.env.SHARED_SECRET || '',
+    // Hard cap on the number of issues fetched by a single search (children or JQL)
+    // Results beyond the cap are dropped and the report is flagged as truncated
+    // 0 = no cap (follow every page); invalid values fall back to the default cap
+    maxSearchResults: parseCount(process.env.JIRA_MAX_SEARCH_RESULTS || '') ?? DEFAULT_MAX_SEARCH_RESULTS,
+  },
+  
+  /**
+   * Confluence configuration
+   * Used for publishing reports as Confluence pages (same credentials as Jira)
+   */
+  confluence: {
+    // Base URL of the Confluence instance, including the context path
+    // Defaults to the "/wiki" path of the Jira site (Atlassian Cloud); can point to a local mock server
+    baseUrl: process.env.CONFLUENCE_BASE_URL || '',
+  },
+  
+  /**
+   * PDF export configuration
+   */
+  pdf: {
+    // TrueType or OpenType font (.ttf, .otf) drawing the text of PDF exports
+    // (e.g., /usr/share/fonts/truetype/dejavu/DejaVuSans.ttf for Latin, Greek and Cyrillic, Noto Sans CJK for CJK)
+    // Without it, the standard PDF fonts are used: they only cover Western European characters (WinAnsi),
+    // so other characters are replaced with "?"
+    fontPath: process.env.PDF_FONT_PATH || '',
+    
+    // Bold variant of the font (defaults to PDF_FONT_PATH)
+    boldFontPath: process.env.PDF_BOLD_FONT_PATH || '',
   },
   
   /**
@@ -48,6 +89,21 @@ export const config = {
     port: parseInt(process.env.PORT || '3001', 10),
   },
   
+  /**
+   * Storage configuration
+   */
+  storage: {
+    // SQLite database file for templates
+    databasePath: process.env.DATABASE_PATH || path.join(__dirname, '../data/abc-report.db'),
+    
+    // Templates of the former JSON file storage, imported into the database on first start
+    legacyTemplatesFile: path.join(__dirname, '../data/templates.json'),
+    
+    // Tenant receiving the imported templates (e.g., "site:https://your-domain.atlassian.net"
+    // or "connect:<clientKey>"). Defaults to the site of JIRA_BASE_URL, or "default"
+    legacyTemplatesTenant: process.env.LEGACY_TEMPLATES_TENANT || '',
+  },
+  
   /**
    * Frontend configuration
    */
@@ -69,6 +125,10 @@ export const config = {
     // Base URL where this Connect app is hosted
     // Should be the public URL (e.g., ngrok URL for development, production URL for production)
     baseUrl: process.env.CONNECT_BASE_URL || 'http://localhost:3001',
+    
+    // Where the public keys of signed install tokens (lifecycle requests) are fetched from, by key ID
+    // Can point to a local key server for testing
+    installKeysUrl: process.env.CONNECT_INSTALL_KEYS_URL || 'https://connect-install-keys.atlassian.com',
   },
 };
 
@@ -83,6 +143,7 @@ export const config = {
 export const validateConfig = () => {
   // Check if we're running in Connect mode
   // Connect mode is detected by the presence of SHARED_SECRET or CONNECT_BASE_URL
+  // (the shared secrets themselves are stored per installation by /lifecycle/installed)
   const isConnectMode = process.env.SHARED_SECRET || process.env.CONNECT_BASE_URL;
   
   // Only require JIRA_BASE_URL in standalone mode
@@ -90,6 +151,12 @@ export const validateConfig = () => {
     throw new Error('JIRA_BASE_URL is required for standalone mode. For Connect mode, set SHARED_SECRET or CONNECT_BASE_URL.');
   }
   
+  // An invalid cap would otherwise go unnoticed (the default cap is used)
+  const maxSearchResults = process.env.JIRA_MAX_SEARCH_RESULTS;
+  if (maxSearchResults && parseCount(maxSearchResults) === null) {
+    console.warn(`Invalid JIRA_MAX_SEARCH_RESULTS "${maxSearchResults}": expected a non-negative integer, using ${DEFAULT_MAX_SEARCH_RESULTS}`);
+  }
+  
   // Email and API token are no longer required in config
   // They will be provided by:
   // - User at runtime (standalone mode - via authentication modal)
@@ -63,12 +63,13 @@ export const extractJiraCredentials = (req: Request, res: Response, next: NextFu
       
       // If we successfully extracted both email and token, use them
       if (email && apiToken) {
-        req.jiraCredentials = { email: email.trim(), apiToken: apiToken.trim() };
         // Also get baseUrl from header if provided
-        const baseUrl = req.headers['x-jira-base-url'] as string;
-        if (baseUrl) {
-          (req.jiraCredentials as any).baseUrl = baseUrl;
-        }
+        const baseUrl = req.headers['x-jira-base-url'];
+        req.jiraCredentials = {
+          email: email.trim(),
+          apiToken: apiToken.trim(),
+          ...(typeof baseUrl === 'string' && baseUrl ? { baseUrl } : {}),
+        };
         return next();
       }
     } catch (error) {
@@ -0,0 +1,111 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { ConnectInstallation } from '../types/installation';
+import { DEFAULT_TEMPLATE } from '../types/template';
+import { createQueryStringHash, CONTEXT_QSH } from '../utils/queryStringHash';
+
+const installation: ConnectInstallation = {
+  clientKey: 'client-key',
+  baseUrl: 'https://team.atlassian.net',
+  sharedSecret: 'shared-secret',
+  installedAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+let server: http.Server;
+let baseUrl: string;
+
+before(async () => {
+  // Templates are stored in a database of the test only (the path is read when the config is loaded)
+  process.env.DATABASE_PATH = ':memory:';
+  const { installationService } = await import('../services/installationService');
+  const { verifyConnectJWT } = await import('./connectAuth');
+  const { default: templateRoutes } = await import('../routes/templates');
+
+  mock.method(installationService, 'getInstallation', (clientKey: string) =>
+    clientKey === installation.clientKey ? installation : null
+  );
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/templates', templateRoutes);
+  app.post('/lifecycle/strict', verifyConnectJWT, (_req, res) => {
+    res.status(204).end();
+  });
+
+  server = app.listen(0, '127.0.0.1');
+  await new Promise<void>(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  mock.restoreAll();
+});
+
+/**
+ * Connect JWT of the installation, bound to a request or a context JWT
+ */
+const signToken = (qsh: string, secret = installation.sharedSecret): string =>
+  jwt.sign({ iss: installation.clientKey, sub: 'account-1', qsh }, secret, { algorithm: 'HS256', expiresIn: 180 });
+
+/**
+ * Send a request with a Connect JWT in the Authorization header
+ */
+const send = (method: string, path: string, token: string, body?: unknown) =>
+  fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { Authorization: `JWT ${token}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const template = { ...DEFAULT_TEMPLATE, name: 'Weekly report' };
+
+test('template routes accept context JWTs from the app iframe', async () => {
+  const created = await send('POST', '/api/templates', signToken(CONTEXT_QSH), template);
+  assert.equal(created.status, 201);
+  const { id } = await created.json() as { id: string };
+
+  const updated = await send('PUT', `/api/templates/${id}`, signToken(CONTEXT_QSH), { ...template, name: 'Renamed' });
+  assert.equal(updated.status, 200);
+
+  const deleted = await send('DELETE', `/api/templates/${id}`, signToken(CONTEXT_QSH));
+  assert.equal(deleted.status, 204);
+});
+
+test('template routes accept JWTs bound to the request', async () => {
+  const token = signToken(createQueryStringHash('POST', '/api/templates', ''));
+
+  const response = await send('POST', '/api/templates', token, template);
+
+  assert.equal(response.status, 201);
+});
+
+test('template routes reject JWTs bound to another request', async () => {
+  const token = signToken(createQueryStringHash('DELETE', '/api/templates/template-1', ''));
+
+  const response = await send('POST', '/api/templates', token, template);
+
+  assert.equal(response.status, 401);
+  assert.deepEqual(await response.json(), { error: 'Invalid JWT token: query string hash (qsh) does not match the request' });
+});
+
+test('template routes reject context JWTs not signed with the shared secret of the installation', async () => {
+  const response = await send('POST', '/api/templates', signToken(CONTEXT_QSH, 'another-secret'), template);
+
+  assert.equal(response.status, 401);
+  assert.deepEqual(await response.json(), { error: 'Invalid JWT token: invalid signature' });
+});
+
+test('verifyConnectJWT only accepts JWTs bound to the request', async () => {
+  const context = await send('POST', '/lifecycle/strict', signToken(CONTEXT_QSH));
+  assert.equal(context.status, 401);
+  assert.deepEqual(await context.json(), { error: 'Invalid JWT token: context tokens are not accepted for this request' });
+
+  const bound = await send('POST', '/lifecycle/strict', signToken(createQueryStringHash('POST', '/lifecycle/strict', '')));
+  assert.equal(bound.status, 204);
+});
@@ -6,15 +6,22 @@
  * proves the request is coming from Jira and identifies the installation.
  * 
  * The JWT token contains:
- * - iss: The Jira instance URL
- * - sub: The clientKey (unique identifier for this installation)
- * - aud: The baseUrl from atlassian-connect.json
+ * - iss: The clientKey (unique identifier for this installation)
+ * - sub: The account ID of the user
  * - qsh: Query string hash (for request verification)
+ *
+ * Tokens are verified with the shared secret stored for the installation
+ * when Jira called /lifecycle/installed (see installationService).
+ * Lifecycle requests themselves are signed by Atlassian (signed install, RS256),
+ * see verifyInstallToken.
  */
 
 import { Request, Response, NextFunction } from 'express';
+import axios from 'axios';
 import jwt from 'jsonwebtoken';
 import { config } from '../config';
+import { installationService } from '../services/installationService';
+import { createQueryStringHash, CONTEXT_QSH } from '../utils/queryStringHash';
 
 /**
  * Extend Express Request type to include Connect-specific properties
@@ -50,78 +57,247 @@ declare global {
  * These are the standard claims included in Connect JWT tokens
  */
 interface ConnectToken {
-  iss: string; // JIRA instance URL (issuer)
-  sub: string; // clientKey (subject - unique identifier for the installation)
-  aud: string; // baseUrl from atlassian-connect.json (audience)
-  exp: number; // Expiration time (Unix timestamp)
-  iat: number; // Issued at time (Unix timestamp)
-  qsh: string; // Query string hash (used to verify the request hasn't been tampered with)
+  iss: string;  // clientKey of the installation (issuer)
+  sub?: string; // Account ID of the user making the request (subject)
+  aud?: string | string[]; // baseUrl of this app (audience, if set)
+  exp: number;  // Expiration time (Unix timestamp)
+  iat: number;  // Issued at time (Unix timestamp)
+  qsh: string;  // Query string hash (used to verify the request hasn't been tampered with)
+  context?: any; // Connect context (user, license, ...)
 }
 
 /**
- * Middleware to verify JWT token from Atlassian Connect
- * This extracts the JWT from the Authorization header or query string
- * This middleware is optional - if no JWT is present, it just continues (for backward compatibility)
+ * Options for verifying a Connect JWT token
+ */
+interface VerifyOptions {
+  /**
+   * Whether context JWTs (qsh "context-qsh", from AP.context.getToken) are accepted
+   * These are not bound to a request, so only the app API (called from the app iframe) accepts them
+   */
+  allowContextQsh?: boolean;
+}
+
+/**
+ * Clock skew (seconds) tolerated between Jira and this server when checking exp / iat
+ */
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+/**
+ * Public keys of the signed install tokens, by key ID (the key of a key ID never changes)
+ */
+const installPublicKeys = new Map<string, string>();
+
+/**
+ * Get the path of the app base URL (stripped from request paths when computing the qsh)
  */
-export const verifyConnectJWT = (req: Request, res: Response, next: NextFunction): void => {
+const getAppBasePath = (): string => {
   try {
-    // Get JWT from Authorization header
-    let token: string | undefined;
-    const authHeader = req.headers.authorization;
-    
-    if (authHeader && authHeader.startsWith('JWT ')) {
-      token = authHeader.substring(4);
-    } else if (req.query?.jwt) {
-      token = req.query.jwt as string;
-    }
+    return new URL(config.connect.baseUrl).pathname;
+  } catch {
+    return '';
+  }
+};
 
-    // If no token, just continue (for backward compatibility with legacy auth)
-    if (!token) {
-      return next();
-    }
+/**
+ * Get the Connect JWT token of a request
+ * The token is sent in the Authorization header ("JWT <token>") or as the "jwt" query parameter
+ *
+ * @returns Token or undefined if the request has no Connect JWT
+ */
+export const getConnectToken = (req: Request): string | undefined => {
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('JWT ')) {
+    return authHeader.substring(4);
+  }
+  if (typeof req.query?.jwt === 'string' && req.query.jwt) {
+    return req.query.jwt;
+  }
+  return undefined;
+};
 
-    // Decode the token (we'll verify signature later when we have the shared secret)
-    const decoded = jwt.decode(token) as ConnectToken;
-    
-    if (!decoded) {
-      // Invalid token format, but continue anyway (other middleware will handle auth)
-      return next();
-    }
+/**
+ * Verify a Connect JWT token and attach the Connect context to the request
+ *
+ * The token is checked against the shared secret of the installation that issued it
+ * (the "iss" claim is the clientKey), then its qsh is checked against the request.
+ *
+ * @param req - Express request (req.jwt and req.context are set on success)
+ * @param token - JWT token of the request
+ * @param options - Verification options
+ * @throws {Error} If the token is malformed, from an unknown installation, badly signed,
+ *                 expired, or not issued for this request
+ */
+export const verifyConnectToken = (req: Request, token: string, options: VerifyOptions = {}): void => {
+  const decoded = jwt.decode(token);
+  if (!decoded || typeof decoded === 'string') {
+    throw new Error('Invalid JWT token: malformed token');
+  }
+
+  const clientKey = decoded.iss;
+  if (!clientKey) {
+    throw new Error('Invalid JWT token: missing issuer (clientKey)');
+  }
+
+  // Look up the installation that issued the token to get its shared secret
+  const installation = installationService.getInstallation(clientKey);
+  if (!installation) {
+    throw new Error(`Invalid JWT token: unknown installation ${clientKey}`);
+  }
 
-    // Store decoded token in request
-    req.jwt = decoded;
-    
-    // Try to get shared secret from config or from installation data
-    // In production, you'd look this up from your database using decoded.sub (clientKey)
-    const sharedSecret = config.jira.sharedSecret || '';
-    
-    if (sharedSecret) {
-      // Verify the token signature
-      try {
-        jwt.verify(token, sharedSecret, { algorithms: ['HS256'] });
-      } catch (verifyError) {
-        // Token verification failed, but continue anyway (for development/testing)
-        console.warn('JWT verification failed:', verifyError);
-        return next();
-      }
+  // Verify the token signature and expiration
+  let verified: ConnectToken;
+  try {
+    verified = jwt.verify(token, installation.sharedSecret, {
+      algorithms: ['HS256'],
+      clockTolerance: CLOCK_TOLERANCE_SECONDS,
+    }) as ConnectToken;
+  } catch (verifyError: any) {
+    throw new Error(`Invalid JWT token: ${verifyError.message}`);
+  }
+
+  // Verify the query string hash, so that the token cannot be reused for another request
+  if (!verified.qsh) {
+    throw new Error('Invalid JWT token: missing query string hash (qsh)');
+  }
+  if (verified.qsh === CONTEXT_QSH) {
+    if (!options.allowContextQsh) {
+      throw new Error('Invalid JWT token: context tokens are not accepted for this request');
     }
+  } else if (verified.qsh !== createQueryStringHash(req.method, req.originalUrl, getAppBasePath())) {
+    throw new Error('Invalid JWT token: query string hash (qsh) does not match the request');
+  }
+
+  // Store decoded token and context in request
+  req.jwt = verified;
+  req.context = {
+    clientKey: installation.clientKey,
+    sharedSecret: installation.sharedSecret,
+    baseUrl: installation.baseUrl,
+    key: installation.clientKey,
+    oauthClientId: installation.oauthClientId,
+    publicKey: installation.publicKey,
+  };
+};
 
-    // Store context in request
-    req.context = {
-      clientKey: decoded.sub,
-      sharedSecret: sharedSecret,
-      baseUrl: decoded.iss,
-      key: decoded.sub,
-    };
+/**
+ * Get the public key of a signed install token from the Connect install keys CDN
+ *
+ * @param kid - Key ID of the token header
+ * @returns PEM public key
+ * @throws {Error} If the key ID is malformed or the key cannot be fetched
+ */
+const getInstallPublicKey = async (kid: string): Promise<string> => {
+  if (!/^[A-Za-z0-9._-]+$/.test(kid)) {
+    throw new Error('Invalid install JWT token: malformed key ID (kid)');
+  }
+
+  const cached = installPublicKeys.get(kid);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const response = await axios.get<string>(`${config.connect.installKeysUrl.replace(/\/+$/, '')}/${kid}`, {
+      responseType: 'text',
+      timeout: 10000,
+    });
+    installPublicKeys.set(kid, response.data);
+    return response.data;
+  } catch (fetchError: any) {
+    throw new Error(`Invalid install JWT token: public key ${kid} could not be fetched (${fetchError.message})`);
+  }
+};
+
+/**
+ * Verify the signed install token of a lifecycle request (/installed, /uninstalled)
+ *
+ * With signed install, Atlassian signs lifecycle requests with a private key (RS256) instead of
+ * the shared secret: the public key is fetched from the install keys CDN by the "kid" of the token,
+ * the audience must be the base URL of this app, and the qsh must match the request.
+ * The installation is not looked up, so the request can be trusted before anything is stored.
+ *
+ * @param req - Lifecycle request
+ * @param token - JWT token of the request
+ * @returns Verified token (its "iss" claim is the clientKey of the installation)
+ * @throws {Error} If the token is not a valid signed install token for this request
+ */
+export const verifyInstallToken = async (req: Request, token: string): Promise<ConnectToken> => {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new Error('Invalid install JWT token: malformed token');
+  }
+  if (decoded.header.alg !== 'RS256' || !decoded.header.kid) {
+    throw new Error('Invalid install JWT token: lifecycle requests must be signed with RS256 (signed install)');
+  }
+
+  const publicKey = await getInstallPublicKey(decoded.header.kid);
+  const appBaseUrl = config.connect.baseUrl.replace(/\/+$/, '');
+
+  let verified: ConnectToken;
+  try {
+    verified = jwt.verify(token, publicKey, {
+      algorithms: ['RS256'],
+      audience: [appBaseUrl, `${appBaseUrl}/`],
+      clockTolerance: CLOCK_TOLERANCE_SECONDS,
+    }) as ConnectToken;
+  } catch (verifyError: any) {
+    throw new Error(`Invalid install JWT token: ${verifyError.message}`);
+  }
 
-    next();
+  if (!verified.iss) {
+    throw new Error('Invalid install JWT token: missing issuer (clientKey)');
+  }
+  if (!verified.qsh || verified.qsh !== createQueryStringHash(req.method, req.originalUrl, getAppBasePath())) {
+    throw new Error('Invalid install JWT token: query string hash (qsh) does not match the request');
+  }
+  return verified;
+};
+
+/**
+ * Create a middleware verifying the JWT token from Atlassian Connect
+ * This extracts the JWT from the Authorization header or query string and verifies it
+ * against the shared secret of the installation that issued it (including the qsh).
+ *
+ * Requests without a JWT continue (standalone mode uses legacy auth),
+ * requests with an invalid JWT are rejected with 401.
+ *
+ * @param options - Verification options (whether context JWTs are accepted)
+ */
+const createConnectJWTMiddleware = (options: VerifyOptions) => (req: Request, res: Response, next: NextFunction): void => {
+  const token = getConnectToken(req);
+
+  // If no token, just continue (for backward compatibility with legacy auth)
+  if (!token) {
+    return next();
+  }
+
+  try {
+    verifyConnectToken(req, token, options);
   } catch (error: any) {
-    // On error, just continue (for backward compatibility)
-    console.warn('Connect JWT processing error:', error.message);
-    next();
+    console.warn('Connect JWT verification failed:', error.message);
+    res.status(401).json({ error: error.message });
+    return;
   }
+
+  next();
 };
 
+/**
+ * Middleware to verify JWT token from Atlassian Connect
+ * The qsh of the token must match the request: context JWTs are rejected,
+ * so the token cannot be replayed against another endpoint (for requests signed by Jira)
+ */
+export const verifyConnectJWT = createConnectJWTMiddleware({ allowContextQsh: false });
+
+/**
+ * Middleware to verify JWT token from Atlassian Connect on the app API (/api/*)
+ * Also accepts context JWTs (qsh "context-qsh", from AP.context.getToken): the app iframe can't get
+ * a token bound to each request, so it calls every route of the backend (reads and writes) with them,
+ * like atlassian-connect-express does. They are still signed with the installation shared secret
+ * and expire quickly; request-bound tokens must match their request.
+ */
+export const verifyConnectContextJWT = createConnectJWTMiddleware({ allowContextQsh: true });
+
 /**
  * Extract Connect authentication info from request
  * This is used to authenticate API calls to Jira
@@ -0,0 +1,68 @@
+/**
+ * Jira Client Middleware
+ * 
+ * Creates the Jira client of a request: a ConnectJiraClient (JWT) in Connect mode,
+ * or a JiraClient (Basic Auth) with the credentials extracted by extractJiraCredentials.
+ * Routes using it run after verifyConnectJWT (or verifyConnectContextJWT) and extractJiraCredentials.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { JiraClient } from '../services/jiraClient';
+import { ConnectJiraClient } from '../services/connectJiraClient';
+import { getConnectAuth } from './connectAuth';
+import { config } from '../config';
+
+/**
+ * Create the Jira client of a request (Connect or legacy) and attach it to the request
+ * Answers 400 without a Jira base URL and 401 without authentication
+ */
+export const getJiraClientMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+  // Try Connect authentication first
+  if (req.context && req.jwt) {
+    const connectAuth = getConnectAuth(req);
+    if (connectAuth && connectAuth.sharedSecret) {
+      // Use Connect JWT authentication
+      (req as any).jiraClient = new ConnectJiraClient(connectAuth);
+      return next();
+    }
+  }
+  
+  // Fall back to legacy authentication
+  if (req.jiraCredentials) {
+    // Get baseUrl from credentials or header
+    const baseUrl = req.jiraCredentials.baseUrl || req.headers['x-jira-base-url'] as string || config.jira.baseUrl;
+    if (!baseUrl) {
+      res.status(400).json({ error: 'Jira base URL is required. Please authenticate with your Jira instance URL.' });
+      return;
+    }
+    // Create JiraClient with the user's Jira instance URL
+    (req as any).jiraClient = new JiraClient(req.jiraCredentials, baseUrl);
+    return next();
+  }
+  
+  // No authentication found
+  res.status(401).json({ error: 'Authentication required. Please install the Connect app or provide credentials.' });
+};
+
+/**
+ * Get the Jira client of a request (attached by getJiraClientMiddleware)
+ */
+export const getJiraClient = (req: Request): JiraClient | ConnectJiraClient => {
+  if ((req as any).jiraClient) {
+    return (req as any).jiraClient;
+  }
+  
+  // Fallback for backward compatibility
+  if (req.jiraCredentials) {
+    return new JiraClient(req.jiraCredentials);
+  }
+  
+  // Try to use Connect auth if available
+  const connectAuth = getConnectAuth(req);
+  if (connectAuth && connectAuth.sharedSecret) {
+    return new ConnectJiraClient(connectAuth);
+  }
+  
+  // Last resort: use default client
+  return new JiraClient();
+};
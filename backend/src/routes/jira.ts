@@ -1,145 +1,349 @@
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router, Request, Response } from 'express';
 import { JiraClient } from '../services/jiraClient';
-import { ConnectJiraClient, ConnectAuth } from '../services/connectJiraClient';
-import { ReportService } from '../services/reportService';
+import { ConnectJiraClient } from '../services/connectJiraClient';
+import { ReportService, ReportRow, ReportColumn, ReportGroupLevel, getChildIssueOptions, getReportColumns, getReportGroupLevels } from '../services/reportService';
 import { WordExportService } from '../services/wordExportService';
 import { PptExportService } from '../services/pptExportService';
-import { TimesheetService } from '../services/timesheetService';
+import { PdfExportService } from '../services/pdfExportService';
+import { ExcelExportService } from '../services/excelExportService';
+import { MarkupExportService, MarkupFormat, MARKUP_FORMATS } from '../services/markupExportService';
+import { ConfluencePublisher, ConfluencePublishError } from '../services/confluencePublisher';
+import { TimesheetService, TimesheetSummary } from '../services/timesheetService';
 import { TemplateService } from '../services/templateService';
-import { getWeekNumbers } from '../utils/weekUtils';
+import { WorklogService } from '../services/worklogService';
+import { PortfolioService, PortfolioReport, MAX_PORTFOLIO_PARENTS } from '../services/portfolioService';
+import { FieldService } from '../services/fieldService';
+import { ReportTemplate } from '../types/template';
+import { JiraIssue } from '../types/jira';
+import { getWeekNumbers, parseReferenceDate, parseWorklogRange, WeekRange } from '../utils/weekUtils';
 import { extractIssueFields } from '../utils/jiraFieldUtils';
+import { resolveStatusSection } from '../utils/statusMapping';
+import { resolveTimeFormat } from '../utils/timeFormat';
+import { formatPageTitle } from '../utils/pageTitle';
+import { ISSUE_KEY_PATTERN, PROJECT_KEY_PATTERN, normalizeJiraKey } from '../utils/issueKey';
 import { extractJiraCredentials } from '../middleware/auth';
-import { verifyConnectJWT, getConnectAuth } from '../middleware/connectAuth';
+import { verifyConnectContextJWT } from '../middleware/connectAuth';
+import { getJiraClientMiddleware, getJiraClient } from '../middleware/jiraClient';
+import { getTemplateScope } from '../utils/templateScope';
 import { config } from '../config';
 
 const router = Router();
 const reportService = new ReportService();
 const wordExportService = new WordExportService();
 const pptExportService = new PptExportService();
+const pdfExportService = new PdfExportService();
+const excelExportService = new ExcelExportService();
+const markupExportService = new MarkupExportService();
 const timesheetService = new TimesheetService();
 const templateService = new TemplateService();
+const portfolioService = new PortfolioService();
+const worklogService = new WorklogService();
+const fieldService = new FieldService();
 
 /**
- * Get user ID from request
- * In Connect mode, use Jira user account ID
- * In standalone mode, use email from credentials
+ * Get the template for a report request
+ * Uses the templateId query parameter if provided, otherwise the user's default template
+ * 
+ * @returns Template or null if the requested template is not found or not accessible
  */
-const getUserId = (req: Request): string => {
-  // Try Connect mode first (from JWT)
-  if (req.context && req.jwt) {
-    return req.jwt.sub || req.context.clientKey || 'connect-user';
-  }
+const getReportTemplate = (req: Request): ReportTemplate | null => {
+  const { templateId } = req.query;
+  const scope = getTemplateScope(req);
   
-  // Fall back to standalone mode (email from credentials)
-  if (req.jiraCredentials) {
-    return req.jiraCredentials.email;
+  if (templateId && typeof templateId === 'string') {
+    return templateService.getTemplate(templateId, scope);
   }
-  
-  // Default fallback - use a default user ID so we can still get default template
-  // This allows the app to work even if authentication hasn't been completed yet
-  return 'default-user';
+  return templateService.getDefaultTemplate(scope);
 };
 
-// Middleware to get appropriate Jira client (Connect or legacy)
-const getJiraClientMiddleware = (req: Request, res: Response, next: NextFunction): void => {
-  // Try Connect authentication first
-  if (req.context && req.jwt) {
-    const connectAuth = getConnectAuth(req);
-    if (connectAuth && connectAuth.sharedSecret) {
-      // Use Connect JWT authentication
-      (req as any).jiraClient = new ConnectJiraClient(connectAuth);
-      return next();
-    }
+/**
+ * Add the time logged per person to a report timesheet when the template uses worklogs
+ * 
+ * @param range - Worklog period (report week, or ?worklogFrom=...&worklogTo=...)
+ */
+const addWorklogTimesheet = async (
+  jiraClient: JiraClient | ConnectJiraClient,
+  template: ReportTemplate,
+  timesheet: TimesheetSummary,
+  issues: JiraIssue[],
+  range: WeekRange
+): Promise<void> => {
+  if (template.timesheet?.mode === 'worklog') {
+    timesheet.worklog = await worklogService.generateWorklogTimesheet(jiraClient, issues, range, resolveTimeFormat(template.timesheet));
   }
+};
+
+/**
+ * Get the parent ticket keys of a portfolio request
+ * Uses the keys query parameter (comma-separated) or the parents matching the jql query parameter
+ * 
+ * @throws Error if no keys are given, a key is invalid, the JQL is rejected by Jira
+ *         or there are more than MAX_PORTFOLIO_PARENTS parents
+ */
+const getPortfolioParentKeys = async (req: Request, jiraClient: JiraClient | ConnectJiraClient): Promise<string[]> => {
+  const { keys, jql } = req.query;
+  let parentKeys: string[] = [];
   
-  // Fall back to legacy authentication
-  if (req.jiraCredentials) {
-    // Get baseUrl from credentials or header
-    const baseUrl = (req.jiraCredentials as any).baseUrl || req.headers['x-jira-base-url'] as string || config.jira.baseUrl;
-    if (!baseUrl) {
-      res.status(400).json({ error: 'Jira base URL is required. Please authenticate with your Jira instance URL.' });
-      return;
+  if (typeof keys === 'string' && keys.trim()) {
+    parentKeys = keys.split(/[\s,;]+/).map(normalizeJiraKey).filter(Boolean);
+    const invalidKey = parentKeys.find(key => !ISSUE_KEY_PATTERN.test(key));
+    if (invalidKey) {
+      throw new Error(`Invalid ticket key format: "${invalidKey}". Expected format: PROJ-123`);
     }
-    // Create JiraClient with custom baseUrl
-    const credentials = req.jiraCredentials;
-    const axios = require('axios').default;
-    const auth = Buffer.from(`${credentials.email}:${credentials.apiToken}`).toString('base64');
-    const customClient = axios.create({
-      baseURL: `${baseUrl}/rest/api/3`,
-      headers: {
-        'Authorization': `Basic ${auth}`,
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
-    // Create a wrapper that matches JiraClient interface
-    // We need to use the actual JiraClient class but with custom baseUrl
-    // Since JiraClient constructor uses config.jira.baseUrl, we'll create a custom instance
-    const customJiraClient = new JiraClient(credentials);
-    // Override the client's baseURL
-    (customJiraClient as any).client = customClient;
-    
-    // Override getIssueChildren to use /search/jql endpoint
-    const originalGetIssueChildren = customJiraClient.getIssueChildren.bind(customJiraClient);
-    customJiraClient.getIssueChildren = async (issueKey: string) => {
-      const parentIssue = await customJiraClient.getIssue(issueKey);
-      const issueType = parentIssue.fields.issuetype?.name?.toLowerCase() || '';
-      
-      let jql: string;
-      if (issueType.includes('epic')) {
-        jql = `"Epic Link" = ${issueKey} ORDER BY status ASC`;
-      } else {
-        jql = `parent = ${issueKey} ORDER BY status ASC`;
-      }
-      
-      try {
-        const response = await customClient.post('/search/jql', {
-          jql,
-          fields: ['summary', 'status', 'labels', 'issuetype', 'parent', 'timespent', 'timeestimate', 'aggregatetimespent', 'aggregatetimeestimate'],
-          maxResults: 1000,
-        });
-        return response.data.issues || [];
-      } catch (error: any) {
-        if (!issueType.includes('epic')) {
-          jql = `"Epic Link" = ${issueKey} ORDER BY status ASC`;
-          const response = await customClient.post('/search/jql', {
-            jql,
-            fields: ['summary', 'status', 'labels', 'issuetype', 'parent', 'timespent', 'timeestimate', 'aggregatetimespent', 'aggregatetimeestimate'],
-            maxResults: 1000,
-          });
-          return response.data.issues || [];
-        }
-        throw error;
-      }
-    };
-    
-    (req as any).jiraClient = customJiraClient;
-    return next();
+  } else if (typeof jql === 'string' && jql.trim()) {
+    // One more than the limit is enough to tell the query matches too many parents
+    const { issues: parents, truncated } = await jiraClient.searchIssues(jql.trim(), { fields: ['summary'], maxResults: MAX_PORTFOLIO_PARENTS + 1 });
+    if (truncated) {
+      throw new Error(`A portfolio report is limited to ${MAX_PORTFOLIO_PARENTS} parent tickets (the JQL query matches more)`);
+    }
+    parentKeys = parents.map(parent => parent.key);
+  } else {
+    throw new Error('Provide parent ticket keys (keys=PROJ-1,PROJ-2) or a JQL query (jql=...)');
   }
   
-  // No authentication found
-  res.status(401).json({ error: 'Authentication required. Please install the Connect app or provide credentials.' });
+  // Remove duplicates while keeping the requested order
+  parentKeys = Array.from(new Set(parentKeys));
+  
+  if (parentKeys.length === 0) {
+    throw new Error('No parent tickets match the portfolio query');
+  }
+  if (parentKeys.length > MAX_PORTFOLIO_PARENTS) {
+    throw new Error(`A portfolio report is limited to ${MAX_PORTFOLIO_PARENTS} parent tickets (${parentKeys.length} requested)`);
+  }
+  return parentKeys;
+};
+
+/**
+ * Get the JQL query of a JQL report
+ * Uses the jql query parameter if provided, otherwise the template's JQL source
+ * 
+ * @throws Error if neither the request nor the template has a JQL query
+ */
+const getReportJql = (req: Request, template: ReportTemplate): string => {
+  const { jql } = req.query;
+  const query = (typeof jql === 'string' && jql.trim()) || template.issueSelection.jql?.trim();
+  if (!query) {
+    throw new Error('A JQL query is required (jql parameter or a template with a JQL source)');
+  }
+  return query;
 };
 
-// Helper function to get Jira client from request
-const getJiraClient = (req: Request): JiraClient | ConnectJiraClient => {
-  if ((req as any).jiraClient) {
-    return (req as any).jiraClient;
+/**
+ * Get a copy of a template that groups issues as a JQL source (by category field)
+ * Lets any template be used for JQL reports, whatever its configured source
+ */
+const toJqlTemplate = (template: ReportTemplate): ReportTemplate => ({
+  ...template,
+  issueSelection: { ...template.issueSelection, source: 'jql' },
+});
+
+/**
+ * Error of a report request answered with its own HTTP status
+ * (invalid ticket key or report week: 400, template not found: 404)
+ */
+class ReportRequestError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Parameters shared by all report requests
+ */
+interface ReportRequest {
+  template: ReportTemplate;
+  referenceDate?: Date; // ?week=2025-W46 or ?asOf=2025-11-14 (undefined for the current week)
+  worklogRange: WeekRange; // ?worklogFrom=2025-11-03&worklogTo=2025-11-14 (defaults to the report week)
+}
+
+/**
+ * Report of a parent ticket, with everything the report and export routes render
+ */
+interface IssueReport extends ReportRequest {
+  issue: JiraIssue;
+  children: JiraIssue[];
+  truncated: boolean; // True when the children were capped by the search limit
+  report: ReportRow[];
+  columns: ReportColumn[];
+  groupLevels: ReportGroupLevel[];
+  timesheet: TimesheetSummary;
+}
+
+/**
+ * Portfolio report of several parent tickets, with the columns and group levels of its template
+ */
+interface PortfolioIssueReport extends ReportRequest {
+  portfolio: PortfolioReport;
+  columns: ReportColumn[];
+  groupLevels: ReportGroupLevel[];
+}
+
+/**
+ * Report of the issues matching a JQL query
+ */
+interface JqlReport extends ReportRequest {
+  jql: string;
+  issues: JiraIssue[];
+  truncated: boolean; // True when the search results were capped
+  report: ReportRow[];
+  columns: ReportColumn[];
+  groupLevels: ReportGroupLevel[];
+  timesheet: TimesheetSummary;
+}
+
+/**
+ * Get the template and report week of a report request
+ * 
+ * @param template - Template of the request (looked up from the templateId query parameter by default)
+ * @throws ReportRequestError if the template is not found (404) or a date parameter is invalid (400)
+ */
+const getReportRequest = (req: Request, template: ReportTemplate | null = getReportTemplate(req)): ReportRequest => {
+  if (!template) {
+    throw new ReportRequestError(404, 'Template not found or access denied');
+  }
+  try {
+    const referenceDate = parseReferenceDate(req.query);
+    return { template, referenceDate, worklogRange: parseWorklogRange(req.query, referenceDate) };
+  } catch (error: any) {
+    throw new ReportRequestError(400, error.message);
   }
+};
+
+/**
+ * Build the report of the parent ticket of a request (issueKey route parameter)
+ * Fetches the ticket and its children, then generates the report and the timesheet with the template
+ * 
+ * @param template - Template of the request (looked up from the templateId query parameter by default)
+ * @throws ReportRequestError if the ticket key or a date parameter is invalid (400) or the template is not found (404)
+ */
+const buildIssueReport = async (req: Request, template?: ReportTemplate): Promise<IssueReport> => {
+  const issueKey = normalizeJiraKey(req.params.issueKey);
+  if (!ISSUE_KEY_PATTERN.test(issueKey)) {
+    throw new ReportRequestError(400, `Invalid ticket key format: "${req.params.issueKey}". Expected format: PROJ-123`);
+  }
+  const request = getReportRequest(req, template);
+  const { referenceDate } = request;
+  const jiraClient = getJiraClient(req);
+  
+  // Verify the issue exists, then get all children (with changelog when the template places issues by date)
+  const issue = await jiraClient.getIssue(issueKey);
+  const { issues: children, truncated } = await jiraClient.getIssueChildren(issueKey, getChildIssueOptions(request.template), issue);
+  
+  const report = reportService.generateReport(children, request.template, referenceDate);
+  const timesheet = timesheetService.generateTimesheet(issue, children, request.template.statusMapping, resolveTimeFormat(request.template.timesheet));
+  await addWorklogTimesheet(jiraClient, request.template, timesheet, children, request.worklogRange);
   
-  // Fallback for backward compatibility
-  if (req.jiraCredentials) {
-    return new JiraClient(req.jiraCredentials);
+  return {
+    ...request,
+    issue,
+    children,
+    truncated,
+    report,
+    columns: getReportColumns(request.template, report, referenceDate),
+    groupLevels: getReportGroupLevels(request.template),
+    timesheet,
+  };
+};
+
+/**
+ * Build the portfolio report of a request (keys or jql query parameter)
+ * 
+ * @throws ReportRequestError if the parent tickets or a date parameter are invalid (400) or the template is not found (404)
+ */
+const buildPortfolioReport = async (req: Request): Promise<PortfolioIssueReport> => {
+  const request = getReportRequest(req);
+  const { template, referenceDate } = request;
+  const jiraClient = getJiraClient(req);
+  
+  let parentKeys: string[];
+  try {
+    parentKeys = await getPortfolioParentKeys(req, jiraClient);
+  } catch (error: any) {
+    throw new ReportRequestError(400, error.message);
   }
   
-  // Try to use Connect auth if available
-  const connectAuth = getConnectAuth(req);
-  if (connectAuth && connectAuth.sharedSecret) {
-    return new ConnectJiraClient(connectAuth);
+  // Generate the merged report and summed timesheet of all parents
+  const portfolio = await portfolioService.generatePortfolio(
+    jiraClient, parentKeys, template, getChildIssueOptions(template), referenceDate
+  );
+  await addWorklogTimesheet(jiraClient, template, portfolio.timesheet, portfolio.children, request.worklogRange);
+  
+  return {
+    ...request,
+    portfolio,
+    columns: getReportColumns(template, portfolio.report, referenceDate),
+    groupLevels: getReportGroupLevels(template),
+  };
+};
+
+/**
+ * Build the JQL report of a request (jql query parameter or the template's JQL source)
+ * 
+ * @throws ReportRequestError if there is no JQL query or a date parameter is invalid (400) or the template is not found (404)
+ */
+const buildJqlReport = async (req: Request): Promise<JqlReport> => {
+  const request = getReportRequest(req);
+  const { template, referenceDate } = request;
+  const jiraClient = getJiraClient(req);
+  
+  let jql: string;
+  try {
+    jql = getReportJql(req, template);
+  } catch (error: any) {
+    throw new ReportRequestError(400, error.message);
   }
   
-  // Last resort: use default client
-  return new JiraClient();
+  // Search issues (Jira validation errors are returned as 400), grouped by the template category field
+  const { issues, truncated } = await jiraClient.searchIssues(jql, { expandChangelog: getChildIssueOptions(template).expandChangelog });
+  const report = reportService.generateReport(issues, toJqlTemplate(template), referenceDate);
+  
+  // Generate timesheet (totals of all matching issues)
+  const timesheet = timesheetService.generateTimesheet(null, issues, template.statusMapping, resolveTimeFormat(template.timesheet));
+  await addWorklogTimesheet(jiraClient, template, timesheet, issues, request.worklogRange);
+  
+  return {
+    ...request,
+    jql,
+    issues,
+    truncated,
+    report,
+    columns: getReportColumns(template, report, referenceDate),
+    groupLevels: getReportGroupLevels(template),
+    timesheet,
+  };
+};
+
+/**
+ * Send the error of a report route
+ * Request errors keep their status, Jira errors are mapped by message
+ */
+const sendReportError = (res: Response, error: any): void => {
+  const statusCode = error instanceof ReportRequestError ? error.status
+                   : error.message.startsWith('Invalid JQL query') ? 400
+                   : error.message.includes('does not exist') ? 404
+                   : error.message.includes('permission') ? 403
+                   : 500;
+  res.status(statusCode).json({ error: error.message });
+};
+
+/**
+ * Get the details of a parent ticket shown above its report
+ */
+const toParentIssueInfo = (issue: JiraIssue, template: ReportTemplate) => {
+  const additionalFields = extractIssueFields(issue);
+  return {
+    key: issue.key,
+    summary: issue.fields.summary,
+    status: issue.fields.status.name,
+    statusCategory: issue.fields.status.statusCategory.name,
+    section: resolveStatusSection(issue.fields.status, template.statusMapping),
+    issuetype: issue.fields.issuetype?.name || 'Unknown',
+    labels: issue.fields.labels || [],
+    assignee: additionalFields.assignee,
+    startDate: additionalFields.startDate,
+    endDate: additionalFields.duedate,
+    confidence: additionalFields.confidence,
+  };
 };
 
 // Authentication endpoint - validates credentials
@@ -194,7 +398,7 @@ router.post('/auth', async (req: Request, res: Response) => {
 });
 
 // Middleware chain: try Connect JWT, then legacy auth
-router.get('/issue/:issueKey', verifyConnectJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+router.get('/issue/:issueKey', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
   try {
     const { issueKey } = req.params;
     const jiraClient = getJiraClient(req);
@@ -205,174 +409,301 @@ router.get('/issue/:issueKey', verifyConnectJWT, extractJiraCredentials, getJira
   }
 });
 
-router.get('/issue/:issueKey/children', verifyConnectJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+router.get('/issue/:issueKey/children', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
   try {
     const { issueKey } = req.params;
     const jiraClient = getJiraClient(req);
-    const children = await jiraClient.getIssueChildren(issueKey);
+    const { issues: children } = await jiraClient.getIssueChildren(issueKey);
     res.json(children);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-router.get('/report/:issueKey', verifyConnectJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+router.get('/report/:issueKey', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
   try {
-    const { issueKey } = req.params;
-    const { templateId } = req.query; // Optional template ID
-    const jiraClient = getJiraClient(req);
+    const { template, referenceDate, issue, children, truncated, report, columns, groupLevels, timesheet } = await buildIssueReport(req);
     
-    // Validate and normalize issue key
-    const normalizedKey = issueKey.trim().toUpperCase();
-    if (!normalizedKey || !/^[A-Z]+-\d+$/.test(normalizedKey)) {
-      return res.status(400).json({ 
-        error: `Invalid ticket key format: "${issueKey}". Expected format: PROJ-123` 
-      });
-    }
+    res.json({
+      parentIssue: toParentIssueInfo(issue, template),
+      columns,
+      groupLevels,
+      report,
+      timesheet,
+      weekNumbers: getWeekNumbers(referenceDate),
+      childrenCount: children.length,
+      filteredOutCount: reportService.countFilteredIssues(children, template, referenceDate),
+      truncated,
+    });
+  } catch (error: any) {
+    sendReportError(res, error);
+  }
+});
+
+router.get('/export/:issueKey', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { referenceDate, issue, report, columns, groupLevels, timesheet } = await buildIssueReport(req);
     
-    // Verify the issue exists and get its type
-    const issue = await jiraClient.getIssue(normalizedKey);
+    // Generate Word document with full issue details
+    const buffer = await wordExportService.generateDocument(report, columns, groupLevels, issue, timesheet, referenceDate);
     
-    // Get all children
-    const children = await jiraClient.getIssueChildren(normalizedKey);
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    res.setHeader('Content-Disposition', `attachment; filename="ABC-Manager-Weekly-${issue.key}.docx"`);
+    res.send(buffer);
+  } catch (error: any) {
+    sendReportError(res, error);
+  }
+});
+
+router.get('/export-ppt/:issueKey', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { referenceDate, issue, report, columns, groupLevels, timesheet } = await buildIssueReport(req);
     
-    // Get template if provided, otherwise use default
-    let template;
-    if (templateId && typeof templateId === 'string') {
-      const userId = getUserId(req);
-      template = templateService.getTemplate(templateId, userId);
-      if (!template) {
-        return res.status(404).json({ error: 'Template not found or access denied' });
-      }
-    } else {
-      // Use default template for user
-      const userId = getUserId(req);
-      template = templateService.getDefaultTemplate(userId);
-    }
+    // Generate PPT presentation
+    const buffer = await pptExportService.generatePresentation(report, columns, groupLevels, issue, timesheet, referenceDate);
     
-    // Generate report using template
-    const report = reportService.generateReport(children, template);
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.presentationml.presentation');
+    res.setHeader('Content-Disposition', `attachment; filename="ABC-Manager-Weekly-${issue.key}.pptx"`);
+    res.send(buffer);
+  } catch (error: any) {
+    sendReportError(res, error);
+  }
+});
+
+router.get('/export-pdf/:issueKey', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { referenceDate, issue, report, columns, groupLevels, timesheet } = await buildIssueReport(req);
     
-    // Generate timesheet
-    const timesheet = timesheetService.generateTimesheet(issue, children);
+    // Generate PDF document
+    const buffer = await pdfExportService.generateDocument(report, columns, groupLevels, issue, timesheet, referenceDate);
     
-    // Get current week numbers
-    const weekNumbers = getWeekNumbers();
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="ABC-Manager-Weekly-${issue.key}.pdf"`);
+    res.send(buffer);
+  } catch (error: any) {
+    sendReportError(res, error);
+  }
+});
+
+router.get('/export-xlsx/:issueKey', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { template, referenceDate, issue, children, report, columns, groupLevels, timesheet } = await buildIssueReport(req);
     
-    // Extract additional fields
-    const additionalFields = extractIssueFields(issue);
+    // Generate Excel workbook (with the raw list of the report issues)
+    const reportIssues = reportService.listReportIssues(children, template, referenceDate);
+    const buffer = await excelExportService.generateWorkbook(report, columns, groupLevels, reportIssues, issue, timesheet, referenceDate);
     
-    res.json({
-      parentIssue: {
-        key: issue.key,
-        summary: issue.fields.summary,
-        status: issue.fields.status.name,
-        statusCategory: issue.fields.status.statusCategory.name,
-        issuetype: issue.fields.issuetype?.name || 'Unknown',
-        labels: issue.fields.labels || [],
-        assignee: additionalFields.assignee,
-        startDate: additionalFields.startDate,
-        endDate: additionalFields.duedate,
-        confidence: additionalFields.confidence,
-      },
-      report,
-      timesheet,
-      weekNumbers,
-      childrenCount: children.length,
-    });
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="ABC-Manager-Weekly-${issue.key}.xlsx"`);
+    res.send(buffer);
   } catch (error: any) {
-    const statusCode = error.message.includes('does not exist') ? 404 
-                     : error.message.includes('permission') ? 403 
-                     : 500;
-    res.status(statusCode).json({ error: error.message });
+    sendReportError(res, error);
   }
 });
 
-router.get('/export/:issueKey', verifyConnectJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+/**
+ * Weekly report as text, to paste in a wiki
+ * Query: format=markdown (GitHub-flavoured Markdown, default) or format=confluence (Confluence storage format),
+ * plus the usual templateId, week/asOf and worklog period
+ * Returns { format, content } so the page can both download and copy the text
+ */
+router.get('/export-markup/:issueKey', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
   try {
-    const { issueKey } = req.params;
-    const { templateId } = req.query; // Optional template ID
-    const jiraClient = getJiraClient(req);
-    
-    // Verify the issue exists and get full details
-    const issue = await jiraClient.getIssue(issueKey);
+    const format = (req.query.format as string | undefined) || 'markdown';
+    if (!MARKUP_FORMATS.includes(format as MarkupFormat)) {
+      return res.status(400).json({ error: `Invalid format: ${format} (expected ${MARKUP_FORMATS.join(' or ')})` });
+    }
+    const { referenceDate, issue, report, columns, groupLevels, timesheet } = await buildIssueReport(req);
     
-    // Get all children
-    const children = await jiraClient.getIssueChildren(issueKey);
+    // Generate Markdown or Confluence storage format
+    const content = markupExportService.generateDocument(format as MarkupFormat, report, columns, groupLevels, issue, timesheet, referenceDate);
     
-    // Get template if provided, otherwise use default
-    let template;
-    if (templateId && typeof templateId === 'string') {
-      const userId = getUserId(req);
-      template = templateService.getTemplate(templateId, userId);
-      if (!template) {
-        return res.status(404).json({ error: 'Template not found or access denied' });
-      }
-    } else {
-      const userId = getUserId(req);
-      template = templateService.getDefaultTemplate(userId);
+    res.json({ format, content });
+  } catch (error: any) {
+    sendReportError(res, error);
+  }
+});
+
+/**
+ * Publish the weekly report to Confluence, in the space and under the parent page of the template
+ * The page of the report week is created, or updated when it was already published
+ * Query: the usual templateId, week/asOf and worklog period
+ * Returns the page ID, title, version and URL
+ */
+router.post('/publish-confluence/:issueKey', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+  try {
+    // Check the template before fetching the report
+    const template = getReportTemplate(req);
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found or access denied' });
     }
+    const publishing = template.confluence;
+    if (!publishing?.enabled) {
+      return res.status(400).json({ error: 'Confluence publishing is not enabled in this template' });
+    }
+    const { referenceDate, issue, report, columns, groupLevels, timesheet } = await buildIssueReport(req, template);
     
-    // Generate report using template
-    const report = reportService.generateReport(children, template);
+    // Create or update the page of the report week
+    const content = markupExportService.generateDocument('confluence', report, columns, groupLevels, issue, timesheet, referenceDate);
+    const publisher = new ConfluencePublisher(getJiraClient(req).getConfluenceClient());
+    const result = await publisher.publishPage({
+      spaceKey: publishing.spaceKey.trim(),
+      parentPageId: publishing.parentPageId || undefined,
+      title: formatPageTitle(publishing.titlePattern, issue, referenceDate),
+      content,
+    });
     
-    // Generate timesheet
-    const timesheet = timesheetService.generateTimesheet(issue, children);
+    res.json(result);
+  } catch (error: any) {
+    // Pages rejected by Confluence keep its status: missing space or parent page (404), page still changing (409)...
+    // Denied access is answered as 403, the user being signed in to the app
+    if (error instanceof ConfluencePublishError && error.status && error.status >= 400 && error.status < 500) {
+      return res.status(error.status === 401 ? 403 : error.status).json({ error: error.message });
+    }
+    sendReportError(res, error);
+  }
+});
+
+/**
+ * Portfolio report: one report for several parent tickets
+ * Query: keys=PROJ-1,PROJ-2 or jql=..., plus the usual templateId and week/asOf
+ */
+router.get('/portfolio/report', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { template, referenceDate, portfolio, columns, groupLevels } = await buildPortfolioReport(req);
     
-    // Generate Word document with full issue details
-    const buffer = await wordExportService.generateDocument(report, issue, timesheet);
+    res.json({
+      parentIssues: portfolio.parents.map(issue => toParentIssueInfo(issue, template)),
+      columns,
+      groupLevels,
+      report: portfolio.report,
+      timesheet: portfolio.timesheet,
+      weekNumbers: getWeekNumbers(referenceDate),
+      childrenCount: portfolio.children.length,
+      filteredOutCount: portfolio.filteredOutCount,
+      truncated: portfolio.truncated,
+    });
+  } catch (error: any) {
+    sendReportError(res, error);
+  }
+});
+
+router.get('/portfolio/export', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { referenceDate, portfolio, columns, groupLevels } = await buildPortfolioReport(req);
+    
+    // Generate one Word document covering all parents
+    const buffer = await wordExportService.generatePortfolioDocument(portfolio.report, columns, groupLevels, portfolio.parents, portfolio.timesheet, referenceDate);
     
     res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
-    res.setHeader('Content-Disposition', `attachment; filename="ABC-Manager-Weekly-${issueKey}.docx"`);
+    res.setHeader('Content-Disposition', 'attachment; filename="ABC-Manager-Weekly-Portfolio.docx"');
     res.send(buffer);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    sendReportError(res, error);
   }
 });
 
-router.get('/export-ppt/:issueKey', verifyConnectJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+router.get('/portfolio/export-ppt', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
   try {
-    const { issueKey } = req.params;
-    const { templateId } = req.query; // Optional template ID
-    const jiraClient = getJiraClient(req);
+    const { referenceDate, portfolio, columns, groupLevels } = await buildPortfolioReport(req);
     
-    // Verify the issue exists and get full details
-    const issue = await jiraClient.getIssue(issueKey);
+    // Generate one PPT presentation covering all parents
+    const buffer = await pptExportService.generatePortfolioPresentation(portfolio.report, columns, groupLevels, portfolio.parents, portfolio.timesheet, referenceDate);
     
-    // Get all children
-    const children = await jiraClient.getIssueChildren(issueKey);
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.presentationml.presentation');
+    res.setHeader('Content-Disposition', 'attachment; filename="ABC-Manager-Weekly-Portfolio.pptx"');
+    res.send(buffer);
+  } catch (error: any) {
+    sendReportError(res, error);
+  }
+});
+
+/**
+ * JQL report: report built from the issues matching a JQL query, without a parent ticket
+ * Query: jql=... (defaults to the template's JQL source), plus the usual templateId and week/asOf
+ */
+router.get('/jql/report', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { template, referenceDate, jql, issues, truncated, report, columns, groupLevels, timesheet } = await buildJqlReport(req);
     
-    // Get template if provided, otherwise use default
-    let template;
-    if (templateId && typeof templateId === 'string') {
-      const userId = getUserId(req);
-      template = templateService.getTemplate(templateId, userId);
-      if (!template) {
-        return res.status(404).json({ error: 'Template not found or access denied' });
-      }
-    } else {
-      const userId = getUserId(req);
-      template = templateService.getDefaultTemplate(userId);
-    }
+    res.json({
+      jql,
+      columns,
+      groupLevels,
+      report,
+      timesheet,
+      weekNumbers: getWeekNumbers(referenceDate),
+      childrenCount: issues.length,
+      filteredOutCount: reportService.countFilteredIssues(issues, toJqlTemplate(template), referenceDate),
+      truncated,
+    });
+  } catch (error: any) {
+    sendReportError(res, error);
+  }
+});
+
+router.get('/jql/export', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { referenceDate, jql, report, columns, groupLevels, timesheet } = await buildJqlReport(req);
     
-    // Generate report using template
-    const report = reportService.generateReport(children, template);
+    // Generate Word document for the query
+    const buffer = await wordExportService.generateJqlDocument(report, columns, groupLevels, jql, timesheet, referenceDate);
     
-    // Generate timesheet
-    const timesheet = timesheetService.generateTimesheet(issue, children);
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    res.setHeader('Content-Disposition', 'attachment; filename="ABC-Manager-Weekly-JQL.docx"');
+    res.send(buffer);
+  } catch (error: any) {
+    sendReportError(res, error);
+  }
+});
+
+router.get('/jql/export-ppt', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { referenceDate, jql, report, columns, groupLevels, timesheet } = await buildJqlReport(req);
     
-    // Generate PPT presentation
-    const buffer = await pptExportService.generatePresentation(report, issue, timesheet);
+    // Generate PPT presentation for the query
+    const buffer = await pptExportService.generateJqlPresentation(report, columns, groupLevels, jql, timesheet, referenceDate);
     
     res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.presentationml.presentation');
-    res.setHeader('Content-Disposition', `attachment; filename="ABC-Manager-Weekly-${issueKey}.pptx"`);
+    res.setHeader('Content-Disposition', 'attachment; filename="ABC-Manager-Weekly-JQL.pptx"');
     res.send(buffer);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    sendReportError(res, error);
+  }
+});
+
+/**
+ * Get the fields of the Jira site for the template editor field picker
+ * 
+ * GET /api/jira/fields
+ * GET /api/jira/fields?project=ABC   (fields of the create screens of the project)
+ * GET /api/jira/fields?issueKey=ABC-123   (fields of the edit screen of the issue)
+ */
+router.get('/fields', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+  try {
+    const project = normalizeJiraKey(req.query.project);
+    const issueKey = normalizeJiraKey(req.query.issueKey);
+    
+    if (project && !PROJECT_KEY_PATTERN.test(project)) {
+      return res.status(400).json({ error: `Invalid project key format: "${project}". Expected format: PROJ` });
+    }
+    if (issueKey && !ISSUE_KEY_PATTERN.test(issueKey)) {
+      return res.status(400).json({ error: `Invalid ticket key format: "${issueKey}". Expected format: PROJ-123` });
+    }
+    
+    const jiraClient = getJiraClient(req);
+    const fields = await fieldService.getFields(jiraClient, {
+      projectKey: project || undefined,
+      issueKey: issueKey || undefined,
+    });
+    res.json(fields);
+  } catch (error: any) {
+    const statusCode = error.message.includes('does not exist') ? 404 : 500;
+    res.status(statusCode).json({ error: error.message });
   }
 });
 
-router.get('/search/:query', verifyConnectJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+router.get('/search/:query', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
   try {
     const { query } = req.params;
     const { project } = req.query;
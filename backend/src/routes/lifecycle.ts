@@ -7,21 +7,43 @@
  * 
  * Installation Event (/installed):
  * - Jira sends installation data including sharedSecret, clientKey, and baseUrl
- * - This is when you should store the sharedSecret for JWT verification
+ * - The installation is stored (keyed by clientKey) for JWT verification
  * - The sharedSecret is unique per installation and must be kept secure
  * 
  * Uninstallation Event (/uninstalled):
  * - Jira sends the clientKey to identify which installation was removed
- * - This is when you should clean up any stored data for that installation
+ * - The stored installation is deleted
  * 
- * Note: These endpoints don't require authentication because Jira verifies
- * the requests are coming from a legitimate Jira instance.
+ * Note: Lifecycle requests must be signed by Atlassian (signed install, enabled with the
+ * "signed-install" API migration of atlassian-connect.json): unsigned requests are rejected
+ * before anything is stored, otherwise anyone could register a clientKey with their own
+ * baseUrl and sharedSecret, or replace or remove an existing installation.
  */
 
 import { Router, Request, Response } from 'express';
+import { getConnectToken, verifyInstallToken } from '../middleware/connectAuth';
+import { installationService } from '../services/installationService';
 
 const router = Router();
 
+/**
+ * Verify that a lifecycle request is signed by Atlassian for the installation of the request body
+ *
+ * @param req - Lifecycle request
+ * @param clientKey - clientKey from the request body
+ * @throws {Error} If the request has no valid signed install JWT, or a JWT of another installation
+ */
+const verifyLifecycleRequest = async (req: Request, clientKey: string): Promise<void> => {
+  const token = getConnectToken(req);
+  if (!token) {
+    throw new Error('Signed install JWT token is required for lifecycle requests');
+  }
+  const verified = await verifyInstallToken(req, token);
+  if (verified.iss !== clientKey) {
+    throw new Error('Invalid install JWT token: issued for another installation');
+  }
+};
+
 /**
  * Handle App Installation
  * 
@@ -30,7 +52,8 @@ const router = Router();
  * - clientKey: Unique identifier for this installation
  * - sharedSecret: Secret used to verify JWT tokens (CRITICAL - must be stored securely)
  * - baseUrl: URL of the Jira instance
- * - key: Same as clientKey (for compatibility)
+ * - key: App key from atlassian-connect.json
+ * - displayUrl: Display URL of the Jira instance (if different from baseUrl)
  * - oauthClientId: OAuth client ID (if using OAuth)
  * - publicKey: Public key (if using public key verification)
  * 
@@ -39,7 +62,7 @@ const router = Router();
 router.post('/installed', async (req: Request, res: Response) => {
   try {
     // Extract installation data from request body
-    const { clientKey, sharedSecret, baseUrl, key, oauthClientId, publicKey } = req.body;
+    const { clientKey, sharedSecret, baseUrl, key, displayUrl, oauthClientId, publicKey } = req.body;
     
     console.log('App installed:', {
       clientKey,
@@ -49,21 +72,27 @@ router.post('/installed', async (req: Request, res: Response) => {
       hasOAuthClientId: !!oauthClientId,
     });
 
-    // IMPORTANT: Store installation data securely
-    // In production, you should:
-    // 1. Store clientKey and sharedSecret in a secure database
-    // 2. Encrypt the sharedSecret before storing
-    // 3. Store baseUrl to identify the Jira instance
-    // 4. Set up any necessary database records
-    // 5. Update configuration or environment variables
-    // 
-    // For now, we just log it. In production, implement database storage:
-    // await db.installations.create({
-    //   clientKey,
-    //   sharedSecret: encrypt(sharedSecret), // Encrypt before storing
-    //   baseUrl,
-    //   installedAt: new Date(),
-    // });
+    if (!clientKey || !baseUrl || !sharedSecret) {
+      return res.status(400).json({ error: 'clientKey, baseUrl and sharedSecret are required' });
+    }
+
+    try {
+      await verifyLifecycleRequest(req, clientKey);
+    } catch (verifyError: any) {
+      console.warn('Installation rejected:', verifyError.message);
+      return res.status(401).json({ error: verifyError.message });
+    }
+
+    // Store installation data (a reinstallation replaces the sharedSecret)
+    installationService.saveInstallation({
+      clientKey,
+      sharedSecret,
+      baseUrl,
+      key,
+      displayUrl,
+      oauthClientId,
+      publicKey,
+    });
 
     // Return 204 No Content (success, no response body needed)
     res.status(204).send();
@@ -79,11 +108,7 @@ router.post('/installed', async (req: Request, res: Response) => {
  * This endpoint is called by Jira when the app is uninstalled from a Jira instance.
  * Jira sends the clientKey to identify which installation was removed.
  * 
- * You should use this opportunity to:
- * - Delete stored installation data
- * - Clean up any cached data for that installation
- * - Revoke any OAuth tokens
- * - Free up any resources
+ * The stored installation data (including the sharedSecret) is deleted.
  * 
  * POST /lifecycle/uninstalled
  */
@@ -94,15 +119,19 @@ router.post('/uninstalled', async (req: Request, res: Response) => {
     
     console.log('App uninstalled:', { clientKey });
 
-    // IMPORTANT: Clean up installation data
-    // In production, you should:
-    // 1. Delete installation record from database
-    // 2. Delete any cached data for this installation
-    // 3. Revoke OAuth tokens if applicable
-    // 4. Clean up any resources
-    //
-    // For now, we just log it. In production, implement cleanup:
-    // await db.installations.delete({ clientKey });
+    if (!clientKey) {
+      return res.status(400).json({ error: 'clientKey is required' });
+    }
+
+    try {
+      await verifyLifecycleRequest(req, clientKey);
+    } catch (verifyError: any) {
+      console.warn('Uninstallation rejected:', verifyError.message);
+      return res.status(401).json({ error: verifyError.message });
+    }
+
+    // Delete installation data (tokens of this installation are rejected from now on)
+    installationService.deleteInstallation(clientKey);
 
     // Return 204 No Content (success, no response body needed)
     res.status(204).send();
@@ -0,0 +1,128 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { DEFAULT_TEMPLATE, TEMPLATE_BUNDLE_FORMAT, TEMPLATE_BUNDLE_VERSION, TemplateFieldError } from '../types/template';
+
+let server: http.Server;
+let baseUrl: string;
+
+before(async () => {
+  // Templates are stored in a database of the test only (the path is read when the config is loaded)
+  process.env.DATABASE_PATH = ':memory:';
+  const { default: templateRoutes } = await import('./templates');
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/templates', templateRoutes);
+
+  server = app.listen(0, '127.0.0.1');
+  await new Promise<void>(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+/**
+ * Response body of a rejected request
+ */
+interface ErrorBody {
+  error: string;
+  errors?: TemplateFieldError[];
+}
+
+/**
+ * Send a request with the credentials of a standalone user
+ */
+const send = async (method: string, path: string, body?: unknown) => {
+  const response = await fetch(`${baseUrl}/api/templates${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${Buffer.from('user@example.com:token').toString('base64')}`,
+      'Content-Type': 'application/json',
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const template = { ...DEFAULT_TEMPLATE, name: 'Weekly report' };
+
+test('creating a template with an invalid setting answers 422 with the error of the setting', async () => {
+  const { status, body } = await send('POST', '', {
+    ...template,
+    fieldMapping: { ...template.fieldMapping, multiValueHandling: 'foo' },
+  });
+
+  assert.equal(status, 422);
+  assert.deepEqual(body as ErrorBody, {
+    error: 'Invalid template: fieldMapping.multiValueHandling: Must be one of: join, first, all',
+    errors: [{ path: 'fieldMapping.multiValueHandling', code: 'invalidValue', message: 'Must be one of: join, first, all' }],
+  });
+});
+
+test('creating a template reports missing settings, unknown settings and invalid field paths', async () => {
+  const withoutSelection: Partial<typeof template> = { ...template };
+  delete withoutSelection.issueSelection;
+
+  const { status, body } = await send('POST', '', {
+    ...withoutSelection,
+    fieldMapping: { ...template.fieldMapping, categoryField: 'fields..summary' },
+    color: 'blue',
+  });
+
+  assert.equal(status, 422);
+  assert.equal((body as ErrorBody).error, 'Invalid template: fieldMapping.categoryField: "fields..summary" is not a valid field path '
+    + '(expected e.g. "fields.summary", "fields.parent.fields.summary" or "fields.labels[0]") (and 2 more)');
+  assert.deepEqual((body as ErrorBody).errors?.map(error => [error.path, error.code]), [
+    ['fieldMapping.categoryField', 'invalidFieldPath'],
+    ['issueSelection', 'required'],
+    ['color', 'unknownKey'],
+  ]);
+});
+
+test('updating a template rejects read-only settings and incomplete sections', async () => {
+  const created = await send('POST', '', template);
+  assert.equal(created.status, 201);
+  const { id } = created.body as { id: string };
+
+  const { status, body } = await send('PUT', `/${id}`, {
+    userId: 'someone-else',
+    timesheet: { hoursPerDay: 8 },
+  });
+
+  assert.equal(status, 422);
+  assert.equal((body as ErrorBody).error, 'Invalid template: timesheet.mode: Is required (and 1 more)');
+  assert.deepEqual((body as ErrorBody).errors, [
+    { path: 'timesheet.mode', code: 'required', message: 'Is required' },
+    { path: 'userId', code: 'readOnly', message: 'Can\'t be changed' },
+  ]);
+
+  // The template is unchanged
+  const stored = await send('GET', `/${id}`);
+  assert.equal((stored.body as { userId: string }).userId, 'user@example.com');
+});
+
+test('importing a bundle answers 400 for a document that is not a bundle and 422 for invalid settings', async () => {
+  const notABundle = await send('POST', '/import', { template });
+  assert.equal(notABundle.status, 400);
+  assert.deepEqual(notABundle.body, { error: `Invalid template bundle: "format" must be "${TEMPLATE_BUNDLE_FORMAT}"` });
+
+  const invalidSettings = await send('POST', '/import', {
+    format: TEMPLATE_BUNDLE_FORMAT,
+    formatVersion: TEMPLATE_BUNDLE_VERSION,
+    template: { ...template, sectionTiming: { mode: 'calendar', olderIssues: 'drop' } },
+  });
+  assert.equal(invalidSettings.status, 422);
+  assert.equal((invalidSettings.body as ErrorBody).error, 'Invalid template: template.sectionTiming.mode: Must be one of: status, timeWindow');
+});
+
+test('validating a template payload lists the errors without saving it', async () => {
+  const { status, body } = await send('POST', '/validate', { ...template, name: ' ' });
+
+  assert.equal(status, 200);
+  assert.deepEqual(body, { valid: false, errors: [{ path: 'name', code: 'invalidValue', message: 'Must not be empty' }] });
+});
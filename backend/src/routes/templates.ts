@@ -2,36 +2,47 @@
  * Template Routes
  * 
  * API routes for managing report templates.
- * Supports CRUD operations for templates with user-based authorization.
+ * Supports CRUD operations for templates with user-based authorization,
+ * the version history of each template (list, diff, restore),
+ * and import/export of templates as portable JSON bundles.
+ * Template payloads are checked with validateTemplate; violations are answered with
+ * 422 and the list of errors per setting.
+ * Unsaved templates can be previewed against a sample issue.
  */
 
 import { Router, Request, Response } from 'express';
 import { TemplateService } from '../services/templateService';
-import { ReportTemplate } from '../types/template';
-import { verifyConnectJWT, getConnectAuth } from '../middleware/connectAuth';
+import { TemplatePreviewService } from '../services/templatePreviewService';
+import {
+  ReportTemplate,
+  TemplateBundleContent,
+  TemplateFieldError,
+  DEFAULT_STATUS_MAPPING,
+  DEFAULT_TEMPLATE,
+} from '../types/template';
+import { verifyConnectContextJWT, getConnectAuth } from '../middleware/connectAuth';
 import { extractJiraCredentials } from '../middleware/auth';
+import { getJiraClientMiddleware, getJiraClient } from '../middleware/jiraClient';
+import { getTemplateScope } from '../utils/templateScope';
+import { createTemplateBundle, parseTemplateBundle, getTemplateBundleFileName } from '../utils/templateBundle';
+import { validateTemplate, describeTemplateErrors } from '../utils/templateValidation';
+import { parseReferenceDate } from '../utils/weekUtils';
+import { ISSUE_KEY_PATTERN, normalizeJiraKey } from '../utils/issueKey';
 
 const router = Router();
 const templateService = new TemplateService();
+const templatePreviewService = new TemplatePreviewService();
 
 /**
- * Get user ID from request
- * In Connect mode, use Jira user account ID
- * In standalone mode, use email from credentials
+ * Answer 422 with the validation errors of a template payload
+ * 
+ * @param pathPrefix - Prefix of the setting paths (e.g., "template." for a bundle)
  */
-const getUserId = (req: Request): string => {
-  // Try Connect mode first (from JWT)
-  if (req.context && req.jwt) {
-    return req.jwt.sub || req.context.clientKey || 'connect-user';
-  }
-  
-  // Fall back to standalone mode (email from credentials)
-  if (req.jiraCredentials && req.jiraCredentials.email) {
-    return req.jiraCredentials.email;
-  }
-  
-  // Default fallback - use a default user ID so we can still get default template
-  return 'default-user';
+const sendTemplateErrors = (res: Response, errors: TemplateFieldError[], pathPrefix: string = '') => {
+  res.status(422).json({
+    error: describeTemplateErrors(errors, pathPrefix),
+    errors: errors.map(error => ({ ...error, path: `${pathPrefix}${error.path}` })),
+  });
 };
 
 /**
@@ -39,11 +50,11 @@ const getUserId = (req: Request): string => {
  * 
  * GET /api/templates
  */
-router.get('/', verifyConnectJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+router.get('/', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
   try {
-    const userId = getUserId(req);
+    const scope = getTemplateScope(req);
     const includeShared = req.query.includeShared !== 'false';
-    const templates = templateService.getTemplatesForUser(userId, includeShared);
+    const templates = templateService.getTemplatesForUser(scope, includeShared);
     res.json(templates);
   } catch (error: any) {
     console.error('Error getting templates:', error);
@@ -57,10 +68,10 @@ router.get('/', verifyConnectJWT, extractJiraCredentials, async (req: Request, r
  * IMPORTANT: This route must come BEFORE /:templateId to avoid routing conflicts
  * GET /api/templates/default
  */
-router.get('/default', verifyConnectJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+router.get('/default', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
   try {
-    const userId = getUserId(req);
-    const template = templateService.getDefaultTemplate(userId);
+    const scope = getTemplateScope(req);
+    const template = templateService.getDefaultTemplate(scope);
     res.json(template);
   } catch (error: any) {
     console.error('Error getting default template:', error);
@@ -68,25 +79,164 @@ router.get('/default', verifyConnectJWT, extractJiraCredentials, async (req: Req
   }
 });
 
+/**
+ * Get the deleted templates of the current user (the last version of each template)
+ * Their history can still be read and restored under /:templateId/versions
+ * 
+ * IMPORTANT: This route must come BEFORE /:templateId to avoid routing conflicts
+ * GET /api/templates/deleted
+ */
+router.get('/deleted', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+  try {
+    const scope = getTemplateScope(req);
+    res.json(templateService.getDeletedTemplates(scope));
+  } catch (error: any) {
+    console.error('Error getting deleted templates:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get the default status mapping rules
+ *
+ * Status rules are only evaluated by the backend (the report and timesheet carry the resolved
+ * section of each issue); the template editor starts new mappings from these rules.
+ *
+ * IMPORTANT: This route must come BEFORE /:templateId to avoid routing conflicts
+ * GET /api/templates/status-mapping/default
+ */
+router.get('/status-mapping/default', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+  res.json(DEFAULT_STATUS_MAPPING);
+});
+
+/**
+ * Import a template bundle as a new template of the current user
+ * 
+ * POST /api/templates/import
+ * 
+ * Body: TemplateBundle (as exported by GET /api/templates/:templateId/export)
+ */
+router.post('/import', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+  try {
+    const scope = getTemplateScope(req);
+    
+    let content: TemplateBundleContent;
+    try {
+      content = parseTemplateBundle(req.body);
+    } catch (parseError: any) {
+      return res.status(400).json({ error: parseError.message });
+    }
+    
+    const errors = validateTemplate(content);
+    if (errors.length > 0) {
+      return sendTemplateErrors(res, errors, 'template.');
+    }
+    
+    const template = templateService.importTemplate(scope, content);
+    res.status(201).json(template);
+  } catch (error: any) {
+    console.error('Error importing template:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Validate a template payload without saving it (used by the template editor)
+ * 
+ * POST /api/templates/validate
+ * 
+ * Body: same as POST /api/templates
+ * Response: { valid: boolean; errors: TemplateFieldError[] }
+ */
+router.post('/validate', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+  try {
+    const errors = validateTemplate(req.body, { ignoredKeys: ['userId'] });
+    res.json({ valid: errors.length === 0, errors });
+  } catch (error: any) {
+    console.error('Error validating template:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Preview an unsaved template on the children of a sample issue
+ * 
+ * POST /api/templates/preview?asOf=2025-11-14 (or ?week=2025-W46, defaults to the current week)
+ * 
+ * Body: {
+ *   template: same as the body of POST /api/templates;
+ *   issueKey: string; // Sample parent issue (e.g., "PROJ-123")
+ * }
+ * Response: TemplatePreview (report rows and the values resolved for each mapped field path)
+ */
+router.post('/preview', verifyConnectContextJWT, extractJiraCredentials, getJiraClientMiddleware, async (req: Request, res: Response) => {
+  try {
+    const scope = getTemplateScope(req);
+    const { template: settings, issueKey } = req.body || {};
+    
+    const errors = validateTemplate(settings, { ignoredKeys: ['id', 'userId', 'createdAt', 'updatedAt'] });
+    if (errors.length > 0) {
+      return sendTemplateErrors(res, errors, 'template.');
+    }
+    
+    const normalizedKey = normalizeJiraKey(issueKey);
+    if (!ISSUE_KEY_PATTERN.test(normalizedKey)) {
+      return res.status(400).json({ error: `Invalid ticket key format: "${issueKey ?? ''}". Expected format: PROJ-123` });
+    }
+    
+    let referenceDate: Date | undefined;
+    try {
+      referenceDate = parseReferenceDate(req.query);
+    } catch (parseError: any) {
+      return res.status(400).json({ error: parseError.message });
+    }
+    
+    const now = new Date().toISOString();
+    const template: ReportTemplate = {
+      statusMapping: DEFAULT_STATUS_MAPPING,
+      sectionTiming: DEFAULT_TEMPLATE.sectionTiming,
+      timesheet: DEFAULT_TEMPLATE.timesheet,
+      columns: DEFAULT_TEMPLATE.columns,
+      groupBy: DEFAULT_TEMPLATE.groupBy,
+      confluence: DEFAULT_TEMPLATE.confluence,
+      ...settings,
+      id: 'preview',
+      userId: scope.userId,
+      isShared: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    
+    const preview = await templatePreviewService.previewTemplate(getJiraClient(req), template, normalizedKey, referenceDate);
+    res.json(preview);
+  } catch (error: any) {
+    console.error('Error previewing template:', error);
+    const statusCode = error.message.includes('does not exist') ? 404 
+                     : error.message.includes('permission') ? 403 
+                     : 500;
+    res.status(statusCode).json({ error: error.message });
+  }
+});
+
 /**
  * Get a specific template by ID
  * 
  * IMPORTANT: This route must come AFTER /default to avoid routing conflicts
  * GET /api/templates/:templateId
  */
-router.get('/:templateId', verifyConnectJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+router.get('/:templateId', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
   try {
     const { templateId } = req.params;
     
     // Don't treat "default" as a templateId - redirect to getDefaultTemplate logic
     if (templateId === 'default') {
-      const userId = getUserId(req);
-      const template = templateService.getDefaultTemplate(userId);
+      const scope = getTemplateScope(req);
+      const template = templateService.getDefaultTemplate(scope);
       return res.json(template);
     }
     
-    const userId = getUserId(req);
-    const template = templateService.getTemplate(templateId, userId);
+    const scope = getTemplateScope(req);
+    const template = templateService.getTemplate(templateId, scope);
     
     if (!template) {
       return res.status(404).json({ error: 'Template not found or access denied' });
@@ -99,6 +249,29 @@ router.get('/:templateId', verifyConnectJWT, extractJiraCredentials, async (req:
   }
 });
 
+/**
+ * Export a template as a portable JSON bundle (file download)
+ * 
+ * GET /api/templates/:templateId/export
+ */
+router.get('/:templateId/export', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+  try {
+    const { templateId } = req.params;
+    const scope = getTemplateScope(req);
+    const template = templateService.getTemplate(templateId, scope);
+    
+    if (!template) {
+      return res.status(404).json({ error: 'Template not found or access denied' });
+    }
+    
+    res.setHeader('Content-Disposition', `attachment; filename="${getTemplateBundleFileName(template)}"`);
+    res.json(createTemplateBundle(template));
+  } catch (error: any) {
+    console.error('Error exporting template:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * Create a new template
  * 
@@ -109,43 +282,41 @@ router.get('/:templateId', verifyConnectJWT, extractJiraCredentials, async (req:
  *   description?: string;
  *   fieldMapping: FieldMappingConfig;
  *   issueSelection: IssueSelectionConfig;
+ *   statusMapping?: StatusMappingConfig;
+ *   sectionTiming?: SectionTimingConfig;
+ *   timesheet?: TimesheetConfig;
+ *   columns?: ReportColumnConfig[];
+ *   groupBy?: GroupLevelConfig[];
+ *   confluence?: ConfluencePublishConfig;
  *   isShared?: boolean;
  * }
  */
-router.post('/', verifyConnectJWT, extractJiraCredentials, async (req: Request, res: Response) => {
-  try {
-    // Get userId from request (either from JWT/Connect context or from credentials)
-    // If userId is provided in body, use it (for backward compatibility)
-    // Otherwise, extract it from the request
-    let userId = req.body.userId;
-    
-    if (!userId) {
-      // Extract userId from request (from JWT or credentials)
-      userId = getUserId(req);
-    } else {
-      // userId provided in body - verify it matches the authenticated user
-      const authenticatedUserId = getUserId(req);
-      // Only allow userId override if it matches authenticated user (for security)
-      if (userId !== authenticatedUserId) {
-        userId = authenticatedUserId;
-      }
-    }
-    
-    const { name, description, fieldMapping, issueSelection, isShared } = req.body;
+router.post('/', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+  try {
+    // The template belongs to the authenticated user (from JWT/Connect context or from credentials)
+    // A userId in the body is ignored (kept in the API for backward compatibility)
+    const scope = getTemplateScope(req);
     
-    if (!name || !fieldMapping || !issueSelection) {
-      return res.status(400).json({ 
-        error: 'Missing required fields: name, fieldMapping, issueSelection' 
-      });
+    const errors = validateTemplate(req.body, { ignoredKeys: ['userId'] });
+    if (errors.length > 0) {
+      return sendTemplateErrors(res, errors);
     }
     
-    const template = templateService.createTemplate({
+    const { name, description, fieldMapping, issueSelection, statusMapping, sectionTiming, timesheet, columns, groupBy, confluence, isShared } = req.body;
+    
+    const template = templateService.createTemplate(scope, {
       name,
       description,
-      userId,
+      userId: scope.userId,
       isShared: isShared || false,
       fieldMapping,
       issueSelection,
+      statusMapping: statusMapping || DEFAULT_STATUS_MAPPING,
+      sectionTiming: sectionTiming || DEFAULT_TEMPLATE.sectionTiming,
+      timesheet: timesheet || DEFAULT_TEMPLATE.timesheet,
+      columns: columns || DEFAULT_TEMPLATE.columns,
+      groupBy: groupBy || DEFAULT_TEMPLATE.groupBy,
+      confluence: confluence || DEFAULT_TEMPLATE.confluence,
     });
     
     res.status(201).json(template);
@@ -165,16 +336,28 @@ router.post('/', verifyConnectJWT, extractJiraCredentials, async (req: Request,
  *   description?: string;
  *   fieldMapping?: FieldMappingConfig;
  *   issueSelection?: IssueSelectionConfig;
+ *   statusMapping?: StatusMappingConfig;
+ *   sectionTiming?: SectionTimingConfig;
+ *   timesheet?: TimesheetConfig;
+ *   columns?: ReportColumnConfig[];
+ *   groupBy?: GroupLevelConfig[];
+ *   confluence?: ConfluencePublishConfig;
  *   isShared?: boolean;
  * }
  */
-router.put('/:templateId', verifyConnectJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+router.put('/:templateId', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
   try {
     const { templateId } = req.params;
-    const userId = getUserId(req);
+    const scope = getTemplateScope(req);
     const updates = req.body;
     
-    const updatedTemplate = templateService.updateTemplate(templateId, userId, updates);
+    // Settings that are sent replace the stored ones, so each section must be complete
+    const errors = validateTemplate(updates, { partial: true });
+    if (errors.length > 0) {
+      return sendTemplateErrors(res, errors);
+    }
+    
+    const updatedTemplate = templateService.updateTemplate(templateId, scope, updates);
     
     if (!updatedTemplate) {
       return res.status(404).json({ error: 'Template not found or access denied' });
@@ -191,12 +374,12 @@ router.put('/:templateId', verifyConnectJWT, extractJiraCredentials, async (req:
  * 
  * DELETE /api/templates/:templateId
  */
-router.delete('/:templateId', verifyConnectJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+router.delete('/:templateId', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
   try {
     const { templateId } = req.params;
-    const userId = getUserId(req);
+    const scope = getTemplateScope(req);
     
-    const deleted = templateService.deleteTemplate(templateId, userId);
+    const deleted = templateService.deleteTemplate(templateId, scope);
     
     if (!deleted) {
       return res.status(404).json({ error: 'Template not found, access denied, or cannot delete default template' });
@@ -217,17 +400,17 @@ router.delete('/:templateId', verifyConnectJWT, extractJiraCredentials, async (r
  *   name: string; // Name for the cloned template
  * }
  */
-router.post('/:templateId/clone', verifyConnectJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+router.post('/:templateId/clone', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
   try {
     const { templateId } = req.params;
-    const userId = getUserId(req);
+    const scope = getTemplateScope(req);
     const { name } = req.body;
     
     if (!name) {
       return res.status(400).json({ error: 'Missing required field: name' });
     }
     
-    const clonedTemplate = templateService.cloneTemplate(templateId, userId, name);
+    const clonedTemplate = templateService.cloneTemplate(templateId, scope, name);
     
     if (!clonedTemplate) {
       return res.status(404).json({ error: 'Template not found or access denied' });
@@ -239,5 +422,144 @@ router.post('/:templateId/clone', verifyConnectJWT, extractJiraCredentials, asyn
   }
 });
 
+/**
+ * Parse a template version number
+ * 
+ * @throws {Error} If the value is not a positive integer
+ */
+const parseVersion = (value: unknown, name: string = 'version'): number => {
+  const version = Number(value);
+  if (typeof value !== 'string' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid ${name}: expected a version number`);
+  }
+  return version;
+};
+
+/**
+ * Get the version history of a template (also of a deleted template)
+ * 
+ * GET /api/templates/:templateId/versions
+ */
+router.get('/:templateId/versions', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+  try {
+    const { templateId } = req.params;
+    const scope = getTemplateScope(req);
+    
+    const versions = templateService.getTemplateVersions(templateId, scope);
+    
+    if (!versions) {
+      return res.status(404).json({ error: 'Template not found or access denied' });
+    }
+    
+    res.json(versions);
+  } catch (error: any) {
+    console.error('Error getting template versions:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Compare two versions of a template
+ * 
+ * IMPORTANT: This route must come BEFORE /:templateId/versions/:version to avoid routing conflicts
+ * GET /api/templates/:templateId/versions/diff?from=1&to=3
+ */
+router.get('/:templateId/versions/diff', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+  try {
+    const { templateId } = req.params;
+    const scope = getTemplateScope(req);
+    
+    let fromVersion: number;
+    let toVersion: number;
+    try {
+      fromVersion = parseVersion(req.query.from, 'from');
+      toVersion = parseVersion(req.query.to, 'to');
+    } catch (parseError: any) {
+      return res.status(400).json({ error: parseError.message });
+    }
+    
+    const diff = templateService.diffTemplateVersions(templateId, fromVersion, toVersion, scope);
+    
+    if (!diff) {
+      return res.status(404).json({ error: 'Template version not found or access denied' });
+    }
+    
+    res.json(diff);
+  } catch (error: any) {
+    console.error('Error comparing template versions:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get a version of a template (with the template content)
+ * 
+ * GET /api/templates/:templateId/versions/:version
+ */
+router.get('/:templateId/versions/:version', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+  try {
+    const { templateId } = req.params;
+    const scope = getTemplateScope(req);
+    
+    let version: number;
+    try {
+      version = parseVersion(req.params.version);
+    } catch (parseError: any) {
+      return res.status(400).json({ error: parseError.message });
+    }
+    
+    const templateVersion = templateService.getTemplateVersion(templateId, version, scope);
+    
+    if (!templateVersion) {
+      return res.status(404).json({ error: 'Template version not found or access denied' });
+    }
+    
+    res.json(templateVersion);
+  } catch (error: any) {
+    console.error('Error getting template version:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Restore a version of a template (recorded as a new version)
+ * The content of the version is validated like an update (422 with the errors per setting),
+ * since versions saved by older releases may not match the current rules
+ * 
+ * POST /api/templates/:templateId/versions/:version/restore
+ */
+router.post('/:templateId/versions/:version/restore', verifyConnectContextJWT, extractJiraCredentials, async (req: Request, res: Response) => {
+  try {
+    const { templateId } = req.params;
+    const scope = getTemplateScope(req);
+    
+    let version: number;
+    try {
+      version = parseVersion(req.params.version);
+    } catch (parseError: any) {
+      return res.status(400).json({ error: parseError.message });
+    }
+    
+    const templateVersion = templateService.getTemplateVersion(templateId, version, scope);
+    if (templateVersion) {
+      const errors = validateTemplate(templateVersion.template, { ignoredKeys: ['id', 'userId', 'createdAt', 'updatedAt'] });
+      if (errors.length > 0) {
+        return sendTemplateErrors(res, errors);
+      }
+    }
+    
+    const restoredTemplate = templateService.restoreTemplateVersion(templateId, version, scope);
+    
+    if (!restoredTemplate) {
+      return res.status(404).json({ error: 'Template version not found or access denied' });
+    }
+    
+    res.json(restoredTemplate);
+  } catch (error: any) {
+    console.error('Error restoring template version:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
 
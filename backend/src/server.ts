@@ -223,7 +223,11 @@ app.get('/', (req, res) => {
       issue: '/api/jira/issue/:issueKey',
       children: '/api/jira/issue/:issueKey/children',
       templates: '/api/templates',
-      template: '/api/templates/:templateId'
+      template: '/api/templates/:templateId',
+      templateVersions: '/api/templates/:templateId/versions',
+      templateValidate: '/api/templates/validate',
+      fields: '/api/jira/fields',
+      templatePreview: '/api/templates/preview'
     },
     note: 'This is a Jira Connect app. Install it in your Jira instance.'
   });
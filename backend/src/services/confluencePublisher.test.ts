@@ -0,0 +1,191 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import axios, { AxiosInstance } from 'axios';
+import { ConfluencePublisher, ConfluencePublishError, ConfluencePageRequest, MAX_PUBLISH_ATTEMPTS } from './confluencePublisher';
+
+type Method = 'GET' | 'POST' | 'PUT';
+
+/**
+ * Body of the page requests sent to Confluence (fields checked by the tests)
+ */
+interface PageBody {
+  title?: string;
+  space?: { key: string };
+  ancestors?: Array<{ id: string }>;
+  body?: { storage: { value: string; representation: string } };
+  version?: { number: number };
+}
+
+/**
+ * Request received by the mock Confluence server
+ */
+interface ReceivedRequest {
+  method: Method;
+  path: string;
+  query: Record<string, string>;
+  body?: PageBody;
+}
+
+/**
+ * Response of the mock server: page data (200), or an error status with the message returned by Confluence
+ */
+type MockResponse = { data: unknown } | { status: number; message?: string };
+
+let server: http.Server;
+let client: AxiosInstance;
+let queuedResponses: Partial<Record<Method, MockResponse[]>> = {};
+let requests: ReceivedRequest[] = [];
+
+/**
+ * Answer each method with its queued responses, in order
+ */
+const mockConfluence = (responses: Partial<Record<Method, MockResponse[]>>) => {
+  queuedResponses = responses;
+  requests = [];
+};
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const method = req.method as Method;
+      const body: PageBody | undefined = raw ? JSON.parse(raw) : undefined;
+      requests.push({ method, path: url.pathname, query: Object.fromEntries(url.searchParams), body });
+
+      const response = queuedResponses[method]?.shift();
+      res.setHeader('Content-Type', 'application/json');
+      if (!response) {
+        res.statusCode = 500;
+        res.end(JSON.stringify({ message: `Unexpected ${method} ${url.pathname}` }));
+      } else if ('status' in response) {
+        res.statusCode = response.status;
+        res.end(JSON.stringify({ message: response.message || '' }));
+      } else {
+        res.end(JSON.stringify(response.data));
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  client = axios.create({ baseURL: `http://127.0.0.1:${port}/wiki/rest/api` });
+});
+
+after(() => {
+  server.close();
+});
+
+const page: ConfluencePageRequest = {
+  spaceKey: 'TEAM',
+  parentPageId: '100',
+  title: 'Weekly Report ABC-1 - Week 46, 2025',
+  content: '<h1>Weekly Report</h1>',
+};
+
+const existingPage = (version: number) => ({ results: [{ id: '42', title: page.title, version: { number: version } }] });
+
+test('publishPage creates the page under the parent page when the space has no page with the title', async () => {
+  mockConfluence({
+    GET: [{ data: { results: [] } }],
+    POST: [{ data: { id: '42', title: page.title, version: { number: 1 }, _links: { base: 'https://team.atlassian.net/wiki', webui: '/spaces/TEAM/pages/42' } } }],
+  });
+
+  const result = await new ConfluencePublisher(client).publishPage(page);
+
+  assert.deepEqual(result, {
+    pageId: '42',
+    title: page.title,
+    version: 1,
+    url: 'https://team.atlassian.net/wiki/spaces/TEAM/pages/42',
+    created: true,
+  });
+  assert.equal(requests[0].path, '/wiki/rest/api/content');
+  assert.deepEqual(requests[0].query, { spaceKey: 'TEAM', title: page.title, type: 'page', expand: 'version' });
+  assert.equal(requests[1].path, '/wiki/rest/api/content');
+  assert.deepEqual(requests[1].body?.ancestors, [{ id: '100' }]);
+  assert.deepEqual(requests[1].body?.space, { key: 'TEAM' });
+  assert.deepEqual(requests[1].body?.body, { storage: { value: page.content, representation: 'storage' } });
+});
+
+test('publishPage updates an existing page with the next version number', async () => {
+  mockConfluence({
+    GET: [{ data: existingPage(4) }],
+    PUT: [{ data: { id: '42', title: page.title, version: { number: 5 } } }],
+  });
+
+  const result = await new ConfluencePublisher(client).publishPage(page);
+
+  assert.equal(result.created, false);
+  assert.equal(result.version, 5);
+  assert.equal(result.url, '');
+  assert.equal(requests[1].method, 'PUT');
+  assert.equal(requests[1].path, '/wiki/rest/api/content/42');
+  assert.deepEqual(requests[1].body?.version, { number: 5 });
+  // The page stays where it is in the space
+  assert.equal(requests[1].body?.ancestors, undefined);
+});
+
+test('publishPage looks the page up again after a version conflict', async () => {
+  mockConfluence({
+    GET: [{ data: existingPage(4) }, { data: existingPage(5) }],
+    PUT: [{ status: 409, message: 'Version must be incremented' }, { data: { id: '42', title: page.title, version: { number: 6 } } }],
+  });
+
+  const result = await new ConfluencePublisher(client).publishPage(page);
+
+  assert.equal(result.version, 6);
+  assert.deepEqual(requests.map(request => request.method), ['GET', 'PUT', 'GET', 'PUT']);
+  assert.deepEqual(requests[3].body?.version, { number: 6 });
+});
+
+test('publishPage updates the page created by someone else between the lookup and the creation', async () => {
+  mockConfluence({
+    GET: [{ data: { results: [] } }, { data: existingPage(1) }],
+    POST: [{ status: 400, message: 'A page with this title already exists' }],
+    PUT: [{ data: { id: '42', title: page.title, version: { number: 2 } } }],
+  });
+
+  const result = await new ConfluencePublisher(client).publishPage(page);
+
+  assert.equal(result.created, false);
+  assert.equal(result.version, 2);
+  assert.deepEqual(requests.map(request => request.method), ['GET', 'POST', 'GET', 'PUT']);
+});
+
+test('publishPage gives up with a 409 error when the page keeps changing', async () => {
+  const conflicts = Array.from({ length: MAX_PUBLISH_ATTEMPTS }, () => ({ status: 409 }));
+  mockConfluence({
+    GET: conflicts.map(() => ({ data: existingPage(4) })),
+    PUT: conflicts,
+  });
+
+  await assert.rejects(new ConfluencePublisher(client).publishPage(page), (error: unknown) => {
+    assert.ok(error instanceof ConfluencePublishError);
+    assert.equal(error.status, 409);
+    return true;
+  });
+  assert.equal(requests.filter(request => request.method === 'PUT').length, MAX_PUBLISH_ATTEMPTS);
+});
+
+test('publishPage keeps the status of the requests rejected by Confluence', async () => {
+  mockConfluence({ GET: [{ status: 403, message: 'Not permitted' }] });
+  await assert.rejects(new ConfluencePublisher(client).publishPage(page), (error: unknown) => {
+    assert.ok(error instanceof ConfluencePublishError);
+    assert.equal(error.status, 403);
+    assert.match(error.message, /access to Confluence denied \(Not permitted\)/);
+    return true;
+  });
+
+  mockConfluence({ GET: [{ data: { results: [] } }], POST: [{ status: 404 }] });
+  await assert.rejects(new ConfluencePublisher(client).publishPage(page), (error: unknown) => {
+    assert.ok(error instanceof ConfluencePublishError);
+    assert.equal(error.status, 404);
+    assert.match(error.message, /space or parent page not found/);
+    return true;
+  });
+  // Other errors are not retried
+  assert.equal(requests.length, 2);
+});
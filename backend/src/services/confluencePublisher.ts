@@ -0,0 +1,194 @@
+/**
+ * Confluence Publisher Service
+ *
+ * Publishes the weekly report as a Confluence page through the Confluence REST API (/content):
+ * the page with the report title is looked up in the space, then updated with the next version
+ * number when it exists, or created under the parent page otherwise.
+ *
+ * The Confluence client comes from the Jira client of the request (getConfluenceClient), so pages
+ * are published with the same Basic Auth credentials or Connect JWT as the report was generated with.
+ * CONFLUENCE_BASE_URL can point the client to a local mock server.
+ */
+
+import { AxiosInstance } from 'axios';
+import { config } from '../config';
+
+/**
+ * Number of attempts of a publication
+ * A page edited or created by someone else between the lookup and the write is looked up again
+ */
+export const MAX_PUBLISH_ATTEMPTS = 3;
+
+/**
+ * Page to publish
+ */
+export interface ConfluencePageRequest {
+  spaceKey: string;
+  parentPageId?: string; // New pages are created under this page (space root otherwise)
+  title: string; // Pages are found by title in the space
+  content: string; // Confluence storage format (see MarkupExportService)
+}
+
+/**
+ * Result of a publication
+ */
+export interface ConfluencePublishResult {
+  pageId: string;
+  title: string;
+  version: number; // Version number of the page after publishing (1 for a new page)
+  url: string; // Page URL (empty if Confluence doesn't return links)
+  created: boolean; // true if the page was created, false if an existing page was updated
+}
+
+/**
+ * Page returned by the Confluence content API (fields used by the publisher)
+ */
+interface ConfluencePage {
+  id: string;
+  title: string;
+  version?: { number: number };
+  _links?: { base?: string; webui?: string };
+}
+
+/**
+ * Error of a Confluence request
+ * status is the HTTP status returned by Confluence (undefined when Confluence could not be reached)
+ */
+export class ConfluencePublishError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+  }
+}
+
+/**
+ * Get the URL of the Confluence REST API of a site
+ *
+ * @param siteUrl - Jira site URL (e.g., https://your-domain.atlassian.net)
+ * @returns CONFLUENCE_BASE_URL if set, otherwise the "/wiki" path of the site, followed by "/rest/api"
+ */
+export function getConfluenceApiUrl(siteUrl: string): string {
+  const baseUrl = (config.confluence.baseUrl || `${siteUrl.replace(/\/+$/, '')}/wiki`).replace(/\/+$/, '');
+  return `${baseUrl}/rest/api`;
+}
+
+/**
+ * Convert a failed Confluence request into a ConfluencePublishError
+ *
+ * @param error - Axios error
+ * @param action - What was being done (e.g., "update page 123")
+ */
+function toConfluenceError(error: any, action: string): ConfluencePublishError {
+  const status: number | undefined = error.response?.status;
+  const message = error.response?.data?.message || error.message || 'Unknown error';
+  if (status === 401 || status === 403) {
+    return new ConfluencePublishError(`Failed to ${action}: access to Confluence denied (${message})`, status);
+  }
+  if (status === 404) {
+    return new ConfluencePublishError(`Failed to ${action}: space or parent page not found (${message})`, status);
+  }
+  return new ConfluencePublishError(`Failed to ${action}: ${message}`, status);
+}
+
+/**
+ * Whether a failed write is a concurrent change worth retrying:
+ * version conflict on update (409), or page with the same title created in the meantime
+ */
+const isConflict = (error: any): boolean => {
+  const status = error.response?.status;
+  const message = String(error.response?.data?.message || '');
+  return status === 409 || (status === 400 && /already exists/i.test(message));
+};
+
+/**
+ * Confluence Publisher Class
+ */
+export class ConfluencePublisher {
+  /**
+   * @param client - Confluence REST API client (see JiraClient.getConfluenceClient)
+   */
+  constructor(private client: AxiosInstance) {}
+
+  /**
+   * Create or update a page
+   *
+   * @param page - Space, parent page, title and content of the page
+   * @returns Published page (ID, version and URL)
+   * @throws ConfluencePublishError if Confluence rejects the request, or the page keeps changing during the publication (409)
+   */
+  async publishPage(page: ConfluencePageRequest): Promise<ConfluencePublishResult> {
+    for (let attempt = 1; attempt <= MAX_PUBLISH_ATTEMPTS; attempt++) {
+      const existing = await this.findPage(page.spaceKey, page.title);
+      try {
+        return existing ? await this.updatePage(existing, page) : await this.createPage(page);
+      } catch (error: any) {
+        if (!isConflict(error) || attempt === MAX_PUBLISH_ATTEMPTS) {
+          throw toConfluenceError(error, existing ? `update page "${page.title}"` : `create page "${page.title}"`);
+        }
+        // Someone else changed the page: look it up again to get its latest version
+      }
+    }
+    // Not reached (the last attempt returns or throws)
+    throw new Error(`Failed to publish page "${page.title}"`);
+  }
+
+  /**
+   * Find a page of a space by title
+   *
+   * @returns Page with its current version, or null if the space has no page with that title
+   */
+  private async findPage(spaceKey: string, title: string): Promise<ConfluencePage | null> {
+    try {
+      const response = await this.client.get<{ results: ConfluencePage[] }>('/content', {
+        params: { spaceKey, title, type: 'page', expand: 'version' },
+      });
+      return response.data.results?.[0] || null;
+    } catch (error: any) {
+      throw toConfluenceError(error, `look up page "${title}" in space ${spaceKey}`);
+    }
+  }
+
+  /**
+   * Create a page (version 1)
+   */
+  private async createPage(page: ConfluencePageRequest): Promise<ConfluencePublishResult> {
+    const response = await this.client.post<ConfluencePage>('/content', {
+      type: 'page',
+      title: page.title,
+      space: { key: page.spaceKey },
+      ...(page.parentPageId ? { ancestors: [{ id: page.parentPageId }] } : {}),
+      body: { storage: { value: page.content, representation: 'storage' } },
+    });
+    return this.toResult(response.data, 1, true);
+  }
+
+  /**
+   * Update a page with the next version number
+   * The parent page is left as is, in case the page was moved in Confluence
+   */
+  private async updatePage(existing: ConfluencePage, page: ConfluencePageRequest): Promise<ConfluencePublishResult> {
+    const version = (existing.version?.number || 0) + 1;
+    const response = await this.client.put<ConfluencePage>(`/content/${existing.id}`, {
+      id: existing.id,
+      type: 'page',
+      title: page.title,
+      space: { key: page.spaceKey },
+      body: { storage: { value: page.content, representation: 'storage' } },
+      version: { number: version },
+    });
+    return this.toResult(response.data, version, false);
+  }
+
+  /**
+   * Build the result of a publication from the page returned by Confluence
+   */
+  private toResult(page: ConfluencePage, expectedVersion: number, created: boolean): ConfluencePublishResult {
+    const links = page._links || {};
+    return {
+      pageId: String(page.id),
+      title: page.title,
+      version: page.version?.number || expectedVersion,
+      url: links.webui ? `${links.base || ''}${links.webui}` : '',
+      created,
+    };
+  }
+}
@@ -18,7 +18,32 @@
 import axios, { AxiosInstance } from 'axios';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
-import { JiraIssue, JiraResponse } from '../types/jira';
+import {
+  JiraIssue,
+  JiraResponse,
+  JiraWorklog,
+  JiraWorklogResponse,
+  JiraField,
+  JiraFieldMetadata,
+  JiraCreateMetaIssueTypesResponse,
+  JiraCreateMetaFieldsResponse,
+  JiraEditMetaResponse,
+} from '../types/jira';
+import {
+  ChildIssueOptions,
+  getChildIssueFields,
+  SearchIssueOptions,
+  SEARCH_ISSUE_FIELDS,
+  toSearchError,
+  WORKLOG_PAGE_SIZE,
+  CREATEMETA_PAGE_SIZE,
+} from './jiraClient';
+import { collectDescendants } from '../utils/issueHierarchy';
+import { fetchAllPages, IssueSearchResult } from '../utils/searchPagination';
+import { ISSUE_KEY_PATTERN, ISSUE_KEY_PREFIX_PATTERN } from '../utils/issueKey';
+import { config } from '../config';
+import { createQueryStringHash } from '../utils/queryStringHash';
+import { getConfluenceApiUrl } from './confluencePublisher';
 
 /**
  * Interface for Connect authentication credentials
@@ -66,45 +91,44 @@ export class ConnectJiraClient {
     });
 
     // Add request interceptor to automatically sign all requests with JWT
-    // This interceptor runs before every request and adds the JWT token
-    this.client.interceptors.request.use((config) => {
-      // Create JWT token for this specific request
-      // The token includes method, path, and query params for request verification
-      const token = this.createJWT(config.method?.toUpperCase() || 'GET', config.url || '', config.params || {});
-      config.headers.Authorization = `JWT ${token}`;
-      return config;
-    });
+    this.signRequests(this.client);
   }
 
   /**
-   * Create JWT token for Atlassian Connect API requests
+   * Sign every request of a client with a JWT token bound to the request
    * 
-   * Creates a JWT token that proves the request is coming from a legitimate Connect app.
-   * The token includes a Query String Hash (QSH) that prevents request tampering.
+   * The Query String Hash (QSH) covers the full URL resolved by axios, relative to the site path:
+   * the base path of the API is included (e.g., "/rest/api/3/issue/PROJ-123"), and the query is
+   * the one actually sent. Parameters without value are removed first (axios doesn't send them,
+   * so they must not be signed either).
    * 
-   * @param method - HTTP method (GET, POST, etc.)
-   * @param path - API endpoint path (e.g., "/issue/PROJ-123")
-   * @param queryParams - Query parameters as an object
+   * @param client - Axios client of a REST API of the site (Jira or Confluence)
+   */
+  private signRequests(client: AxiosInstance): void {
+    const sitePath = new URL(this.baseUrl).pathname;
+    client.interceptors.request.use((requestConfig) => {
+      if (requestConfig.params) {
+        requestConfig.params = Object.fromEntries(
+          Object.entries(requestConfig.params).filter(([, value]) => value !== undefined && value !== null)
+        );
+      }
+      const url = new URL(client.getUri(requestConfig));
+      const qsh = createQueryStringHash(requestConfig.method || 'GET', `${url.pathname}${url.search}`, sitePath);
+      requestConfig.headers.Authorization = `JWT ${this.signJWT(qsh)}`;
+      return requestConfig;
+    });
+  }
+
+  /**
+   * Sign a JWT token bound to a request by its query string hash
+   * 
+   * @param qsh - Query String Hash of the request
    * @returns Signed JWT token string
    */
-  private createJWT(method: string, path: string, queryParams: any = {}): string {
+  private signJWT(qsh: string): string {
     const now = Math.floor(Date.now() / 1000);
     const expirationTime = now + 180; // Token expires in 3 minutes
 
-    // Build canonical query string from params
-    const queryString = this.buildQueryString(queryParams);
-    
-    // Ensure path starts with /
-    const canonicalPath = path.startsWith('/') ? path : `/${path}`;
-    
-    // Create canonical request string: METHOD&/path&query
-    // This format is required by Atlassian Connect
-    const canonicalRequest = `${method}&${canonicalPath}&${queryString}`;
-    
-    // Create Query String Hash (QSH) - SHA256 hash of canonical request
-    // This prevents request tampering (changing method, path, or params)
-    const qsh = crypto.createHash('sha256').update(canonicalRequest).digest('hex');
-
     // JWT payload with Connect-specific claims
     const payload = {
       iss: this.clientKey,    // Issuer: the add-on key (unique per installation)
@@ -118,24 +142,24 @@ export class ConnectJiraClient {
   }
 
   /**
-   * Build canonical query string from params object
+   * Create a client for the Confluence REST API of the same site
    * 
-   * Creates a query string in the format required by Atlassian Connect:
-   * - Parameters are sorted alphabetically
-   * - Keys and values are URL-encoded
-   * - Parameters are joined with &
+   * Requests are signed like Jira requests (see signRequests), the query string hash covering
+   * the full path on the site (e.g., "/wiki/rest/api/content").
    * 
-   * @param params - Query parameters as an object
-   * @returns Canonical query string (e.g., "key1=value1&key2=value2")
+   * @returns Axios client for the Confluence REST API (e.g., /content)
    */
-  private buildQueryString(params: any): string {
-    const keys = Object.keys(params).sort(); // Sort keys alphabetically
-    const pairs = keys.map(key => {
-      const value = params[key];
-      // URL-encode both key and value
-      return `${encodeURIComponent(key)}=${encodeURIComponent(value)}`;
+  getConfluenceClient(): AxiosInstance {
+    const client = axios.create({
+      baseURL: getConfluenceApiUrl(this.baseUrl),
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
     });
-    return pairs.join('&') || ''; // Join with & or return empty string
+
+    this.signRequests(client);
+    return client;
   }
 
   /**
@@ -144,7 +168,7 @@ export class ConnectJiraClient {
   async getIssue(issueKey: string): Promise<JiraIssue> {
     try {
       const trimmedKey = issueKey.trim();
-      if (!trimmedKey || !/^[A-Z]+-\d+$/i.test(trimmedKey)) {
+      if (!trimmedKey || !ISSUE_KEY_PATTERN.test(trimmedKey.toUpperCase())) {
         throw new Error(`Invalid ticket key format: "${trimmedKey}". Expected format: PROJ-123`);
       }
 
@@ -168,10 +192,13 @@ export class ConnectJiraClient {
 
   /**
    * Get child issues of a parent issue
+   * Nested children are fetched breadth-first up to options.maxDepth,
+   * paginated and capped at options.maxResults
+   * The parent issue is fetched to read its type, unless the caller passes it
    */
-  async getIssueChildren(issueKey: string): Promise<JiraIssue[]> {
+  async getIssueChildren(issueKey: string, options: ChildIssueOptions = {}, parent?: JiraIssue): Promise<IssueSearchResult> {
     try {
-      const parentIssue = await this.getIssue(issueKey);
+      const parentIssue = parent || await this.getIssue(issueKey);
       const issueType = parentIssue.fields.issuetype?.name?.toLowerCase() || '';
       
       let jql: string;
@@ -182,48 +209,197 @@ export class ConnectJiraClient {
         jql = `parent = ${issueKey} ORDER BY status ASC`;
       }
       
-      let response;
+      const expand = options.expandChangelog ? 'changelog' : undefined;
+      const fields = getChildIssueFields(options);
+      const maxIssues = options.maxResults ?? config.jira.maxSearchResults;
+      
+      let directChildren: IssueSearchResult;
       try {
-        response = await this.client.post<JiraResponse>('/search', {
-          jql,
-          fields: ['summary', 'status', 'labels', 'issuetype', 'parent', 'timespent', 'timeestimate', 'aggregatetimespent', 'aggregatetimeestimate'],
-          maxResults: 1000,
-        });
+        directChildren = await this.searchAllPages(jql, fields, expand, maxIssues);
       } catch (error: any) {
         // If parent query fails and it's not an epic, try epic link as fallback
         if (!issueType.includes('epic')) {
           jql = `"Epic Link" = ${issueKey} ORDER BY status ASC`;
-          response = await this.client.post<JiraResponse>('/search', {
-            jql,
-            fields: ['summary', 'status', 'labels', 'issuetype', 'parent', 'timespent', 'timeestimate', 'aggregatetimespent', 'aggregatetimeestimate'],
-            maxResults: 1000,
-          });
+          directChildren = await this.searchAllPages(jql, fields, expand, maxIssues);
         } else {
           throw error;
         }
       }
 
-      return response.data.issues;
+      // Walk nested children level by level when the template asks for them
+      const descendants = await collectDescendants(
+        issueKey,
+        directChildren.issues,
+        options.maxDepth ?? 1,
+        (parentKeys, limit) => this.searchChildrenOf(parentKeys, fields, expand, limit),
+        maxIssues
+      );
+      return {
+        issues: descendants.issues,
+        truncated: directChildren.truncated || descendants.truncated,
+      };
     } catch (error: any) {
       const errorDetail = error.response?.data || error.message;
       throw new Error(`Failed to fetch children of ${issueKey}: ${JSON.stringify(errorDetail)}`);
     }
   }
 
+  /**
+   * Get the direct children of several parent issues in one JQL query
+   * Used to fetch nested levels of the hierarchy (batched by issueHierarchy)
+   * 
+   * @param parentKeys - Parent issue keys
+   * @param fields - Fields to request
+   * @param expand - Optional expand parameter (e.g., "changelog")
+   * @param maxIssues - Hard cap on the number of issues (0 = no cap)
+   * @returns Promise that resolves to the children of all given parents
+   */
+  private async searchChildrenOf(parentKeys: string[], fields: string[], expand: string | undefined, maxIssues: number): Promise<IssueSearchResult> {
+    return this.searchAllPages(
+      `parent in (${parentKeys.join(', ')}) ORDER BY key ASC`,
+      fields,
+      expand,
+      maxIssues
+    );
+  }
+
+  /**
+   * Run a JQL search on /search/jql, following nextPageToken until the last page or the cap
+   */
+  private async searchAllPages(jql: string, fields: string[], expand: string | undefined, maxIssues: number): Promise<IssueSearchResult> {
+    return fetchAllPages(async (maxResults, nextPageToken) => {
+      const response = await this.client.post<JiraResponse>('/search/jql', {
+        jql,
+        fields,
+        expand,
+        maxResults,
+        nextPageToken,
+      });
+      return response.data;
+    }, maxIssues);
+  }
+
+
   /**
    * Search issues using JQL
+   * Returns all navigable fields unless options.fields is set,
+   * paginated and capped at options.maxResults
    */
-  async searchIssues(jql: string): Promise<JiraIssue[]> {
+  async searchIssues(jql: string, options: SearchIssueOptions = {}): Promise<IssueSearchResult> {
     try {
-      const response = await this.client.post<JiraResponse>('/search', {
+      return await this.searchAllPages(
         jql,
-        fields: ['summary', 'status', 'labels', 'issuetype', 'parent'],
-        maxResults: 1000,
-      });
+        options.fields || SEARCH_ISSUE_FIELDS,
+        options.expandChangelog ? 'changelog' : undefined,
+        options.maxResults ?? config.jira.maxSearchResults
+      );
+    } catch (error: any) {
+      throw toSearchError(error);
+    }
+  }
+
+  /**
+   * Get the worklogs of an issue started in a date range, page by page
+   */
+  async getIssueWorklogs(issueKey: string, startedAfter?: Date, startedBefore?: Date): Promise<JiraWorklog[]> {
+    try {
+      const worklogs: JiraWorklog[] = [];
+      let total = 0;
+      do {
+        const response = await this.client.get<JiraWorklogResponse>(`/issue/${issueKey}/worklog`, {
+          params: {
+            startAt: worklogs.length,
+            maxResults: WORKLOG_PAGE_SIZE,
+            startedAfter: startedAfter?.getTime(),
+            startedBefore: startedBefore?.getTime(),
+          },
+        });
+        worklogs.push(...response.data.worklogs);
+        total = response.data.total;
+        if (response.data.worklogs.length === 0) {
+          break;
+        }
+      } while (worklogs.length < total);
+      return worklogs;
+    } catch (error: any) {
+      const errorDetail = error.response?.data?.errorMessages?.[0] || error.message;
+      throw new Error(`Failed to fetch worklogs of ${issueKey}: ${errorDetail}`);
+    }
+  }
+
+  /**
+   * Get all fields of the Jira site (system and custom fields)
+   */
+  async getFields(): Promise<JiraField[]> {
+    try {
+      const response = await this.client.get<JiraField[]>('/field');
+      return response.data;
+    } catch (error: any) {
+      const errorDetail = error.response?.data?.errorMessages?.[0] || error.message;
+      throw new Error(`Failed to fetch fields: ${errorDetail}`);
+    }
+  }
+
+  /**
+   * Get the fields of the create screens of a project (all issue types)
+   * A field is required if it is required for at least one issue type
+   */
+  async getCreateMetaFields(projectKey: string): Promise<JiraFieldMetadata[]> {
+    try {
+      const issueTypes: JiraCreateMetaIssueTypesResponse['issueTypes'] = [];
+      let total = 0;
+      do {
+        const response = await this.client.get<JiraCreateMetaIssueTypesResponse>(`/issue/createmeta/${projectKey}/issuetypes`, {
+          params: { startAt: issueTypes.length, maxResults: CREATEMETA_PAGE_SIZE },
+        });
+        issueTypes.push(...response.data.issueTypes);
+        total = response.data.total;
+        if (response.data.issueTypes.length === 0) {
+          break;
+        }
+      } while (issueTypes.length < total);
+
+      const fieldsById = new Map<string, JiraFieldMetadata>();
+      for (const issueType of issueTypes) {
+        let startAt = 0;
+        do {
+          const response = await this.client.get<JiraCreateMetaFieldsResponse>(`/issue/createmeta/${projectKey}/issuetypes/${issueType.id}`, {
+            params: { startAt, maxResults: CREATEMETA_PAGE_SIZE },
+          });
+          for (const field of response.data.fields) {
+            const known = fieldsById.get(field.fieldId);
+            fieldsById.set(field.fieldId, { ...field, required: field.required || Boolean(known?.required) });
+          }
+          startAt += response.data.fields.length;
+          total = response.data.total;
+          if (response.data.fields.length === 0) {
+            break;
+          }
+        } while (startAt < total);
+      }
+      return Array.from(fieldsById.values());
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        throw new Error(`Project "${projectKey}" does not exist or you do not have permission to create issues in it.`);
+      }
+      const errorDetail = error.response?.data?.errorMessages?.[0] || error.message;
+      throw new Error(`Failed to fetch create metadata of ${projectKey}: ${errorDetail}`);
+    }
+  }
 
-      return response.data.issues;
+  /**
+   * Get the fields of the edit screen of an issue
+   */
+  async getEditMetaFields(issueKey: string): Promise<JiraFieldMetadata[]> {
+    try {
+      const response = await this.client.get<JiraEditMetaResponse>(`/issue/${issueKey}/editmeta`);
+      return Object.entries(response.data.fields).map(([fieldId, field]) => ({ ...field, fieldId }));
     } catch (error: any) {
-      throw new Error(`Failed to search issues: ${error.message}`);
+      if (error.response?.status === 404) {
+        throw new Error(`Ticket "${issueKey}" does not exist or you do not have permission to access it.`);
+      }
+      const errorDetail = error.response?.data?.errorMessages?.[0] || error.message;
+      throw new Error(`Failed to fetch edit metadata of ${issueKey}: ${errorDetail}`);
     }
   }
 
@@ -250,7 +426,7 @@ export class ConnectJiraClient {
         .map(type => `issuetype = "${type}"`)
         .join(' OR ');
       
-      const isKeyPrefix = /^[A-Z]+-?$/i.test(searchText.trim());
+      const isKeyPrefix = ISSUE_KEY_PREFIX_PATTERN.test(searchText.trim().toUpperCase());
       
       let jql: string;
       if (isKeyPrefix) {
@@ -0,0 +1,210 @@
+import ExcelJS from 'exceljs';
+import { ReportRow, ReportColumn, ReportGroupLevel, ReportIssue, getReportCellValue, isBucketColumn } from './reportService';
+import { JiraIssue } from '../types/jira';
+import { ReportBucket } from '../types/template';
+import { TimesheetSummary } from './timesheetService';
+import { getWeekNumbers } from '../utils/weekUtils';
+
+// Blue color scheme (same as the Word and PPT exports), as ARGB
+const BLUE_PRIMARY = 'FF0052CC';
+const BLUE_LIGHT = 'FFDEEBFF';
+
+const NUMBER_FORMAT = '0.00';
+
+/**
+ * Labels of the report buckets whose column is not in the template
+ */
+const DEFAULT_BUCKET_LABELS: Record<ReportBucket, string> = {
+  older: 'Older',
+  lastWeek: 'Last week',
+  currentWeek: 'Current Week',
+  nextWeek: 'Next Week',
+  later: 'Later',
+};
+
+/**
+ * Excel Export Service
+ *
+ * Generates the weekly report as an Excel workbook (.xlsx) for filtering and pivoting:
+ * - "Report": the report table, one line per report row (issue items one per line in a cell)
+ * - "Timesheet": the timesheet entries and totals as numeric cells (hours and man-days)
+ * - "Issues": the child issues of the report with the values resolved by the template
+ */
+export class ExcelExportService {
+  async generateWorkbook(
+    reportRows: ReportRow[],
+    columns: ReportColumn[],
+    groupLevels: ReportGroupLevel[],
+    reportIssues: ReportIssue[],
+    issue: JiraIssue,
+    timesheet: TimesheetSummary,
+    referenceDate?: Date
+  ): Promise<Buffer> {
+    const weekNumbers = getWeekNumbers(referenceDate);
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'ABC Manager';
+    workbook.title = `ABC Manager - Weekly Report ${issue.key} - Week ${weekNumbers.currentWeek}, ${weekNumbers.year}`;
+    workbook.created = new Date();
+
+    this.addReportSheet(workbook, reportRows, columns, groupLevels);
+    this.addTimesheetSheet(workbook, issue, timesheet);
+    this.addIssuesSheet(workbook, reportIssues, columns, groupLevels);
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer);
+  }
+
+  /**
+   * Add the report table sheet
+   * Grouping levels without a column (shown as sub-headers in the other exports) get a column first,
+   * so that every line can be filtered on its groups
+   */
+  private addReportSheet(workbook: ExcelJS.Workbook, reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[]): void {
+    const sheet = workbook.addWorksheet('Report');
+    const levelIndexes = groupLevels.map((level, index) => (level.header ? index : -1)).filter(index => index !== -1);
+
+    sheet.columns = [
+      ...levelIndexes.map(index => ({ header: groupLevels[index].label, width: 20 })),
+      ...columns.map(column => ({ header: column.label, width: isBucketColumn(column) ? 45 : 20 })),
+    ];
+
+    reportRows.forEach(row => {
+      const line = sheet.addRow([
+        ...levelIndexes.map(index => row.groups[index] ?? ''),
+        ...columns.map(column => {
+          const value = getReportCellValue(row, column);
+          return Array.isArray(value) ? value.join('\n') : value;
+        }),
+      ]);
+      line.alignment = { vertical: 'top', wrapText: true };
+    });
+
+    this.styleHeader(sheet);
+  }
+
+  /**
+   * Add the timesheet sheet: one line per child ticket, then the totals of the children and the parent ticket
+   * Times are numbers (hours and man-days), remaining times are negative when over the estimate
+   */
+  private addTimesheetSheet(workbook: ExcelJS.Workbook, issue: JiraIssue, timesheet: TimesheetSummary): void {
+    const sheet = workbook.addWorksheet('Timesheet');
+
+    sheet.columns = [
+      { header: 'Ticket', width: 14 },
+      { header: 'Summary', width: 45 },
+      { header: 'Status', width: 16 },
+      { header: 'Time Spent (h)', width: 15, style: { numFmt: NUMBER_FORMAT } },
+      { header: 'Estimate (h)', width: 15, style: { numFmt: NUMBER_FORMAT } },
+      { header: 'Remaining Time (h)', width: 18, style: { numFmt: NUMBER_FORMAT } },
+      { header: 'Time Spent (man-days)', width: 21, style: { numFmt: NUMBER_FORMAT } },
+      { header: 'Estimate (man-days)', width: 21, style: { numFmt: NUMBER_FORMAT } },
+      { header: 'Remaining Time (man-days)', width: 25, style: { numFmt: NUMBER_FORMAT } },
+    ];
+
+    timesheet.entries.forEach(entry => {
+      sheet.addRow([
+        entry.issueKey,
+        entry.summary,
+        entry.status,
+        entry.timespentHours,
+        entry.timeestimateHours,
+        entry.remainingHours,
+        entry.timespentManDays,
+        entry.timeestimateManDays,
+        entry.remainingManDays,
+      ]);
+    });
+    this.styleHeader(sheet);
+
+    // Totals below the entries (outside the filtered range)
+    sheet.addRow([]);
+    const totals = [
+      sheet.addRow([
+        'Total',
+        'Child tickets',
+        '',
+        timesheet.totalTimeSpentHours,
+        timesheet.totalTimeEstimateHours,
+        timesheet.remainingHours,
+        timesheet.totalTimeSpentManDays,
+        timesheet.totalTimeEstimateManDays,
+        timesheet.remainingManDays,
+      ]),
+      sheet.addRow([
+        issue.key,
+        `Parent ticket: ${issue.fields.summary}`,
+        issue.fields.status.name,
+        timesheet.parentTimeSpentHours,
+        timesheet.parentTimeEstimateHours,
+        timesheet.parentRemainingHours,
+        timesheet.parentTimeSpentManDays,
+        timesheet.parentTimeEstimateManDays,
+        timesheet.parentRemainingManDays,
+      ]),
+    ];
+    totals.forEach(row => {
+      row.font = { bold: true };
+    });
+  }
+
+  /**
+   * Add the raw issue sheet: one line per issue of the report, with its groups, report column,
+   * overdue flag, issue item and the value of each field column of the template
+   */
+  private addIssuesSheet(workbook: ExcelJS.Workbook, reportIssues: ReportIssue[], columns: ReportColumn[], groupLevels: ReportGroupLevel[]): void {
+    const sheet = workbook.addWorksheet('Issues');
+    const fieldColumns = columns.filter(column => column.source === 'field');
+    const bucketLabels: Record<string, string> = { ...DEFAULT_BUCKET_LABELS };
+    columns.filter(isBucketColumn).forEach(column => {
+      bucketLabels[column.source] = column.label;
+    });
+
+    sheet.columns = [
+      { header: 'Ticket', width: 14 },
+      { header: 'Summary', width: 45 },
+      { header: 'Type', width: 14 },
+      { header: 'Status', width: 16 },
+      { header: 'Depth', width: 8 },
+      ...groupLevels.map(level => ({ header: level.label, width: 20 })),
+      { header: 'Report Column', width: 24 },
+      { header: 'Overdue', width: 10 },
+      { header: 'Issue Item', width: 45 },
+      ...fieldColumns.map(column => ({ header: column.label, width: 20 })),
+    ];
+
+    reportIssues.forEach(reportIssue => {
+      sheet.addRow([
+        reportIssue.key,
+        reportIssue.summary,
+        reportIssue.issueType,
+        reportIssue.status,
+        reportIssue.depth,
+        ...groupLevels.map((_, index) => reportIssue.groups[index] ?? ''),
+        bucketLabels[reportIssue.bucket],
+        reportIssue.overdue ? 'Yes' : '',
+        reportIssue.item,
+        ...fieldColumns.map(column => reportIssue.values[column.id] || ''),
+      ]);
+    });
+
+    this.styleHeader(sheet);
+  }
+
+  /**
+   * Style the header row of a sheet (blue like the other exports), keep it visible when scrolling
+   * and add filters over the lines added so far
+   */
+  private styleHeader(sheet: ExcelJS.Worksheet): void {
+    sheet.getRow(1).eachCell(cell => {
+      cell.font = { bold: true, color: { argb: BLUE_PRIMARY } };
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: BLUE_LIGHT } };
+      cell.alignment = { vertical: 'middle', wrapText: true };
+    });
+
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+    sheet.autoFilter = {
+      from: { row: 1, column: 1 },
+      to: { row: sheet.rowCount, column: sheet.columnCount },
+    };
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Field Service
+ *
+ * Discovers the fields of a Jira site for the template editor field picker:
+ * all fields, or the fields of the create screens of a project or of the edit screen of an issue.
+ */
+
+import { JiraClient } from './jiraClient';
+import { ConnectJiraClient } from './connectJiraClient';
+import { JiraFieldInfo, JiraFieldMetadata } from '../types/jira';
+import { toFieldInfos } from '../utils/fieldDiscovery';
+
+/**
+ * Options for discovering fields
+ */
+export interface FieldDiscoveryOptions {
+  /**
+   * Only the fields of the create screens of this project (createmeta)
+   */
+  projectKey?: string;
+
+  /**
+   * Only the fields of the edit screen of this issue (editmeta), takes precedence over projectKey
+   */
+  issueKey?: string;
+}
+
+export class FieldService {
+  /**
+   * Get the fields offered by the field picker
+   *
+   * @param jiraClient - Jira client (Connect or legacy)
+   * @param options - Project or issue the fields are limited to
+   * @returns Fields with their schema type and template field path, sorted by name
+   */
+  async getFields(jiraClient: JiraClient | ConnectJiraClient, options: FieldDiscoveryOptions = {}): Promise<JiraFieldInfo[]> {
+    const fields = await jiraClient.getFields();
+
+    let metadata: JiraFieldMetadata[] | null = null;
+    if (options.issueKey) {
+      metadata = await jiraClient.getEditMetaFields(options.issueKey);
+    } else if (options.projectKey) {
+      metadata = await jiraClient.getCreateMetaFields(options.projectKey);
+    }
+
+    return toFieldInfos(fields, metadata);
+  }
+}
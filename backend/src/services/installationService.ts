@@ -0,0 +1,138 @@
+/**
+ * Installation Service
+ *
+ * Handles storage of Atlassian Connect installations (one per Jira instance).
+ * Jira sends the installation data (clientKey, baseUrl, sharedSecret) to /lifecycle/installed;
+ * the stored sharedSecret is then used to verify the JWT tokens of that installation.
+ * Uses file-based storage (JSON file), like the template service.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ConnectInstallation } from '../types/installation';
+
+/**
+ * Installation data sent by Jira to the installed lifecycle callback
+ */
+export type InstallationPayload = Omit<ConnectInstallation, 'installedAt' | 'updatedAt'>;
+
+/**
+ * Installation Storage Service
+ *
+ * Manages Connect installations keyed by clientKey.
+ * Installations are stored in a JSON file: `data/installations.json`
+ * The file contains shared secrets, so it is only readable by the server user
+ * and must never be committed.
+ */
+export class InstallationService {
+  private installationsFile: string;
+  private installations: Map<string, ConnectInstallation>;
+
+  constructor(dataDir: string = path.join(__dirname, '../../data')) {
+    // Ensure data directory exists
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+
+    this.installationsFile = path.join(dataDir, 'installations.json');
+    this.installations = new Map();
+    this.loadInstallations();
+  }
+
+  /**
+   * Load installations from file
+   */
+  private loadInstallations(): void {
+    try {
+      if (fs.existsSync(this.installationsFile)) {
+        const data = fs.readFileSync(this.installationsFile, 'utf-8');
+        const installationsArray: ConnectInstallation[] = JSON.parse(data);
+        this.installations = new Map(
+          installationsArray.map(installation => [installation.clientKey, installation])
+        );
+      }
+    } catch (error: any) {
+      console.error('Error loading installations:', error.message);
+      this.installations = new Map();
+    }
+  }
+
+  /**
+   * Save installations to file
+   */
+  private saveInstallations(): void {
+    try {
+      const installationsArray = Array.from(this.installations.values());
+      fs.writeFileSync(
+        this.installationsFile,
+        JSON.stringify(installationsArray, null, 2),
+        { encoding: 'utf-8', mode: 0o600 }
+      );
+    } catch (error: any) {
+      console.error('Error saving installations:', error.message);
+      throw new Error('Failed to save installations');
+    }
+  }
+
+  /**
+   * Get an installation by clientKey
+   *
+   * @param clientKey - Installation identifier
+   * @returns Installation or null if the app is not installed for this clientKey
+   */
+  getInstallation(clientKey: string): ConnectInstallation | null {
+    return this.installations.get(clientKey) || null;
+  }
+
+  /**
+   * Save an installation (new installation or reinstallation)
+   * A reinstallation replaces the stored baseUrl and sharedSecret
+   *
+   * @param payload - Installation data sent by Jira
+   * @returns Stored installation
+   * @throws {Error} If clientKey, baseUrl or sharedSecret is missing
+   */
+  saveInstallation(payload: InstallationPayload): ConnectInstallation {
+    if (!payload.clientKey || !payload.baseUrl || !payload.sharedSecret) {
+      throw new Error('Invalid installation: clientKey, baseUrl and sharedSecret are required');
+    }
+
+    const now = new Date().toISOString();
+    const existing = this.installations.get(payload.clientKey);
+    const installation: ConnectInstallation = {
+      clientKey: payload.clientKey,
+      baseUrl: payload.baseUrl,
+      sharedSecret: payload.sharedSecret,
+      key: payload.key,
+      displayUrl: payload.displayUrl,
+      oauthClientId: payload.oauthClientId,
+      publicKey: payload.publicKey,
+      installedAt: existing?.installedAt || now,
+      updatedAt: now,
+    };
+
+    this.installations.set(installation.clientKey, installation);
+    this.saveInstallations();
+    return installation;
+  }
+
+  /**
+   * Delete an installation
+   *
+   * @param clientKey - Installation identifier
+   * @returns true if deleted, false if not found
+   */
+  deleteInstallation(clientKey: string): boolean {
+    if (!this.installations.delete(clientKey)) {
+      return false;
+    }
+    this.saveInstallations();
+    return true;
+  }
+}
+
+/**
+ * Shared installation store
+ * Used by the lifecycle routes (write) and the Connect JWT middleware (read)
+ */
+export const installationService = new InstallationService();
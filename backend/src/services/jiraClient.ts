@@ -15,7 +15,22 @@
 
 import axios, { AxiosInstance } from 'axios';
 import { config } from '../config';
-import { JiraIssue, IssueChildrenResponse, JiraResponse } from '../types/jira';
+import {
+  JiraIssue,
+  IssueChildrenResponse,
+  JiraResponse,
+  JiraWorklog,
+  JiraWorklogResponse,
+  JiraField,
+  JiraFieldMetadata,
+  JiraCreateMetaIssueTypesResponse,
+  JiraCreateMetaFieldsResponse,
+  JiraEditMetaResponse,
+} from '../types/jira';
+import { collectDescendants } from '../utils/issueHierarchy';
+import { fetchAllPages, IssueSearchResult } from '../utils/searchPagination';
+import { ISSUE_KEY_PATTERN, ISSUE_KEY_PREFIX_PATTERN } from '../utils/issueKey';
+import { getConfluenceApiUrl } from './confluencePublisher';
 
 /**
  * Interface for Jira credentials used in Basic Authentication
@@ -23,6 +38,129 @@ import { JiraIssue, IssueChildrenResponse, JiraResponse } from '../types/jira';
 export interface JiraCredentials {
   email: string;    // Jira user email address
   apiToken: string; // Jira API token (generated from Atlassian account settings)
+  baseUrl?: string; // Jira site the credentials were sent for (X-Jira-Base-Url header, standalone mode)
+}
+
+/**
+ * Options for fetching child issues
+ */
+export interface ChildIssueOptions {
+  /**
+   * Include the issue changelog (status transition history)
+   * Needed for time-window based report sections
+   */
+  expandChangelog?: boolean;
+  
+  /**
+   * Maximum depth of nested children to fetch
+   * 1 = only direct children (default), 2 = children and grandchildren, etc., 0 = unlimited
+   */
+  maxDepth?: number;
+  
+  /**
+   * Include the worklogs embedded in search results (worklog field)
+   * Needed for worklog-based timesheets
+   */
+  includeWorklogs?: boolean;
+  
+  /**
+   * Hard cap on the number of issues fetched (all levels together)
+   * Default: config.jira.maxSearchResults, 0 = no cap
+   */
+  maxResults?: number;
+  
+  /**
+   * Fields requested in addition to CHILD_ISSUE_FIELDS
+   * (e.g., custom fields used by the template field mapping)
+   */
+  fields?: string[];
+}
+
+/**
+ * Fields requested for child issues
+ */
+export const CHILD_ISSUE_FIELDS = [
+  'summary',
+  'status',
+  'labels',
+  'issuetype',
+  'parent',
+  'timespent',
+  'timeestimate',
+  'aggregatetimespent',
+  'aggregatetimeestimate',
+  'resolutiondate',
+  'duedate',
+];
+
+/**
+ * Get the fields requested for child issues
+ */
+export function getChildIssueFields(options: ChildIssueOptions): string[] {
+  const fields = [...CHILD_ISSUE_FIELDS, ...(options.fields || [])];
+  if (options.includeWorklogs) {
+    fields.push('worklog');
+  }
+  return Array.from(new Set(fields));
+}
+
+/**
+ * Number of issue types or fields requested per page of createmeta
+ */
+export const CREATEMETA_PAGE_SIZE = 200;
+
+/**
+ * Number of worklogs requested per page of /issue/{key}/worklog
+ */
+export const WORKLOG_PAGE_SIZE = 1000;
+
+/**
+ * Options for JQL searches
+ */
+export interface SearchIssueOptions {
+  /**
+   * Fields to request (default: all navigable fields)
+   */
+  fields?: string[];
+  
+  /**
+   * Include the issue changelog (status transition history)
+   */
+  expandChangelog?: boolean;
+  
+  /**
+   * Hard cap on the number of issues fetched
+   * Default: config.jira.maxSearchResults, 0 = no cap
+   */
+  maxResults?: number;
+}
+
+/**
+ * Fields requested for JQL searches by default
+ * All navigable fields, so templates can use any field path (including custom fields)
+ */
+export const SEARCH_ISSUE_FIELDS = ['*navigable'];
+
+/**
+ * Convert a failed JQL search into an Error
+ * 
+ * Jira answers 400 with its validation messages when a query is invalid
+ * (e.g., unknown field or function); those are kept so users can fix their query.
+ * 
+ * @param error - Axios error from the search request
+ * @returns Error whose message starts with "Invalid JQL query" for rejected queries
+ */
+export function toSearchError(error: any): Error {
+  if (error.response?.status === 400) {
+    const data = error.response.data || {};
+    const messages: string[] = [
+      ...(data.errorMessages || []),
+      ...Object.values(data.errors || {}).map(String),
+    ];
+    return new Error(`Invalid JQL query: ${messages.join(' ') || error.message}`);
+  }
+  const errorMsg = error.response?.data?.errorMessages?.[0] || error.message || 'Unknown error';
+  return new Error(`Failed to search issues: ${errorMsg}`);
 }
 
 /**
@@ -34,6 +172,7 @@ export interface JiraCredentials {
 export class JiraClient {
   private client: AxiosInstance;      // Axios HTTP client instance
   private credentials: JiraCredentials; // Jira credentials (email + API token)
+  private baseUrl: string;              // Jira instance URL
 
   /**
    * Constructor
@@ -41,20 +180,22 @@ export class JiraClient {
    * Creates a new Jira client with the provided credentials or falls back to config.
    * 
    * @param credentials - Optional Jira credentials. If not provided, uses credentials from config.
+   * @param baseUrl - Optional Jira instance URL. If not provided, uses the base URL from config.
    */
-  constructor(credentials?: JiraCredentials) {
+  constructor(credentials?: JiraCredentials, baseUrl?: string) {
     // Use provided credentials or fall back to config
     this.credentials = credentials || {
       email: config.jira.email,
       apiToken: config.jira.apiToken,
     };
+    this.baseUrl = baseUrl || config.jira.baseUrl;
 
     // Create Basic Auth header: base64(email:token)
     const auth = Buffer.from(`${this.credentials.email}:${this.credentials.apiToken}`).toString('base64');
     
     // Create axios instance configured for Jira API v3
     this.client = axios.create({
-      baseURL: `${config.jira.baseUrl}/rest/api/3`, // Jira REST API v3 base URL
+      baseURL: `${this.baseUrl}/rest/api/3`, // Jira REST API v3 base URL
       headers: {
         'Authorization': `Basic ${auth}`, // Basic Auth header
         'Accept': 'application/json',
@@ -73,7 +214,7 @@ export class JiraClient {
    * @returns A new JiraClient instance with the provided credentials
    */
   withCredentials(credentials: JiraCredentials): JiraClient {
-    return new JiraClient(credentials);
+    return new JiraClient(credentials, this.baseUrl);
   }
 
   /**
@@ -88,6 +229,25 @@ export class JiraClient {
     return this.client;
   }
 
+  /**
+   * Create a client for the Confluence REST API of the same site
+   * 
+   * Uses the same Basic Auth credentials as Jira requests (Atlassian API tokens work for both products).
+   * 
+   * @returns Axios client for the Confluence REST API (e.g., /content)
+   */
+  getConfluenceClient(): AxiosInstance {
+    const auth = Buffer.from(`${this.credentials.email}:${this.credentials.apiToken}`).toString('base64');
+    return axios.create({
+      baseURL: getConfluenceApiUrl(this.baseUrl),
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
   /**
    * Get a Jira issue by its key
    * 
@@ -102,7 +262,7 @@ export class JiraClient {
     try {
       // Validate issue key format (PROJECT-NUMBER, e.g., PROJ-123)
       const trimmedKey = issueKey.trim();
-      if (!trimmedKey || !/^[A-Z]+-\d+$/i.test(trimmedKey)) {
+      if (!trimmedKey || !ISSUE_KEY_PATTERN.test(trimmedKey.toUpperCase())) {
         throw new Error(`Invalid ticket key format: "${trimmedKey}". Expected format: PROJ-123`);
       }
 
@@ -136,15 +296,20 @@ export class JiraClient {
    * - Other issue types (Hub, Program, etc.): Uses "parent" field
    * 
    * If the parent field query fails for non-epic issues, it falls back to Epic Link field.
+   * Nested children (grandchildren, etc.) are fetched breadth-first up to options.maxDepth,
+   * each issue is tagged with the level it came from (issue.depth).
+   * Results are paginated and capped at options.maxResults (default config.jira.maxSearchResults).
    * 
    * @param issueKey - The parent issue key
-   * @returns Promise that resolves to an array of child issues
+   * @param options - Optional fetch options (e.g., include changelog)
+   * @param parent - Parent issue when the caller already fetched it (fetched otherwise)
+   * @returns Promise that resolves to the child issues, flagged as truncated when the cap was reached
    * @throws Error if fetching children fails
    */
-  async getIssueChildren(issueKey: string): Promise<JiraIssue[]> {
+  async getIssueChildren(issueKey: string, options: ChildIssueOptions = {}, parent?: JiraIssue): Promise<IssueSearchResult> {
     try {
       // First, get the parent issue to determine its type
-      const parentIssue = await this.getIssue(issueKey);
+      const parentIssue = parent || await this.getIssue(issueKey);
       const issueType = parentIssue.fields.issuetype?.name?.toLowerCase() || '';
       
       let jql: string; // Jira Query Language query
@@ -159,30 +324,38 @@ export class JiraClient {
         jql = `parent = ${issueKey} ORDER BY status ASC`;
       }
       
-      let response;
+      // Changelog is only expanded when needed (it can be large)
+      const expand = options.expandChangelog ? 'changelog' : undefined;
+      const fields = getChildIssueFields(options);
+      const maxIssues = options.maxResults ?? config.jira.maxSearchResults;
+      
+      let directChildren: IssueSearchResult;
       try {
         // Execute JQL search to find children using the new /search/jql endpoint
-        response = await this.client.post<JiraResponse>('/search/jql', {
-          jql,
-          fields: ['summary', 'status', 'labels', 'issuetype', 'parent', 'timespent', 'timeestimate', 'aggregatetimespent', 'aggregatetimeestimate'],
-          maxResults: 1000, // Maximum number of results to return
-        });
+        directChildren = await this.searchAllPages(jql, fields, expand, maxIssues);
       } catch (error: any) {
         // If parent query fails and it's not an epic, try epic link as fallback
         // Some issue hierarchies use Epic Link instead of parent field
         if (!issueType.includes('epic')) {
           jql = `"Epic Link" = ${issueKey} ORDER BY status ASC`;
-          response = await this.client.post<JiraResponse>('/search/jql', {
-            jql,
-            fields: ['summary', 'status', 'labels', 'issuetype', 'parent', 'timespent', 'timeestimate', 'aggregatetimespent', 'aggregatetimeestimate'],
-            maxResults: 1000,
-          });
+          directChildren = await this.searchAllPages(jql, fields, expand, maxIssues);
         } else {
           throw error;
         }
       }
 
-      return response.data.issues;
+      // Walk nested children level by level when the template asks for them
+      const descendants = await collectDescendants(
+        issueKey,
+        directChildren.issues,
+        options.maxDepth ?? 1,
+        (parentKeys, limit) => this.searchChildrenOf(parentKeys, fields, expand, limit),
+        maxIssues
+      );
+      return {
+        issues: descendants.issues,
+        truncated: directChildren.truncated || descendants.truncated,
+      };
     } catch (error: any) {
       const errorDetail = error.response?.data || error.message;
       throw new Error(`Failed to fetch children of ${issueKey}: ${JSON.stringify(errorDetail)}`);
@@ -190,27 +363,193 @@ export class JiraClient {
   }
 
   /**
-   * Search issues using JQL (Jira Query Language)
+   * Get the direct children of several parent issues in one JQL query
+   * Used to fetch nested levels of the hierarchy (batched by issueHierarchy)
    * 
-   * Executes a JQL query to search for issues. JQL is Jira's powerful query language
-   * that allows you to search for issues using various criteria.
+   * @param parentKeys - Parent issue keys
+   * @param fields - Fields to request
+   * @param expand - Optional expand parameter (e.g., "changelog")
+   * @param maxIssues - Hard cap on the number of issues (0 = no cap)
+   * @returns Promise that resolves to the children of all given parents
+   */
+  private async searchChildrenOf(parentKeys: string[], fields: string[], expand: string | undefined, maxIssues: number): Promise<IssueSearchResult> {
+    return this.searchAllPages(
+      `parent in (${parentKeys.join(', ')}) ORDER BY key ASC`,
+      fields,
+      expand,
+      maxIssues
+    );
+  }
+
+  /**
+   * Run a JQL search, following nextPageToken until the last page or the cap
    * 
-   * @param jql - JQL query string (e.g., "project = PROJ AND status = 'In Progress'")
-   * @returns Promise that resolves to an array of matching issues
-   * @throws Error if the search fails
+   * @param jql - JQL query string
+   * @param fields - Fields to request
+   * @param expand - Optional expand parameter (e.g., "changelog")
+   * @param maxIssues - Hard cap on the number of issues (0 = no cap)
+   * @returns Promise that resolves to the issues of all pages and a truncation flag
    */
-  async searchIssues(jql: string): Promise<JiraIssue[]> {
-    try {
-      // Execute JQL search using the new /search/jql endpoint
+  private async searchAllPages(jql: string, fields: string[], expand: string | undefined, maxIssues: number): Promise<IssueSearchResult> {
+    return fetchAllPages(async (maxResults, nextPageToken) => {
       const response = await this.client.post<JiraResponse>('/search/jql', {
         jql,
-        fields: ['summary', 'status', 'labels', 'issuetype', 'parent'],
-        maxResults: 1000,
+        fields,
+        expand,
+        maxResults,
+        nextPageToken,
       });
+      return response.data;
+    }, maxIssues);
+  }
 
-      return response.data.issues;
+  /**
+   * Search issues using JQL
+   * 
+   * Executes a JQL query and returns matching issues, with all navigable fields by default
+   * so templates can map any field (including custom fields).
+   * 
+   * @param jql - JQL query string (e.g., "project = ABC AND sprint in openSprints()")
+   * @param options - Optional fields to request, changelog expansion and result cap
+   * @returns Promise that resolves to the matching issues, flagged as truncated when the cap was reached
+   * @throws Error starting with "Invalid JQL query" if Jira rejects the query
+   */
+  async searchIssues(jql: string, options: SearchIssueOptions = {}): Promise<IssueSearchResult> {
+    try {
+      // Execute JQL search using the new /search/jql endpoint, page by page
+      return await this.searchAllPages(
+        jql,
+        options.fields || SEARCH_ISSUE_FIELDS,
+        options.expandChangelog ? 'changelog' : undefined,
+        options.maxResults ?? config.jira.maxSearchResults
+      );
     } catch (error: any) {
-      throw new Error(`Failed to search issues: ${error.message}`);
+      throw toSearchError(error);
+    }
+  }
+
+  /**
+   * Get the worklogs of an issue started in a date range
+   * 
+   * Search results only embed the first worklogs of each issue; this endpoint returns
+   * all of them, page by page (offset pagination).
+   * 
+   * @param issueKey - Issue key
+   * @param startedAfter - Only worklogs started at or after this date
+   * @param startedBefore - Only worklogs started before this date
+   * @returns Promise that resolves to the worklogs of the issue
+   * @throws Error if fetching worklogs fails
+   */
+  async getIssueWorklogs(issueKey: string, startedAfter?: Date, startedBefore?: Date): Promise<JiraWorklog[]> {
+    try {
+      const worklogs: JiraWorklog[] = [];
+      let total = 0;
+      do {
+        const response = await this.client.get<JiraWorklogResponse>(`/issue/${issueKey}/worklog`, {
+          params: {
+            startAt: worklogs.length,
+            maxResults: WORKLOG_PAGE_SIZE,
+            startedAfter: startedAfter?.getTime(),
+            startedBefore: startedBefore?.getTime(),
+          },
+        });
+        worklogs.push(...response.data.worklogs);
+        total = response.data.total;
+        if (response.data.worklogs.length === 0) {
+          break;
+        }
+      } while (worklogs.length < total);
+      return worklogs;
+    } catch (error: any) {
+      const errorDetail = error.response?.data?.errorMessages?.[0] || error.message;
+      throw new Error(`Failed to fetch worklogs of ${issueKey}: ${errorDetail}`);
+    }
+  }
+
+  /**
+   * Get all fields of the Jira site (system and custom fields)
+   * 
+   * @returns Promise that resolves to the fields with their schema
+   * @throws Error if fetching fields fails
+   */
+  async getFields(): Promise<JiraField[]> {
+    try {
+      const response = await this.client.get<JiraField[]>('/field');
+      return response.data;
+    } catch (error: any) {
+      const errorDetail = error.response?.data?.errorMessages?.[0] || error.message;
+      throw new Error(`Failed to fetch fields: ${errorDetail}`);
+    }
+  }
+
+  /**
+   * Get the fields of the create screens of a project (all issue types)
+   * A field is required if it is required for at least one issue type
+   * 
+   * @param projectKey - Project key
+   * @returns Promise that resolves to the fields of the create screens
+   * @throws Error if the project doesn't exist or fetching the metadata fails
+   */
+  async getCreateMetaFields(projectKey: string): Promise<JiraFieldMetadata[]> {
+    try {
+      const issueTypes: JiraCreateMetaIssueTypesResponse['issueTypes'] = [];
+      let total = 0;
+      do {
+        const response = await this.client.get<JiraCreateMetaIssueTypesResponse>(`/issue/createmeta/${projectKey}/issuetypes`, {
+          params: { startAt: issueTypes.length, maxResults: CREATEMETA_PAGE_SIZE },
+        });
+        issueTypes.push(...response.data.issueTypes);
+        total = response.data.total;
+        if (response.data.issueTypes.length === 0) {
+          break;
+        }
+      } while (issueTypes.length < total);
+
+      const fieldsById = new Map<string, JiraFieldMetadata>();
+      for (const issueType of issueTypes) {
+        let startAt = 0;
+        do {
+          const response = await this.client.get<JiraCreateMetaFieldsResponse>(`/issue/createmeta/${projectKey}/issuetypes/${issueType.id}`, {
+            params: { startAt, maxResults: CREATEMETA_PAGE_SIZE },
+          });
+          for (const field of response.data.fields) {
+            const known = fieldsById.get(field.fieldId);
+            fieldsById.set(field.fieldId, { ...field, required: field.required || Boolean(known?.required) });
+          }
+          startAt += response.data.fields.length;
+          total = response.data.total;
+          if (response.data.fields.length === 0) {
+            break;
+          }
+        } while (startAt < total);
+      }
+      return Array.from(fieldsById.values());
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        throw new Error(`Project "${projectKey}" does not exist or you do not have permission to create issues in it.`);
+      }
+      const errorDetail = error.response?.data?.errorMessages?.[0] || error.message;
+      throw new Error(`Failed to fetch create metadata of ${projectKey}: ${errorDetail}`);
+    }
+  }
+
+  /**
+   * Get the fields of the edit screen of an issue
+   * 
+   * @param issueKey - Issue key
+   * @returns Promise that resolves to the fields of the edit screen
+   * @throws Error if the issue doesn't exist or fetching the metadata fails
+   */
+  async getEditMetaFields(issueKey: string): Promise<JiraFieldMetadata[]> {
+    try {
+      const response = await this.client.get<JiraEditMetaResponse>(`/issue/${issueKey}/editmeta`);
+      return Object.entries(response.data.fields).map(([fieldId, field]) => ({ ...field, fieldId }));
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        throw new Error(`Ticket "${issueKey}" does not exist or you do not have permission to access it.`);
+      }
+      const errorDetail = error.response?.data?.errorMessages?.[0] || error.message;
+      throw new Error(`Failed to fetch edit metadata of ${issueKey}: ${errorDetail}`);
     }
   }
 
@@ -252,7 +591,7 @@ export class JiraClient {
         .join(' OR ');
       
       // Check if the search text looks like a key prefix (e.g., "KAN-")
-      const isKeyPrefix = /^[A-Z]+-?$/i.test(searchText.trim());
+      const isKeyPrefix = ISSUE_KEY_PREFIX_PATTERN.test(searchText.trim().toUpperCase());
       
       let jql: string;
       if (isKeyPrefix) {
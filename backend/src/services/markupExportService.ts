@@ -0,0 +1,263 @@
+import { ReportRow, ReportColumn, ReportGroupLevel, getReportCellValue, buildReportTableLines, getSubtotalCellValue } from './reportService';
+import { JiraIssue } from '../types/jira';
+import { TimesheetSummary, WorklogTimesheet } from './timesheetService';
+import { getWeekNumbers } from '../utils/weekUtils';
+import { extractIssueFields } from '../utils/jiraFieldUtils';
+
+/**
+ * Text formats of the markup export
+ * - markdown: GitHub-flavoured Markdown (Git wikis, READMEs)
+ * - confluence: Confluence storage format (XHTML), pasted in the source editor or sent to the Confluence API
+ */
+export type MarkupFormat = 'markdown' | 'confluence';
+
+export const MARKUP_FORMATS: MarkupFormat[] = ['markdown', 'confluence'];
+
+/**
+ * Cell of a markup table
+ */
+interface MarkupCell {
+  text: string;
+  items?: string[]; // Issue items, rendered as a list instead of the text
+  bold?: boolean;
+  code?: boolean; // Ticket keys
+  colSpan?: number; // Group sub-headers (Confluence only, Markdown tables have no merged cells)
+}
+
+/**
+ * Block of a markup document, rendered in each format
+ */
+type MarkupBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; label?: string; text: string; italic?: boolean }
+  | { type: 'table'; header: string[]; rows: MarkupCell[][] };
+
+/**
+ * Escape text for GitHub-flavoured Markdown (inline text and table cells)
+ */
+const escapeMarkdown = (text: string): string =>
+  text.replace(/[\\`*_[\]<>|#]/g, match => `\\${match}`).replace(/\r?\n/g, ' ');
+
+/**
+ * Escape text for XHTML (Confluence storage format)
+ */
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Markup Export Service
+ *
+ * Generates the weekly report as text, in GitHub-flavoured Markdown or Confluence storage format,
+ * with the same content as the Word export (parent ticket details, weekly report table and timesheet).
+ * Both formats are rendered from one list of blocks so they can't drift apart.
+ */
+export class MarkupExportService {
+  generateDocument(format: MarkupFormat, reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[], issue: JiraIssue, timesheet: TimesheetSummary, referenceDate?: Date): string {
+    const blocks = this.buildBlocks(reportRows, columns, groupLevels, issue, timesheet, referenceDate);
+    return format === 'confluence' ? this.renderConfluence(blocks) : this.renderMarkdown(blocks);
+  }
+
+  /**
+   * Build the blocks of the document (same sections as the Word export)
+   */
+  private buildBlocks(reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[], issue: JiraIssue, timesheet: TimesheetSummary, referenceDate?: Date): MarkupBlock[] {
+    const weekNumbers = getWeekNumbers(referenceDate);
+    const blocks: MarkupBlock[] = [
+      { type: 'heading', level: 1, text: 'ABC Manager - Weekly Report' },
+      { type: 'heading', level: 2, text: 'Parent Ticket Information' },
+      { type: 'paragraph', label: 'Ticket:', text: issue.key },
+      { type: 'paragraph', label: 'Summary:', text: issue.fields.summary },
+      { type: 'table', header: ['Field', 'Value'], rows: this.buildParentDetailRows(issue) },
+      { type: 'heading', level: 2, text: `Weekly Report - Week ${weekNumbers.currentWeek}, ${weekNumbers.year}` },
+      { type: 'table', header: columns.map(column => column.label), rows: this.buildReportRows(reportRows, columns, groupLevels) },
+      { type: 'heading', level: 2, text: 'Global Timesheet' },
+      {
+        type: 'table',
+        header: ['Parent Ticket', 'Time Spent', 'Estimate', 'Remaining Time'],
+        rows: [[
+          { text: `${issue.key}: ${issue.fields.summary}` },
+          { text: timesheet.parentTimeSpentDisplay },
+          { text: timesheet.parentTimeEstimateDisplay },
+          { text: timesheet.parentRemainingDisplay, bold: true },
+        ]],
+      },
+    ];
+
+    if (timesheet.entries.length > 0) {
+      blocks.push(
+        { type: 'heading', level: 3, text: 'Detail by Ticket' },
+        {
+          type: 'table',
+          header: ['Ticket', 'Summary', 'Time Spent', 'Estimate', 'Remaining Time', 'Status'],
+          rows: timesheet.entries.map(entry => [
+            { text: entry.issueKey, code: true },
+            { text: entry.summary },
+            { text: entry.timespentDisplay },
+            { text: entry.timeestimateDisplay },
+            { text: entry.remainingDisplay, bold: true },
+            { text: entry.status },
+          ]),
+        }
+      );
+    }
+
+    if (timesheet.worklog) {
+      blocks.push(...this.buildWorklogBlocks(timesheet.worklog));
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Build the detail rows of the parent ticket (type, confidence, assignee, dates, status and labels)
+   */
+  private buildParentDetailRows(issue: JiraIssue): MarkupCell[][] {
+    const additionalFields = extractIssueFields(issue);
+    const details: Array<[string, string]> = [['Type', issue.fields.issuetype?.name || 'Unknown']];
+
+    if (additionalFields.confidence !== null && additionalFields.confidence !== undefined) {
+      const confidenceValue = typeof additionalFields.confidence === 'object'
+        ? additionalFields.confidence?.value || additionalFields.confidence?.name || String(additionalFields.confidence)
+        : String(additionalFields.confidence);
+      details.push(['Confidence', confidenceValue]);
+    }
+    if (additionalFields.assignee) {
+      details.push(['Assignee', additionalFields.assignee]);
+    }
+    if (additionalFields.startDate) {
+      details.push(['Start Date', new Date(additionalFields.startDate).toLocaleDateString()]);
+    }
+    if (additionalFields.duedate) {
+      details.push(['End Date', new Date(additionalFields.duedate).toLocaleDateString()]);
+    }
+    details.push(['Status', issue.fields.status.name]);
+    if ((issue.fields.labels || []).length > 0) {
+      details.push(['Labels', issue.fields.labels.join(', ')]);
+    }
+
+    return details.map(([label, value]) => [{ text: label, bold: true }, { text: value }]);
+  }
+
+  /**
+   * Build the rows of the report table, with the group sub-headers and subtotals
+   */
+  private buildReportRows(reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[]): MarkupCell[][] {
+    return buildReportTableLines(reportRows, groupLevels).map(line => {
+      if (line.type === 'header') {
+        return [{ text: line.text, bold: true, colSpan: columns.length }];
+      }
+      if (line.type === 'subtotal') {
+        return columns.map((column, index) => ({ text: getSubtotalCellValue(line, column, index), bold: true }));
+      }
+      return columns.map(column => {
+        const value = getReportCellValue(line.row, column);
+        return Array.isArray(value) ? { text: '-', items: value } : { text: value || '-' };
+      });
+    });
+  }
+
+  /**
+   * Build the "Time Logged by Person" section of a worklog timesheet
+   */
+  private buildWorklogBlocks(worklog: WorklogTimesheet): MarkupBlock[] {
+    const heading: MarkupBlock = { type: 'heading', level: 3, text: `Time Logged by Person (${worklog.from} to ${worklog.to})` };
+    if (worklog.authors.length === 0) {
+      return [heading, { type: 'paragraph', text: 'No time logged during this period.', italic: true }];
+    }
+
+    const rows: MarkupCell[][] = worklog.authors.flatMap(author => [
+      [
+        { text: author.author, bold: true },
+        { text: '' },
+        { text: `${author.issues.length} ticket${author.issues.length > 1 ? 's' : ''}` },
+        { text: author.timeSpentDisplay, bold: true },
+      ],
+      ...author.issues.map(issueTime => [
+        { text: '' },
+        { text: issueTime.issueKey, code: true },
+        { text: issueTime.summary },
+        { text: issueTime.timeSpentDisplay },
+      ]),
+    ]);
+    rows.push([{ text: 'Total', bold: true }, { text: '' }, { text: '' }, { text: worklog.totalTimeSpentDisplay, bold: true }]);
+
+    return [heading, { type: 'table', header: ['Person', 'Ticket', 'Summary', 'Time Logged'], rows }];
+  }
+
+  /**
+   * Render blocks as GitHub-flavoured Markdown
+   * Issue items are separated by line breaks in their cell, and group sub-headers fill the first cell of their row
+   */
+  private renderMarkdown(blocks: MarkupBlock[]): string {
+    const renderCell = (cell: MarkupCell): string => {
+      if (cell.items) {
+        return cell.items.length > 0 ? cell.items.map(item => `• ${escapeMarkdown(item)}`).join('<br>') : '-';
+      }
+      if (!cell.text) {
+        return '';
+      }
+      if (cell.code) {
+        return `\`${cell.text.replace(/`/g, '')}\``;
+      }
+      return cell.bold ? `**${escapeMarkdown(cell.text)}**` : escapeMarkdown(cell.text);
+    };
+
+    return blocks.map(block => {
+      switch (block.type) {
+        case 'heading':
+          return `${'#'.repeat(block.level)} ${escapeMarkdown(block.text)}`;
+        case 'paragraph': {
+          const text = block.italic ? `_${escapeMarkdown(block.text)}_` : escapeMarkdown(block.text);
+          return block.label ? `**${escapeMarkdown(block.label)}** ${text}` : text;
+        }
+        case 'table': {
+          const width = block.header.length;
+          const renderRow = (cells: string[]) => `| ${cells.join(' | ')} |`;
+          return [
+            renderRow(block.header.map(escapeMarkdown)),
+            renderRow(block.header.map(() => '---')),
+            ...block.rows.map(row => {
+              const cells = row.map(renderCell);
+              // Pad rows with merged cells to the table width
+              return renderRow([...cells, ...Array(Math.max(0, width - cells.length)).fill('')]);
+            }),
+          ].join('\n');
+        }
+      }
+    }).join('\n\n') + '\n';
+  }
+
+  /**
+   * Render blocks as Confluence storage format (XHTML)
+   */
+  private renderConfluence(blocks: MarkupBlock[]): string {
+    const renderContent = (cell: MarkupCell): string => {
+      if (cell.items) {
+        return cell.items.length > 0 ? `<ul>${cell.items.map(item => `<li>${escapeXml(item)}</li>`).join('')}</ul>` : '-';
+      }
+      const text = escapeXml(cell.text);
+      if (cell.code && text) {
+        return `<code>${text}</code>`;
+      }
+      return cell.bold && text ? `<strong>${text}</strong>` : text;
+    };
+
+    return blocks.map(block => {
+      switch (block.type) {
+        case 'heading':
+          return `<h${block.level}>${escapeXml(block.text)}</h${block.level}>`;
+        case 'paragraph': {
+          const text = block.italic ? `<em>${escapeXml(block.text)}</em>` : escapeXml(block.text);
+          return block.label ? `<p><strong>${escapeXml(block.label)}</strong> ${text}</p>` : `<p>${text}</p>`;
+        }
+        case 'table': {
+          const header = `<tr>${block.header.map(label => `<th>${escapeXml(label)}</th>`).join('')}</tr>`;
+          const rows = block.rows.map(row =>
+            `<tr>${row.map(cell => `<td${cell.colSpan ? ` colspan="${cell.colSpan}"` : ''}>${renderContent(cell)}</td>`).join('')}</tr>`
+          );
+          return `<table><tbody>${header}${rows.join('')}</tbody></table>`;
+        }
+      }
+    }).join('\n') + '\n';
+  }
+}
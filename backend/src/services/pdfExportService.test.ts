@@ -0,0 +1,64 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { PdfExportService, PdfFontOptions, toWinAnsi } from './pdfExportService';
+import { TimesheetService } from './timesheetService';
+import { JiraIssue } from '../types/jira';
+
+const UNICODE_FONT = '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf';
+
+const issue: JiraIssue = {
+  id: '1',
+  key: 'ABC-1',
+  summary: 'Отчёт 周报',
+  status: { name: 'В работе', statusCategory: { key: 'indeterminate', name: 'In Progress' } },
+  labels: [],
+  issueType: { name: 'Task' },
+  fields: {
+    summary: 'Отчёт 周报',
+    status: { name: 'В работе', statusCategory: { key: 'indeterminate', name: 'In Progress' } },
+    labels: [],
+    issuetype: { name: 'Task' },
+  },
+};
+
+/**
+ * Generate the report of the issue and get the PDF source (fonts are declared in plain text)
+ */
+const generate = async (fontOptions: PdfFontOptions): Promise<string> => {
+  const timesheet = new TimesheetService().generateTimesheet(issue, [issue]);
+  const pdf = await new PdfExportService(fontOptions).generateDocument([], [], [], issue, timesheet);
+  return pdf.toString('latin1');
+};
+
+test('toWinAnsi keeps Western European text and replaces the other characters', () => {
+  assert.equal(toWinAnsi('Déployé – “prêt” • 5 €'), 'Déployé – “prêt” • 5 €');
+  assert.equal(toWinAnsi('Отчёт 周报 ✅\nDone'), '????? ?? ?\nDone');
+});
+
+test('generateDocument uses the standard fonts without a font file', async () => {
+  const pdf = await generate({ fontPath: '', boldFontPath: '' });
+
+  assert.match(pdf, /\/BaseFont \/Helvetica-Bold/);
+  assert.doesNotMatch(pdf, /\/FontFile2/);
+});
+
+test('generateDocument falls back to the standard fonts when the font file is missing', async () => {
+  const warn = mock.method(console, 'warn', () => undefined);
+  try {
+    const pdf = await generate({ fontPath: '/missing/font.ttf', boldFontPath: '' });
+
+    assert.match(pdf, /\/BaseFont \/Helvetica/);
+    assert.equal(warn.mock.callCount(), 1);
+  } finally {
+    warn.mock.restore();
+  }
+});
+
+test('generateDocument embeds the configured font', { skip: !fs.existsSync(UNICODE_FONT) && `${UNICODE_FONT} is not installed` }, async () => {
+  const pdf = await generate({ fontPath: UNICODE_FONT, boldFontPath: '' });
+
+  assert.match(pdf, /\/BaseFont \/[A-Z]{6}\+DejaVuSans/);
+  assert.match(pdf, /\/FontFile2/);
+  assert.doesNotMatch(pdf, /\/BaseFont \/Helvetica/);
+});
@@ -0,0 +1,466 @@
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import { config } from '../config';
+import { ReportRow, ReportColumn, ReportGroupLevel, getReportCellValue, isBucketColumn, buildReportTableLines, getSubtotalCellValue } from './reportService';
+import { JiraIssue } from '../types/jira';
+import { TimesheetSummary, WorklogTimesheet } from './timesheetService';
+import { getWeekNumbers } from '../utils/weekUtils';
+import { extractIssueFields } from '../utils/jiraFieldUtils';
+
+// Blue color scheme (same as the Word and PPT exports)
+const BLUE_PRIMARY = '#0052CC';
+const BLUE_LIGHT = '#DEEBFF';
+const BLUE_VERY_LIGHT = '#E3F0FF';
+const BLUE_GROUP = '#F4F8FF';
+const DARK_TEXT = '#172B4D';
+const GREY_TEXT = '#6B778C';
+const SUCCESS_TEXT = '#006644';
+const WARNING_TEXT = '#FF991F';
+
+const FONT_SIZE = 9;
+const CELL_PADDING = 5;
+
+/**
+ * Characters of the WinAnsi encoding outside Latin-1 (the 0x80-0x9F range of Windows-1252)
+ */
+const WIN_ANSI_EXTRA_CHARACTERS = '\u20AC\u201A\u0192\u201E\u2026\u2020\u2021\u02C6\u2030\u0160\u2039\u0152\u017D'
+  + '\u2018\u2019\u201C\u201D\u2022\u2013\u2014\u02DC\u2122\u0161\u203A\u0153\u017E\u0178';
+
+/**
+ * Fonts of the documents
+ */
+interface PdfFonts {
+  regular: string;
+  bold: string;
+  italic: string;
+  mono: string;
+
+  /**
+   * Whether the fonts cover Unicode (embedded font files); the standard fonts only cover WinAnsi
+   */
+  unicode: boolean;
+}
+
+/**
+ * Font files drawing the text of the documents (see config.pdf)
+ */
+export interface PdfFontOptions {
+  fontPath: string;
+  boldFontPath: string;
+}
+
+/**
+ * Standard PDF fonts (not embedded)
+ */
+const STANDARD_FONTS: PdfFonts = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+  italic: 'Helvetica-Oblique',
+  mono: 'Courier-Bold',
+  unicode: false,
+};
+
+/**
+ * Replace the characters that the standard PDF fonts can't draw with "?"
+ * The standard fonts only cover the WinAnsi encoding (Western European languages):
+ * other characters (e.g., Cyrillic, CJK) would come out garbled.
+ */
+export const toWinAnsi = (text: string): string =>
+  text.replace(/[^\t\n\r\x20-\x7E\xA0-\xFF]/gu, char => (WIN_ANSI_EXTRA_CHARACTERS.includes(char) ? char : '?'));
+
+/**
+ * Get the fonts of the documents: the configured font files (embedded, covering Unicode),
+ * or the standard fonts when no font file is configured or the file is missing
+ */
+const resolveFonts = (options: PdfFontOptions): PdfFonts => {
+  if (!options.fontPath) {
+    return STANDARD_FONTS;
+  }
+  if (!fs.existsSync(options.fontPath)) {
+    console.warn(`PDF font ${options.fontPath} not found: using the standard fonts (characters outside WinAnsi are replaced with "?")`);
+    return STANDARD_FONTS;
+  }
+
+  const bold = options.boldFontPath && fs.existsSync(options.boldFontPath) ? options.boldFontPath : options.fontPath;
+  return { regular: options.fontPath, bold, italic: options.fontPath, mono: bold, unicode: true };
+};
+
+/**
+ * Cell of a PDF table
+ */
+interface PdfCell {
+  text: string;
+  bullets?: string[]; // Issue items, listed with bullets instead of the text
+  bold?: boolean;
+  mono?: boolean; // Ticket keys (monospace, like the web page)
+  color?: string;
+  colSpan?: number;
+  indent?: number;
+}
+
+/**
+ * Row of a PDF table
+ */
+interface PdfRow {
+  cells: PdfCell[];
+  fill?: string;
+}
+
+/**
+ * PDF Export Service
+ *
+ * Generates the weekly report as a PDF document, with the same content as the Word export
+ * (parent ticket details, weekly report table and timesheet).
+ * Documents are drawn with pdfkit (no headless browser), with the font configured with PDF_FONT_PATH,
+ * or the standard fonts, which only draw Western European characters (see toWinAnsi).
+ */
+export class PdfExportService {
+  private fonts: PdfFonts;
+
+  /**
+   * @param fontOptions - Font files drawing the text (defaults to PDF_FONT_PATH and PDF_BOLD_FONT_PATH)
+   */
+  constructor(fontOptions: PdfFontOptions = config.pdf) {
+    this.fonts = resolveFonts(fontOptions);
+  }
+
+  async generateDocument(reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[], issue: JiraIssue, timesheet: TimesheetSummary, referenceDate?: Date): Promise<Buffer> {
+    const weekNumbers = getWeekNumbers(referenceDate);
+    const doc = new PDFDocument({
+      size: 'A4',
+      layout: 'landscape',
+      margin: 40,
+      info: { Title: `ABC Manager - Weekly Report ${issue.key}` },
+    });
+    const buffer = this.collectBuffer(doc);
+
+    // Title (blue like web page)
+    doc.font(this.fonts.bold).fontSize(20).fillColor(BLUE_PRIMARY).text('ABC Manager - Weekly Report');
+    doc.moveDown(0.8);
+
+    // Parent ticket key, summary and details
+    this.addHeading(doc, 'Parent Ticket Information', { color: BLUE_PRIMARY });
+    doc.font(this.fonts.bold).fontSize(13).fillColor(DARK_TEXT).text('Ticket: ', { continued: true })
+      .fillColor(BLUE_PRIMARY).text(this.encodeText(issue.key));
+    doc.font(this.fonts.regular).fontSize(11).fillColor(DARK_TEXT).text(this.encodeText(`Summary: ${issue.fields.summary}`));
+    doc.moveDown(0.5);
+    this.drawTable(doc, this.getWidths(doc, [1, 3]), null, this.buildParentDetailRows(issue));
+
+    // Report table (template columns, with the sub-headers and subtotals of the grouping levels)
+    this.addHeading(doc, `Weekly Report - Week ${weekNumbers.currentWeek}, ${weekNumbers.year}`, { underline: true });
+    this.drawTable(
+      doc,
+      // Bucket columns (issue lists) are 3/4 as wide as text columns (Category, Initiative, fields)
+      this.getWidths(doc, columns.map(column => (isBucketColumn(column) ? 3 : 4))),
+      { cells: columns.map(column => ({ text: column.label, bold: true, color: BLUE_PRIMARY })), fill: BLUE_LIGHT },
+      this.buildReportRows(reportRows, columns, groupLevels)
+    );
+
+    // Timesheet of the parent ticket
+    this.addHeading(doc, 'Global Timesheet', { underline: true });
+    this.drawTable(
+      doc,
+      this.getWidths(doc, [40, 20, 20, 20]),
+      this.headerRow(['Parent Ticket', 'Time Spent', 'Estimate', 'Remaining Time']),
+      [{
+        cells: [
+          { text: `${issue.key}: ${issue.fields.summary}` },
+          { text: timesheet.parentTimeSpentDisplay },
+          { text: timesheet.parentTimeEstimateDisplay },
+          { text: timesheet.parentRemainingDisplay, bold: true, color: this.remainingColor(timesheet.parentRemainingManDays) },
+        ],
+      }]
+    );
+
+    // Detailed timesheet entries
+    if (timesheet.entries.length > 0) {
+      this.addHeading(doc, 'Detail by Ticket', { size: 11 });
+      this.drawTable(
+        doc,
+        this.getWidths(doc, [12, 32, 12, 12, 12, 20]),
+        this.headerRow(['Ticket', 'Summary', 'Time Spent', 'Estimate', 'Remaining Time', 'Status']),
+        timesheet.entries.map((entry, index) => ({
+          cells: [
+            { text: entry.issueKey, mono: true, bold: true, color: BLUE_PRIMARY },
+            { text: entry.summary },
+            { text: entry.timespentDisplay },
+            { text: entry.timeestimateDisplay },
+            { text: entry.remainingDisplay, bold: true, color: this.remainingColor(entry.remainingManDays) },
+            { text: entry.status },
+          ],
+          fill: index % 2 === 0 ? BLUE_VERY_LIGHT : undefined,
+        }))
+      );
+    }
+
+    // Time logged per person (worklog timesheet mode)
+    if (timesheet.worklog) {
+      this.addWorklogSection(doc, timesheet.worklog);
+    }
+
+    doc.end();
+    return buffer;
+  }
+
+  /**
+   * Collect the output of a document into a buffer (resolved when the document is ended)
+   */
+  private collectBuffer(doc: PDFKit.PDFDocument): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    return new Promise((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+  }
+
+  /**
+   * Build the detail rows of the parent ticket (type, confidence, assignee, dates, status and labels)
+   */
+  private buildParentDetailRows(issue: JiraIssue): PdfRow[] {
+    const additionalFields = extractIssueFields(issue);
+    const details: Array<[string, string]> = [['Type:', issue.fields.issuetype?.name || 'Unknown']];
+
+    if (additionalFields.confidence !== null && additionalFields.confidence !== undefined) {
+      const confidenceValue = typeof additionalFields.confidence === 'object'
+        ? additionalFields.confidence?.value || additionalFields.confidence?.name || String(additionalFields.confidence)
+        : String(additionalFields.confidence);
+      details.push(['Confidence:', confidenceValue]);
+    }
+    if (additionalFields.assignee) {
+      details.push(['Assignee:', additionalFields.assignee]);
+    }
+    if (additionalFields.startDate) {
+      details.push(['Start Date:', new Date(additionalFields.startDate).toLocaleDateString()]);
+    }
+    if (additionalFields.duedate) {
+      details.push(['End Date:', new Date(additionalFields.duedate).toLocaleDateString()]);
+    }
+    details.push(['Status:', issue.fields.status.name]);
+    if ((issue.fields.labels || []).length > 0) {
+      details.push(['Labels:', issue.fields.labels.join(', ')]);
+    }
+
+    return details.map(([label, value], index) => ({
+      cells: [{ text: label, bold: true }, { text: value }],
+      fill: index % 2 === 1 ? BLUE_VERY_LIGHT : undefined,
+    }));
+  }
+
+  /**
+   * Build the rows of the report table: data rows with alternating colors and bullet points,
+   * between the group sub-headers and subtotals
+   */
+  private buildReportRows(reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[]): PdfRow[] {
+    return buildReportTableLines(reportRows, groupLevels).map(line => {
+      if (line.type === 'header') {
+        return {
+          cells: [{ text: line.text, bold: true, color: BLUE_PRIMARY, colSpan: columns.length, indent: line.level * 12 }],
+          fill: BLUE_GROUP,
+        };
+      }
+      if (line.type === 'subtotal') {
+        return {
+          cells: columns.map((column, index) => ({ text: getSubtotalCellValue(line, column, index), bold: true })),
+          fill: BLUE_LIGHT,
+        };
+      }
+      return {
+        cells: columns.map(column => {
+          const value = getReportCellValue(line.row, column);
+          return Array.isArray(value) ? { text: '-', bullets: value } : { text: value || '-' };
+        }),
+        fill: line.index % 2 === 0 ? BLUE_VERY_LIGHT : undefined,
+      };
+    });
+  }
+
+  /**
+   * Add the "Time Logged by Person" section of a worklog timesheet
+   * One row per person with their total, followed by one row per ticket they logged time on
+   */
+  private addWorklogSection(doc: PDFKit.PDFDocument, worklog: WorklogTimesheet): void {
+    this.addHeading(doc, `Time Logged by Person (${worklog.from} to ${worklog.to})`, { size: 11 });
+
+    if (worklog.authors.length === 0) {
+      doc.font(this.fonts.italic).fontSize(FONT_SIZE).fillColor(GREY_TEXT).text('No time logged during this period.');
+      return;
+    }
+
+    const rows: PdfRow[] = [];
+    worklog.authors.forEach((author, index) => {
+      const fill = index % 2 === 0 ? BLUE_VERY_LIGHT : undefined;
+      rows.push({
+        cells: [
+          { text: author.author, bold: true },
+          { text: '' },
+          { text: `${author.issues.length} ticket${author.issues.length > 1 ? 's' : ''}` },
+          { text: author.timeSpentDisplay, bold: true, color: BLUE_PRIMARY },
+        ],
+        fill,
+      });
+      author.issues.forEach(issueTime => {
+        rows.push({
+          cells: [
+            { text: '' },
+            { text: issueTime.issueKey, mono: true, bold: true, color: BLUE_PRIMARY },
+            { text: issueTime.summary },
+            { text: issueTime.timeSpentDisplay },
+          ],
+          fill,
+        });
+      });
+    });
+    rows.push({
+      cells: [
+        { text: 'Total', bold: true },
+        { text: '' },
+        { text: '' },
+        { text: worklog.totalTimeSpentDisplay, bold: true, color: BLUE_PRIMARY },
+      ],
+    });
+
+    this.drawTable(doc, this.getWidths(doc, [24, 14, 46, 16]), this.headerRow(['Person', 'Ticket', 'Summary', 'Time Logged']), rows);
+  }
+
+  /**
+   * Add a section heading, on a new page when it would be the last line of the page
+   */
+  private addHeading(doc: PDFKit.PDFDocument, text: string, options: { size?: number; color?: string; underline?: boolean } = {}): void {
+    const left = doc.page.margins.left;
+    const right = doc.page.width - doc.page.margins.right;
+    if (doc.y + 60 > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+
+    doc.moveDown(0.8);
+    doc.font(this.fonts.bold).fontSize(options.size || 14).fillColor(options.color || DARK_TEXT).text(this.encodeText(text), left, doc.y);
+    if (options.underline) {
+      doc.moveTo(left, doc.y + 2).lineTo(right, doc.y + 2).lineWidth(1.5).strokeColor(BLUE_PRIMARY).stroke();
+    }
+    doc.moveDown(0.6);
+  }
+
+  /**
+   * Header row of a table
+   */
+  private headerRow(labels: string[]): PdfRow {
+    return { cells: labels.map(label => ({ text: label, bold: true, color: BLUE_PRIMARY })), fill: BLUE_LIGHT };
+  }
+
+  /**
+   * Color of a remaining time (green when time is left, orange when over the estimate)
+   */
+  private remainingColor(remainingManDays?: number): string {
+    return (remainingManDays ?? 0) >= 0 ? SUCCESS_TEXT : WARNING_TEXT;
+  }
+
+  /**
+   * Convert column weights to widths filling the page
+   */
+  private getWidths(doc: PDFKit.PDFDocument, weights: number[]): number[] {
+    const pageWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    return weights.map(weight => (weight / totalWeight) * pageWidth);
+  }
+
+  /**
+   * Set the font of a cell
+   */
+  private setCellFont(doc: PDFKit.PDFDocument, cell: PdfCell): void {
+    const font = cell.mono ? this.fonts.mono : cell.bold ? this.fonts.bold : this.fonts.regular;
+    doc.font(font).fontSize(FONT_SIZE);
+  }
+
+  /**
+   * Text drawn in a cell (issue items get one bullet per line)
+   */
+  private getCellText(cell: PdfCell): string {
+    if (cell.bullets) {
+      return cell.bullets.length > 0 ? this.encodeText(cell.bullets.map(item => `• ${item}`).join('\n')) : '-';
+    }
+    return this.encodeText(cell.text);
+  }
+
+  /**
+   * Text that the fonts can draw (characters outside WinAnsi are replaced with the standard fonts)
+   */
+  private encodeText(text: string): string {
+    return this.fonts.unicode ? text : toWinAnsi(text);
+  }
+
+  /**
+   * Draw a table at the current position
+   * Rows move to the next page when they don't fit (the header row is repeated),
+   * and rows taller than a page are cut with an ellipsis
+   *
+   * @param widths - Column widths
+   * @param header - Header row (optional)
+   * @param rows - Data rows
+   */
+  private drawTable(doc: PDFKit.PDFDocument, widths: number[], header: PdfRow | null, rows: PdfRow[]): void {
+    const left = doc.page.margins.left;
+    const top = doc.page.margins.top;
+    const maxRowHeight = doc.page.height - doc.page.margins.bottom - top - 40;
+    let y = doc.y;
+
+    const getCellWidth = (columnIndex: number, colSpan: number = 1) =>
+      widths.slice(columnIndex, columnIndex + colSpan).reduce((sum, width) => sum + width, 0);
+
+    const getRowHeight = (row: PdfRow): number => {
+      let columnIndex = 0;
+      let height = 0;
+      row.cells.forEach(cell => {
+        const width = getCellWidth(columnIndex, cell.colSpan) - 2 * CELL_PADDING - (cell.indent || 0);
+        this.setCellFont(doc, cell);
+        height = Math.max(height, doc.heightOfString(this.getCellText(cell) || ' ', { width }));
+        columnIndex += cell.colSpan || 1;
+      });
+      return Math.min(height + 2 * CELL_PADDING, maxRowHeight);
+    };
+
+    const drawRow = (row: PdfRow, height: number) => {
+      let x = left;
+      let columnIndex = 0;
+      row.cells.forEach(cell => {
+        const width = getCellWidth(columnIndex, cell.colSpan);
+        if (row.fill) {
+          doc.rect(x, y, width, height).fill(row.fill);
+        }
+        doc.rect(x, y, width, height).lineWidth(0.5).strokeColor(BLUE_PRIMARY).stroke();
+
+        this.setCellFont(doc, cell);
+        doc.fillColor(cell.color || DARK_TEXT).text(this.getCellText(cell), x + CELL_PADDING + (cell.indent || 0), y + CELL_PADDING, {
+          width: width - 2 * CELL_PADDING - (cell.indent || 0),
+          height: height - 2 * CELL_PADDING,
+          ellipsis: true,
+        });
+
+        x += width;
+        columnIndex += cell.colSpan || 1;
+      });
+      y += height;
+    };
+
+    const headerHeight = header ? getRowHeight(header) : 0;
+    if (header) {
+      drawRow(header, headerHeight);
+    }
+
+    rows.forEach(row => {
+      const height = getRowHeight(row);
+      if (y + height > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+        y = top;
+        if (header) {
+          drawRow(header, headerHeight);
+        }
+      }
+      drawRow(row, height);
+    });
+
+    // Continue below the table
+    doc.x = left;
+    doc.y = y + CELL_PADDING;
+  }
+}
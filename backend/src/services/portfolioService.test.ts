@@ -0,0 +1,105 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { JiraClient } from './jiraClient';
+import { PortfolioService } from './portfolioService';
+import { ReportTemplate, DEFAULT_TEMPLATE } from '../types/template';
+
+const HOUR = 3600;
+
+/**
+ * Issue returned by the mock Jira server
+ */
+const issue = (key: string, timespent: number, aggregatetimespent?: number) => ({
+  id: key,
+  key,
+  fields: {
+    summary: `Summary of ${key}`,
+    status: { name: 'In Progress', statusCategory: { key: 'indeterminate', name: 'In Progress' } },
+    labels: [],
+    issuetype: { name: 'Program' },
+    timespent,
+    timeestimate: 0,
+    ...(aggregatetimespent !== undefined ? { aggregatetimespent } : {}),
+  },
+});
+
+// ABC-3 is a child of both parents, ABC-1 also logs time on itself
+const issues: Record<string, ReturnType<typeof issue>> = {
+  'ABC-1': issue('ABC-1', 1 * HOUR, 1 * HOUR + 2 * HOUR + 4 * HOUR),
+  'ABC-2': issue('ABC-2', 0, 4 * HOUR + 8 * HOUR),
+  'ABC-10': issue('ABC-10', 2 * HOUR),
+  'ABC-3': issue('ABC-3', 4 * HOUR),
+  'ABC-20': issue('ABC-20', 8 * HOUR),
+};
+const childrenOf: Record<string, string[]> = {
+  'ABC-1': ['ABC-10', 'ABC-3'],
+  'ABC-2': ['ABC-3', 'ABC-20'],
+};
+
+let server: http.Server;
+let baseUrl: string;
+let issueRequests: string[] = [];
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      res.setHeader('Content-Type', 'application/json');
+
+      const issueMatch = url.pathname.match(/^\/rest\/api\/3\/issue\/([A-Z0-9-]+)$/);
+      if (req.method === 'GET' && issueMatch && issues[issueMatch[1]]) {
+        issueRequests.push(issueMatch[1]);
+        res.end(JSON.stringify(issues[issueMatch[1]]));
+        return;
+      }
+      if (req.method === 'POST' && url.pathname === '/rest/api/3/search/jql') {
+        const parentKey = String(JSON.parse(raw).jql).match(/^parent = ([A-Z0-9-]+)/)?.[1] || '';
+        res.end(JSON.stringify({ issues: (childrenOf[parentKey] || []).map(key => issues[key]), isLast: true }));
+        return;
+      }
+      res.statusCode = 404;
+      res.end(JSON.stringify({ errorMessages: [`Unexpected ${req.method} ${url.pathname}`] }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+const template: ReportTemplate = {
+  ...DEFAULT_TEMPLATE,
+  id: 'template-1',
+  name: 'Portfolio',
+  userId: 'user',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+test('generatePortfolio counts a child shared by several parents once in the timesheet', async () => {
+  issueRequests = [];
+  const jiraClient = new JiraClient({ email: 'user@example.com', apiToken: 'token' }, baseUrl);
+
+  const portfolio = await new PortfolioService().generatePortfolio(jiraClient, ['ABC-1', 'ABC-2'], template, {});
+
+  assert.deepEqual(portfolio.children.map(child => child.key), ['ABC-10', 'ABC-3', 'ABC-20']);
+  assert.deepEqual(portfolio.timesheet.entries.map(entry => entry.issueKey), ['ABC-10', 'ABC-3', 'ABC-20']);
+  assert.equal(portfolio.timesheet.totalTimeSpent, 14 * HOUR);
+  // Own time of the parents plus each child once (the aggregate fields would count ABC-3 twice)
+  assert.equal(portfolio.timesheet.parentTimeSpent, 15 * HOUR);
+});
+
+test('generatePortfolio fetches each parent once', async () => {
+  issueRequests = [];
+  const jiraClient = new JiraClient({ email: 'user@example.com', apiToken: 'token' }, baseUrl);
+
+  await new PortfolioService().generatePortfolio(jiraClient, ['ABC-1', 'ABC-2'], template, {});
+
+  assert.deepEqual(issueRequests, ['ABC-1', 'ABC-2']);
+});
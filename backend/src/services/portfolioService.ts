@@ -0,0 +1,94 @@
+/**
+ * Portfolio Service
+ *
+ * Builds a single weekly report covering several parent tickets (epics, programs).
+ * Each parent is reported like a single-ticket report, then rows are merged
+ * (grouped by parent) and the timesheet covers all parents, counting each issue once.
+ */
+
+import { JiraClient, ChildIssueOptions } from './jiraClient';
+import { ConnectJiraClient } from './connectJiraClient';
+import { ReportService, ReportRow } from './reportService';
+import { TimesheetService, TimesheetSummary } from './timesheetService';
+import { JiraIssue } from '../types/jira';
+import { ReportTemplate } from '../types/template';
+import { resolveTimeFormat } from '../utils/timeFormat';
+
+/**
+ * Maximum number of parent tickets in one portfolio report
+ */
+export const MAX_PORTFOLIO_PARENTS = 50;
+
+export interface PortfolioReport {
+  parents: JiraIssue[];
+  children: JiraIssue[]; // Children of all parents, without duplicates
+  report: ReportRow[]; // Rows of each parent in parent order, tagged with parentKey
+  timesheet: TimesheetSummary; // Time of all parents and their children, each issue counted once
+  filteredOutCount: number; // Children left out by the template filter rules
+  truncated: boolean; // True when the children of at least one parent were capped
+}
+
+export class PortfolioService {
+  private reportService = new ReportService();
+  private timesheetService = new TimesheetService();
+
+  /**
+   * Generate a portfolio report for several parent tickets
+   *
+   * Children reachable from several parents (or that are listed parents themselves)
+   * are only reported once, under the first parent they were found for.
+   *
+   * @param jiraClient - Jira client (Connect or legacy)
+   * @param parentKeys - Keys of the parent tickets, in display order
+   * @param template - Report template
+   * @param childOptions - Child issue fetch options required by the template
+   * @param referenceDate - Any date in the report week (optional, defaults to now)
+   * @returns Merged portfolio report
+   */
+  async generatePortfolio(
+    jiraClient: JiraClient | ConnectJiraClient,
+    parentKeys: string[],
+    template: ReportTemplate,
+    childOptions: ChildIssueOptions,
+    referenceDate?: Date
+  ): Promise<PortfolioReport> {
+    const seenKeys = new Set<string>(parentKeys);
+    const parents: JiraIssue[] = [];
+    const children: JiraIssue[] = [];
+    const report: ReportRow[] = [];
+    let truncated = false;
+    let filteredOutCount = 0;
+    const timeFormat = resolveTimeFormat(template.timesheet);
+
+    // Parents are fetched one after the other to stay well below Jira rate limits
+    for (const parentKey of parentKeys) {
+      const parent = await jiraClient.getIssue(parentKey);
+      const childResult = await jiraClient.getIssueChildren(parentKey, childOptions, parent);
+      truncated = truncated || childResult.truncated;
+      const parentChildren = childResult.issues
+        .filter(child => {
+          if (seenKeys.has(child.key)) {
+            return false;
+          }
+          seenKeys.add(child.key);
+          return true;
+        });
+
+      const rows = this.reportService.generateReport(parentChildren, template, referenceDate);
+      rows.forEach(row => report.push({ ...row, parentKey: parent.key }));
+      filteredOutCount += this.reportService.countFilteredIssues(parentChildren, template, referenceDate);
+
+      parents.push(parent);
+      children.push(...parentChildren);
+    }
+
+    return {
+      parents,
+      children,
+      report,
+      timesheet: this.timesheetService.generatePortfolioTimesheet(parents, children, template.statusMapping, timeFormat),
+      filteredOutCount,
+      truncated,
+    };
+  }
+}
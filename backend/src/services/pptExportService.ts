@@ -1,42 +1,73 @@
 import PptxGenJS from 'pptxgenjs';
-import { ReportRow } from './reportService';
+import { ReportRow, ReportColumn, ReportGroupLevel, getReportCellValue, isBucketColumn, buildReportTableLines, getSubtotalCellValue } from './reportService';
 import { JiraIssue } from '../types/jira';
-import { TimesheetSummary } from './timesheetService';
+import { TimesheetSummary, WorklogTimesheet } from './timesheetService';
 import { getWeekNumbers } from '../utils/weekUtils';
 import { extractIssueFields } from '../utils/jiraFieldUtils';
 
 export class PptExportService {
-  private formatManDays(manDays: number | undefined | null): string {
-    const validManDays = manDays ?? 0;
-    if (isNaN(validManDays) || validManDays === null || validManDays === undefined) {
-      return '0d';
-    }
-    if (validManDays === 0) return '0d';
-    
-    const isNegative = validManDays < 0;
-    const absManDays = Math.abs(validManDays);
-    
-    // For values less than 1 day (absolute), show as hours
-    if (absManDays < 1) {
-      const hours = Math.round(absManDays * 8);
-      return `${isNegative ? '-' : ''}${hours}h`;
+  async generatePresentation(reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[], issue: JiraIssue, timesheet: TimesheetSummary, referenceDate?: Date): Promise<Buffer> {
+    return this.buildPresentation(reportRows, columns, groupLevels, [issue], timesheet, referenceDate);
+  }
+
+  /**
+   * Generate one presentation for several parent tickets (portfolio report)
+   * Report rows are expected to be tagged with their parentKey
+   */
+  async generatePortfolioPresentation(reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[], parents: JiraIssue[], timesheet: TimesheetSummary, referenceDate?: Date): Promise<Buffer> {
+    return this.buildPresentation(reportRows, columns, groupLevels, parents, timesheet, referenceDate);
+  }
+
+  /**
+   * Generate a presentation for a JQL report (no parent ticket)
+   */
+  async generateJqlPresentation(reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[], jql: string, timesheet: TimesheetSummary, referenceDate?: Date): Promise<Buffer> {
+    return this.buildPresentation(reportRows, columns, groupLevels, [], timesheet, referenceDate, jql);
+  }
+
+  /**
+   * Build the one-line details of the parent ticket(s) shown under the slide title
+   */
+  private buildParentDetailsText(parents: JiraIssue[], childrenCount: number): string {
+    if (parents.length === 0) {
+      return `Issues: ${childrenCount}`;
     }
-    
-    // Calculate whole days and remaining hours
-    const wholeDays = Math.floor(absManDays);
-    const remainingDays = absManDays - wholeDays;
-    const hours = Math.round(remainingDays * 8);
-    
-    // Format: days and hours if there are hours
-    if (hours === 0) {
-      return `${isNegative ? '-' : ''}${wholeDays}d`;
+
+    if (parents.length > 1) {
+      return [
+        ...parents.map(parent => `${parent.key}: ${parent.fields.status.name}`),
+        `Children: ${childrenCount}`,
+      ].join(' | ');
     }
-    return `${isNegative ? '-' : ''}${wholeDays}d ${hours}h`;
-  }
 
-  async generatePresentation(reportRows: ReportRow[], issue: JiraIssue, timesheet: TimesheetSummary): Promise<Buffer> {
-    const weekNumbers = getWeekNumbers();
+    const issue = parents[0];
     const additionalFields = extractIssueFields(issue);
+    const issueStatus = issue.fields.status.name;
+    const issueType = issue.fields.issuetype?.name || 'Unknown';
+    const issueLabels = issue.fields.labels || [];
+
+    return [
+      `Type: ${issueType}`,
+      additionalFields.assignee ? `Assignee: ${additionalFields.assignee}` : null,
+      additionalFields.startDate ? `Start Date: ${new Date(additionalFields.startDate).toLocaleDateString()}` : null,
+      additionalFields.duedate ? `End Date: ${new Date(additionalFields.duedate).toLocaleDateString()}` : null,
+      `Status: ${issueStatus}`,
+      issueLabels.length > 0 ? `Labels: ${issueLabels.join(', ')}` : null,
+      `Children: ${childrenCount}`,
+    ].filter(Boolean).join(' | ');
+  }
+
+  /**
+   * Build the report presentation
+   * Parents are the parent ticket(s) of the report, empty for JQL reports (jql is then required)
+   * The report table shows the template columns (see getReportColumns),
+   * with the sub-headers and subtotals of the grouping levels (see buildReportTableLines)
+   */
+  private async buildPresentation(reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[], parents: JiraIssue[], timesheet: TimesheetSummary, referenceDate?: Date, jql?: string): Promise<Buffer> {
+    const weekNumbers = getWeekNumbers(referenceDate);
+    
+    // Portfolio presentations get a "Parent" column and list every parent ticket
+    const isPortfolio = parents.length > 1;
     
     const pptx = new PptxGenJS();
     
@@ -50,11 +81,14 @@ export class PptExportService {
     const darkText = '172B4D';
     const greyText = '6B778C';
     
-    const issueKey = issue.key;
-    const issueSummary = issue.fields.summary;
-    const issueStatus = issue.fields.status.name;
-    const issueType = issue.fields.issuetype?.name || 'Unknown';
-    const issueLabels = issue.fields.labels || [];
+    const isJql = parents.length === 0;
+    const issueKey = isJql ? jql || '' : parents.map(parent => parent.key).join(', ');
+    const issueSummary = isJql
+      ? 'All issues matching the query'
+      : isPortfolio
+        ? `Portfolio of ${parents.length} tickets`
+        : parents[0].fields.summary;
+    const parentHeader = isJql ? 'Report Query' : isPortfolio ? 'Parent Tickets' : 'Parent Ticket';
     
     // ============================================
     // SLIDE 1: Weekly Report
@@ -74,7 +108,7 @@ export class PptExportService {
     });
     
     // Parent Issue Information
-    slide1.addText(`Ticket: ${issueKey}`, {
+    slide1.addText(`${isJql ? 'JQL' : isPortfolio ? 'Tickets' : 'Ticket'}: ${issueKey}`, {
       x: 0.5,
       y: 1,
       w: 9,
@@ -96,15 +130,8 @@ export class PptExportService {
     });
     
     // Issue details as text
-    const detailsText = [
-      `Type: ${issueType}`,
-      additionalFields.assignee ? `Assignee: ${additionalFields.assignee}` : null,
-      additionalFields.startDate ? `Start Date: ${new Date(additionalFields.startDate).toLocaleDateString()}` : null,
-      additionalFields.duedate ? `End Date: ${new Date(additionalFields.duedate).toLocaleDateString()}` : null,
-      `Status: ${issueStatus}`,
-      issueLabels.length > 0 ? `Labels: ${issueLabels.join(', ')}` : null,
-      `Children: ${reportRows.reduce((sum, row) => sum + row.lastWeek.length + row.currentWeek.length + row.nextWeek.length + row.later.length, 0)}`,
-    ].filter(Boolean).join(' | ');
+    const childrenCount = reportRows.reduce((sum, row) => sum + row.lastWeek.length + row.currentWeek.length + row.nextWeek.length + row.later.length + row.older.length, 0);
+    const detailsText = this.buildParentDetailsText(parents, childrenCount);
     
     slide1.addText(detailsText, {
       x: 0.5,
@@ -117,7 +144,7 @@ export class PptExportService {
     });
     
     // Weekly Report Table Title
-    slide1.addText('Weekly Report', {
+    slide1.addText(`Weekly Report - Week ${weekNumbers.currentWeek}, ${weekNumbers.year}`, {
       x: 0.5,
       y: 2.5,
       w: 9,
@@ -131,47 +158,65 @@ export class PptExportService {
     // Build table data
     const tableData: any[] = [
       [
-        { text: 'Category', options: { bold: true, color: bluePrimary, fill: { color: blueLight } } },
-        { text: 'Initiative', options: { bold: true, color: bluePrimary, fill: { color: blueLight } } },
-        { text: `Last week (Week ${weekNumbers.lastWeek})`, options: { bold: true, color: bluePrimary, fill: { color: blueLight } } },
-        { text: `Current Week (Week ${weekNumbers.currentWeek})`, options: { bold: true, color: bluePrimary, fill: { color: blueLight } } },
-        { text: `Next Week (Week ${weekNumbers.nextWeek})`, options: { bold: true, color: bluePrimary, fill: { color: blueLight } } },
-        { text: 'Later', options: { bold: true, color: bluePrimary, fill: { color: blueLight } } },
+        ...(isPortfolio ? [{ text: 'Parent', options: { bold: true, color: bluePrimary, fill: { color: blueLight } } }] : []),
+        ...columns.map(column => ({ text: column.label, options: { bold: true, color: bluePrimary, fill: { color: blueLight } } })),
       ],
     ];
     
-    // Add data rows
-    reportRows.forEach((row, index) => {
-      const isEven = index % 2 === 0;
+    // Add data rows, between the group sub-headers and subtotals
+    const tableLines = buildReportTableLines(reportRows, groupLevels);
+    tableLines.forEach(line => {
+      if (line.type === 'header') {
+        tableData.push([
+          ...(isPortfolio ? [{ text: line.parentKey || '-', options: { color: bluePrimary, bold: true } }] : []),
+          {
+            text: `${'    '.repeat(line.level)}${line.text}`,
+            options: { colspan: columns.length, bold: true, color: bluePrimary, fill: { color: 'F4F8FF' } },
+          },
+        ]);
+        return;
+      }
+
+      if (line.type === 'subtotal') {
+        tableData.push([
+          ...(isPortfolio ? [{ text: line.parentKey || '-', options: { bold: true, color: darkText, fill: { color: blueLight } } }] : []),
+          ...columns.map((column, index) => ({
+            text: getSubtotalCellValue(line, column, index),
+            options: { bold: true, color: darkText, fill: { color: blueLight } },
+          })),
+        ]);
+        return;
+      }
+
+      const { row } = line;
+      const isEven = line.index % 2 === 0;
       tableData.push([
-        { text: row.category, options: { color: darkText, fill: { color: isEven ? blueVeryLight : 'FFFFFF' } } },
-        { text: row.initiative, options: { color: darkText, fill: { color: isEven ? blueVeryLight : 'FFFFFF' } } },
-        { 
-          text: row.lastWeek.length > 0 ? `• ${row.lastWeek.join('\n• ')}` : '-', 
-          options: { color: darkText, fill: { color: isEven ? blueVeryLight : 'FFFFFF' }, valign: 'top' } 
-        },
-        { 
-          text: row.currentWeek.length > 0 ? `• ${row.currentWeek.join('\n• ')}` : '-', 
-          options: { color: darkText, fill: { color: isEven ? blueVeryLight : 'FFFFFF' }, valign: 'top' } 
-        },
-        { 
-          text: row.nextWeek.length > 0 ? `• ${row.nextWeek.join('\n• ')}` : '-', 
-          options: { color: darkText, fill: { color: isEven ? blueVeryLight : 'FFFFFF' }, valign: 'top' } 
-        },
-        { 
-          text: row.later.length > 0 ? `• ${row.later.join('\n• ')}` : '-', 
-          options: { color: darkText, fill: { color: isEven ? blueVeryLight : 'FFFFFF' }, valign: 'top' } 
-        },
+        ...(isPortfolio ? [{ text: row.parentKey || '-', options: { color: bluePrimary, bold: true, fill: { color: isEven ? blueVeryLight : 'FFFFFF' } } }] : []),
+        ...columns.map(column => {
+          const value = getReportCellValue(row, column);
+          const text = Array.isArray(value)
+            ? (value.length > 0 ? `• ${value.join('\n• ')}` : '-')
+            : value || '-';
+          return { text, options: { color: darkText, fill: { color: isEven ? blueVeryLight : 'FFFFFF' }, valign: 'top' } };
+        }),
       ]);
     });
     
+    // Column widths (9 inches in total), bucket columns (issue lists) being 3/4 as wide as text columns
+    const columnWeights = [
+      ...(isPortfolio ? [4] : []),
+      ...columns.map(column => (isBucketColumn(column) ? 3 : 4)),
+    ];
+    const totalWeight = columnWeights.reduce((sum, weight) => sum + weight, 0);
+    const colW = columnWeights.map(weight => (weight / totalWeight) * 9);
+    
     // Add table
     slide1.addTable(tableData, {
       x: 0.5,
       y: 2.9,
       w: 9,
-      h: reportRows.length > 0 ? Math.min(3.5, 0.3 + reportRows.length * 0.4) : 1,
-      colW: [1.8, 1.8, 1.35, 1.35, 1.35, 1.35],
+      h: tableLines.length > 0 ? Math.min(3.5, 0.3 + tableLines.length * 0.4) : 1,
+      colW,
       border: { type: 'solid', color: bluePrimary, pt: 1 },
       align: 'left',
       valign: 'top',
@@ -205,7 +250,7 @@ export class PptExportService {
     } as any);
     
     // Parent Ticket Section
-    slide2.addText('Parent Ticket', {
+    slide2.addText(parentHeader, {
       x: 0.5,
       y: 1.2,
       w: 4,
@@ -218,17 +263,17 @@ export class PptExportService {
     
     const parentTableData = [
       [
-        { text: 'Parent Ticket', options: { bold: true, color: bluePrimary, fill: { color: blueLight } } },
+        { text: parentHeader, options: { bold: true, color: bluePrimary, fill: { color: blueLight } } },
         { text: 'Time Spent', options: { bold: true, color: bluePrimary, fill: { color: blueLight } } },
         { text: 'Estimate', options: { bold: true, color: bluePrimary, fill: { color: blueLight } } },
         { text: 'Remaining Time', options: { bold: true, color: bluePrimary, fill: { color: blueLight } } },
       ],
       [
         { text: `${issueKey}: ${issueSummary}`, options: { color: darkText } },
-        { text: this.formatManDays(timesheet.parentTimeSpentManDays), options: { color: bluePrimary, bold: true } },
-        { text: this.formatManDays(timesheet.parentTimeEstimateManDays), options: { color: darkText } },
+        { text: timesheet.parentTimeSpentDisplay, options: { color: bluePrimary, bold: true } },
+        { text: timesheet.parentTimeEstimateDisplay, options: { color: darkText } },
         { 
-          text: this.formatManDays(timesheet.parentRemainingManDays ?? 0), 
+          text: timesheet.parentRemainingDisplay, 
           options: { color: (timesheet.parentRemainingManDays ?? 0) >= 0 ? '006644' : 'FF991F', bold: true } 
         },
       ],
@@ -272,10 +317,10 @@ export class PptExportService {
         detailTableData.push([
           { text: entry.issueKey, options: { color: bluePrimary, bold: true, fill: { color: isEven ? blueVeryLight : 'FFFFFF' }, fontSize: 9 } },
           { text: entry.summary, options: { color: darkText, fill: { color: isEven ? blueVeryLight : 'FFFFFF' }, fontSize: 9 } },
-          { text: this.formatManDays(entry.timespentManDays), options: { color: darkText, fill: { color: isEven ? blueVeryLight : 'FFFFFF' }, fontSize: 9 } },
-          { text: this.formatManDays(entry.timeestimateManDays), options: { color: darkText, fill: { color: isEven ? blueVeryLight : 'FFFFFF' }, fontSize: 9 } },
+          { text: entry.timespentDisplay, options: { color: darkText, fill: { color: isEven ? blueVeryLight : 'FFFFFF' }, fontSize: 9 } },
+          { text: entry.timeestimateDisplay, options: { color: darkText, fill: { color: isEven ? blueVeryLight : 'FFFFFF' }, fontSize: 9 } },
           { 
-            text: this.formatManDays(entry.remainingManDays ?? 0), 
+            text: entry.remainingDisplay, 
             options: { 
               color: (entry.remainingManDays ?? 0) >= 0 ? '006644' : 'FF991F', 
               bold: true,
@@ -298,9 +343,107 @@ export class PptExportService {
       });
     }
     
+    // ============================================
+    // SLIDE 3: Time Logged by Person (worklog timesheet mode)
+    // ============================================
+    if (timesheet.worklog) {
+      this.addWorklogSlide(pptx, timesheet.worklog);
+    }
+    
     // Generate buffer
     const buffer = await pptx.write({ outputType: 'nodebuffer' });
     return buffer as Buffer;
   }
+
+  /**
+   * Add the "Time Logged by Person" slide of a worklog timesheet
+   * Long tables continue on additional slides
+   */
+  private addWorklogSlide(pptx: PptxGenJS, worklog: WorklogTimesheet): void {
+    const bluePrimary = '0052CC';
+    const blueLight = 'DEEBFF';
+    const blueVeryLight = 'E3F0FF';
+    const darkText = '172B4D';
+    const greyText = '6B778C';
+
+    const slide = pptx.addSlide();
+    slide.addText('Time Logged by Person', {
+      x: 0.5,
+      y: 0.3,
+      w: 9,
+      h: 0.5,
+      fontSize: 32,
+      bold: true,
+      color: darkText,
+      align: 'left',
+    });
+    slide.addText(`${worklog.from} to ${worklog.to}`, {
+      x: 0.5,
+      y: 0.85,
+      w: 9,
+      h: 0.3,
+      fontSize: 14,
+      color: greyText,
+      align: 'left',
+    });
+
+    if (worklog.authors.length === 0) {
+      slide.addText('No time logged during this period.', {
+        x: 0.5,
+        y: 1.4,
+        w: 9,
+        h: 0.4,
+        fontSize: 14,
+        italic: true,
+        color: greyText,
+      });
+      return;
+    }
+
+    const tableData: any[] = [
+      [
+        { text: 'Person', options: { bold: true, color: bluePrimary, fill: { color: blueLight }, fontSize: 10 } },
+        { text: 'Ticket', options: { bold: true, color: bluePrimary, fill: { color: blueLight }, fontSize: 10 } },
+        { text: 'Summary', options: { bold: true, color: bluePrimary, fill: { color: blueLight }, fontSize: 10 } },
+        { text: 'Time Logged', options: { bold: true, color: bluePrimary, fill: { color: blueLight }, fontSize: 10 } },
+      ],
+    ];
+
+    worklog.authors.forEach((author, index) => {
+      const fill = { color: index % 2 === 0 ? blueVeryLight : 'FFFFFF' };
+      tableData.push([
+        { text: author.author, options: { color: darkText, bold: true, fill, fontSize: 9 } },
+        { text: '', options: { fill } },
+        { text: `${author.issues.length} ticket${author.issues.length > 1 ? 's' : ''}`, options: { color: greyText, fill, fontSize: 9 } },
+        { text: author.timeSpentDisplay, options: { color: bluePrimary, bold: true, fill, fontSize: 9 } },
+      ]);
+      author.issues.forEach(issueTime => {
+        tableData.push([
+          { text: '', options: { fill } },
+          { text: issueTime.issueKey, options: { color: bluePrimary, bold: true, fill, fontSize: 9 } },
+          { text: issueTime.summary, options: { color: darkText, fill, fontSize: 9 } },
+          { text: issueTime.timeSpentDisplay, options: { color: darkText, fill, fontSize: 9 } },
+        ]);
+      });
+    });
+
+    tableData.push([
+      { text: 'Total', options: { color: darkText, bold: true, fontSize: 10 } },
+      { text: '' },
+      { text: '' },
+      { text: worklog.totalTimeSpentDisplay, options: { color: bluePrimary, bold: true, fontSize: 10 } },
+    ]);
+
+    slide.addTable(tableData, {
+      x: 0.5,
+      y: 1.3,
+      w: 9,
+      colW: [2.2, 1.2, 4.4, 1.2],
+      border: { type: 'solid', color: bluePrimary, pt: 1 },
+      fontSize: 9,
+      autoPage: true,
+      autoPageRepeatHeader: true,
+    });
+  }
 }
 
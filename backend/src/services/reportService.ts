@@ -1,6 +1,30 @@
-import { JiraIssue, IssueSection } from '../types/jira';
-import { ReportTemplate, FieldMappingConfig, IssueSelectionConfig, DEFAULT_TEMPLATE } from '../types/template';
-import { extractFieldValue, formatFieldValue, getFieldDisplayValue } from '../utils/fieldExtractor';
+import { JiraIssue, JiraChangelogHistory } from '../types/jira';
+import { ChildIssueOptions } from './jiraClient';
+import {
+  ReportTemplate,
+  FieldMappingConfig,
+  IssueSelectionConfig,
+  StatusMappingConfig,
+  SectionTimingConfig,
+  ReportBucket,
+  ReportSection,
+  ReportColumnConfig,
+  ReportColumnSource,
+  GroupValueConfig,
+  GroupLevelConfig,
+  DEFAULT_TEMPLATE,
+  DEFAULT_REPORT_COLUMNS,
+  DEFAULT_GROUP_BY,
+} from '../types/template';
+import { extractFieldValue, formatFieldValue, getFieldDisplayValue, getFieldPathRoot } from '../utils/fieldExtractor';
+import { resolveStatusSection, normalizeStatusName } from '../utils/statusMapping';
+import { getWeekBounds, getWeekNumbers, parseLocalDate, WeekRange } from '../utils/weekUtils';
+import { aggregateFieldValues } from '../utils/columnAggregation';
+import { parseItemFormat, formatIssueItem, getItemFormatFieldPaths } from '../utils/itemFormat';
+import { filterIssues, getFilterFieldPath } from '../utils/issueFilters';
+import { resolveGroupValue, sortGroups } from '../utils/groupValues';
+
+type WeekBounds = ReturnType<typeof getWeekBounds>;
 
 export interface ReportRow {
   category: string;
@@ -9,6 +33,272 @@ export interface ReportRow {
   currentWeek: string[];
   nextWeek: string[];
   later: string[];
+  older: string[]; // Only filled in time-window mode when olderIssues is "older"
+  groups: string[]; // Values of the grouping levels, outermost first (see ReportTemplate.groupBy)
+  values: Record<string, string>; // Values of the field columns, by column ID (empty when no issue has a value)
+  parentKey?: string; // Parent ticket the row belongs to (portfolio reports only)
+}
+
+/**
+ * Issue of a report, with the values resolved by the template
+ * Listed in the raw issue sheet of the Excel export
+ */
+export interface ReportIssue {
+  key: string;
+  summary: string;
+  issueType: string;
+  status: string;
+  depth: number; // 1 = direct child of the parent ticket
+  groups: string[]; // Values of the grouping levels (same as the row of the issue)
+  bucket: ReportBucket;
+  overdue: boolean; // Not done and due before the report week (time-window mode only)
+  item: string; // Issue item as shown in the report
+  values: Record<string, string>; // Values of the field columns for this issue, by column ID
+}
+
+/**
+ * Issue placed in a report bucket (see ReportService.placeIssues)
+ */
+interface PlacedIssue {
+  issue: JiraIssue;
+  bucket: ReportBucket;
+  overdue: boolean;
+  item: string;
+}
+
+/**
+ * Column of a report table, resolved from the template columns
+ * Sent with the report so the web report and the exports render the same columns
+ */
+export interface ReportColumn {
+  id: string; // Built-in source (e.g., "lastWeek"), or "field<N>" for a field column (N = position in the template)
+  source: ReportColumnSource;
+  label: string;
+}
+
+/**
+ * Get the columns of a template (default columns for templates without columns)
+ */
+const getTemplateColumns = (template?: Partial<ReportTemplate>): ReportColumnConfig[] =>
+  template?.columns && template.columns.length > 0 ? template.columns : DEFAULT_REPORT_COLUMNS;
+
+/**
+ * Get the grouping levels of a template (default levels for templates without groupBy)
+ */
+const getTemplateGroupLevels = (template?: Partial<ReportTemplate>): GroupLevelConfig[] =>
+  template?.groupBy && template.groupBy.length > 0 ? template.groupBy : DEFAULT_GROUP_BY;
+
+/**
+ * Get the ID of a template column
+ */
+const getColumnId = (column: ReportColumnConfig, index: number): string =>
+  column.source === 'field' ? `field${index}` : column.source;
+
+/**
+ * Get the field columns of a template, with their column IDs
+ */
+const getTemplateFieldColumns = (template?: Partial<ReportTemplate>): Array<ReportColumnConfig & { id: string }> =>
+  getTemplateColumns(template)
+    .map((column, index) => ({ ...column, id: getColumnId(column, index) }))
+    .filter(column => column.source === 'field' && column.fieldPath);
+
+/**
+ * Get the columns of a report table
+ * Built-in columns get their default header unless the template sets a label
+ * (week headers include the week number), and the "Older" column is left out
+ * when the report has no older issues
+ *
+ * @param template - Report template
+ * @param reportRows - Rows of the report
+ * @param referenceDate - Any date in the report week (optional, defaults to now)
+ * @returns Columns in display order
+ */
+export function getReportColumns(
+  template: Partial<ReportTemplate> | undefined,
+  reportRows: ReportRow[],
+  referenceDate?: Date
+): ReportColumn[] {
+  const weekNumbers = getWeekNumbers(referenceDate);
+  const defaultLabels: Record<Exclude<ReportColumnSource, 'field'>, string> = {
+    category: 'Category',
+    initiative: 'Initiative',
+    older: 'Older',
+    lastWeek: `Last week (Week ${weekNumbers.lastWeek})`,
+    currentWeek: `Current Week (Week ${weekNumbers.currentWeek})`,
+    nextWeek: `Next Week (Week ${weekNumbers.nextWeek})`,
+    later: 'Later',
+  };
+  const hasOlder = reportRows.some(row => row.older.length > 0);
+
+  return getTemplateColumns(template)
+    .map((column, index) => ({
+      id: getColumnId(column, index),
+      source: column.source,
+      label: column.label?.trim() || (column.source === 'field' ? column.fieldPath || '' : defaultLabels[column.source]),
+    }))
+    .filter(column => column.source !== 'older' || hasOlder);
+}
+
+/**
+ * Whether a column lists issue items (week buckets) rather than a single value
+ */
+export function isBucketColumn(column: ReportColumn): boolean {
+  return !['category', 'initiative', 'field'].includes(column.source);
+}
+
+/**
+ * Get the content of a report cell
+ *
+ * @returns Issue items for bucket columns, otherwise the cell text (empty when there is no value)
+ */
+export function getReportCellValue(row: ReportRow, column: ReportColumn): string | string[] {
+  switch (column.source) {
+    case 'category':
+      return row.category;
+    case 'initiative':
+      return row.initiative;
+    case 'field':
+      return row.values[column.id] || '';
+    default:
+      return row[column.source];
+  }
+}
+
+/**
+ * Grouping level of a report table, resolved from the template levels
+ * Sent with the report so the web report and the exports render the same sub-headers and subtotals
+ */
+export interface ReportGroupLevel {
+  label: string;
+  header: boolean; // Groups start with a sub-header line (false when a column shows the level values)
+  subtotals: boolean;
+}
+
+/**
+ * Line of a report table: a report row, or the sub-header / subtotal of a group
+ */
+export type ReportTableLine =
+  | { type: 'header'; level: number; text: string; parentKey?: string }
+  | { type: 'row'; row: ReportRow; index: number } // index = position in the report rows (alternating shading)
+  | { type: 'subtotal'; level: number; text: string; itemCounts: Record<ReportBucket, number>; parentKey?: string };
+
+const REPORT_BUCKETS: ReportBucket[] = ['older', 'lastWeek', 'currentWeek', 'nextWeek', 'later'];
+
+/**
+ * Get the grouping levels of a report table
+ * Category and initiative levels get no sub-header when the table has their column
+ *
+ * @param template - Report template
+ * @returns Levels, outermost first
+ */
+export function getReportGroupLevels(template: Partial<ReportTemplate> | undefined): ReportGroupLevel[] {
+  const columnSources = getTemplateColumns(template).map(column => column.source);
+  const defaultLabels = { category: 'Category', initiative: 'Initiative' };
+
+  return getTemplateGroupLevels(template).map(level => ({
+    label: level.label?.trim() || (level.source === 'field' ? level.fieldPath || '' : defaultLabels[level.source]),
+    header: level.source === 'field' || !columnSources.includes(level.source),
+    subtotals: !!level.subtotals,
+  }));
+}
+
+/**
+ * Get the lines of a report table: a sub-header before the first row of each group
+ * (levels with a header) and a subtotal after its last row (levels with subtotals)
+ * Groups of portfolio reports also end with their parent ticket
+ *
+ * @param reportRows - Rows of the report, in group order
+ * @param groupLevels - Grouping levels of the report
+ * @returns Lines in display order
+ */
+export function buildReportTableLines(reportRows: ReportRow[], groupLevels: ReportGroupLevel[]): ReportTableLine[] {
+  const lines: ReportTableLine[] = [];
+  // Groups the current row belongs to, one per level
+  const openGroups: Array<{ value: string; itemCounts: Record<ReportBucket, number> }> = [];
+
+  const closeGroups = (depth: number, parentKey?: string) => {
+    for (let level = openGroups.length - 1; level >= depth; level--) {
+      const group = openGroups.pop()!;
+      if (groupLevels[level].subtotals) {
+        lines.push({ type: 'subtotal', level, text: `Subtotal ${group.value}`, itemCounts: group.itemCounts, parentKey });
+      }
+    }
+  };
+
+  reportRows.forEach((row, index) => {
+    const previous = reportRows[index - 1];
+    const values = row.groups || [];
+
+    // Depth of the first level whose group changes
+    let depth = 0;
+    if (previous && previous.parentKey === row.parentKey) {
+      while (depth < openGroups.length && openGroups[depth].value === (values[depth] ?? '')) {
+        depth++;
+      }
+    }
+    closeGroups(depth, previous?.parentKey);
+
+    for (let level = depth; level < groupLevels.length; level++) {
+      const value = values[level] ?? '';
+      openGroups.push({ value, itemCounts: { older: 0, lastWeek: 0, currentWeek: 0, nextWeek: 0, later: 0 } });
+      if (groupLevels[level].header) {
+        lines.push({ type: 'header', level, text: `${groupLevels[level].label}: ${value}`, parentKey: row.parentKey });
+      }
+    }
+
+    openGroups.forEach(group => REPORT_BUCKETS.forEach(bucket => {
+      group.itemCounts[bucket] += row[bucket].length;
+    }));
+    lines.push({ type: 'row', row, index });
+  });
+
+  closeGroups(0, reportRows[reportRows.length - 1]?.parentKey);
+  return lines;
+}
+
+/**
+ * Get the content of a subtotal cell
+ * Bucket columns show the number of issue items of the group, the first column the subtotal label
+ */
+export function getSubtotalCellValue(
+  line: Extract<ReportTableLine, { type: 'subtotal' }>,
+  column: ReportColumn,
+  columnIndex: number
+): string {
+  if (!isBucketColumn(column)) {
+    return columnIndex === 0 ? line.text : '';
+  }
+  const count = String(line.itemCounts[column.source as ReportBucket]);
+  return columnIndex === 0 ? `${line.text}: ${count}` : count;
+}
+
+/**
+ * Get child issue fetch options required by a template
+ * The changelog is only needed when issues are placed in weeks by date,
+ * nested levels are only fetched when the template includes nested children,
+ * and the fields of the field mapping, item format, field columns, filters and grouping levels (e.g., custom fields)
+ * are requested with the default fields
+ */
+export function getChildIssueOptions(template: ReportTemplate): ChildIssueOptions {
+  const { categoryField, initiativeField, issueItemField } = template.fieldMapping;
+  const columnFields = getTemplateColumns(template)
+    .filter(column => column.source === 'field' && column.fieldPath)
+    .map(column => column.fieldPath!);
+  const formatFields = getItemFormatFieldPaths(template.fieldMapping.issueItemFormat || '');
+  const filterFields = (template.issueSelection.filters || []).map(getFilterFieldPath);
+  const groupFields = getTemplateGroupLevels(template)
+    .filter(level => level.source === 'field' && level.fieldPath)
+    .map(level => level.fieldPath!);
+  const fields = [categoryField, initiativeField, issueItemField, ...formatFields, ...columnFields, ...filterFields, ...groupFields]
+    .map(getFieldPathRoot)
+    .filter((field): field is string => field !== null);
+
+  return {
+    expandChangelog: template.sectionTiming?.mode === 'timeWindow',
+    maxDepth: template.issueSelection.includeNestedChildren ? template.issueSelection.maxDepth : 1,
+    includeWorklogs: template.timesheet?.mode === 'worklog',
+    fields,
+  };
 }
 
 /**
@@ -18,78 +308,328 @@ export interface ReportRow {
  * Supports customizable field mappings via templates.
  */
 export class ReportService {
-  private categorizeIssue(statusName: string): IssueSection {
-    const statusLower = statusName.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, ''); // Remove accents for comparison
-    
-    // Map Jira statuses to sections (English and French)
-    // Done/Finished/Completed statuses -> Last Week
-    if (
-      statusLower.includes('done') || 
-      statusLower.includes('closed') || 
-      statusLower.includes('resolved') ||
-      statusLower.includes('termine') ||  // Terminé(e) in French
-      statusLower.includes('fini') ||     // Fini in French
-      statusLower.includes('complete') ||
-      statusLower.includes('resolu')      // Résolu in French
-    ) {
-      return IssueSection.LAST_WEEK;
-    } 
-    // In Progress/In Development statuses -> Current Week
-    else if (
-      statusLower.includes('in progress') || 
-      statusLower.includes('in development') || 
-      statusLower.includes('testing') ||
-      statusLower.includes('en cours') ||      // En cours in French
-      statusLower.includes('en developpement') || // En développement in French
-      statusLower.includes('en test') ||       // En test in French
-      statusLower.includes('en revue') ||      // En revue (In Review) in French
-      statusLower.includes('code review') ||
-      statusLower.includes('review')
-    ) {
-      return IssueSection.CURRENT_WEEK;
-    } 
-    // To Do/Open/Ready statuses -> Next Week
-    else if (
-      statusLower.includes('to do') || 
-      statusLower.includes('open') || 
-      statusLower.includes('ready') ||
-      statusLower.includes('a faire') ||       // À faire in French
-      statusLower.includes('a realiser') ||    // À réaliser in French
-      statusLower.includes('nouveau') ||       // Nouveau (New) in French
-      statusLower.includes('nouvelle') ||      // Nouvelle (New) in French
-      statusLower.includes('pret') ||          // Prêt (Ready) in French
-      statusLower.includes('backlog')
-    ) {
-      return IssueSection.NEXT_WEEK;
-    } 
-    // All other statuses -> Later
-    else {
-      return IssueSection.LATER;
-    }
-  }
-
   /**
    * Generate report using template configuration
    * 
    * @param issues - Array of Jira issues
    * @param template - Template configuration (optional, uses default if not provided)
+   * @param referenceDate - Any date in the report week (optional, defaults to now)
    * @returns Array of report rows
    */
-  generateReport(issues: JiraIssue[], template?: Partial<ReportTemplate>): ReportRow[] {
+  generateReport(issues: JiraIssue[], template?: Partial<ReportTemplate>, referenceDate?: Date): ReportRow[] {
+    const fieldMapping: FieldMappingConfig = template?.fieldMapping || DEFAULT_TEMPLATE.fieldMapping;
+    const fieldColumns = getTemplateFieldColumns(template);
+    const levels = getTemplateGroupLevels(template);
+    const categoryLevel = levels.findIndex(level => level.source === 'category');
+    const initiativeLevel = levels.findIndex(level => level.source === 'initiative');
+
+    // Convert to report rows, one per group of the last level
+    const reportRows: ReportRow[] = [];
+
+    this.placeIssues(issues, template, referenceDate).forEach(({ values: groupValues, issues: placedIssues }) => {
+      const row: ReportRow = {
+        category: categoryLevel === -1 ? '' : groupValues[categoryLevel],
+        initiative: initiativeLevel === -1 ? '' : groupValues[initiativeLevel] || 'No initiative',
+        groups: groupValues,
+        lastWeek: [],
+        currentWeek: [],
+        nextWeek: [],
+        later: [],
+        older: [],
+        values: {},
+      };
+
+      placedIssues.forEach(({ bucket, item }) => {
+        row[bucket].push(item);
+      });
+
+      // Aggregate the field columns over the issues kept in the row
+      fieldColumns.forEach(column => {
+        row.values[column.id] = aggregateFieldValues(
+          placedIssues.map(({ issue }) => issue),
+          column.fieldPath!,
+          column.aggregation,
+          fieldMapping.multiValueSeparator
+        );
+      });
+
+      reportRows.push(row);
+    });
+
+    return reportRows;
+  }
+
+  /**
+   * List the issues of a report with the values resolved by the template
+   * Issues are listed in report order, once per row they appear in
+   * 
+   * @param issues - Array of Jira issues (same as generateReport)
+   * @param template - Template configuration (optional, uses default if not provided)
+   * @param referenceDate - Any date in the report week (optional, defaults to now)
+   * @returns Issues of the report
+   */
+  listReportIssues(issues: JiraIssue[], template?: Partial<ReportTemplate>, referenceDate?: Date): ReportIssue[] {
+    const fieldMapping: FieldMappingConfig = template?.fieldMapping || DEFAULT_TEMPLATE.fieldMapping;
+    const fieldColumns = getTemplateFieldColumns(template);
+
+    return this.placeIssues(issues, template, referenceDate).flatMap(({ values: groupValues, issues: placedIssues }) =>
+      placedIssues.map(({ issue, bucket, overdue, item }) => ({
+        key: issue.key,
+        summary: issue.fields.summary || '',
+        issueType: issue.fields.issuetype?.name || '',
+        status: issue.fields.status?.name || '',
+        depth: issue.depth ?? 1,
+        groups: groupValues,
+        bucket,
+        overdue,
+        item,
+        values: Object.fromEntries(fieldColumns.map(column => [
+          column.id,
+          getFieldDisplayValue(issue, column.fieldPath!, {
+            multiValueHandling: 'join',
+            separator: fieldMapping.multiValueSeparator,
+          }),
+        ])),
+      }))
+    );
+  }
+
+  /**
+   * Place the issues of a report: select them, group them by the template levels,
+   * then resolve the bucket and item of each issue
+   * 
+   * @returns Groups of the last level in display order, without the groups whose issues were all dropped
+   */
+  private placeIssues(
+    issues: JiraIssue[],
+    template?: Partial<ReportTemplate>,
+    referenceDate?: Date
+  ): Array<{ values: string[]; issues: PlacedIssue[] }> {
     // Use provided template or default
     const fieldMapping: FieldMappingConfig = template?.fieldMapping || DEFAULT_TEMPLATE.fieldMapping;
     const issueSelection: IssueSelectionConfig = template?.issueSelection || DEFAULT_TEMPLATE.issueSelection;
+    const statusMapping: StatusMappingConfig | undefined = template?.statusMapping || DEFAULT_TEMPLATE.statusMapping;
+    const sectionTiming: SectionTimingConfig = template?.sectionTiming || DEFAULT_TEMPLATE.sectionTiming!;
+    const weekBounds = getWeekBounds(referenceDate);
+    // Template formats are validated when saved; an invalid format fails the report instead of being ignored
+    const itemFormat = fieldMapping.issueItemFormat ? parseItemFormat(fieldMapping.issueItemFormat) : null;
 
-    // Get all child issues (including nested if configured)
-    const allIssues = this.getIssuesWithDepth(issues, issueSelection);
+    // Get all child issues (including nested if configured), without the issues filtered out by the template
+    const { issues: allIssues } = this.selectIssues(issues, issueSelection, referenceDate);
 
-    // Group issues by parent
-    const groupedByParent = this.groupIssuesByParent(allIssues, issueSelection.parentGroupingField);
+    // Group issues by the template levels (by default category, then initiative)
+    const groups = this.groupIssuesByLevels(allIssues, getTemplateGroupLevels(template), issueSelection, fieldMapping);
 
-    // Convert to report rows
-    const reportRows: ReportRow[] = [];
+    return groups
+      .map(({ values, issues: groupIssues }) => {
+        const placedIssues: PlacedIssue[] = [];
+
+        groupIssues.forEach(issue => {
+          // Place the issue in a section using the template status mapping
+          const statusSection = resolveStatusSection(issue.fields.status, statusMapping);
+          const overdue = sectionTiming.mode === 'timeWindow' && this.isOverdue(issue, statusSection, weekBounds);
+          const bucket = sectionTiming.mode === 'timeWindow'
+            ? this.resolveTimeWindowBucket(issue, statusSection, weekBounds, statusMapping)
+            : statusSection;
+          
+          // Issues outside every window are dropped unless the template keeps an "Older" column
+          if (bucket === 'older' && sectionTiming.olderIssues === 'drop') {
+            return;
+          }
+          
+          // Format the issue item with the template item format, or take the issue item field
+          const formattedItem = itemFormat
+            ? formatIssueItem(issue, itemFormat, fieldMapping.multiValueSeparator) || issue.key
+            : getFieldDisplayValue(
+                issue,
+                fieldMapping.issueItemField,
+                {
+                  multiValueHandling: 'join',
+                  separator: ', ',
+                  fallback: issue.key,
+                }
+              );
+          
+          // Overdue issues are flagged in every export, with their due date
+          const item = overdue ? `${formattedItem} (overdue, due ${issue.fields.duedate})` : formattedItem;
+
+          placedIssues.push({ issue, bucket, overdue, item });
+        });
+
+        return { values, issues: placedIssues };
+      })
+      // Skip groups whose issues were all dropped
+      .filter(group => group.issues.length > 0);
+  }
+
+  /**
+   * Count the issues a template filters out of a report (see IssueSelectionConfig.filters)
+   * 
+   * @param issues - Array of Jira issues (same as generateReport)
+   * @param template - Template configuration (optional, uses default if not provided)
+   * @param referenceDate - Any date in the report week (optional, defaults to now)
+   * @returns Number of issues left out by the filter rules
+   */
+  countFilteredIssues(issues: JiraIssue[], template?: Partial<ReportTemplate>, referenceDate?: Date): number {
+    const issueSelection = template?.issueSelection || DEFAULT_TEMPLATE.issueSelection;
+    return this.selectIssues(issues, issueSelection, referenceDate).filteredOutCount;
+  }
+
+  /**
+   * Select the issues of a report: issues up to the configured depth, then the template filter rules
+   */
+  private selectIssues(
+    issues: JiraIssue[],
+    issueSelection: IssueSelectionConfig,
+    referenceDate?: Date
+  ): { issues: JiraIssue[]; filteredOutCount: number } {
+    return filterIssues(this.getIssuesWithDepth(issues, issueSelection), issueSelection.filters, referenceDate);
+  }
+
+  /**
+   * Resolve the report bucket of an issue from its dates (time-window mode)
+   * 
+   * - Done issues (status mapped to "lastWeek") are placed by completion date, taken from
+   *   the last transition into a done status in the changelog, or the resolution date:
+   *   done during week N-1 → Last week, during week N → Current week, earlier or unknown → Older
+   * - In-progress issues (status mapped to "currentWeek") stay in Current week
+   * - Overdue issues (not done, due before week N) are placed in Current week (see isOverdue)
+   * - Other issues are placed by due date: due by the end of next week → Next week,
+   *   due later → Later, no due date → section from the status mapping
+   * 
+   * @param issue - Jira issue (with changelog if available)
+   * @param statusSection - Section resolved from the status mapping
+   * @param weekBounds - Date bounds of last, current and next weeks
+   * @param statusMapping - Template status mapping (decides which transitions complete an issue)
+   * @returns Report bucket for the issue
+   */
+  private resolveTimeWindowBucket(
+    issue: JiraIssue,
+    statusSection: ReportSection,
+    weekBounds: WeekBounds,
+    statusMapping?: StatusMappingConfig
+  ): ReportBucket {
+    const isInWeek = (date: Date, week: WeekRange) => date >= week.start && date < week.end;
+
+    if (statusSection === 'lastWeek') {
+      const completedAt = this.getCompletionDate(issue, statusMapping);
+      if (!completedAt || completedAt < weekBounds.lastWeek.start) {
+        return 'older';
+      }
+      return isInWeek(completedAt, weekBounds.lastWeek) ? 'lastWeek' : 'currentWeek';
+    }
+
+    if (statusSection === 'currentWeek' || this.isOverdue(issue, statusSection, weekBounds)) {
+      return 'currentWeek';
+    }
+
+    const dueDate = issue.fields.duedate ? parseLocalDate(issue.fields.duedate) : null;
+    if (!dueDate) {
+      return statusSection;
+    }
+    return dueDate < weekBounds.nextWeek.end ? 'nextWeek' : 'later';
+  }
+
+  /**
+   * Whether an issue is overdue: not done, and due before the report week
+   * The due date is a local date, compared with the local week bounds
+   * 
+   * @param issue - Jira issue
+   * @param statusSection - Section resolved from the status mapping
+   * @param weekBounds - Date bounds of last, current and next weeks
+   */
+  private isOverdue(issue: JiraIssue, statusSection: ReportSection, weekBounds: WeekBounds): boolean {
+    if (statusSection === 'lastWeek' || !issue.fields.duedate) {
+      return false;
+    }
+    const dueDate = parseLocalDate(issue.fields.duedate);
+    return !!dueDate && dueDate < weekBounds.currentWeek.start;
+  }
+
+  /**
+   * Get the date an issue was completed
+   * Uses the last changelog transition into a status mapped to "lastWeek" (later edits and
+   * transitions between done statuses don't move the issue), falling back to the resolution date
+   * when the changelog has no such transition (e.g., changelog not fetched)
+   * 
+   * Changelog items only carry the target status ID and name: the transition into the current
+   * status is matched with the current status (category rules included), other targets by ID and name.
+   * 
+   * @param issue - Jira issue
+   * @param statusMapping - Template status mapping
+   * @returns Completion date or null if unknown
+   */
+  private getCompletionDate(issue: JiraIssue, statusMapping?: StatusMappingConfig): Date | null {
+    const currentStatus = issue.fields.status;
+    const isDoneTransition = (item: JiraChangelogHistory['items'][number]): boolean => {
+      if (item.field !== 'status') {
+        return false;
+      }
+      const isCurrentStatus = currentStatus.id && item.to
+        ? String(item.to) === String(currentStatus.id)
+        : normalizeStatusName(item.toString || '') === normalizeStatusName(currentStatus.name);
+      const target = isCurrentStatus
+        ? currentStatus
+        : { id: item.to || undefined, name: item.toString || '', statusCategory: { key: '', name: '' } };
+      return resolveStatusSection(target, statusMapping) === 'lastWeek';
+    };
+
+    const doneTransitions = (issue.changelog?.histories || [])
+      .filter(history => history.items.some(isDoneTransition))
+      .map(history => new Date(history.created))
+      .filter(date => !isNaN(date.getTime()));
+    if (doneTransitions.length > 0) {
+      return new Date(Math.max(...doneTransitions.map(date => date.getTime())));
+    }
+
+    if (issue.fields.resolutiondate) {
+      const resolvedAt = new Date(issue.fields.resolutiondate);
+      if (!isNaN(resolvedAt.getTime())) {
+        return resolvedAt;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get issues with configured depth (for nested children support)
+   * 
+   * Nested children are fetched by the Jira clients (breadth-first, tagged with issue.depth).
+   * This keeps only the levels allowed by the template, in case issues were fetched deeper.
+   * 
+   * @param issues - Issues array (children and possibly nested children)
+   * @param selectionConfig - Issue selection configuration
+   * @returns Issues up to max depth
+   */
+  private getIssuesWithDepth(
+    issues: JiraIssue[],
+    selectionConfig: IssueSelectionConfig
+  ): JiraIssue[] {
+    const maxDepth = selectionConfig.includeNestedChildren ? selectionConfig.maxDepth : 1;
+    if (maxDepth <= 0) {
+      return issues;
+    }
+
+    // Issues without depth information are treated as direct children
+    return issues.filter(issue => (issue.depth ?? 1) <= maxDepth);
+  }
 
-    groupedByParent.forEach((childIssues, parentKey) => {
+  /**
+   * Group issues by parent, the category being extracted from the parent issue
+   * 
+   * @param issues - Issues to group
+   * @param issueSelection - Issue selection configuration (parent grouping field)
+   * @param fieldMapping - Field mapping configuration (category field)
+   * @returns Category groups, one per parent
+   */
+  private groupIssuesByParentCategory(
+    issues: JiraIssue[],
+    issueSelection: IssueSelectionConfig,
+    fieldMapping: FieldMappingConfig
+  ): Array<{ category: string; issues: JiraIssue[] }> {
+    const groupedByParent = this.groupIssuesByParent(issues, issueSelection.parentGroupingField);
+
+    return Array.from(groupedByParent.values()).map(childIssues => {
       // Get parent issue (use first child's parent)
       const parentIssue = childIssues[0].fields.parent;
       
@@ -102,81 +642,130 @@ export class ReportService {
           )
         : 'Uncategorized';
 
-      // Group by initiative field
-      const groupedByInitiative = this.groupIssuesByField(
-        childIssues,
-        fieldMapping.initiativeField,
-        fieldMapping.multiValueHandling,
-        fieldMapping.multiValueSeparator
-      );
+      return { category: resolveGroupValue(category, fieldMapping.categoryValues), issues: childIssues };
+    });
+  }
 
-      // Create rows for each initiative group
-      groupedByInitiative.forEach((groupIssues, initiativeValue) => {
-        const row: ReportRow = {
-          category,
-          initiative: initiativeValue || 'No initiative',
-          lastWeek: [],
-          currentWeek: [],
-          nextWeek: [],
-          later: [],
-        };
+  /**
+   * Group issues by the category field of each issue (JQL sources, no parent ticket)
+   * 
+   * @param issues - Issues to group
+   * @param fieldMapping - Field mapping configuration (category field)
+   * @returns Category groups, one per category value
+   */
+  private groupIssuesByCategoryField(
+    issues: JiraIssue[],
+    fieldMapping: FieldMappingConfig
+  ): Array<{ category: string; issues: JiraIssue[] }> {
+    const grouped = new Map<string, JiraIssue[]>();
 
-        groupIssues.forEach(issue => {
-          const section = this.categorizeIssue(issue.fields.status.name);
-          
-          // Extract issue item value using template field mapping
-          const issueItem = getFieldDisplayValue(
-            issue,
-            fieldMapping.issueItemField,
-            {
-              multiValueHandling: 'join',
-              separator: ', ',
-              fallback: issue.key,
-            }
-          );
-          
-          switch (section) {
-            case IssueSection.LAST_WEEK:
-              row.lastWeek.push(issueItem);
-              break;
-            case IssueSection.CURRENT_WEEK:
-              row.currentWeek.push(issueItem);
-              break;
-            case IssueSection.NEXT_WEEK:
-              row.nextWeek.push(issueItem);
-              break;
-            case IssueSection.LATER:
-              row.later.push(issueItem);
-              break;
-          }
-        });
+    issues.forEach(issue => {
+      const value = getFieldDisplayValue(issue, fieldMapping.categoryField, {
+        multiValueHandling: 'join',
+        separator: fieldMapping.multiValueSeparator,
+        fallback: 'Uncategorized',
+      }) || 'Uncategorized';
+      const category = resolveGroupValue(value, fieldMapping.categoryValues);
 
-        reportRows.push(row);
-      });
+      if (!grouped.has(category)) {
+        grouped.set(category, []);
+      }
+      grouped.get(category)!.push(issue);
     });
 
-    return reportRows;
+    return Array.from(grouped.entries()).map(([category, categoryIssues]) => ({ category, issues: categoryIssues }));
   }
 
   /**
-   * Get issues with configured depth (for nested children support)
+   * Group issues by the grouping levels of a template
    * 
-   * @param issues - Initial issues array
-   * @param selectionConfig - Issue selection configuration
-   * @returns All issues including nested children up to max depth
+   * @param issues - Issues to group
+   * @param levels - Grouping levels, outermost first
+   * @param issueSelection - Issue selection configuration (category level)
+   * @param fieldMapping - Field mapping configuration (category and initiative levels, multi-value handling)
+   * @param values - Values of the outer levels (recursion)
+   * @returns Groups of the last level, in display order, with the values of every level
    */
-  private getIssuesWithDepth(
+  private groupIssuesByLevels(
     issues: JiraIssue[],
-    selectionConfig: IssueSelectionConfig
-  ): JiraIssue[] {
-    if (!selectionConfig.includeNestedChildren || selectionConfig.maxDepth <= 1) {
-      return issues;
+    levels: GroupLevelConfig[],
+    issueSelection: IssueSelectionConfig,
+    fieldMapping: FieldMappingConfig,
+    values: string[] = []
+  ): Array<{ values: string[]; issues: JiraIssue[] }> {
+    if (levels.length === 0) {
+      return [{ values, issues }];
+    }
+
+    const [level, ...innerLevels] = levels;
+    return this.groupIssuesByLevel(issues, level, issueSelection, fieldMapping)
+      .flatMap(group =>
+        this.groupIssuesByLevels(group.issues, innerLevels, issueSelection, fieldMapping, [...values, group.value])
+      );
+  }
+
+  /**
+   * Group issues by one grouping level
+   * 
+   * @returns Groups in display order
+   */
+  private groupIssuesByLevel(
+    issues: JiraIssue[],
+    level: GroupLevelConfig,
+    issueSelection: IssueSelectionConfig,
+    fieldMapping: FieldMappingConfig
+  ): Array<{ value: string; issues: JiraIssue[] }> {
+    if (level.source === 'category') {
+      // By parent, or by the category field for JQL sources
+      const categoryGroups = issueSelection.source === 'jql'
+        ? this.groupIssuesByCategoryField(issues, fieldMapping)
+        : this.groupIssuesByParentCategory(issues, issueSelection, fieldMapping);
+      return this.mergeCategoryGroups(categoryGroups, fieldMapping.categoryValues)
+        .map(group => ({ value: group.category, issues: group.issues }));
     }
 
-    // For now, return original issues
-    // TODO: Implement nested children fetching (would need to fetch children of children)
-    // This requires additional API calls to get children of each child issue
-    return issues;
+    const grouped = level.source === 'initiative'
+      ? this.groupIssuesByField(
+          issues,
+          fieldMapping.initiativeField,
+          fieldMapping.multiValueHandling,
+          fieldMapping.multiValueSeparator,
+          fieldMapping.initiativeValues
+        )
+      : this.groupIssuesByField(
+          issues,
+          level.fieldPath || '',
+          fieldMapping.multiValueHandling,
+          fieldMapping.multiValueSeparator,
+          { sortOrder: level.sortOrder }
+        );
+    return Array.from(grouped.entries()).map(([value, groupIssues]) => ({ value, issues: groupIssues }));
+  }
+
+  /**
+   * Merge the category groups sharing a category (e.g., parents with the same category,
+   * or values renamed to the same alias) and sort them with the template order
+   * 
+   * @param groups - Category groups in order of first appearance
+   * @param categoryValues - Aliases and order of the category values
+   * @returns Sorted category groups, one per category
+   */
+  private mergeCategoryGroups(
+    groups: Array<{ category: string; issues: JiraIssue[] }>,
+    categoryValues?: GroupValueConfig
+  ): Array<{ category: string; issues: JiraIssue[] }> {
+    const merged = new Map<string, JiraIssue[]>();
+
+    groups.forEach(({ category, issues }) => {
+      merged.set(category, [...(merged.get(category) || []), ...issues]);
+    });
+
+    return sortGroups(
+      Array.from(merged.entries()).map(([category, issues]) => ({ category, issues })),
+      group => group.category,
+      group => group.issues.length,
+      categoryValues
+    );
   }
 
   /**
@@ -211,13 +800,15 @@ export class ReportService {
    * @param fieldPath - Field path to group by
    * @param multiValueHandling - How to handle multi-value fields
    * @param separator - Separator for joining multi-value fields
-   * @returns Map of field value to issues array
+   * @param valueConfig - Aliases and order of the field values (optional)
+   * @returns Map of field value (after aliases) to issues array, in the configured order
    */
   private groupIssuesByField(
     issues: JiraIssue[],
     fieldPath: string,
     multiValueHandling: 'join' | 'first' | 'all',
-    separator: string
+    separator: string,
+    valueConfig?: GroupValueConfig
   ): Map<string, JiraIssue[]> {
     const grouped = new Map<string, JiraIssue[]>();
 
@@ -233,16 +824,19 @@ export class ReportService {
       if (multiValueHandling === 'all' && Array.isArray(fieldValue) && fieldValue.length > 0) {
         fieldValue.forEach(value => {
           const formatted = formatFieldValue(value, { fallback: 'No value' });
-          const key = formatted || 'No value';
+          const key = resolveGroupValue(formatted || 'No value', valueConfig);
           
           if (!grouped.has(key)) {
             grouped.set(key, []);
           }
-          grouped.get(key)!.push(issue);
+          // Values renamed to the same alias list the issue once
+          if (!grouped.get(key)!.includes(issue)) {
+            grouped.get(key)!.push(issue);
+          }
         });
       } else {
         // Single value or joined
-        const key = formattedValue || 'No value';
+        const key = resolveGroupValue(formattedValue || 'No value', valueConfig);
         
         if (!grouped.has(key)) {
           grouped.set(key, []);
@@ -251,7 +845,12 @@ export class ReportService {
       }
     });
 
-    return grouped;
+    return new Map(sortGroups(
+      Array.from(grouped.entries()),
+      ([value]) => value,
+      ([, groupIssues]) => groupIssues.length,
+      valueConfig
+    ));
   }
 }
 
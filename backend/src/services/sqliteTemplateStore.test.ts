@@ -0,0 +1,163 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { SqliteTemplateStore } from './sqliteTemplateStore';
+import { ReportTemplate, TemplateVersion, DEFAULT_TEMPLATE } from '../types/template';
+
+const TENANT = 'site:https://team.atlassian.net';
+
+const template = (id: string, userId = 'user@example.com'): ReportTemplate => ({
+  ...DEFAULT_TEMPLATE,
+  id,
+  name: `Template ${id}`,
+  userId,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-02T00:00:00.000Z',
+});
+
+/**
+ * First version of a template
+ */
+const creation = (created: ReportTemplate): Omit<TemplateVersion, 'version'> => ({
+  templateId: created.id,
+  action: 'create',
+  userId: created.userId,
+  name: created.name,
+  createdAt: created.updatedAt,
+  template: created,
+});
+
+let tempDir: string;
+
+before(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'abc-report-store-'));
+});
+
+after(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+/**
+ * Write a templates.json file of the former file storage
+ */
+const writeJsonTemplates = (name: string, content: unknown): string => {
+  const file = path.join(tempDir, name);
+  fs.writeFileSync(file, JSON.stringify(content));
+  return file;
+};
+
+/**
+ * Read the applied schema migrations of a database file
+ */
+const appliedMigrations = (databasePath: string): number[] => {
+  const db = new Database(databasePath, { readonly: true });
+  try {
+    return (db.prepare('SELECT version FROM schema_migrations ORDER BY version').all() as { version: number }[])
+      .map(row => row.version);
+  } finally {
+    db.close();
+  }
+};
+
+test('a fresh in-memory database starts empty and stores templates with their history', () => {
+  const store = new SqliteTemplateStore(':memory:');
+  try {
+    assert.deepEqual(store.findTemplates(TENANT, { userId: 'user@example.com', includeShared: true }), []);
+
+    store.saveTemplate(TENANT, template('template-1'));
+    store.addTemplateVersion(TENANT, creation(template('template-1')));
+
+    assert.equal(store.getTemplate(TENANT, 'template-1')?.name, 'Template template-1');
+    assert.equal(store.getTemplate('connect:other', 'template-1'), null);
+    assert.deepEqual(store.getTemplateVersions(TENANT, 'template-1').map(version => version.version), [1]);
+  } finally {
+    store.close();
+  }
+});
+
+test('the migrations import templates.json into the legacy tenant with a first version', () => {
+  const legacyTemplatesFile = writeJsonTemplates('import.json', [template('template-1'), template('template-2', 'Other@Example.com')]);
+  const store = new SqliteTemplateStore(':memory:', { legacyTemplatesFile, legacyTenantId: TENANT });
+  try {
+    assert.deepEqual(store.findTemplates(TENANT, { userId: 'user@example.com', includeShared: false }).map(found => found.id), ['template-1']);
+    // User IDs are compared case-insensitively
+    assert.equal(store.findTemplates(TENANT, { userId: 'other@example.com', includeShared: false }).length, 1);
+    assert.equal(store.getTemplate('connect:other', 'template-1'), null);
+
+    const [version] = store.getTemplateVersions(TENANT, 'template-2');
+    assert.deepEqual(version, {
+      templateId: 'template-2',
+      version: 1,
+      action: 'import',
+      userId: 'Other@Example.com',
+      createdAt: '2025-01-02T00:00:00.000Z',
+      name: 'Template template-2',
+    });
+    assert.deepEqual(store.getTemplateVersion(TENANT, 'template-2', 1)?.template, template('template-2', 'Other@Example.com'));
+  } finally {
+    store.close();
+  }
+});
+
+test('reopening a database does not run the migrations again', () => {
+  const databasePath = path.join(tempDir, 'reopen.db');
+  const legacyTemplatesFile = writeJsonTemplates('reopen.json', [template('template-1')]);
+
+  const first = new SqliteTemplateStore(databasePath, { legacyTemplatesFile, legacyTenantId: TENANT });
+  first.saveTemplate(TENANT, { ...template('template-1'), name: 'Renamed' });
+  first.close();
+
+  const second = new SqliteTemplateStore(databasePath, { legacyTemplatesFile, legacyTenantId: TENANT });
+  try {
+    // The file is not imported again over the renamed template, and the history is not seeded twice
+    assert.equal(second.getTemplate(TENANT, 'template-1')?.name, 'Renamed');
+    assert.equal(second.getTemplateVersions(TENANT, 'template-1').length, 1);
+  } finally {
+    second.close();
+  }
+  assert.deepEqual(appliedMigrations(databasePath), [1, 2, 3]);
+});
+
+test('a failed migration is rolled back and runs again when the database is reopened', () => {
+  const databasePath = path.join(tempDir, 'failed.db');
+  const legacyTemplatesFile = writeJsonTemplates('failed.json', { templates: [template('template-1')] });
+
+  assert.throws(
+    () => new SqliteTemplateStore(databasePath, { legacyTemplatesFile, legacyTenantId: TENANT }),
+    /expected an array of templates/
+  );
+  assert.deepEqual(appliedMigrations(databasePath), [1]);
+
+  writeJsonTemplates('failed.json', [template('template-1')]);
+  const store = new SqliteTemplateStore(databasePath, { legacyTemplatesFile, legacyTenantId: TENANT });
+  try {
+    assert.equal(store.getTemplate(TENANT, 'template-1')?.id, 'template-1');
+    assert.equal(store.getTemplateVersions(TENANT, 'template-1')[0].action, 'import');
+  } finally {
+    store.close();
+  }
+  assert.deepEqual(appliedMigrations(databasePath), [1, 2, 3]);
+});
+
+test('transaction rolls back every write of a callback that throws', () => {
+  const store = new SqliteTemplateStore(':memory:');
+  try {
+    assert.throws(() => store.transaction(() => {
+      store.saveTemplate(TENANT, template('template-1'));
+      store.addTemplateVersion(TENANT, creation(template('template-1')));
+      throw new Error('Failed after the writes');
+    }), /Failed after the writes/);
+
+    assert.equal(store.getTemplate(TENANT, 'template-1'), null);
+    assert.deepEqual(store.getTemplateVersions(TENANT, 'template-1'), []);
+
+    // The rolled back version does not use up its version number
+    const version = store.transaction(() => store.addTemplateVersion(TENANT, creation(template('template-1'))));
+    assert.equal(version.version, 1);
+  } finally {
+    store.close();
+  }
+});
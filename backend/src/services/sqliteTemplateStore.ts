@@ -0,0 +1,354 @@
+/**
+ * SQLite Template Store
+ *
+ * Stores report templates in a SQLite database (one row per template).
+ * Each save writes a single row, so concurrent saves of different templates
+ * don't overwrite each other, and multi-step changes run in transactions.
+ * Template versions are stored in a separate, append-only table.
+ *
+ * The schema is versioned: pending migrations run in order when the store is opened,
+ * including the import of the former JSON file storage (data/templates.json).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { ReportTemplate, TemplateVersion, TemplateVersionSummary, TemplateVersionAction } from '../types/template';
+import { TemplateStore, TemplateQuery } from './templateStore';
+
+/**
+ * Options for opening a SQLite template store
+ */
+export interface SqliteTemplateStoreOptions {
+  /**
+   * JSON file of the former file storage, imported once by the migrations
+   */
+  legacyTemplatesFile?: string;
+
+  /**
+   * Tenant receiving the imported templates (the JSON file has no tenant information)
+   */
+  legacyTenantId?: string;
+}
+
+/**
+ * Schema migration, applied once in a transaction
+ */
+interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+/**
+ * Template row as stored in the database
+ */
+interface TemplateRow {
+  tenant_id: string;
+  id: string;
+  data: string;
+}
+
+/**
+ * Template version row as stored in the database
+ */
+interface TemplateVersionRow {
+  template_id: string;
+  version: number;
+  action: TemplateVersionAction;
+  user_id: string;
+  name: string;
+  restored_from: number | null;
+  created_at: string;
+  data?: string;
+}
+
+/**
+ * Normalize a user ID for comparisons (user IDs may be email addresses)
+ */
+const normalizeUserId = (userId: string | undefined): string => (userId || '').toLowerCase().trim();
+
+/**
+ * SQLite implementation of the template store
+ */
+export class SqliteTemplateStore implements TemplateStore {
+  private db: Database.Database;
+
+  /**
+   * Open (and create or migrate) a template database
+   *
+   * @param databasePath - Path of the database file (":memory:" for an in-memory database)
+   * @param options - Import options of the former JSON file storage
+   */
+  constructor(databasePath: string, options: SqliteTemplateStoreOptions = {}) {
+    if (databasePath !== ':memory:') {
+      // Ensure data directory exists
+      fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    }
+
+    this.db = new Database(databasePath);
+    // Write-ahead logging lets readers continue while a template is being saved,
+    // the busy timeout makes concurrent writers wait instead of failing
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    try {
+      this.migrate(options);
+    } catch (error) {
+      // The failed migration was rolled back; it runs again the next time the store is opened
+      this.db.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Get the schema migrations
+   */
+  private getMigrations(options: SqliteTemplateStoreOptions): Migration[] {
+    return [
+      {
+        version: 1,
+        description: 'Create templates table',
+        up: (db) => {
+          db.exec(`
+            CREATE TABLE templates (
+              tenant_id TEXT NOT NULL,
+              id TEXT NOT NULL,
+              user_id TEXT NOT NULL,
+              is_shared INTEGER NOT NULL DEFAULT 0,
+              name TEXT NOT NULL,
+              data TEXT NOT NULL,
+              created_at TEXT NOT NULL,
+              updated_at TEXT NOT NULL,
+              PRIMARY KEY (tenant_id, id)
+            );
+            CREATE INDEX templates_tenant_user ON templates (tenant_id, user_id);
+          `);
+        },
+      },
+      {
+        version: 2,
+        description: 'Import templates of the JSON file storage',
+        up: () => {
+          this.importJsonTemplates(options.legacyTemplatesFile, options.legacyTenantId);
+        },
+      },
+      {
+        version: 3,
+        description: 'Create template versions table',
+        up: (db) => {
+          db.exec(`
+            CREATE TABLE template_versions (
+              tenant_id TEXT NOT NULL,
+              template_id TEXT NOT NULL,
+              version INTEGER NOT NULL,
+              action TEXT NOT NULL,
+              user_id TEXT NOT NULL,
+              name TEXT NOT NULL,
+              restored_from INTEGER,
+              data TEXT NOT NULL,
+              created_at TEXT NOT NULL,
+              PRIMARY KEY (tenant_id, template_id, version)
+            );
+          `);
+          // Existing templates start their history with their current content
+          db.exec(`
+            INSERT INTO template_versions (tenant_id, template_id, version, action, user_id, name, data, created_at)
+            SELECT tenant_id, id, 1, 'import', json_extract(data, '$.userId'), name, data, updated_at FROM templates
+          `);
+        },
+      },
+    ];
+  }
+
+  /**
+   * Apply pending schema migrations
+   * Each migration runs in its own transaction together with its version record
+   */
+  private migrate(options: SqliteTemplateStoreOptions): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        description TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+
+    const applied = new Set(
+      (this.db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[])
+        .map(row => row.version)
+    );
+
+    for (const migration of this.getMigrations(options)) {
+      if (applied.has(migration.version)) {
+        continue;
+      }
+      this.db.transaction(() => {
+        migration.up(this.db);
+        this.db.prepare('INSERT INTO schema_migrations (version, description, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.description, new Date().toISOString());
+      }).immediate();
+    }
+  }
+
+  /**
+   * Import the templates of the former JSON file storage
+   * Templates already in the database (same tenant and ID) are kept
+   *
+   * @param jsonFile - Path of the JSON file (array of templates)
+   * @param tenantId - Tenant receiving the templates
+   * @returns Number of imported templates
+   * @throws {Error} If the file exists but is not a JSON array
+   */
+  private importJsonTemplates(jsonFile: string | undefined, tenantId: string | undefined): number {
+    if (!jsonFile || !tenantId || !fs.existsSync(jsonFile)) {
+      return 0;
+    }
+
+    const templates = JSON.parse(fs.readFileSync(jsonFile, 'utf-8'));
+    if (!Array.isArray(templates)) {
+      throw new Error(`Invalid template file ${jsonFile}: expected an array of templates`);
+    }
+
+    let count = 0;
+    for (const template of templates as ReportTemplate[]) {
+      if (!template?.id || this.getTemplate(tenantId, template.id)) {
+        continue;
+      }
+      this.saveTemplate(tenantId, template);
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Parse a template row
+   */
+  private toTemplate(row: TemplateRow): ReportTemplate {
+    return JSON.parse(row.data);
+  }
+
+  findTemplates(tenantId: string, query: TemplateQuery): ReportTemplate[] {
+    const rows = this.db.prepare(`
+      SELECT tenant_id, id, data FROM templates
+      WHERE tenant_id = ? AND (user_id = ? OR (? AND is_shared = 1))
+      ORDER BY updated_at DESC
+    `).all(tenantId, normalizeUserId(query.userId), query.includeShared ? 1 : 0) as TemplateRow[];
+    return rows.map(row => this.toTemplate(row));
+  }
+
+  getTemplate(tenantId: string, templateId: string): ReportTemplate | null {
+    const row = this.db.prepare('SELECT tenant_id, id, data FROM templates WHERE tenant_id = ? AND id = ?')
+      .get(tenantId, templateId) as TemplateRow | undefined;
+    return row ? this.toTemplate(row) : null;
+  }
+
+  saveTemplate(tenantId: string, template: ReportTemplate): void {
+    this.db.prepare(`
+      INSERT INTO templates (tenant_id, id, user_id, is_shared, name, data, created_at, updated_at)
+      VALUES (@tenantId, @id, @userId, @isShared, @name, @data, @createdAt, @updatedAt)
+      ON CONFLICT (tenant_id, id) DO UPDATE SET
+        user_id = excluded.user_id,
+        is_shared = excluded.is_shared,
+        name = excluded.name,
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).run({
+      tenantId,
+      id: template.id,
+      userId: normalizeUserId(template.userId),
+      isShared: template.isShared ? 1 : 0,
+      name: template.name,
+      data: JSON.stringify(template),
+      createdAt: template.createdAt,
+      updatedAt: template.updatedAt,
+    });
+  }
+
+  deleteTemplate(tenantId: string, templateId: string): boolean {
+    // Versions are immutable: the history of a deleted template is kept
+    const result = this.db.prepare('DELETE FROM templates WHERE tenant_id = ? AND id = ?').run(tenantId, templateId);
+    return result.changes > 0;
+  }
+
+  /**
+   * Parse a template version row
+   */
+  private toVersionSummary(row: TemplateVersionRow): TemplateVersionSummary {
+    return {
+      templateId: row.template_id,
+      version: row.version,
+      action: row.action,
+      userId: row.user_id,
+      createdAt: row.created_at,
+      name: row.name,
+      ...(row.restored_from !== null ? { restoredFrom: row.restored_from } : {}),
+    };
+  }
+
+  addTemplateVersion(tenantId: string, version: Omit<TemplateVersion, 'version'>): TemplateVersion {
+    return this.transaction(() => {
+      const { latest } = this.db.prepare(
+        'SELECT MAX(version) AS latest FROM template_versions WHERE tenant_id = ? AND template_id = ?'
+      ).get(tenantId, version.templateId) as { latest: number | null };
+
+      const stored: TemplateVersion = { ...version, version: (latest || 0) + 1 };
+      this.db.prepare(`
+        INSERT INTO template_versions (tenant_id, template_id, version, action, user_id, name, restored_from, data, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        tenantId,
+        stored.templateId,
+        stored.version,
+        stored.action,
+        stored.userId,
+        stored.name,
+        stored.restoredFrom ?? null,
+        JSON.stringify(stored.template),
+        stored.createdAt
+      );
+      return stored;
+    });
+  }
+
+  getTemplateVersions(tenantId: string, templateId: string): TemplateVersionSummary[] {
+    const rows = this.db.prepare(`
+      SELECT template_id, version, action, user_id, name, restored_from, created_at FROM template_versions
+      WHERE tenant_id = ? AND template_id = ?
+      ORDER BY version DESC
+    `).all(tenantId, templateId) as TemplateVersionRow[];
+    return rows.map(row => this.toVersionSummary(row));
+  }
+
+  getTemplateVersion(tenantId: string, templateId: string, version: number): TemplateVersion | null {
+    const row = this.db.prepare(`
+      SELECT template_id, version, action, user_id, name, restored_from, created_at, data FROM template_versions
+      WHERE tenant_id = ? AND template_id = ? AND version = ?
+    `).get(tenantId, templateId, version) as TemplateVersionRow | undefined;
+    return row ? { ...this.toVersionSummary(row), template: JSON.parse(row.data!) } : null;
+  }
+
+  findDeletedTemplateVersions(tenantId: string, userId: string): TemplateVersion[] {
+    // The owner is the user ID of the template content (the user of a version is who made the change)
+    const rows = this.db.prepare(`
+      SELECT template_id, version, action, user_id, name, restored_from, created_at, data FROM template_versions AS v
+      WHERE tenant_id = @tenantId
+        AND version = (SELECT MAX(version) FROM template_versions WHERE tenant_id = v.tenant_id AND template_id = v.template_id)
+        AND NOT EXISTS (SELECT 1 FROM templates WHERE tenant_id = v.tenant_id AND id = v.template_id)
+        AND lower(trim(json_extract(data, '$.userId'))) = @userId
+      ORDER BY created_at DESC
+    `).all({ tenantId, userId: normalizeUserId(userId) }) as TemplateVersionRow[];
+    return rows.map(row => ({ ...this.toVersionSummary(row), template: JSON.parse(row.data!) }));
+  }
+
+  transaction<T>(fn: () => T): T {
+    // Nested calls run inside the outer transaction (better-sqlite3 uses savepoints)
+    return this.db.transaction(fn).immediate();
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Template Preview Service
+ *
+ * Runs an unsaved template against the children of a sample issue, so template authors
+ * can check the report rows and what each mapped field path resolves to before saving.
+ */
+
+import { JiraClient } from './jiraClient';
+import { ConnectJiraClient } from './connectJiraClient';
+import { ReportService, ReportRow, ReportColumn, ReportGroupLevel, getChildIssueOptions, getReportColumns, getReportGroupLevels } from './reportService';
+import { JiraIssue } from '../types/jira';
+import { ReportTemplate } from '../types/template';
+import { extractFieldValue } from '../utils/fieldExtractor';
+import { getItemFormatFieldPaths } from '../utils/itemFormat';
+
+/**
+ * Maximum number of child issues fetched for a preview
+ */
+export const PREVIEW_MAX_ISSUES = 200;
+
+/**
+ * Number of resolved values returned per field path
+ */
+export const PREVIEW_SAMPLE_SIZE = 10;
+
+/**
+ * Template settings holding a field path
+ */
+export type PreviewedSetting =
+  | 'fieldMapping.categoryField'
+  | 'fieldMapping.initiativeField'
+  | 'fieldMapping.issueItemField'
+  | 'fieldMapping.issueItemFormat'
+  | 'issueSelection.parentGroupingField'
+  | `columns[${number}].fieldPath`
+  | `groupBy[${number}].fieldPath`;
+
+/**
+ * Values resolved by extractFieldValue for a field path of the template
+ */
+export interface FieldPathPreview {
+  setting: PreviewedSetting;
+  path: string;
+  issueCount: number;     // Issues the path was resolved on
+  resolvedCount: number;  // Issues where the path resolved to a value (not null)
+  alwaysNull: boolean;    // The path resolved to null on every issue (likely a wrong path)
+  samples: Array<{ issueKey: string; value: any }>; // Raw values of the first issues
+}
+
+/**
+ * Result of a template preview
+ */
+export interface TemplatePreview {
+  issueKey: string;
+  summary: string;
+  columns: ReportColumn[];
+  groupLevels: ReportGroupLevel[];
+  report: ReportRow[];
+  childrenCount: number;
+  filteredOutCount: number; // Children left out by the template filter rules
+  truncated: boolean;     // Children were capped at PREVIEW_MAX_ISSUES
+  fieldPaths: FieldPathPreview[];
+}
+
+export class TemplatePreviewService {
+  private reportService = new ReportService();
+
+  /**
+   * Preview a template on the children of an issue
+   *
+   * @param jiraClient - Jira client (Connect or legacy)
+   * @param template - Template settings (validated, not necessarily saved)
+   * @param issueKey - Sample parent issue
+   * @param referenceDate - Any date in the report week (optional, defaults to now)
+   * @returns Report rows and the values resolved for each mapped field path
+   */
+  async previewTemplate(
+    jiraClient: JiraClient | ConnectJiraClient,
+    template: ReportTemplate,
+    issueKey: string,
+    referenceDate?: Date
+  ): Promise<TemplatePreview> {
+    const issue = await jiraClient.getIssue(issueKey);
+    const { issues: children, truncated } = await jiraClient.getIssueChildren(issueKey, {
+      ...getChildIssueOptions(template),
+      maxResults: PREVIEW_MAX_ISSUES,
+    }, issue);
+
+    const report = this.reportService.generateReport(children, template, referenceDate);
+
+    return {
+      issueKey: issue.key,
+      summary: issue.fields.summary,
+      columns: getReportColumns(template, report, referenceDate),
+      groupLevels: getReportGroupLevels(template),
+      report,
+      childrenCount: children.length,
+      filteredOutCount: this.reportService.countFilteredIssues(children, template, referenceDate),
+      truncated,
+      fieldPaths: this.previewFieldPaths(children, template),
+    };
+  }
+
+  /**
+   * Resolve the field paths of a template the way the report does
+   * The category is read from the parent of each child, unless the template has a JQL source
+   * (then from each issue, like the report); the parent grouping field only applies to children sources.
+   * Each placeholder of the item format, each field column and each field level is read on each issue
+   */
+  private previewFieldPaths(issues: JiraIssue[], template: ReportTemplate): FieldPathPreview[] {
+    const { fieldMapping, issueSelection } = template;
+    const isJqlSource = issueSelection.source === 'jql';
+
+    const categoryIssues = isJqlSource
+      ? issues
+      : issues.map(issue => issue.fields.parent
+          ? { ...issue.fields.parent, fields: issue.fields.parent.fields || {} } as JiraIssue
+          : null);
+
+    const previews = [
+      this.previewFieldPath('fieldMapping.categoryField', fieldMapping.categoryField, issues, categoryIssues),
+      this.previewFieldPath('fieldMapping.initiativeField', fieldMapping.initiativeField, issues, issues),
+      this.previewFieldPath('fieldMapping.issueItemField', fieldMapping.issueItemField, issues, issues),
+      ...Array.from(new Set(getItemFormatFieldPaths(fieldMapping.issueItemFormat || '')))
+        .map(path => this.previewFieldPath('fieldMapping.issueItemFormat', path, issues, issues)),
+    ];
+    if (!isJqlSource) {
+      previews.push(this.previewFieldPath('issueSelection.parentGroupingField', issueSelection.parentGroupingField, issues, issues));
+    }
+    (template.columns || []).forEach((column, index) => {
+      if (column.source === 'field' && column.fieldPath) {
+        previews.push(this.previewFieldPath(`columns[${index}].fieldPath`, column.fieldPath, issues, issues));
+      }
+    });
+    (template.groupBy || []).forEach((level, index) => {
+      if (level.source === 'field' && level.fieldPath) {
+        previews.push(this.previewFieldPath(`groupBy[${index}].fieldPath`, level.fieldPath, issues, issues));
+      }
+    });
+    return previews;
+  }
+
+  /**
+   * Resolve a field path on each issue
+   *
+   * @param issues - Reported issues (sample keys)
+   * @param targets - Issue the path is resolved on, for each reported issue (null = no value)
+   */
+  private previewFieldPath(
+    setting: PreviewedSetting,
+    path: string,
+    issues: JiraIssue[],
+    targets: Array<JiraIssue | null>
+  ): FieldPathPreview {
+    const values = issues.map((issue, index) => ({
+      issueKey: issue.key,
+      value: targets[index] ? extractFieldValue(targets[index]!, path) : null,
+    }));
+    const resolvedCount = values.filter(({ value }) => value !== null && value !== undefined).length;
+
+    return {
+      setting,
+      path,
+      issueCount: issues.length,
+      resolvedCount,
+      alwaysNull: issues.length > 0 && resolvedCount === 0,
+      samples: values.slice(0, PREVIEW_SAMPLE_SIZE),
+    };
+  }
+}
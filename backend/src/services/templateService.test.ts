@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SqliteTemplateStore } from './sqliteTemplateStore';
+import { TemplateService } from './templateService';
+import { TemplateScope, DEFAULT_TEMPLATE } from '../types/template';
+
+const owner: TemplateScope = { tenantId: 'connect:client-key', userId: 'owner' };
+const colleague: TemplateScope = { tenantId: 'connect:client-key', userId: 'colleague' };
+const otherTenant: TemplateScope = { tenantId: 'connect:other', userId: 'owner' };
+
+/**
+ * Service over a new in-memory store, with a template of the owner updated once, then deleted
+ */
+const withDeletedTemplate = (isShared: boolean) => {
+  const store = new SqliteTemplateStore(':memory:');
+  const service = new TemplateService(store);
+  const template = service.createTemplate(owner, { ...DEFAULT_TEMPLATE, name: 'Weekly', userId: owner.userId, isShared });
+  service.updateTemplate(template.id, owner, { name: 'Weekly (renamed)' });
+  assert.equal(service.deleteTemplate(template.id, owner), true);
+  return { store, service, templateId: template.id };
+};
+
+test('the history of a deleted template can still be read by its owner', () => {
+  const { store, service, templateId } = withDeletedTemplate(false);
+  try {
+    assert.equal(service.getTemplate(templateId, owner), null);
+    assert.deepEqual(service.getTemplateVersions(templateId, owner)?.map(version => version.action), ['update', 'create']);
+    assert.equal(service.getTemplateVersion(templateId, 1, owner)?.template.name, 'Weekly');
+    assert.deepEqual(service.diffTemplateVersions(templateId, 1, 2, owner)?.changes.map(change => change.path), ['name']);
+  } finally {
+    store.close();
+  }
+});
+
+test('the history of a deleted template keeps the access rule of the template', () => {
+  const privateTemplate = withDeletedTemplate(false);
+  try {
+    assert.equal(privateTemplate.service.getTemplateVersions(privateTemplate.templateId, colleague), null);
+    assert.equal(privateTemplate.service.getTemplateVersion(privateTemplate.templateId, 1, colleague), null);
+    assert.equal(privateTemplate.service.getTemplateVersions(privateTemplate.templateId, otherTenant), null);
+  } finally {
+    privateTemplate.store.close();
+  }
+
+  const sharedTemplate = withDeletedTemplate(true);
+  try {
+    assert.equal(sharedTemplate.service.getTemplateVersions(sharedTemplate.templateId, colleague)?.length, 2);
+    // Only the owner can restore it
+    assert.equal(sharedTemplate.service.restoreTemplateVersion(sharedTemplate.templateId, 1, colleague), null);
+  } finally {
+    sharedTemplate.store.close();
+  }
+});
+
+test('getDeletedTemplates lists the last version of the deleted templates of the user', () => {
+  const { store, service, templateId } = withDeletedTemplate(true);
+  try {
+    service.createTemplate(owner, { ...DEFAULT_TEMPLATE, name: 'Kept', userId: owner.userId, isShared: false });
+
+    const deleted = service.getDeletedTemplates(owner);
+
+    assert.deepEqual(deleted.map(version => [version.templateId, version.version, version.name]), [[templateId, 2, 'Weekly (renamed)']]);
+    assert.deepEqual(service.getDeletedTemplates(colleague), []);
+    assert.deepEqual(service.getDeletedTemplates(otherTenant), []);
+  } finally {
+    store.close();
+  }
+});
+
+test('restoring a version of a deleted template creates it again with the same ID and owner', () => {
+  const { store, service, templateId } = withDeletedTemplate(false);
+  try {
+    const restored = service.restoreTemplateVersion(templateId, 1, owner);
+
+    assert.equal(restored?.id, templateId);
+    assert.equal(restored?.name, 'Weekly');
+    assert.equal(service.getTemplate(templateId, owner)?.userId, owner.userId);
+    assert.deepEqual(service.getTemplateVersions(templateId, owner)?.map(version => version.action), ['restore', 'update', 'create']);
+    assert.deepEqual(service.getDeletedTemplates(owner), []);
+  } finally {
+    store.close();
+  }
+});
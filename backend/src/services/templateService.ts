@@ -2,118 +2,72 @@
  * Template Service
  * 
  * Handles storage and retrieval of report templates.
- * Uses file-based storage (JSON files) for simplicity.
- * Can be easily migrated to database storage later.
+ * Templates are kept in a template store (SQLite by default), partitioned by tenant:
+ * every method takes the scope (tenant and user) of the request.
+ * Every create, update, clone and restore is recorded as an immutable template version.
  */
 
-import fs from 'fs';
-import path from 'path';
-import { ReportTemplate, DEFAULT_TEMPLATE } from '../types/template';
+import {
+  ReportTemplate,
+  TemplateScope,
+  TemplateBundleContent,
+  TemplateVersion,
+  TemplateVersionAction,
+  TemplateVersionDiff,
+  TemplateVersionSummary,
+  DEFAULT_TEMPLATE,
+} from '../types/template';
+import { TemplateStore, getTemplateStore } from './templateStore';
+import { diffTemplates } from '../utils/templateDiff';
 import { randomUUID } from 'crypto';
 
 /**
- * Template Storage Service
+ * Compare user IDs case-insensitively (user IDs may be email addresses)
+ */
+const isSameUser = (a: string | undefined, b: string | undefined): boolean =>
+  a?.toLowerCase().trim() === b?.toLowerCase().trim();
+
+/**
+ * Template Service
  * 
- * Manages report template persistence using file-based storage.
- * Templates are stored in a JSON file: `data/templates.json`
+ * Implements template access rules on top of the template store:
+ * users see their own templates and the templates shared within their tenant,
+ * and only the owner can update or delete a template.
  */
 export class TemplateService {
-  private templatesFile: string;
-  private templates: Map<string, ReportTemplate>;
-
-  constructor(dataDir: string = path.join(__dirname, '../../data')) {
-    // Ensure data directory exists
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true });
-    }
-
-    this.templatesFile = path.join(dataDir, 'templates.json');
-    this.templates = new Map();
-    this.loadTemplates();
-  }
+  private store: TemplateStore;
 
-  /**
-   * Load templates from file
-   */
-  private loadTemplates(): void {
-    try {
-      if (fs.existsSync(this.templatesFile)) {
-        const data = fs.readFileSync(this.templatesFile, 'utf-8');
-        const templatesArray: ReportTemplate[] = JSON.parse(data);
-        
-        // Convert array to Map for faster lookup
-        this.templates = new Map(
-          templatesArray.map(template => [template.id, template])
-        );
-      } else {
-        // Create empty templates file
-        this.saveTemplates();
-      }
-    } catch (error: any) {
-      console.error('Error loading templates:', error.message);
-      this.templates = new Map();
-    }
-  }
-
-  /**
-   * Save templates to file
-   */
-  private saveTemplates(): void {
-    try {
-      const templatesArray = Array.from(this.templates.values());
-      fs.writeFileSync(
-        this.templatesFile,
-        JSON.stringify(templatesArray, null, 2),
-        'utf-8'
-      );
-    } catch (error: any) {
-      console.error('Error saving templates:', error.message);
-      throw new Error('Failed to save templates');
-    }
+  constructor(store: TemplateStore = getTemplateStore()) {
+    this.store = store;
   }
 
   /**
    * Get all templates for a user
    * 
-   * @param userId - User identifier
-   * @param includeShared - Whether to include shared templates
-   * @returns Array of templates
+   * @param scope - Tenant and user of the request
+   * @param includeShared - Whether to include templates shared within the tenant
+   * @returns Array of templates (newest first)
    */
-  getTemplatesForUser(userId: string, includeShared: boolean = true): ReportTemplate[] {
-    const requestUserId = userId?.toLowerCase().trim();
-    const userTemplates = Array.from(this.templates.values()).filter(
-      template => {
-        const templateUserId = template.userId?.toLowerCase().trim();
-        return templateUserId === requestUserId || (includeShared && template.isShared);
-      }
-    );
-    
-    // Sort by updated date (newest first)
-    return userTemplates.sort(
-      (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-    );
+  getTemplatesForUser(scope: TemplateScope, includeShared: boolean = true): ReportTemplate[] {
+    return this.store.findTemplates(scope.tenantId, { userId: scope.userId, includeShared });
   }
 
   /**
    * Get a template by ID
    * 
    * @param templateId - Template ID
-   * @param userId - User identifier (for authorization check)
+   * @param scope - Tenant and user of the request (for authorization check)
    * @returns Template or null if not found or not accessible
    */
-  getTemplate(templateId: string, userId: string): ReportTemplate | null {
-    const template = this.templates.get(templateId);
+  getTemplate(templateId: string, scope: TemplateScope): ReportTemplate | null {
+    const template = this.store.getTemplate(scope.tenantId, templateId);
     
     if (!template) {
       return null;
     }
 
     // Check if user has access (owner or shared)
-    // Use case-insensitive comparison for email addresses
-    const templateUserId = template.userId?.toLowerCase().trim();
-    const requestUserId = userId?.toLowerCase().trim();
-    
-    if (templateUserId !== requestUserId && !template.isShared) {
+    if (!isSameUser(template.userId, scope.userId) && !template.isShared) {
       return null;
     }
 
@@ -124,65 +78,98 @@ export class TemplateService {
    * Get default template for a user
    * Creates a default template if none exists
    * 
-   * @param userId - User identifier
+   * @param scope - Tenant and user of the request
    * @returns Default template
    */
-  getDefaultTemplate(userId: string): ReportTemplate {
-    // Try to find user's default template
-    const requestUserId = userId?.toLowerCase().trim();
-    const userTemplates = this.getTemplatesForUser(userId, false);
-    const defaultTemplate = userTemplates.find(t => {
-      const templateUserId = t.userId?.toLowerCase().trim();
-      return t.name === 'Default' && templateUserId === requestUserId;
-    });
-    
-    if (defaultTemplate) {
-      return defaultTemplate;
-    }
+  getDefaultTemplate(scope: TemplateScope): ReportTemplate {
+    // Look up and create in one transaction, so concurrent requests create a single default
+    return this.store.transaction(() => {
+      // Try to find user's default template
+      const userTemplates = this.getTemplatesForUser(scope, false);
+      const defaultTemplate = userTemplates.find(t => t.name === 'Default');
+      
+      if (defaultTemplate) {
+        return defaultTemplate;
+      }
 
-    // Create default template
-    const newTemplate: ReportTemplate = {
-      id: randomUUID(),
-      name: 'Default',
-      description: DEFAULT_TEMPLATE.description,
-      userId,
-      isShared: false,
-      fieldMapping: DEFAULT_TEMPLATE.fieldMapping,
-      issueSelection: DEFAULT_TEMPLATE.issueSelection,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+      // Create default template
+      const newTemplate: ReportTemplate = {
+        id: randomUUID(),
+        name: 'Default',
+        description: DEFAULT_TEMPLATE.description,
+        userId: scope.userId,
+        isShared: false,
+        fieldMapping: DEFAULT_TEMPLATE.fieldMapping,
+        issueSelection: DEFAULT_TEMPLATE.issueSelection,
+        statusMapping: DEFAULT_TEMPLATE.statusMapping,
+        sectionTiming: DEFAULT_TEMPLATE.sectionTiming,
+        timesheet: DEFAULT_TEMPLATE.timesheet,
+        columns: DEFAULT_TEMPLATE.columns,
+        groupBy: DEFAULT_TEMPLATE.groupBy,
+        confluence: DEFAULT_TEMPLATE.confluence,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+
+      this.saveTemplate(scope, newTemplate);
+      this.recordVersion(scope, newTemplate, 'create');
+      return newTemplate;
+    });
+  }
 
-    this.saveTemplate(newTemplate);
-    return newTemplate;
+  /**
+   * Record a version of a template (after it is saved)
+   *
+   * @param scope - Tenant and user making the change
+   * @param template - Saved template
+   * @param action - Change that produced the version
+   * @param restoredFrom - Restored version (restore only)
+   */
+  private recordVersion(
+    scope: TemplateScope,
+    template: ReportTemplate,
+    action: TemplateVersionAction,
+    restoredFrom?: number
+  ): TemplateVersion {
+    return this.store.addTemplateVersion(scope.tenantId, {
+      templateId: template.id,
+      action,
+      userId: scope.userId,
+      createdAt: template.updatedAt,
+      name: template.name,
+      ...(restoredFrom !== undefined ? { restoredFrom } : {}),
+      template,
+    });
   }
 
   /**
    * Save a template
    * 
+   * @param scope - Tenant of the template
    * @param template - Template to save
    */
-  saveTemplate(template: ReportTemplate): void {
+  saveTemplate(scope: TemplateScope, template: ReportTemplate): void {
     const now = new Date().toISOString();
     
     // Update timestamps
-    if (!this.templates.has(template.id)) {
+    if (!template.createdAt) {
       // New template
       template.createdAt = now;
     }
     template.updatedAt = now;
 
-    this.templates.set(template.id, template);
-    this.saveTemplates();
+    this.store.saveTemplate(scope.tenantId, template);
   }
 
   /**
    * Create a new template
    * 
+   * @param scope - Tenant of the template
    * @param templateData - Template data (without id, timestamps)
    * @returns Created template
    */
   createTemplate(
+    scope: TemplateScope,
     templateData: Omit<ReportTemplate, 'id' | 'createdAt' | 'updatedAt'>
   ): ReportTemplate {
     const template: ReportTemplate = {
@@ -192,87 +179,94 @@ export class TemplateService {
       updatedAt: new Date().toISOString(),
     };
 
-    this.saveTemplate(template);
-    return template;
+    return this.store.transaction(() => {
+      this.saveTemplate(scope, template);
+      this.recordVersion(scope, template, 'create');
+      return template;
+    });
   }
 
   /**
    * Update a template
    * 
    * @param templateId - Template ID
-   * @param userId - User identifier (must be owner)
+   * @param scope - Tenant and user of the request (user must be owner)
    * @param updates - Partial template data to update
    * @returns Updated template or null if not found/not authorized
    */
   updateTemplate(
     templateId: string,
-    userId: string,
+    scope: TemplateScope,
     updates: Partial<Omit<ReportTemplate, 'id' | 'createdAt' | 'updatedAt'>>
   ): ReportTemplate | null {
-    const template = this.templates.get(templateId);
-    
-    if (!template) {
-      return null;
-    }
+    // Read and write in one transaction, so a concurrent update is not lost
+    return this.store.transaction(() => {
+      const template = this.store.getTemplate(scope.tenantId, templateId);
+      
+      if (!template) {
+        return null;
+      }
 
-    // Only owner can update - use case-insensitive comparison
-    const templateUserId = template.userId?.toLowerCase().trim();
-    const requestUserId = userId?.toLowerCase().trim();
-    if (templateUserId !== requestUserId) {
-      return null;
-    }
+      // Only owner can update
+      if (!isSameUser(template.userId, scope.userId)) {
+        return null;
+      }
 
-    const updatedTemplate: ReportTemplate = {
-      ...template,
-      ...updates,
-      updatedAt: new Date().toISOString(),
-    };
+      const updatedTemplate: ReportTemplate = {
+        ...template,
+        ...updates,
+        // Identity and ownership can't be changed by an update
+        id: template.id,
+        userId: template.userId,
+        createdAt: template.createdAt,
+        updatedAt: new Date().toISOString(),
+      };
 
-    this.saveTemplate(updatedTemplate);
-    return updatedTemplate;
+      this.saveTemplate(scope, updatedTemplate);
+      this.recordVersion(scope, updatedTemplate, 'update');
+      return updatedTemplate;
+    });
   }
 
   /**
    * Delete a template
    * 
    * @param templateId - Template ID
-   * @param userId - User identifier (must be owner)
+   * @param scope - Tenant and user of the request (user must be owner)
    * @returns true if deleted, false if not found/not authorized
    */
-  deleteTemplate(templateId: string, userId: string): boolean {
-    const template = this.templates.get(templateId);
-    
-    if (!template) {
-      return false;
-    }
+  deleteTemplate(templateId: string, scope: TemplateScope): boolean {
+    return this.store.transaction(() => {
+      const template = this.store.getTemplate(scope.tenantId, templateId);
+      
+      if (!template) {
+        return false;
+      }
 
-    // Only owner can delete - use case-insensitive comparison
-    const templateUserId = template.userId?.toLowerCase().trim();
-    const requestUserId = userId?.toLowerCase().trim();
-    if (templateUserId !== requestUserId) {
-      return false;
-    }
+      // Only owner can delete
+      if (!isSameUser(template.userId, scope.userId)) {
+        return false;
+      }
 
-    // Can't delete default template (can only update it)
-    if (template.name === 'Default') {
-      return false;
-    }
+      // Can't delete default template (can only update it)
+      if (template.name === 'Default') {
+        return false;
+      }
 
-    this.templates.delete(templateId);
-    this.saveTemplates();
-    return true;
+      return this.store.deleteTemplate(scope.tenantId, templateId);
+    });
   }
 
   /**
    * Clone a template
    * 
    * @param templateId - Template ID to clone
-   * @param userId - User identifier
+   * @param scope - Tenant and user of the request
    * @param newName - Name for the cloned template
    * @returns Cloned template or null if not found/not accessible
    */
-  cloneTemplate(templateId: string, userId: string, newName: string): ReportTemplate | null {
-    const template = this.getTemplate(templateId, userId);
+  cloneTemplate(templateId: string, scope: TemplateScope, newName: string): ReportTemplate | null {
+    const template = this.getTemplate(templateId, scope);
     
     if (!template) {
       return null;
@@ -282,14 +276,182 @@ export class TemplateService {
       ...template,
       id: randomUUID(),
       name: newName,
-      userId, // Cloned template belongs to the user who cloned it
+      userId: scope.userId, // Cloned template belongs to the user who cloned it
       isShared: false, // Cloned templates are not shared by default
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
 
-    this.saveTemplate(clonedTemplate);
-    return clonedTemplate;
+    return this.store.transaction(() => {
+      this.saveTemplate(scope, clonedTemplate);
+      this.recordVersion(scope, clonedTemplate, 'clone');
+      return clonedTemplate;
+    });
   }
-}
 
+  /**
+   * Import template settings (from a template bundle) as a new template of the user
+   * The template gets a new ID, belongs to the importing user and is not shared.
+   * If the user already has a template with the same name, " (Imported)" is appended,
+   * so that an imported "Default" never replaces the user's default template.
+   * 
+   * @param scope - Tenant and user of the request
+   * @param content - Template settings of the bundle
+   * @returns Imported template
+   */
+  importTemplate(scope: TemplateScope, content: TemplateBundleContent): ReportTemplate {
+    return this.store.transaction(() => {
+      const names = new Set(this.getTemplatesForUser(scope, false).map(t => t.name.toLowerCase()));
+      const baseName = content.name.trim();
+      let name = baseName;
+      for (let attempt = 1; names.has(name.toLowerCase()); attempt++) {
+        name = attempt === 1 ? `${baseName} (Imported)` : `${baseName} (Imported ${attempt})`;
+      }
+
+      return this.createTemplate(scope, {
+        ...content,
+        name,
+        userId: scope.userId,
+        isShared: false,
+      });
+    });
+  }
+
+  /**
+   * Get the template a version history belongs to: the current template,
+   * or the last version of the template if it was deleted (its history is kept)
+   * 
+   * @param templateId - Template ID
+   * @param scope - Tenant and user of the request
+   * @returns Template or null if the tenant has no template or history with this ID
+   */
+  private getHistoryTemplate(templateId: string, scope: TemplateScope): ReportTemplate | null {
+    const template = this.store.getTemplate(scope.tenantId, templateId);
+    if (template) {
+      return template;
+    }
+
+    const [latest] = this.store.getTemplateVersions(scope.tenantId, templateId);
+    return latest ? this.store.getTemplateVersion(scope.tenantId, templateId, latest.version)?.template || null : null;
+  }
+
+  /**
+   * Check that the history of a template can be read: same access rule as the template
+   * (owner or shared), applied to its last version if it was deleted
+   */
+  private canReadHistory(templateId: string, scope: TemplateScope): boolean {
+    const template = this.getHistoryTemplate(templateId, scope);
+    return !!template && (isSameUser(template.userId, scope.userId) || template.isShared);
+  }
+
+  /**
+   * Get the deleted templates of a user, as the last version of each template (newest first)
+   * Their history can still be read and restored
+   * 
+   * @param scope - Tenant and user of the request
+   * @returns Last version of each deleted template owned by the user
+   */
+  getDeletedTemplates(scope: TemplateScope): TemplateVersion[] {
+    return this.store.findDeletedTemplateVersions(scope.tenantId, scope.userId);
+  }
+
+  /**
+   * Get the version history of a template (including a deleted template)
+   * 
+   * @param templateId - Template ID
+   * @param scope - Tenant and user of the request (template must be accessible)
+   * @returns Versions (newest first) or null if the template is not found/not accessible
+   */
+  getTemplateVersions(templateId: string, scope: TemplateScope): TemplateVersionSummary[] | null {
+    if (!this.canReadHistory(templateId, scope)) {
+      return null;
+    }
+    return this.store.getTemplateVersions(scope.tenantId, templateId);
+  }
+
+  /**
+   * Get a version of a template (including a deleted template)
+   * 
+   * @param templateId - Template ID
+   * @param version - Version number
+   * @param scope - Tenant and user of the request (template must be accessible)
+   * @returns Version or null if the template or version is not found/not accessible
+   */
+  getTemplateVersion(templateId: string, version: number, scope: TemplateScope): TemplateVersion | null {
+    if (!this.canReadHistory(templateId, scope)) {
+      return null;
+    }
+    return this.store.getTemplateVersion(scope.tenantId, templateId, version);
+  }
+
+  /**
+   * Compare two versions of a template
+   * 
+   * @param templateId - Template ID
+   * @param fromVersion - Older version number
+   * @param toVersion - Newer version number
+   * @param scope - Tenant and user of the request (template must be accessible)
+   * @returns Changed fields or null if the template or a version is not found/not accessible
+   */
+  diffTemplateVersions(
+    templateId: string,
+    fromVersion: number,
+    toVersion: number,
+    scope: TemplateScope
+  ): TemplateVersionDiff | null {
+    const from = this.getTemplateVersion(templateId, fromVersion, scope);
+    const to = this.getTemplateVersion(templateId, toVersion, scope);
+    if (!from || !to) {
+      return null;
+    }
+
+    const { template: fromTemplate, ...fromSummary } = from;
+    const { template: toTemplate, ...toSummary } = to;
+    return {
+      templateId,
+      from: fromSummary,
+      to: toSummary,
+      changes: diffTemplates(fromTemplate, toTemplate),
+    };
+  }
+
+  /**
+   * Restore a version of a template
+   * The template gets the content of the version; this is recorded as a new version,
+   * so the history itself is never rewritten. A deleted template is created again
+   * with the same ID and owner.
+   * 
+   * @param templateId - Template ID
+   * @param version - Version number to restore
+   * @param scope - Tenant and user of the request (user must be owner)
+   * @returns Restored template or null if the template or version is not found/not authorized
+   */
+  restoreTemplateVersion(templateId: string, version: number, scope: TemplateScope): ReportTemplate | null {
+    return this.store.transaction(() => {
+      const template = this.getHistoryTemplate(templateId, scope);
+      
+      // Only owner can restore
+      if (!template || !isSameUser(template.userId, scope.userId)) {
+        return null;
+      }
+
+      const restored = this.store.getTemplateVersion(scope.tenantId, templateId, version);
+      if (!restored) {
+        return null;
+      }
+
+      const restoredTemplate: ReportTemplate = {
+        ...restored.template,
+        // Identity and ownership are those of the current template (or of its last version if deleted)
+        id: template.id,
+        userId: template.userId,
+        createdAt: template.createdAt,
+        updatedAt: new Date().toISOString(),
+      };
+
+      this.saveTemplate(scope, restoredTemplate);
+      this.recordVersion(scope, restoredTemplate, 'restore', version);
+      return restoredTemplate;
+    });
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Template Store
+ *
+ * Storage abstraction for report templates and their version history.
+ * Templates are partitioned by tenant (see TemplateScope); every read and write
+ * is limited to a single tenant.
+ * The TemplateService implements access rules (owner / shared) on top of a store.
+ */
+
+import { config } from '../config';
+import { ReportTemplate, TemplateVersion, TemplateVersionSummary } from '../types/template';
+import { getSiteTenantId, DEFAULT_TENANT_ID } from '../utils/templateScope';
+import { SqliteTemplateStore } from './sqliteTemplateStore';
+
+/**
+ * Options for listing the templates of a tenant
+ */
+export interface TemplateQuery {
+  /**
+   * Only templates owned by this user (compared case-insensitively)
+   */
+  userId: string;
+
+  /**
+   * Also include templates shared by other users of the tenant
+   */
+  includeShared: boolean;
+}
+
+/**
+ * Template storage backend
+ */
+export interface TemplateStore {
+  /**
+   * Get the templates of a tenant matching a query, newest first
+   */
+  findTemplates(tenantId: string, query: TemplateQuery): ReportTemplate[];
+
+  /**
+   * Get a template of a tenant by ID
+   * @returns Template or null if the tenant has no template with this ID
+   */
+  getTemplate(tenantId: string, templateId: string): ReportTemplate | null;
+
+  /**
+   * Insert or replace a template of a tenant
+   */
+  saveTemplate(tenantId: string, template: ReportTemplate): void;
+
+  /**
+   * Delete a template of a tenant
+   * Its version history is kept (versions are immutable)
+   * @returns true if deleted, false if not found
+   */
+  deleteTemplate(tenantId: string, templateId: string): boolean;
+
+  /**
+   * Append a version to the history of a template
+   * Versions are immutable; the version number is the next one of the template
+   * @returns Stored version
+   */
+  addTemplateVersion(tenantId: string, version: Omit<TemplateVersion, 'version'>): TemplateVersion;
+
+  /**
+   * Get the version history of a template, newest first
+   */
+  getTemplateVersions(tenantId: string, templateId: string): TemplateVersionSummary[];
+
+  /**
+   * Get a version of a template
+   * @returns Version or null if the template has no such version
+   */
+  getTemplateVersion(tenantId: string, templateId: string, version: number): TemplateVersion | null;
+
+  /**
+   * Get the last version of the deleted templates of a tenant owned by a user, newest first
+   * (templates with a version history but no current template)
+   */
+  findDeletedTemplateVersions(tenantId: string, userId: string): TemplateVersion[];
+
+  /**
+   * Run several operations atomically
+   * Writes of the callback are rolled back if it throws
+   */
+  transaction<T>(fn: () => T): T;
+}
+
+let sharedStore: TemplateStore | null = null;
+
+/**
+ * Get the template store of the application
+ *
+ * Opens the SQLite database on first use (config.storage.databasePath). The first time,
+ * templates of the former JSON file storage (data/templates.json) are imported into the
+ * tenant config.storage.legacyTemplatesTenant (defaults to the configured Jira site).
+ */
+export function getTemplateStore(): TemplateStore {
+  if (!sharedStore) {
+    sharedStore = new SqliteTemplateStore(config.storage.databasePath, {
+      legacyTemplatesFile: config.storage.legacyTemplatesFile,
+      legacyTenantId: config.storage.legacyTemplatesTenant
+        || getSiteTenantId(config.jira.baseUrl)
+        || DEFAULT_TENANT_ID,
+    });
+  }
+  return sharedStore;
+}
@@ -1,4 +1,8 @@
-import { JiraIssue } from '../types/jira';
+import { JiraIssue, JiraWorklog } from '../types/jira';
+import { ReportSection, StatusMappingConfig } from '../types/template';
+import { resolveStatusSection } from '../utils/statusMapping';
+import { WeekRange } from '../utils/weekUtils';
+import { TimeFormatOptions, DEFAULT_TIME_FORMAT, secondsToHours, hoursToManDays, formatDuration } from '../utils/timeFormat';
 
 export interface TimesheetEntry {
   issueKey: string;
@@ -8,10 +12,14 @@ export interface TimesheetEntry {
   timespentHours: number;
   timeestimateHours: number;
   remainingHours: number;
-  timespentManDays: number; // in man days (8 hours = 1 day)
+  timespentManDays: number; // in man days (template hours per day, 8 by default)
   timeestimateManDays: number;
   remainingManDays: number;
+  timespentDisplay: string; // formatted with the template time unit (e.g., "2d 4h")
+  timeestimateDisplay: string;
+  remainingDisplay: string;
   status: string;
+  section: ReportSection; // report section resolved from the template status mapping
 }
 
 export interface TimesheetSummary {
@@ -32,39 +40,62 @@ export interface TimesheetSummary {
   parentTimeEstimateManDays: number; // in man days
   parentRemainingHours: number;
   parentRemainingManDays: number; // in man days
+  totalTimeSpentDisplay: string; // formatted with the template time unit
+  totalTimeEstimateDisplay: string;
+  remainingDisplay: string;
+  parentTimeSpentDisplay: string;
+  parentTimeEstimateDisplay: string;
+  parentRemainingDisplay: string;
+  worklog?: WorklogTimesheet; // Time logged per person (worklog timesheet mode only)
 }
 
-export class TimesheetService {
-  private secondsToHours(seconds: number): number {
-    if (!seconds || isNaN(seconds) || seconds === null || seconds === undefined || typeof seconds !== 'number') {
-      return 0;
-    }
-    const hours = Number((seconds / 3600).toFixed(2));
-    return isNaN(hours) ? 0 : hours;
-  }
+export interface WorklogIssueTime {
+  issueKey: string;
+  summary: string;
+  timeSpent: number; // in seconds
+  timeSpentHours: number;
+  timeSpentManDays: number;
+  timeSpentDisplay: string; // formatted with the template time unit
+}
 
-  private hoursToManDays(hours: number): number {
-    if (!hours || isNaN(hours) || hours === null || hours === undefined) {
-      return 0;
-    }
-    // 1 man day = 8 hours
-    return Number((hours / 8).toFixed(2));
-  }
+export interface WorklogAuthorTime {
+  author: string; // display name
+  accountId?: string;
+  timeSpent: number; // in seconds
+  timeSpentHours: number;
+  timeSpentManDays: number;
+  timeSpentDisplay: string;
+  issues: WorklogIssueTime[]; // time of this person on each issue, most time first
+}
 
-  private formatHours(hours: number): string {
-    if (hours === 0) return '0h';
-    const wholeHours = Math.floor(hours);
-    const minutes = Math.round((hours - wholeHours) * 60);
-    if (minutes === 0) return `${wholeHours}h`;
-    return `${wholeHours}h${minutes}m`;
-  }
+export interface WorklogTimesheet {
+  from: string; // first day of the period (YYYY-MM-DD)
+  to: string; // last day of the period (YYYY-MM-DD, inclusive)
+  totalTimeSpent: number; // in seconds
+  totalTimeSpentHours: number;
+  totalTimeSpentManDays: number;
+  totalTimeSpentDisplay: string;
+  authors: WorklogAuthorTime[]; // most time first
+}
 
-  generateTimesheet(parentIssue: JiraIssue, children: JiraIssue[]): TimesheetSummary {
+export class TimesheetService {
+  /**
+   * Generate the timesheet of a report
+   * 
+   * @param parentIssue - Parent ticket, or null for JQL reports (parent totals are then
+   *                      the totals of all reported issues)
+   * @param children - Reported issues
+   * @param statusMapping - Template status mapping (used for each entry's section)
+   * @param timeFormat - Working-day length and display unit (template timesheet settings)
+   * @returns Timesheet summary
+   */
+  generateTimesheet(
+    parentIssue: JiraIssue | null,
+    children: JiraIssue[],
+    statusMapping?: StatusMappingConfig,
+    timeFormat: TimeFormatOptions = DEFAULT_TIME_FORMAT
+  ): TimesheetSummary {
     const entries: TimesheetEntry[] = [];
-    
-    // Process parent issue
-    const parentTimeSpent = parentIssue.fields.aggregatetimespent || parentIssue.fields.timespent || 0;
-    const parentTimeEstimate = parentIssue.fields.aggregatetimeestimate || parentIssue.fields.timeestimate || 0;
 
     // Process children
     let totalTimeSpent = 0;
@@ -77,15 +108,15 @@ export class TimesheetService {
       totalTimeSpent += timespent;
       totalTimeEstimate += timeestimate;
 
-      const timespentHours = this.secondsToHours(timespent);
-      const timeestimateHours = this.secondsToHours(timeestimate);
+      const timespentHours = secondsToHours(timespent);
+      const timeestimateHours = secondsToHours(timeestimate);
       const remainingHours = isNaN(timeestimateHours) || isNaN(timespentHours)
         ? 0
         : (timeestimateHours || 0) - (timespentHours || 0);
 
-      const timespentManDays = this.hoursToManDays(timespentHours);
-      const timeestimateManDays = this.hoursToManDays(timeestimateHours);
-      const remainingManDays = this.hoursToManDays(remainingHours);
+      const timespentManDays = hoursToManDays(timespentHours, timeFormat.hoursPerDay);
+      const timeestimateManDays = hoursToManDays(timeestimateHours, timeFormat.hoursPerDay);
+      const remainingManDays = hoursToManDays(remainingHours, timeFormat.hoursPerDay);
 
       entries.push({
         issueKey: issue.key,
@@ -98,29 +129,171 @@ export class TimesheetService {
         timespentManDays: isNaN(timespentManDays) ? 0 : timespentManDays,
         timeestimateManDays: isNaN(timeestimateManDays) ? 0 : timeestimateManDays,
         remainingManDays: isNaN(remainingManDays) ? 0 : remainingManDays,
+        timespentDisplay: formatDuration(timespent, timeFormat),
+        timeestimateDisplay: formatDuration(timeestimate, timeFormat),
+        remainingDisplay: formatDuration(timeestimate - timespent, timeFormat),
         status: issue.fields.status.name,
+        section: resolveStatusSection(issue.fields.status, statusMapping),
+      });
+    });
+
+    // Process parent issue (aggregate fields include the time of its children)
+    const parentTimeSpent = parentIssue
+      ? parentIssue.fields.aggregatetimespent || parentIssue.fields.timespent || 0
+      : totalTimeSpent;
+    const parentTimeEstimate = parentIssue
+      ? parentIssue.fields.aggregatetimeestimate || parentIssue.fields.timeestimate || 0
+      : totalTimeEstimate;
+
+    return this.buildSummary(entries, totalTimeSpent, totalTimeEstimate, parentTimeSpent, parentTimeEstimate, timeFormat);
+  }
+
+  /**
+   * Generate the timesheet of several parent tickets (portfolio report)
+   * 
+   * Parent totals are the parents' own time plus the time of the children, instead of the sum of
+   * the parents' aggregate fields: a child shared by several parents, or a parent listed under
+   * another parent, is only counted once.
+   * 
+   * @param parents - Parent tickets
+   * @param children - Children of all parents, without duplicates (nor parents)
+   * @param statusMapping - Template status mapping (used for each entry's section)
+   * @param timeFormat - Working-day length and display unit (template timesheet settings)
+   * @returns Single timesheet covering all parents
+   */
+  generatePortfolioTimesheet(
+    parents: JiraIssue[],
+    children: JiraIssue[],
+    statusMapping?: StatusMappingConfig,
+    timeFormat: TimeFormatOptions = DEFAULT_TIME_FORMAT
+  ): TimesheetSummary {
+    const timesheet = this.generateTimesheet(null, children, statusMapping, timeFormat);
+    const parentTimeSpent = parents.reduce((sum, parent) => sum + (parent.fields.timespent || 0), timesheet.totalTimeSpent);
+    const parentTimeEstimate = parents.reduce((sum, parent) => sum + (parent.fields.timeestimate || 0), timesheet.totalTimeEstimate);
+
+    return this.buildSummary(timesheet.entries, timesheet.totalTimeSpent, timesheet.totalTimeEstimate, parentTimeSpent, parentTimeEstimate, timeFormat);
+  }
+
+  /**
+   * Break down the time logged during a period per person and per issue
+   * 
+   * Only worklogs started within the period are counted.
+   * 
+   * @param issues - Reported issues
+   * @param worklogsByIssue - Worklogs of each issue, by issue key
+   * @param range - Period (start inclusive, end exclusive)
+   * @param timeFormat - Working-day length and display unit (template timesheet settings)
+   * @returns Worklog timesheet, people and issues sorted by most time logged
+   */
+  generateWorklogTimesheet(
+    issues: JiraIssue[],
+    worklogsByIssue: Map<string, JiraWorklog[]>,
+    range: WeekRange,
+    timeFormat: TimeFormatOptions = DEFAULT_TIME_FORMAT
+  ): WorklogTimesheet {
+    const authors = new Map<string, { author: string; accountId?: string; issues: Map<string, number> }>();
+    let totalTimeSpent = 0;
+
+    issues.forEach(issue => {
+      (worklogsByIssue.get(issue.key) || []).forEach(worklog => {
+        const started = new Date(worklog.started);
+        if (isNaN(started.getTime()) || started < range.start || started >= range.end) {
+          return;
+        }
+        const timeSpent = worklog.timeSpentSeconds || 0;
+        const authorKey = worklog.author?.accountId || worklog.author?.displayName || 'unknown';
+        if (!authors.has(authorKey)) {
+          authors.set(authorKey, {
+            author: worklog.author?.displayName || 'Unknown',
+            accountId: worklog.author?.accountId,
+            issues: new Map<string, number>(),
+          });
+        }
+        const authorIssues = authors.get(authorKey)!.issues;
+        authorIssues.set(issue.key, (authorIssues.get(issue.key) || 0) + timeSpent);
+        totalTimeSpent += timeSpent;
       });
     });
 
-    const totalTimeSpentHours = this.secondsToHours(totalTimeSpent);
-    const totalTimeEstimateHours = this.secondsToHours(totalTimeEstimate);
+    const summaries = new Map(issues.map(issue => [issue.key, issue.fields.summary]));
+    const authorTimes: WorklogAuthorTime[] = Array.from(authors.values()).map(author => {
+      const issueTimes: WorklogIssueTime[] = Array.from(author.issues.entries())
+        .map(([issueKey, timeSpent]) => ({
+          issueKey,
+          summary: summaries.get(issueKey) || '',
+          timeSpent,
+          timeSpentHours: secondsToHours(timeSpent),
+          timeSpentManDays: hoursToManDays(secondsToHours(timeSpent), timeFormat.hoursPerDay),
+          timeSpentDisplay: formatDuration(timeSpent, timeFormat),
+        }))
+        .sort((a, b) => b.timeSpent - a.timeSpent);
+      const timeSpent = issueTimes.reduce((sum, issueTime) => sum + issueTime.timeSpent, 0);
+      return {
+        author: author.author,
+        accountId: author.accountId,
+        timeSpent,
+        timeSpentHours: secondsToHours(timeSpent),
+        timeSpentManDays: hoursToManDays(secondsToHours(timeSpent), timeFormat.hoursPerDay),
+        timeSpentDisplay: formatDuration(timeSpent, timeFormat),
+        issues: issueTimes,
+      };
+    });
+    authorTimes.sort((a, b) => b.timeSpent - a.timeSpent || a.author.localeCompare(b.author));
+
+    // The period end is exclusive, the displayed "to" date is the last day included
+    const lastDay = new Date(range.end);
+    lastDay.setDate(lastDay.getDate() - 1);
+
+    return {
+      from: this.formatDate(range.start),
+      to: this.formatDate(lastDay),
+      totalTimeSpent,
+      totalTimeSpentHours: secondsToHours(totalTimeSpent),
+      totalTimeSpentManDays: hoursToManDays(secondsToHours(totalTimeSpent), timeFormat.hoursPerDay),
+      totalTimeSpentDisplay: formatDuration(totalTimeSpent, timeFormat),
+      authors: authorTimes,
+    };
+  }
+
+  /**
+   * Format a date as YYYY-MM-DD (local time)
+   */
+  private formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Build a timesheet summary from entries and raw totals (in seconds)
+   */
+  private buildSummary(
+    entries: TimesheetEntry[],
+    totalTimeSpent: number,
+    totalTimeEstimate: number,
+    parentTimeSpent: number,
+    parentTimeEstimate: number,
+    timeFormat: TimeFormatOptions
+  ): TimesheetSummary {
+    const totalTimeSpentHours = secondsToHours(totalTimeSpent);
+    const totalTimeEstimateHours = secondsToHours(totalTimeEstimate);
     const remainingHours = isNaN(totalTimeEstimateHours) || isNaN(totalTimeSpentHours)
       ? 0
       : (totalTimeEstimateHours || 0) - (totalTimeSpentHours || 0);
 
-    const parentTimeSpentHours = this.secondsToHours(parentTimeSpent);
-    const parentTimeEstimateHours = this.secondsToHours(parentTimeEstimate);
+    const parentTimeSpentHours = secondsToHours(parentTimeSpent);
+    const parentTimeEstimateHours = secondsToHours(parentTimeEstimate);
     const parentRemainingHours = isNaN(parentTimeEstimateHours) || isNaN(parentTimeSpentHours)
       ? 0
       : (parentTimeEstimateHours || 0) - (parentTimeSpentHours || 0);
 
-    // Convert to man days (8 hours = 1 day)
-    const totalTimeSpentManDays = this.hoursToManDays(totalTimeSpentHours);
-    const totalTimeEstimateManDays = this.hoursToManDays(totalTimeEstimateHours);
-    const remainingManDays = this.hoursToManDays(remainingHours);
-    const parentTimeSpentManDays = this.hoursToManDays(parentTimeSpentHours);
-    const parentTimeEstimateManDays = this.hoursToManDays(parentTimeEstimateHours);
-    const parentRemainingManDays = this.hoursToManDays(parentRemainingHours);
+    // Convert to man days (template hours per day)
+    const totalTimeSpentManDays = hoursToManDays(totalTimeSpentHours, timeFormat.hoursPerDay);
+    const totalTimeEstimateManDays = hoursToManDays(totalTimeEstimateHours, timeFormat.hoursPerDay);
+    const remainingManDays = hoursToManDays(remainingHours, timeFormat.hoursPerDay);
+    const parentTimeSpentManDays = hoursToManDays(parentTimeSpentHours, timeFormat.hoursPerDay);
+    const parentTimeEstimateManDays = hoursToManDays(parentTimeEstimateHours, timeFormat.hoursPerDay);
+    const parentRemainingManDays = hoursToManDays(parentRemainingHours, timeFormat.hoursPerDay);
 
     return {
       totalTimeSpent,
@@ -140,13 +313,12 @@ export class TimesheetService {
       parentTimeEstimateManDays: isNaN(parentTimeEstimateManDays) ? 0 : parentTimeEstimateManDays,
       parentRemainingHours: isNaN(parentRemainingHours) ? 0 : parentRemainingHours,
       parentRemainingManDays: isNaN(parentRemainingManDays) ? 0 : parentRemainingManDays,
+      totalTimeSpentDisplay: formatDuration(totalTimeSpent, timeFormat),
+      totalTimeEstimateDisplay: formatDuration(totalTimeEstimate, timeFormat),
+      remainingDisplay: formatDuration(totalTimeEstimate - totalTimeSpent, timeFormat),
+      parentTimeSpentDisplay: formatDuration(parentTimeSpent, timeFormat),
+      parentTimeEstimateDisplay: formatDuration(parentTimeEstimate, timeFormat),
+      parentRemainingDisplay: formatDuration(parentTimeEstimate - parentTimeSpent, timeFormat),
     };
   }
-
-  formatDuration(seconds: number): string {
-    if (!seconds) return '0h';
-    const hours = this.secondsToHours(seconds);
-    return this.formatHours(hours);
-  }
 }
-
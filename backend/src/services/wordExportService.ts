@@ -1,7 +1,7 @@
 import { Document, Packer, Paragraph, Table, TableCell, TableRow, TextRun, WidthType, AlignmentType, HeadingLevel, Spacing, BorderStyle, ShadingType, TableCellBorders, VerticalAlign, PageOrientation } from 'docx';
-import { ReportRow } from './reportService';
+import { ReportRow, ReportColumn, ReportGroupLevel, getReportCellValue, isBucketColumn, buildReportTableLines, getSubtotalCellValue } from './reportService';
 import { JiraIssue } from '../types/jira';
-import { TimesheetSummary } from './timesheetService';
+import { TimesheetSummary, WorklogTimesheet } from './timesheetService';
 import { getWeekNumbers } from '../utils/weekUtils';
 import { extractIssueFields } from '../utils/jiraFieldUtils';
 
@@ -118,83 +118,96 @@ const createBulletListCell = (items: string[], isEven: boolean = false): TableCe
   });
 };
 
+// Helper to create the sub-header cell of a group, spanning the report columns (indented by level)
+const createGroupHeaderCell = (text: string, columnSpan: number, level: number): TableCell => {
+  return new TableCell({
+    children: [new Paragraph({
+      children: [new TextRun({ text, bold: true, color: "0052CC" })],
+      indent: { left: level * 360 },
+      spacing: { before: 120, after: 120 },
+    })],
+    columnSpan,
+    margins: {
+      top: 113,
+      bottom: 113,
+      left: 227,
+      right: 227,
+    },
+    shading: {
+      type: ShadingType.SOLID,
+      color: "F4F8FF",
+    },
+    borders: createTableBorders(),
+  });
+};
+
+// Helper to create a subtotal cell (bold, light blue)
+const createSubtotalCell = (text: string): TableCell => {
+  return new TableCell({
+    children: [new Paragraph({
+      children: [new TextRun({ text, bold: true, color: "172B4D" })],
+      spacing: { before: 120, after: 120 },
+    })],
+    margins: {
+      top: 113,
+      bottom: 113,
+      left: 227,
+      right: 227,
+    },
+    shading: {
+      type: ShadingType.SOLID,
+      color: "DEEBFF",
+    },
+    borders: createTableBorders(),
+  });
+};
+
 export class WordExportService {
-  private formatManDays(manDays: number | undefined | null): string {
-    const validManDays = manDays ?? 0;
-    if (isNaN(validManDays) || validManDays === null || validManDays === undefined) {
-      return '0d';
-    }
-    if (validManDays === 0) return '0d';
-    
-    const isNegative = validManDays < 0;
-    const absManDays = Math.abs(validManDays);
-    
-    // For values less than 1 day (absolute), show as hours
-    if (absManDays < 1) {
-      const hours = Math.round(absManDays * 8);
-      return `${isNegative ? '-' : ''}${hours}h`;
-    }
-    
-    // Calculate whole days and remaining hours
-    const wholeDays = Math.floor(absManDays);
-    const remainingDays = absManDays - wholeDays;
-    const hours = Math.round(remainingDays * 8);
-    
-    // Format: days and hours if there are hours
-    if (hours === 0) {
-      return `${isNegative ? '-' : ''}${wholeDays}d`;
-    }
-    return `${isNegative ? '-' : ''}${wholeDays}d ${hours}h`;
+  async generateDocument(reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[], issue: JiraIssue, timesheet: TimesheetSummary, referenceDate?: Date): Promise<Buffer> {
+    return this.buildDocument(reportRows, columns, groupLevels, [issue], timesheet, referenceDate);
   }
 
-  async generateDocument(reportRows: ReportRow[], issue: JiraIssue, timesheet: TimesheetSummary): Promise<Buffer> {
-    const weekNumbers = getWeekNumbers();
-    const additionalFields = extractIssueFields(issue);
-    
-    const tableRows: TableRow[] = [
-      // Header row
-      new TableRow({
+  /**
+   * Generate one document for several parent tickets (portfolio report)
+   * Report rows are expected to be tagged with their parentKey
+   */
+  async generatePortfolioDocument(reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[], parents: JiraIssue[], timesheet: TimesheetSummary, referenceDate?: Date): Promise<Buffer> {
+    return this.buildDocument(reportRows, columns, groupLevels, parents, timesheet, referenceDate);
+  }
+
+  /**
+   * Generate a document for a JQL report (no parent ticket)
+   */
+  async generateJqlDocument(reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[], jql: string, timesheet: TimesheetSummary, referenceDate?: Date): Promise<Buffer> {
+    return this.buildDocument(reportRows, columns, groupLevels, [], timesheet, referenceDate, jql);
+  }
+
+  /**
+   * Build the query details of a JQL report (query and number of matching issues)
+   */
+  private buildQueryDetails(jql: string, issueCount: number): Paragraph[] {
+    return [
+      new Paragraph({
         children: [
-          createHeaderCell('Category', 20),
-          createHeaderCell('Initiative', 20),
-          createHeaderCell(`Last week (Week ${weekNumbers.lastWeek})`, 15),
-          createHeaderCell(`Current Week (Week ${weekNumbers.currentWeek})`, 15),
-          createHeaderCell(`Next Week (Week ${weekNumbers.nextWeek})`, 15),
-          createHeaderCell('Later', 15),
+          new TextRun({ text: 'JQL: ', bold: true, size: 24, color: "172B4D" }),
+          new TextRun({ text: jql, size: 24, color: "0052CC", font: "Courier New" }),
         ],
+        spacing: { after: 100 },
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({ text: `Issues: ${issueCount}`, size: 24, color: "172B4D" }),
+        ],
+        spacing: { after: 100 },
       }),
     ];
+  }
 
-    // Data rows with alternating colors and bullet points
-    reportRows.forEach((row, index) => {
-      const isEven = index % 2 === 0;
-      tableRows.push(
-        new TableRow({
-          children: [
-            createDataCell(row.category, isEven),
-            createDataCell(row.initiative, isEven),
-            createBulletListCell(row.lastWeek, isEven),
-            createBulletListCell(row.currentWeek, isEven),
-            createBulletListCell(row.nextWeek, isEven),
-            createBulletListCell(row.later, isEven),
-          ],
-        })
-      );
-    });
-
-    const table = new Table({
-      rows: tableRows,
-      width: { size: 100, type: WidthType.PERCENTAGE },
-      borders: {
-        top: { style: BorderStyle.SINGLE, size: 4, color: "DDDDDD" },
-        bottom: { style: BorderStyle.SINGLE, size: 4, color: "DDDDDD" },
-        left: { style: BorderStyle.SINGLE, size: 4, color: "DDDDDD" },
-        right: { style: BorderStyle.SINGLE, size: 4, color: "DDDDDD" },
-        insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: "DDDDDD" },
-        insideVertical: { style: BorderStyle.SINGLE, size: 1, color: "DDDDDD" },
-      },
-    });
-
+  /**
+   * Build the parent ticket details (key, summary and details table)
+   */
+  private buildParentDetails(issue: JiraIssue): Array<Paragraph | Table> {
+    const additionalFields = extractIssueFields(issue);
     const issueKey = issue.key;
     const issueSummary = issue.fields.summary;
     const issueStatus = issue.fields.status.name;
@@ -256,6 +269,147 @@ export class WordExportService {
       detailsRows.push(createDetailRow('Labels:', issueLabels.join(', '), rowIndex % 2 === 0));
     }
 
+    return [
+      // Issue Key and Summary
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: `Ticket: `,
+            bold: true,
+            size: 28,
+            color: "172B4D", // Dark like web page
+          }),
+          new TextRun({
+            text: issueKey,
+            bold: true,
+            size: 28,
+            color: "0052CC", // Blue like web page
+          }),
+        ],
+        spacing: { after: 100 },
+      }),
+      
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: `Summary: ${issueSummary}`,
+            size: 24,
+            color: "172B4D", // Dark like web page
+          }),
+        ],
+        spacing: { after: 100 },
+      }),
+      
+      // Issue Details Table
+      new Table({
+        rows: detailsRows,
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        borders: {
+          top: { style: BorderStyle.SINGLE, size: 4, color: "0052CC" }, // Blue borders
+          bottom: { style: BorderStyle.SINGLE, size: 4, color: "0052CC" },
+          left: { style: BorderStyle.SINGLE, size: 4, color: "0052CC" },
+          right: { style: BorderStyle.SINGLE, size: 4, color: "0052CC" },
+          insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: "0052CC" },
+          insideVertical: { style: BorderStyle.SINGLE, size: 1, color: "0052CC" },
+        },
+      }),
+    ];
+  }
+
+  /**
+   * Build the report document
+   * Parents are the parent ticket(s) of the report, empty for JQL reports (jql is then required)
+   * The report table shows the template columns (see getReportColumns),
+   * with the sub-headers and subtotals of the grouping levels (see buildReportTableLines)
+   */
+  private async buildDocument(reportRows: ReportRow[], columns: ReportColumn[], groupLevels: ReportGroupLevel[], parents: JiraIssue[], timesheet: TimesheetSummary, referenceDate?: Date, jql?: string): Promise<Buffer> {
+    const weekNumbers = getWeekNumbers(referenceDate);
+    
+    // Portfolio reports get a "Parent" column and one details block per parent ticket
+    const isPortfolio = parents.length > 1;
+    
+    // Bucket columns (issue lists) are 3/4 as wide as text columns (Parent, Category, Initiative, fields)
+    const columnWeights = [
+      ...(isPortfolio ? [4] : []),
+      ...columns.map(column => (isBucketColumn(column) ? 3 : 4)),
+    ];
+    const totalWeight = columnWeights.reduce((sum, weight) => sum + weight, 0);
+    const columnWidths = columnWeights.map(weight => (weight / totalWeight) * 100);
+    const columnOffset = isPortfolio ? 1 : 0;
+    
+    const tableRows: TableRow[] = [
+      // Header row
+      new TableRow({
+        children: [
+          ...(isPortfolio ? [createHeaderCell('Parent', columnWidths[0])] : []),
+          ...columns.map((column, index) => createHeaderCell(column.label, columnWidths[index + columnOffset])),
+        ],
+      }),
+    ];
+
+    // Data rows with alternating colors and bullet points, between the group sub-headers and subtotals
+    buildReportTableLines(reportRows, groupLevels).forEach(line => {
+      if (line.type === 'header') {
+        tableRows.push(
+          new TableRow({
+            children: [
+              ...(isPortfolio ? [createDataCell(line.parentKey || '-', false, true)] : []),
+              createGroupHeaderCell(line.text, columns.length, line.level),
+            ],
+          })
+        );
+        return;
+      }
+
+      if (line.type === 'subtotal') {
+        tableRows.push(
+          new TableRow({
+            children: [
+              ...(isPortfolio ? [createSubtotalCell(line.parentKey || '-')] : []),
+              ...columns.map((column, index) => createSubtotalCell(getSubtotalCellValue(line, column, index))),
+            ],
+          })
+        );
+        return;
+      }
+
+      const { row } = line;
+      const isEven = line.index % 2 === 0;
+      tableRows.push(
+        new TableRow({
+          children: [
+            ...(isPortfolio ? [createDataCell(row.parentKey || '-', isEven, true)] : []),
+            ...columns.map(column => {
+              const value = getReportCellValue(row, column);
+              return Array.isArray(value) ? createBulletListCell(value, isEven) : createDataCell(value || '-', isEven);
+            }),
+          ],
+        })
+      );
+    });
+
+    const table = new Table({
+      rows: tableRows,
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      borders: {
+        top: { style: BorderStyle.SINGLE, size: 4, color: "DDDDDD" },
+        bottom: { style: BorderStyle.SINGLE, size: 4, color: "DDDDDD" },
+        left: { style: BorderStyle.SINGLE, size: 4, color: "DDDDDD" },
+        right: { style: BorderStyle.SINGLE, size: 4, color: "DDDDDD" },
+        insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: "DDDDDD" },
+        insideVertical: { style: BorderStyle.SINGLE, size: 1, color: "DDDDDD" },
+      },
+    });
+
+    const isJql = parents.length === 0;
+    const parentKeys = isJql ? 'JQL' : parents.map(parent => parent.key).join(', ');
+    const parentSummary = isJql
+      ? 'All matching issues'
+      : isPortfolio
+        ? `Portfolio of ${parents.length} tickets`
+        : parents[0].fields.summary;
+    const parentHeader = isJql ? 'Report Query' : isPortfolio ? 'Parent Tickets' : 'Parent Ticket';
+
     const doc = new Document({
       sections: [
         {
@@ -285,7 +439,7 @@ export class WordExportService {
             new Paragraph({
               children: [
                 new TextRun({
-                  text: 'Parent Ticket Information',
+                  text: `${parentHeader} Information`,
                   bold: true,
                   color: "0052CC", // Blue like web page
                   size: 28,
@@ -294,49 +448,12 @@ export class WordExportService {
               spacing: { before: 200, after: 200 },
             }),
             
-            // Issue Key and Summary
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: `Ticket: `,
-                  bold: true,
-                  size: 28,
-                  color: "172B4D", // Dark like web page
-                }),
-                new TextRun({
-                  text: issueKey,
-                  bold: true,
-                  size: 28,
-                  color: "0052CC", // Blue like web page
-                }),
-              ],
-              spacing: { after: 100 },
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: `Summary: ${issueSummary}`,
-                  size: 24,
-                  color: "172B4D", // Dark like web page
-                }),
-              ],
-              spacing: { after: 100 },
-            }),
-            
-            // Issue Details Table
-            new Table({
-              rows: detailsRows,
-              width: { size: 100, type: WidthType.PERCENTAGE },
-              borders: {
-                top: { style: BorderStyle.SINGLE, size: 4, color: "0052CC" }, // Blue borders
-                bottom: { style: BorderStyle.SINGLE, size: 4, color: "0052CC" },
-                left: { style: BorderStyle.SINGLE, size: 4, color: "0052CC" },
-                right: { style: BorderStyle.SINGLE, size: 4, color: "0052CC" },
-                insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: "0052CC" },
-                insideVertical: { style: BorderStyle.SINGLE, size: 1, color: "0052CC" },
-              },
-            }),
+            // Key, summary and details of each parent ticket (or the query of a JQL report)
+            ...(isJql ? this.buildQueryDetails(jql || '', timesheet.entries.length) : []),
+            ...parents.flatMap((parent, index) => [
+              ...(index > 0 ? [new Paragraph({ text: '', spacing: { after: 200 } })] : []),
+              ...this.buildParentDetails(parent),
+            ]),
             
             new Paragraph({ text: '', spacing: { after: 400 } }),
             
@@ -344,7 +461,7 @@ export class WordExportService {
             new Paragraph({
               children: [
                 new TextRun({
-                  text: 'Weekly Report',
+                  text: `Weekly Report - Week ${weekNumbers.currentWeek}, ${weekNumbers.year}`,
                   bold: true,
                   color: "172B4D", // Dark like web page
                   size: 28,
@@ -390,7 +507,7 @@ export class WordExportService {
               rows: [
                 new TableRow({
                   children: [
-                    createHeaderCell('Parent Ticket', 40),
+                    createHeaderCell(parentHeader, 40),
                     createHeaderCell('Time Spent', 20),
                     createHeaderCell('Estimate', 20),
                     createHeaderCell('Remaining Time', 20),
@@ -401,19 +518,19 @@ export class WordExportService {
                     createDataCell([
                       new Paragraph({
                         children: [
-                          new TextRun({ text: issueKey, color: "0052CC", bold: true, font: "Courier New" }),
-                          new TextRun({ text: `: ${issueSummary}`, color: "172B4D" }),
+                          new TextRun({ text: parentKeys, color: "0052CC", bold: true, font: "Courier New" }),
+                          new TextRun({ text: `: ${parentSummary}`, color: "172B4D" }),
                         ],
                         spacing: { before: 200, after: 200 },
                       }),
                     ], false),
-                    createDataCell(`${this.formatManDays(timesheet.parentTimeSpentManDays)}`, false),
-                    createDataCell(`${this.formatManDays(timesheet.parentTimeEstimateManDays)}`, false),
+                    createDataCell(timesheet.parentTimeSpentDisplay, false),
+                    createDataCell(timesheet.parentTimeEstimateDisplay, false),
                     createDataCell([
                       new Paragraph({
                         children: [
                           new TextRun({ 
-                            text: this.formatManDays(timesheet.parentRemainingManDays ?? 0), 
+                            text: timesheet.parentRemainingDisplay, 
                             color: (timesheet.parentRemainingManDays ?? 0) >= 0 ? "006644" : "FF991F",
                             bold: true,
                           }),
@@ -470,13 +587,13 @@ export class WordExportService {
                       children: [
                         createDataCell(entry.issueKey, index % 2 === 0, true), // Blue ticket key
                         createDataCell(entry.summary, index % 2 === 0),
-                        createDataCell(this.formatManDays(entry.timespentManDays), index % 2 === 0),
-                        createDataCell(this.formatManDays(entry.timeestimateManDays), index % 2 === 0),
+                        createDataCell(entry.timespentDisplay, index % 2 === 0),
+                        createDataCell(entry.timeestimateDisplay, index % 2 === 0),
                         createDataCell([
                           new Paragraph({
                             children: [
                               new TextRun({ 
-                                text: this.formatManDays(entry.remainingManDays ?? 0), 
+                                text: entry.remainingDisplay, 
                                 color: (entry.remainingManDays ?? 0) >= 0 ? "006644" : "FF991F",
                                 bold: true,
                               }),
@@ -500,6 +617,9 @@ export class WordExportService {
                 },
               }),
             ] : []),
+
+            // Time logged per person (worklog timesheet mode)
+            ...(timesheet.worklog ? this.buildWorklogSection(timesheet.worklog) : []),
           ],
         },
       ],
@@ -507,5 +627,110 @@ export class WordExportService {
 
     return await Packer.toBuffer(doc);
   }
+
+  /**
+   * Build the "Time Logged by Person" section of a worklog timesheet
+   * One row per person with their total, followed by one row per ticket they logged time on
+   */
+  private buildWorklogSection(worklog: WorklogTimesheet): Array<Paragraph | Table> {
+    const title = new Paragraph({
+      children: [
+        new TextRun({ 
+          text: `Time Logged by Person (${worklog.from} to ${worklog.to})`, 
+          bold: true, 
+          size: 22,
+          color: "172B4D",
+        }),
+      ],
+      spacing: { before: 400, after: 100 },
+    });
+
+    if (worklog.authors.length === 0) {
+      return [
+        title,
+        new Paragraph({
+          children: [new TextRun({ text: 'No time logged during this period.', italics: true, color: "6B778C" })],
+        }),
+      ];
+    }
+
+    const rows: TableRow[] = [
+      new TableRow({
+        children: [
+          createHeaderCell('Person', 24),
+          createHeaderCell('Ticket', 14),
+          createHeaderCell('Summary', 46),
+          createHeaderCell('Time Logged', 16),
+        ],
+      }),
+    ];
+
+    worklog.authors.forEach((author, index) => {
+      const isEven = index % 2 === 0;
+      rows.push(new TableRow({
+        children: [
+          createDataCell([
+            new Paragraph({
+              children: [new TextRun({ text: author.author, bold: true, color: "172B4D" })],
+              spacing: { before: 200, after: 200 },
+            }),
+          ], isEven),
+          createDataCell('', isEven),
+          createDataCell(`${author.issues.length} ticket${author.issues.length > 1 ? 's' : ''}`, isEven),
+          createDataCell([
+            new Paragraph({
+              children: [new TextRun({ text: author.timeSpentDisplay, bold: true, color: "0052CC" })],
+              spacing: { before: 200, after: 200 },
+            }),
+          ], isEven),
+        ],
+      }));
+      author.issues.forEach(issueTime => {
+        rows.push(new TableRow({
+          children: [
+            createDataCell('', isEven),
+            createDataCell(issueTime.issueKey, isEven, true),
+            createDataCell(issueTime.summary, isEven),
+            createDataCell(issueTime.timeSpentDisplay, isEven),
+          ],
+        }));
+      });
+    });
+
+    rows.push(new TableRow({
+      children: [
+        createDataCell([
+          new Paragraph({
+            children: [new TextRun({ text: 'Total', bold: true, color: "172B4D" })],
+            spacing: { before: 200, after: 200 },
+          }),
+        ], false),
+        createDataCell('', false),
+        createDataCell('', false),
+        createDataCell([
+          new Paragraph({
+            children: [new TextRun({ text: worklog.totalTimeSpentDisplay, bold: true, color: "0052CC" })],
+            spacing: { before: 200, after: 200 },
+          }),
+        ], false),
+      ],
+    }));
+
+    return [
+      title,
+      new Table({
+        rows,
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        borders: {
+          top: { style: BorderStyle.SINGLE, size: 4, color: "0052CC" },
+          bottom: { style: BorderStyle.SINGLE, size: 4, color: "0052CC" },
+          left: { style: BorderStyle.SINGLE, size: 4, color: "0052CC" },
+          right: { style: BorderStyle.SINGLE, size: 4, color: "0052CC" },
+          insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: "0052CC" },
+          insideVertical: { style: BorderStyle.SINGLE, size: 1, color: "0052CC" },
+        },
+      }),
+    ];
+  }
 }
 
@@ -0,0 +1,48 @@
+/**
+ * Worklog Service
+ *
+ * Gathers the worklogs of the reported issues for worklog-based timesheets.
+ * Worklogs embedded in search results are used when complete; issues with more
+ * worklogs than embedded (or fetched without the worklog field) are fetched one by one.
+ */
+
+import { JiraClient } from './jiraClient';
+import { ConnectJiraClient } from './connectJiraClient';
+import { TimesheetService, WorklogTimesheet } from './timesheetService';
+import { JiraIssue, JiraWorklog } from '../types/jira';
+import { WeekRange } from '../utils/weekUtils';
+import { TimeFormatOptions, DEFAULT_TIME_FORMAT } from '../utils/timeFormat';
+
+export class WorklogService {
+  private timesheetService = new TimesheetService();
+
+  /**
+   * Generate the worklog timesheet of a report
+   *
+   * @param jiraClient - Jira client (Connect or legacy)
+   * @param issues - Reported issues
+   * @param range - Period (start inclusive, end exclusive)
+   * @param timeFormat - Working-day length and display unit (template timesheet settings)
+   * @returns Time logged during the period per person and per issue
+   */
+  async generateWorklogTimesheet(
+    jiraClient: JiraClient | ConnectJiraClient,
+    issues: JiraIssue[],
+    range: WeekRange,
+    timeFormat: TimeFormatOptions = DEFAULT_TIME_FORMAT
+  ): Promise<WorklogTimesheet> {
+    const worklogsByIssue = new Map<string, JiraWorklog[]>();
+
+    // Missing worklogs are fetched one issue after the other to stay well below Jira rate limits
+    for (const issue of issues) {
+      const embedded = issue.fields.worklog;
+      if (embedded && embedded.worklogs.length >= embedded.total) {
+        worklogsByIssue.set(issue.key, embedded.worklogs);
+      } else {
+        worklogsByIssue.set(issue.key, await jiraClient.getIssueWorklogs(issue.key, range.start, range.end));
+      }
+    }
+
+    return this.timesheetService.generateWorklogTimesheet(issues, worklogsByIssue, range, timeFormat);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Connect Installation Types
+ *
+ * Data Jira sends to the /lifecycle/installed endpoint when the Connect app is installed,
+ * stored per installation (tenant) so that JWT tokens can be verified against the right secret.
+ */
+
+/**
+ * Stored installation of the Connect app in a Jira instance
+ */
+export interface ConnectInstallation {
+  clientKey: string;        // Unique identifier of the installation (the "iss" claim of incoming JWTs)
+  baseUrl: string;          // URL of the Jira instance
+  sharedSecret: string;     // Secret used to verify (and sign) JWT tokens of this installation
+  key?: string;             // App key from atlassian-connect.json
+  displayUrl?: string;      // Display URL of the Jira instance (if different from baseUrl)
+  oauthClientId?: string;   // OAuth client ID (if using OAuth)
+  publicKey?: string;       // Public key of the Jira instance
+  installedAt: string;      // ISO date string of the first installation
+  updatedAt: string;        // ISO date string of the last (re)installation
+}
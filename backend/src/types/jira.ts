@@ -1,3 +1,43 @@
+/**
+ * A single changelog entry (one edit, possibly changing several fields)
+ */
+export interface JiraChangelogHistory {
+  id: string;
+  created: string; // ISO datetime of the change
+  items: Array<{
+    field: string;       // e.g. "status"
+    from?: string | null;
+    fromString?: string | null;
+    to?: string | null;  // e.g. target status ID
+    toString?: string | null; // e.g. target status name
+  }>;
+}
+
+/**
+ * A single worklog entry (time logged by a user on an issue)
+ */
+export interface JiraWorklog {
+  id?: string;
+  timeSpentSeconds: number;
+  started: string; // ISO datetime the work started
+  author: {
+    accountId?: string;
+    displayName: string;
+    emailAddress?: string;
+  };
+  comment?: any; // Plain text (API v2) or Atlassian Document Format (API v3)
+}
+
+/**
+ * Page of worklogs returned by /issue/{key}/worklog
+ */
+export interface JiraWorklogResponse {
+  startAt: number;
+  maxResults: number;
+  total: number;
+  worklogs: JiraWorklog[];
+}
+
 export interface JiraIssue {
   id: string;
   key: string;
@@ -20,9 +60,14 @@ export interface JiraIssue {
   names?: {
     [key: string]: string; // Maps field IDs to field names (e.g., "customfield_10020": "Start Date")
   };
+  depth?: number; // Hierarchy level below the report's parent issue (1 = direct child)
+  changelog?: {
+    histories: JiraChangelogHistory[]; // Only present when requested with expand=changelog
+  };
   fields: {
     summary: string;
     status: {
+      id?: string;
       name: string;
       statusCategory: {
         key: string;
@@ -46,15 +91,7 @@ export interface JiraIssue {
     worklog?: {
       maxResults: number;
       total: number;
-      worklogs: Array<{
-        timeSpentSeconds: number;
-        started: string;
-        author: {
-          displayName: string;
-          emailAddress: string;
-        };
-        comment?: string;
-      }>;
+      worklogs: JiraWorklog[]; // Search results only embed the first worklogs (see total)
     };
     assignee?: {
       displayName: string;
@@ -62,13 +99,16 @@ export interface JiraIssue {
       accountId?: string;
     } | null;
     duedate?: string; // ISO date string for end date
+    resolutiondate?: string | null; // ISO datetime when the issue was resolved
     [key: string]: any; // For custom fields like confidence, start date
   };
 }
 
 export interface JiraResponse {
   issues: JiraIssue[];
-  total: number;
+  total?: number; // Not returned by the token-paginated /search/jql endpoint
+  nextPageToken?: string; // Token of the next page (absent on the last page)
+  isLast?: boolean; // True on the last page of a /search/jql search
 }
 
 export interface IssueChildrenResponse {
@@ -93,10 +133,78 @@ export interface IssueChildrenResponse {
   }>;
 }
 
-export enum IssueSection {
-  LAST_WEEK = 'Last week',
-  CURRENT_WEEK = 'Current week',
-  NEXT_WEEK = 'Next week',
-  LATER = 'Later',
+/**
+ * Schema of a Jira field (data type of its values)
+ */
+export interface JiraFieldSchema {
+  type: string;       // e.g. "string", "number", "user", "option", "array"
+  items?: string;     // Type of array items, e.g. "string" for labels, "option" for checkboxes
+  system?: string;    // System field ID (system fields only)
+  custom?: string;    // Custom field type key, e.g. "com.atlassian.jira.plugin.system.customfieldtypes:select"
+  customId?: number;  // Numeric ID of a custom field
 }
 
+/**
+ * Field of a Jira site, as returned by /field
+ */
+export interface JiraField {
+  id: string;         // e.g. "summary", "customfield_10020"
+  key?: string;
+  name: string;
+  custom: boolean;
+  navigable?: boolean;
+  searchable?: boolean;
+  schema?: JiraFieldSchema;
+}
+
+/**
+ * Field of a create or edit screen, as returned by createmeta / editmeta
+ */
+export interface JiraFieldMetadata {
+  fieldId: string;
+  key?: string;
+  name: string;
+  required: boolean;
+  schema: JiraFieldSchema;
+}
+
+/**
+ * Page of issue types returned by /issue/createmeta/{projectIdOrKey}/issuetypes
+ */
+export interface JiraCreateMetaIssueTypesResponse {
+  issueTypes: Array<{ id: string; name: string }>;
+  startAt: number;
+  maxResults: number;
+  total: number;
+}
+
+/**
+ * Page of fields returned by /issue/createmeta/{projectIdOrKey}/issuetypes/{issueTypeId}
+ */
+export interface JiraCreateMetaFieldsResponse {
+  fields: JiraFieldMetadata[];
+  startAt: number;
+  maxResults: number;
+  total: number;
+}
+
+/**
+ * Fields of the edit screen of an issue returned by /issue/{key}/editmeta (keyed by field ID)
+ */
+export interface JiraEditMetaResponse {
+  fields: Record<string, Omit<JiraFieldMetadata, 'fieldId'>>;
+}
+
+/**
+ * Field offered by the field discovery endpoint (template editor field picker)
+ */
+export interface JiraFieldInfo {
+  id: string;
+  name: string;
+  custom: boolean;
+  schemaType: string | null;  // Schema type (null for fields without schema, e.g. "issuekey")
+  itemsType?: string;         // Type of the values of multi-valued fields
+  multiValued: boolean;       // Array values (joined, first value or one row per value in reports)
+  path: string;               // Template field path, e.g. "fields.customfield_10020" or "fields.customfield_10030.value"
+  required?: boolean;         // Required on the create / edit screen (only when a project or issue is given)
+}
@@ -17,6 +17,110 @@
  */
 export type FieldPath = string;
 
+/**
+ * Report section (week bucket) an issue is placed in
+ * Matches the bucket keys of a report row
+ */
+export type ReportSection = 'lastWeek' | 'currentWeek' | 'nextWeek' | 'later';
+
+/**
+ * Report bucket an issue can end up in
+ * Adds the "older" bucket (time-window mode only) to the status mapping sections
+ */
+export type ReportBucket = ReportSection | 'older';
+
+/**
+ * How a status mapping rule is matched against an issue status
+ * 
+ * - "category": Jira status category key ("new", "indeterminate", "done")
+ * - "name": exact status name (case-insensitive)
+ * - "id": exact status ID
+ * - "regex": regular expression tested against the status name
+ *   (case-insensitive, accents removed, e.g. "deploye en recette|blocked")
+ */
+export type StatusMatchType = 'category' | 'name' | 'id' | 'regex';
+
+/**
+ * A single status mapping rule
+ */
+export interface StatusMappingRule {
+  /**
+   * What part of the status the rule matches on
+   */
+  matchType: StatusMatchType;
+  
+  /**
+   * Value to match (category key, status name, status ID or regex pattern)
+   */
+  value: string;
+  
+  /**
+   * Section issues matching this rule are placed in
+   */
+  section: ReportSection;
+}
+
+/**
+ * Status mapping configuration
+ * Decides which report section (Last week, Current week, Next week, Later)
+ * an issue belongs to based on its status
+ */
+export interface StatusMappingConfig {
+  /**
+   * Ordered rules - the first matching rule wins
+   */
+  rules: StatusMappingRule[];
+  
+  /**
+   * Section used when no rule matches
+   * Default: "later"
+   */
+  defaultSection: ReportSection;
+}
+
+/**
+ * Issue property a filter rule reads
+ * "field" = any field path (IssueFilterRule.fieldPath)
+ */
+export type IssueFilterField = 'issueType' | 'status' | 'label' | 'component' | 'assignee' | 'field';
+
+/**
+ * How a filter rule compares the issue value (case-insensitive)
+ * - "equals": one of the values equals the rule value
+ * - "in": one of the values is in the rule value (comma-separated list)
+ * - "contains": one of the values contains the rule value
+ * - "empty": the issue has no value
+ * - "before", "after": the date is before / after the rule value
+ *   (ISO date, or days / weeks from the report date, e.g. "-14d", "+2w")
+ * Objects are compared by name, key, ID and similar properties (e.g., assignee display name or account ID)
+ */
+export type IssueFilterOperator = 'equals' | 'in' | 'contains' | 'empty' | 'before' | 'after';
+
+/**
+ * Rule including or excluding issues from the report
+ */
+export interface IssueFilterRule {
+  /**
+   * "include" = keep only issues matching one of the include rules,
+   * "exclude" = leave out issues matching the rule
+   */
+  action: 'include' | 'exclude';
+  
+  field: IssueFilterField;
+  
+  /**
+   * Field path read when field is "field" (e.g., "fields.resolution.name")
+   */
+  fieldPath?: FieldPath;
+  
+  operator: IssueFilterOperator;
+  
+  /**
+   * Value compared with the issue value (not used by "empty")
+   */
+  value?: string;
+}
+
 /**
  * Issue selection configuration
  * Controls which issues are included in the report
@@ -39,6 +143,71 @@ export interface IssueSelectionConfig {
    * Default: "fields.parent.key"
    */
   parentGroupingField: FieldPath;
+  
+  /**
+   * Where the report issues come from
+   * "children" = children of the parent ticket the report is generated for (default)
+   * "jql" = issues matching a JQL query, without a parent ticket;
+   *         rows are grouped by the category field of each issue
+   */
+  source?: 'children' | 'jql';
+  
+  /**
+   * JQL query used when source is "jql"
+   * Example: "project = ABC AND sprint in openSprints()"
+   */
+  jql?: string;
+  
+  /**
+   * Include/exclude rules applied to the issues before they are grouped into rows
+   * Issues filtered out still count in the timesheet
+   */
+  filters?: IssueFilterRule[];
+}
+
+/**
+ * Order of the category or initiative groups of a report
+ * - "source": order in which values first appear in the issues (default)
+ * - "manual": values listed in GroupValueConfig.manualOrder first, in that order, then the others alphabetically
+ * - "alphabetical": by value (case-insensitive, numbers in numeric order)
+ * - "issueCount": groups with the most issues first, ties alphabetically
+ */
+export type GroupSortOrder = 'source' | 'manual' | 'alphabetical' | 'issueCount';
+
+/**
+ * Alias renaming field values, e.g. "payments", "Payments" and "paiement" → "Payments"
+ */
+export interface ValueAlias {
+  /**
+   * Values renamed (compared case-insensitively, surrounding spaces ignored)
+   */
+  values: string[];
+  
+  /**
+   * Value shown in the report instead
+   */
+  label: string;
+}
+
+/**
+ * Aliases and order of the values of a grouping field (category or initiative)
+ */
+export interface GroupValueConfig {
+  /**
+   * Aliases applied to the values before grouping (the first matching alias wins)
+   */
+  aliases?: ValueAlias[];
+  
+  /**
+   * Order of the groups
+   * Default: "source"
+   */
+  sortOrder?: GroupSortOrder;
+  
+  /**
+   * Values in display order, for the "manual" sort order (after aliases, case-insensitive)
+   */
+  manualOrder?: string[];
 }
 
 /**
@@ -60,6 +229,17 @@ export interface FieldMappingConfig {
    */
   initiativeField: FieldPath;
   
+  /**
+   * Aliases and order of the category values
+   * Groups with the same value after aliases are merged (e.g., parents sharing a category)
+   */
+  categoryValues?: GroupValueConfig;
+  
+  /**
+   * Aliases and order of the initiative values within each category
+   */
+  initiativeValues?: GroupValueConfig;
+  
   /**
    * Field path for Issue Items (what appears in Last Week, Current Week, etc.)
    * This field will be extracted from child issues
@@ -67,6 +247,14 @@ export interface FieldMappingConfig {
    */
   issueItemField: FieldPath;
   
+  /**
+   * Format of the issue items, used instead of issueItemField when set
+   * Field paths in braces, with optional formatters (date, upper, lower, truncate, default),
+   * see utils/itemFormat.ts
+   * Example: "{key} {fields.summary} ({fields.assignee | default:Unassigned}, due {fields.duedate | date:DD/MM})"
+   */
+  issueItemFormat?: string;
+  
   /**
    * How to handle multi-value fields (like labels)
    * "join" = join with separator, "first" = take first value, "all" = create separate rows
@@ -80,6 +268,188 @@ export interface FieldMappingConfig {
   multiValueSeparator: string;
 }
 
+/**
+ * What a report column shows
+ * - "category", "initiative": grouping values of the row (see FieldMappingConfig)
+ * - week buckets ("older", "lastWeek", ...): issue items placed in the bucket
+ *   (the "older" column is only shown when the report has older issues)
+ * - "field": a field of the row issues, combined with an aggregation
+ */
+export type ReportColumnSource = 'category' | 'initiative' | ReportBucket | 'field';
+
+/**
+ * How the values of a field column are combined over the issues of a row
+ * - "first": value of the first issue that has one
+ * - "join": distinct values, joined with the multi-value separator
+ * - "count": number of issues with a value
+ * - "minDate", "maxDate": earliest / latest date (e.g., due dates)
+ * - "sum": sum of numeric values (e.g., story points)
+ */
+export type ReportColumnAggregation = 'first' | 'join' | 'count' | 'minDate' | 'maxDate' | 'sum';
+
+/**
+ * A column of the report table (web report and exports)
+ */
+export interface ReportColumnConfig {
+  source: ReportColumnSource;
+
+  /**
+   * Column header
+   * Optional for built-in columns (e.g., "Last week (Week 46)"), required for field columns
+   */
+  label?: string;
+
+  /**
+   * Field path of a field column, read on each issue of the row
+   * Example: "fields.assignee.displayName", "fields.duedate", "fields.fixVersions"
+   */
+  fieldPath?: FieldPath;
+
+  /**
+   * Aggregation of a field column
+   * Default: "first"
+   */
+  aggregation?: ReportColumnAggregation;
+}
+
+/**
+ * What a grouping level groups the issues by
+ * - "category": category of the issues (parent category, or category field for JQL sources),
+ *   with FieldMappingConfig.categoryValues
+ * - "initiative": initiative field, with FieldMappingConfig.initiativeValues
+ * - "field": any field of the issues (e.g., assignee, components, team)
+ */
+export type GroupLevelSource = 'category' | 'initiative' | 'field';
+
+/**
+ * A level of the report grouping (outermost level first)
+ * Report rows are the groups of the last level; outer levels are shown as sub-headers
+ * (or as their column, for category and initiative levels with a column)
+ */
+export interface GroupLevelConfig {
+  source: GroupLevelSource;
+  
+  /**
+   * Field path of a field level, read on each issue
+   * Multi-value fields follow FieldMappingConfig.multiValueHandling
+   * Example: "fields.assignee.displayName", "fields.components"
+   */
+  fieldPath?: FieldPath;
+  
+  /**
+   * Name of the level in sub-headers and subtotals
+   * Default: "Category", "Initiative", or the field path
+   */
+  label?: string;
+  
+  /**
+   * Order of the groups of a field level (category and initiative levels use their values settings)
+   * Default: "source"
+   */
+  sortOrder?: GroupSortOrder;
+  
+  /**
+   * Add a subtotal line (issue items per week column) after each group of the level
+   * Default: false
+   */
+  subtotals?: boolean;
+}
+
+/**
+ * Section timing configuration
+ * Controls whether week columns are based on status only or on actual dates
+ */
+export interface SectionTimingConfig {
+  /**
+   * How issues are assigned to week columns
+   * "status" = by current status only (status mapping)
+   * "timeWindow" = by status transition, resolution and due dates against the ISO week bounds
+   */
+  mode: 'status' | 'timeWindow';
+  
+  /**
+   * What to do with issues that don't fall in any window (e.g. done before last week)
+   * "drop" = leave them out of the report, "older" = put them in an "Older" column
+   */
+  olderIssues: 'drop' | 'older';
+}
+
+/**
+ * Unit time is displayed in
+ * "hours" = hours only (e.g., "12h"), "days" = man days (e.g., "1.5d"),
+ * "daysHours" = days and hours (e.g., "1d 4h")
+ */
+export type TimeDisplayUnit = 'hours' | 'days' | 'daysHours';
+
+/**
+ * Timesheet configuration
+ * Controls where the time shown in the timesheet comes from and how it is displayed
+ */
+export interface TimesheetConfig {
+  /**
+   * "totals" = time spent / estimate totals of each issue (default)
+   * "worklog" = also break down the time logged during the report period per person and per issue
+   *             (worklogs of the report week by default, or of the requested date range)
+   */
+  mode: 'totals' | 'worklog';
+  
+  /**
+   * Length of a working day in hours, used to convert time to man days
+   * Default: 8 (e.g., 7 or 7.5 for French teams)
+   */
+  hoursPerDay?: number;
+  
+  /**
+   * Unit time is displayed in (web report and exports)
+   * Default: "daysHours"
+   */
+  displayUnit?: TimeDisplayUnit;
+}
+
+/**
+ * Placeholders of a Confluence page title pattern
+ * - {issueKey}, {summary}: parent ticket
+ * - {week}, {year}: ISO week of the report
+ * - {weekStart}, {weekEnd}: Monday and Sunday of the report week (YYYY-MM-DD)
+ */
+export const PAGE_TITLE_PLACEHOLDERS = ['issueKey', 'summary', 'week', 'year', 'weekStart', 'weekEnd'] as const;
+
+export type PageTitlePlaceholder = typeof PAGE_TITLE_PLACEHOLDERS[number];
+
+/**
+ * Default title of published pages (e.g., "Weekly Report PROJ-123 - Week 46, 2025")
+ */
+export const DEFAULT_PAGE_TITLE_PATTERN = 'Weekly Report {issueKey} - Week {week}, {year}';
+
+/**
+ * Confluence publishing configuration
+ * Where the weekly report is published as a Confluence page; the page with the resolved title
+ * is created in the space, or updated when it already exists (e.g., published again the same week)
+ */
+export interface ConfluencePublishConfig {
+  /**
+   * Whether the report can be published to Confluence
+   */
+  enabled: boolean;
+  
+  /**
+   * Key of the Confluence space (e.g., "PROG")
+   * Required when enabled
+   */
+  spaceKey: string;
+  
+  /**
+   * ID of the page new pages are created under (optional, space root otherwise)
+   */
+  parentPageId?: string;
+  
+  /**
+   * Page title, with placeholders (see PAGE_TITLE_PLACEHOLDERS)
+   * Must be unique per report week, as pages are found by title
+   */
+  titlePattern: string;
+}
+
 /**
  * Complete template configuration
  */
@@ -121,6 +491,42 @@ export interface ReportTemplate {
    */
   issueSelection: IssueSelectionConfig;
   
+  /**
+   * Status to section mapping
+   * Optional for templates created before status mapping existed (uses DEFAULT_STATUS_MAPPING)
+   */
+  statusMapping?: StatusMappingConfig;
+  
+  /**
+   * Section timing configuration
+   * Optional for older templates (uses status-only mode)
+   */
+  sectionTiming?: SectionTimingConfig;
+  
+  /**
+   * Timesheet configuration
+   * Optional for older templates (uses totals mode)
+   */
+  timesheet?: TimesheetConfig;
+
+  /**
+   * Ordered columns of the report table
+   * Optional for older templates (uses DEFAULT_REPORT_COLUMNS)
+   */
+  columns?: ReportColumnConfig[];
+
+  /**
+   * Ordered grouping levels of the report rows
+   * Optional for older templates (uses DEFAULT_GROUP_BY: category, then initiative)
+   */
+  groupBy?: GroupLevelConfig[];
+
+  /**
+   * Confluence publishing configuration
+   * Optional for older templates (publishing disabled)
+   */
+  confluence?: ConfluencePublishConfig;
+
   /**
    * Creation timestamp
    */
@@ -132,6 +538,242 @@ export interface ReportTemplate {
   updatedAt: string;
 }
 
+/**
+ * Kind of template validation error
+ * - required: missing required setting
+ * - invalidType: wrong JSON type (e.g., a string instead of a number)
+ * - invalidValue: right type but not allowed (unknown option, out of range, empty, invalid regex)
+ * - invalidFieldPath: field path that doesn't match the field path syntax
+ * - unknownKey: setting that doesn't exist
+ * - readOnly: setting that can't be changed (id, owner, timestamps)
+ */
+export type TemplateErrorCode = 'required' | 'invalidType' | 'invalidValue' | 'invalidFieldPath' | 'unknownKey' | 'readOnly';
+
+/**
+ * Validation error of one template setting
+ */
+export interface TemplateFieldError {
+  /**
+   * Path of the setting (e.g., "fieldMapping.categoryField", "statusMapping.rules[2].value")
+   */
+  path: string;
+  
+  /**
+   * Kind of error
+   */
+  code: TemplateErrorCode;
+  
+  /**
+   * Human readable description
+   */
+  message: string;
+}
+
+/**
+ * Scope of template storage access
+ * Templates are partitioned by tenant (Jira site or Connect installation);
+ * within a tenant, users see their own templates and the shared ones
+ */
+export interface TemplateScope {
+  /**
+   * Tenant identifier
+   * For Connect mode: "connect:<clientKey>"
+   * For standalone mode: "site:<Jira base URL>" (or "default" without a base URL)
+   */
+  tenantId: string;
+  
+  /**
+   * User identifier (same as ReportTemplate.userId)
+   */
+  userId: string;
+}
+
+/**
+ * Change that produced a template version
+ * - import: initial version of a template that existed before version history
+ */
+export type TemplateVersionAction = 'create' | 'update' | 'clone' | 'restore' | 'import';
+
+/**
+ * Version of a template (without the template content)
+ */
+export interface TemplateVersionSummary {
+  /**
+   * Template ID
+   */
+  templateId: string;
+  
+  /**
+   * Version number (1 for the first version of the template)
+   */
+  version: number;
+  
+  /**
+   * Change that produced this version
+   */
+  action: TemplateVersionAction;
+  
+  /**
+   * User who made the change
+   */
+  userId: string;
+  
+  /**
+   * When the change was made (ISO date string)
+   */
+  createdAt: string;
+  
+  /**
+   * Template name at this version
+   */
+  name: string;
+  
+  /**
+   * Restored version (restore only)
+   */
+  restoredFrom?: number;
+}
+
+/**
+ * Immutable revision of a template: the template as saved by a create, update, clone or restore
+ */
+export interface TemplateVersion extends TemplateVersionSummary {
+  /**
+   * Template content at this version
+   */
+  template: ReportTemplate;
+}
+
+/**
+ * Difference of one template field between two versions
+ */
+export interface TemplateFieldChange {
+  /**
+   * Path of the changed field (e.g., "fieldMapping.categoryField", "statusMapping.rules[2].pattern")
+   */
+  path: string;
+  
+  /**
+   * Kind of change
+   */
+  type: 'added' | 'removed' | 'changed';
+  
+  /**
+   * Value in the older version (absent when added)
+   */
+  before?: any;
+  
+  /**
+   * Value in the newer version (absent when removed)
+   */
+  after?: any;
+}
+
+/**
+ * Differences between two versions of a template
+ */
+export interface TemplateVersionDiff {
+  templateId: string;
+  from: TemplateVersionSummary;
+  to: TemplateVersionSummary;
+  changes: TemplateFieldChange[];
+}
+
+/**
+ * Format identifier of template bundles (portable JSON export of a template)
+ */
+export const TEMPLATE_BUNDLE_FORMAT = 'abc-report-template';
+
+/**
+ * Current version of the template bundle format
+ * Increase when the bundle layout changes in a way older versions can't read
+ */
+export const TEMPLATE_BUNDLE_VERSION = 1;
+
+/**
+ * Template settings carried by a bundle: everything except identity, ownership,
+ * sharing and timestamps, which belong to the site the template is imported into
+ */
+export type TemplateBundleContent = Omit<ReportTemplate, 'id' | 'userId' | 'isShared' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Portable JSON document of a template, used to copy templates between Jira sites
+ */
+export interface TemplateBundle {
+  /**
+   * Always TEMPLATE_BUNDLE_FORMAT
+   */
+  format: typeof TEMPLATE_BUNDLE_FORMAT;
+  
+  /**
+   * Bundle format version (TEMPLATE_BUNDLE_VERSION when exported)
+   */
+  formatVersion: number;
+  
+  /**
+   * Export timestamp (ISO date string)
+   */
+  exportedAt: string;
+  
+  /**
+   * ID of the exported template (informational; imports get a new ID)
+   */
+  sourceTemplateId?: string;
+  
+  /**
+   * Template settings
+   */
+  template: TemplateBundleContent;
+}
+
+/**
+ * Default status mapping
+ * Matches the original hardcoded English and French status keywords
+ */
+export const DEFAULT_STATUS_MAPPING: StatusMappingConfig = {
+  rules: [
+    {
+      matchType: 'regex',
+      value: 'done|closed|resolved|termine|fini|complete|resolu',
+      section: 'lastWeek',
+    },
+    {
+      matchType: 'regex',
+      value: 'in progress|in development|testing|en cours|en developpement|en test|en revue|review',
+      section: 'currentWeek',
+    },
+    {
+      matchType: 'regex',
+      value: 'to do|open|ready|a faire|a realiser|nouveau|nouvelle|pret|backlog',
+      section: 'nextWeek',
+    },
+  ],
+  defaultSection: 'later',
+};
+
+/**
+ * Default report columns
+ * Matches the original fixed columns (Category, Initiative, Older and the four weeks)
+ */
+export const DEFAULT_REPORT_COLUMNS: ReportColumnConfig[] = [
+  { source: 'category' },
+  { source: 'initiative' },
+  { source: 'older' },
+  { source: 'lastWeek' },
+  { source: 'currentWeek' },
+  { source: 'nextWeek' },
+  { source: 'later' },
+];
+
+/**
+ * Default grouping levels
+ * Matches the original fixed grouping (category, then initiative)
+ */
+export const DEFAULT_GROUP_BY: GroupLevelConfig[] = [
+  { source: 'category' },
+  { source: 'initiative' },
+];
+
 /**
  * Default template configuration
  * Matches the current hardcoded behavior
@@ -150,6 +792,24 @@ export const DEFAULT_TEMPLATE: Omit<ReportTemplate, 'id' | 'name' | 'userId' | '
     maxDepth: 1,
     includeNestedChildren: false,
     parentGroupingField: 'fields.parent.key',
+    source: 'children',
+  },
+  statusMapping: DEFAULT_STATUS_MAPPING,
+  sectionTiming: {
+    mode: 'status',
+    olderIssues: 'older',
+  },
+  timesheet: {
+    mode: 'totals',
+    hoursPerDay: 8,
+    displayUnit: 'daysHours',
+  },
+  columns: DEFAULT_REPORT_COLUMNS,
+  groupBy: DEFAULT_GROUP_BY,
+  confluence: {
+    enabled: false,
+    spaceKey: '',
+    titlePattern: DEFAULT_PAGE_TITLE_PATTERN,
   },
 };
 
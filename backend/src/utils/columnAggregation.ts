@@ -0,0 +1,98 @@
+/**
+ * Column Aggregation Utility
+ *
+ * Combines the values of a field over the issues of a report row,
+ * for the field columns of a template (see ReportColumnConfig).
+ */
+
+import { JiraIssue } from '../types/jira';
+import { ReportColumnAggregation } from '../types/template';
+import { extractFieldValue, formatFieldValue } from './fieldExtractor';
+
+/**
+ * Whether a field value counts as set (null, empty strings and empty lists don't)
+ */
+const hasValue = (value: any): boolean =>
+  value !== null && value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+/**
+ * Read a number from a field value (numbers, numeric strings, or objects with a numeric "value")
+ */
+const toNumber = (value: any): number | null => {
+  const raw = typeof value === 'object' && value !== null ? value.value : value;
+  const number = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() ? Number(raw) : NaN;
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Read the time of a date field value (ISO date strings or timestamps)
+ */
+const toTime = (value: any): number | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+};
+
+/**
+ * Aggregate a field over the issues of a report row
+ *
+ * Multi-value fields (e.g., fix versions) contribute each of their values.
+ * Dates are formatted like other field values, sums are rounded to 2 decimals.
+ *
+ * @param issues - Issues of the row
+ * @param fieldPath - Field path read on each issue
+ * @param aggregation - How values are combined (default: "first")
+ * @param separator - Separator of joined values
+ * @returns Cell text, empty if no issue has a value (except "count", which gives "0")
+ */
+export function aggregateFieldValues(
+  issues: JiraIssue[],
+  fieldPath: string,
+  aggregation: ReportColumnAggregation = 'first',
+  separator: string = ', '
+): string {
+  const values = issues.map(issue => extractFieldValue(issue, fieldPath)).filter(hasValue);
+  const items = values.flatMap(value => (Array.isArray(value) ? value : [value])).filter(hasValue);
+
+  switch (aggregation) {
+    case 'count':
+      return String(values.length);
+
+    case 'sum': {
+      const numbers = items.map(toNumber).filter((number): number is number => number !== null);
+      if (numbers.length === 0) {
+        return '';
+      }
+      const sum = numbers.reduce((total, number) => total + number, 0);
+      return String(Math.round(sum * 100) / 100);
+    }
+
+    case 'minDate':
+    case 'maxDate': {
+      let selected: { value: any; time: number } | null = null;
+      for (const item of items) {
+        const time = toTime(item);
+        if (time === null) {
+          continue;
+        }
+        if (!selected || (aggregation === 'minDate' ? time < selected.time : time > selected.time)) {
+          selected = { value: item, time };
+        }
+      }
+      return selected ? formatFieldValue(selected.value, { fallback: '' }) : '';
+    }
+
+    case 'join': {
+      const formatted = items.map(item => formatFieldValue(item, { fallback: '' })).filter(Boolean);
+      return Array.from(new Set(formatted)).join(separator);
+    }
+
+    case 'first':
+    default:
+      return values.length > 0
+        ? formatFieldValue(values[0], { multiValueHandling: 'join', separator, fallback: '' })
+        : '';
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Field Discovery Utility
+ *
+ * Converts Jira field definitions (/field, createmeta, editmeta) into the fields
+ * offered by the template editor field picker, with the template field path of each field.
+ */
+
+import { JiraField, JiraFieldInfo, JiraFieldMetadata, JiraFieldSchema } from '../types/jira';
+import { isValidFieldPath } from './fieldExtractor';
+
+/**
+ * Schema types whose values are objects with the displayed text in "value" (select lists)
+ */
+const OPTION_TYPES = ['option', 'option-with-child'];
+
+/**
+ * Check whether a field holds several values
+ */
+export function isMultiValuedField(schema: JiraFieldSchema | undefined): boolean {
+  return schema?.type === 'array';
+}
+
+/**
+ * Get the template field path of a Jira field
+ * 
+ * Most fields are read as "fields.<id>" and formatted by formatFieldValue
+ * (objects by display name or name, arrays by the multi-value handling).
+ * Single select lists read their option value, the parent its summary.
+ * 
+ * @param fieldId - Jira field ID (e.g., "summary", "customfield_10020")
+ * @param schema - Field schema
+ * @returns Field path (e.g., "fields.customfield_10030.value")
+ */
+export function getTemplateFieldPath(fieldId: string, schema: JiraFieldSchema | undefined): string {
+  if (fieldId === 'issuekey') {
+    return 'key';
+  }
+  if (fieldId === 'parent') {
+    return 'fields.parent.fields.summary';
+  }
+  if (schema && OPTION_TYPES.includes(schema.type)) {
+    return `fields.${fieldId}.value`;
+  }
+  return `fields.${fieldId}`;
+}
+
+/**
+ * Build the field picker entry of a field
+ */
+const toFieldInfo = (
+  field: { id: string; name: string; custom: boolean; schema?: JiraFieldSchema },
+  required?: boolean
+): JiraFieldInfo => ({
+  id: field.id,
+  name: field.name,
+  custom: field.custom,
+  schemaType: field.schema?.type ?? null,
+  ...(field.schema?.items ? { itemsType: field.schema.items } : {}),
+  multiValued: isMultiValuedField(field.schema),
+  path: getTemplateFieldPath(field.id, field.schema),
+  ...(required !== undefined ? { required } : {}),
+});
+
+/**
+ * Build the field picker entries of a Jira site
+ * 
+ * @param fields - Fields of the site (/field)
+ * @param metadata - Fields of create or edit screens; when given, only these fields are kept
+ * @returns Fields sorted by name (fields whose ID can't be used in a field path are left out)
+ */
+export function toFieldInfos(fields: JiraField[], metadata: JiraFieldMetadata[] | null = null): JiraFieldInfo[] {
+  let infos: JiraFieldInfo[];
+
+  if (metadata) {
+    const fieldsById = new Map(fields.map(field => [field.id, field]));
+    infos = metadata.map(meta => {
+      const field = fieldsById.get(meta.fieldId);
+      return toFieldInfo({
+        id: meta.fieldId,
+        name: field?.name || meta.name,
+        custom: field?.custom ?? meta.fieldId.startsWith('customfield_'),
+        schema: meta.schema || field?.schema,
+      }, meta.required);
+    });
+  } else {
+    infos = fields.map(field => toFieldInfo(field));
+  }
+
+  return infos
+    .filter(info => isValidFieldPath(info.path))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+}
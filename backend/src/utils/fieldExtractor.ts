@@ -7,6 +7,37 @@
 
 import { JiraIssue } from '../types/jira';
 
+/**
+ * Syntax of a field path: dot-separated names (letters, digits, underscores),
+ * each optionally followed by an array index (e.g., "fields.labels[0]")
+ */
+const FIELD_PATH_PATTERN = /^\w+(\[\d+\])?(\.\w+(\[\d+\])?)*$/;
+
+/**
+ * Check whether a field path can be resolved by extractFieldValue
+ * 
+ * @param fieldPath - Field path (e.g., "fields.parent.fields.summary", "customfield_12345")
+ * @returns true if the path matches the field path syntax
+ */
+export function isValidFieldPath(fieldPath: string): boolean {
+  return FIELD_PATH_PATTERN.test(fieldPath);
+}
+
+/**
+ * Get the Jira field a field path reads (e.g., "customfield_10020" for "fields.customfield_10020.value")
+ * Used to request the fields of a template from Jira
+ * 
+ * @param fieldPath - Field path
+ * @returns Field ID, or null for top-level issue properties ("key", "id") and invalid paths
+ */
+export function getFieldPathRoot(fieldPath: string): string | null {
+  if (!isValidFieldPath(fieldPath) || fieldPath === 'key' || fieldPath === 'id') {
+    return null;
+  }
+  const path = fieldPath.startsWith('fields.') ? fieldPath.slice('fields.'.length) : fieldPath;
+  return path.split('.')[0].replace(/\[\d+\]$/, '');
+}
+
 /**
  * Extract a field value from an issue using a field path
  * 
@@ -131,6 +162,7 @@ export function formatFieldValue(
     if (value.name) return value.name;
     if (value.key) return value.key;
     if (value.summary) return value.summary;
+    if (value.value) return String(value.value); // Select list options
     
     // If object has a string representation, use it
     if (value.toString && value.toString !== Object.prototype.toString) {
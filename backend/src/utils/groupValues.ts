@@ -0,0 +1,87 @@
+/**
+ * Group Values Utility
+ *
+ * Applies the value aliases and the sort order of a template grouping field
+ * (FieldMappingConfig.categoryValues / initiativeValues), so that spellings like
+ * "payments", "Payments" and "paiement" end up in one row and rows come out in a
+ * stable order.
+ */
+
+import { GroupValueConfig } from '../types/template';
+
+/**
+ * Normalize a value for comparisons (surrounding spaces and case ignored)
+ */
+const normalizeValue = (value: string): string => value.trim().toLowerCase();
+
+/**
+ * Compare two values alphabetically (case-insensitive, numbers in numeric order)
+ */
+const compareValues = (a: string, b: string): number =>
+  a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
+
+/**
+ * Rename a value with the aliases of a grouping field
+ *
+ * @param value - Field value (formatted)
+ * @param config - Aliases and order of the grouping field
+ * @returns Label of the first alias listing the value, or the value itself
+ */
+export function resolveGroupValue(value: string, config?: GroupValueConfig): string {
+  const normalized = normalizeValue(value);
+  const alias = (config?.aliases || []).find(candidate =>
+    candidate.values.some(aliasValue => normalizeValue(aliasValue) === normalized)
+  );
+  return alias ? alias.label : value;
+}
+
+/**
+ * Sort the groups of a grouping field
+ * Groups keep their order of first appearance for the "source" order,
+ * and the sort is stable for the other orders
+ *
+ * @param groups - Groups in order of first appearance
+ * @param getValue - Value of a group (after aliases)
+ * @param getCount - Number of issues of a group ("issueCount" order)
+ * @param config - Aliases and order of the grouping field
+ * @returns Sorted groups (new array)
+ */
+export function sortGroups<T>(
+  groups: T[],
+  getValue: (group: T) => string,
+  getCount: (group: T) => number,
+  config?: GroupValueConfig
+): T[] {
+  const sorted = [...groups];
+
+  switch (config?.sortOrder) {
+    case 'alphabetical':
+      return sorted.sort((a, b) => compareValues(getValue(a), getValue(b)));
+
+    case 'issueCount':
+      return sorted.sort((a, b) => getCount(b) - getCount(a) || compareValues(getValue(a), getValue(b)));
+
+    case 'manual': {
+      const positions = new Map<string, number>();
+      (config.manualOrder || []).forEach((value, index) => {
+        if (!positions.has(normalizeValue(value))) {
+          positions.set(normalizeValue(value), index);
+        }
+      });
+      const getPosition = (group: T) => positions.get(normalizeValue(getValue(group))) ?? Infinity;
+
+      return sorted.sort((a, b) => {
+        const positionA = getPosition(a);
+        const positionB = getPosition(b);
+        if (positionA !== positionB) {
+          return positionA < positionB ? -1 : 1;
+        }
+        return positionA === Infinity ? compareValues(getValue(a), getValue(b)) : 0;
+      });
+    }
+
+    case 'source':
+    default:
+      return sorted;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Issue Filters Utility
+ *
+ * Applies the include/exclude filter rules of a template (IssueSelectionConfig.filters)
+ * to the issues of a report, e.g. to leave out sub-tasks, "Won't Do" tickets or
+ * issues labelled "no-report".
+ *
+ * An issue is kept when it matches at least one include rule (or there are none)
+ * and no exclude rule.
+ */
+
+import { JiraIssue } from '../types/jira';
+import { IssueFilterRule, IssueFilterField } from '../types/template';
+import { extractFieldValue } from './fieldExtractor';
+
+/**
+ * Field paths of the built-in filter fields
+ */
+const FILTER_FIELD_PATHS: Record<Exclude<IssueFilterField, 'field'>, string> = {
+  issueType: 'fields.issuetype',
+  status: 'fields.status',
+  label: 'fields.labels',
+  component: 'fields.components',
+  assignee: 'fields.assignee',
+};
+
+/**
+ * Properties compared for object values (e.g., a status matches its name or ID,
+ * an assignee their display name, account ID or email address)
+ */
+const OBJECT_VALUE_PROPERTIES = ['name', 'displayName', 'value', 'key', 'id', 'accountId', 'emailAddress'];
+
+/**
+ * Get the field path a filter rule reads
+ */
+export function getFilterFieldPath(rule: IssueFilterRule): string {
+  return rule.field === 'field' ? rule.fieldPath || '' : FILTER_FIELD_PATHS[rule.field];
+}
+
+/**
+ * Parse the date of a "before" / "after" rule
+ * Accepts ISO dates ("2025-11-14") and offsets from the report date in days or weeks ("-14d", "+2w", "0d")
+ *
+ * @param value - Rule value
+ * @param referenceDate - Report date offsets are relative to
+ * @returns Date, or null if the value is not a date
+ */
+export function parseFilterDate(value: string, referenceDate: Date = new Date()): Date | null {
+  const offset = value.trim().match(/^([+-]?\d+)([dw])$/i);
+  if (offset) {
+    const date = new Date(referenceDate);
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() + Number(offset[1]) * (offset[2].toLowerCase() === 'w' ? 7 : 1));
+    return date;
+  }
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value.trim())) {
+    return null;
+  }
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Get the comparable texts of a field value (lowercase)
+ * Lists contribute each item, objects their name, key, ID and similar properties
+ */
+const getComparableValues = (value: any): string[] => {
+  if (value === null || value === undefined || value === '') {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(getComparableValues);
+  }
+  if (typeof value === 'object') {
+    return OBJECT_VALUE_PROPERTIES
+      .map(property => value[property])
+      .filter(property => typeof property === 'string' || typeof property === 'number')
+      .map(property => String(property).toLowerCase());
+  }
+  return [String(value).toLowerCase()];
+};
+
+/**
+ * Check whether an issue matches a filter rule
+ *
+ * @param issue - Jira issue
+ * @param rule - Filter rule
+ * @param referenceDate - Report date (relative dates of "before" / "after" rules)
+ * @returns true if the rule matches the issue
+ */
+export function matchesIssueFilter(issue: JiraIssue, rule: IssueFilterRule, referenceDate?: Date): boolean {
+  const value = extractFieldValue(issue, getFilterFieldPath(rule));
+  const values = getComparableValues(value);
+  const expected = (rule.value || '').trim().toLowerCase();
+
+  switch (rule.operator) {
+    case 'empty':
+      return values.length === 0;
+    case 'equals':
+      return values.includes(expected);
+    case 'in': {
+      const expectedValues = expected.split(',').map(item => item.trim()).filter(Boolean);
+      return values.some(item => expectedValues.includes(item));
+    }
+    case 'contains':
+      return values.some(item => item.includes(expected));
+    case 'before':
+    case 'after': {
+      const limit = parseFilterDate(rule.value || '', referenceDate);
+      const raw = Array.isArray(value) ? value[0] : value;
+      const date = typeof raw === 'string' || typeof raw === 'number' ? new Date(raw) : null;
+      if (!limit || !date || isNaN(date.getTime())) {
+        return false;
+      }
+      return rule.operator === 'before' ? date < limit : date > limit;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply filter rules to the issues of a report
+ *
+ * @param issues - Issues of the report
+ * @param rules - Filter rules of the template (none keeps every issue)
+ * @param referenceDate - Report date (relative dates of "before" / "after" rules)
+ * @returns Kept issues and the number of issues filtered out
+ */
+export function filterIssues(
+  issues: JiraIssue[],
+  rules: IssueFilterRule[] = [],
+  referenceDate?: Date
+): { issues: JiraIssue[]; filteredOutCount: number } {
+  if (rules.length === 0) {
+    return { issues, filteredOutCount: 0 };
+  }
+
+  const includeRules = rules.filter(rule => rule.action === 'include');
+  const excludeRules = rules.filter(rule => rule.action === 'exclude');
+  const kept = issues.filter(issue =>
+    (includeRules.length === 0 || includeRules.some(rule => matchesIssueFilter(issue, rule, referenceDate)))
+    && !excludeRules.some(rule => matchesIssueFilter(issue, rule, referenceDate))
+  );
+
+  return { issues: kept, filteredOutCount: issues.length - kept.length };
+}
@@ -0,0 +1,99 @@
+/**
+ * Issue Hierarchy Utility
+ *
+ * Walks an issue hierarchy (e.g., Initiative → Epic → Story → Sub-task) breadth-first,
+ * level by level, so nested children can be included in the report.
+ * Shared by JiraClient and ConnectJiraClient, which only provide the batched search.
+ */
+
+import { JiraIssue } from '../types/jira';
+import { IssueSearchResult } from './searchPagination';
+
+/**
+ * Maximum number of parent keys per "parent in (...)" JQL query
+ * Keeps the JQL well below Jira's query length limits
+ */
+export const PARENT_BATCH_SIZE = 50;
+
+/**
+ * Split parent keys into batches for "parent in (...)" queries
+ *
+ * @param keys - Parent issue keys
+ * @param batchSize - Maximum keys per batch
+ * @returns Array of key batches
+ */
+export function batchKeys(keys: string[], batchSize: number = PARENT_BATCH_SIZE): string[][] {
+  const batches: string[][] = [];
+  for (let i = 0; i < keys.length; i += batchSize) {
+    batches.push(keys.slice(i, i + batchSize));
+  }
+  return batches;
+}
+
+/**
+ * Collect descendants of an issue breadth-first up to a maximum depth
+ *
+ * Each returned issue gets a `depth` property (1 = direct child, 2 = grandchild, etc.).
+ * Issues already seen (including the root) are skipped, so cycles or issues reachable
+ * through several paths never cause infinite loops or duplicates.
+ *
+ * @param rootKey - Key of the issue the report is generated for
+ * @param directChildren - Direct children of the root issue (level 1)
+ * @param maxDepth - Maximum depth (1 = direct children only, 0 = unlimited)
+ * @param fetchChildrenOf - Fetches the children of a batch of parent keys, at most `limit` issues (0 = no limit)
+ * @param maxIssues - Hard cap on the number of issues collected (0 = no cap)
+ * @returns All issues from level 1 down to maxDepth in breadth-first order,
+ *          flagged as truncated when the cap stopped the walk
+ */
+export async function collectDescendants(
+  rootKey: string,
+  directChildren: JiraIssue[],
+  maxDepth: number,
+  fetchChildrenOf: (parentKeys: string[], limit: number) => Promise<IssueSearchResult>,
+  maxIssues: number = 0
+): Promise<IssueSearchResult> {
+  const visited = new Set<string>([rootKey.toUpperCase()]);
+  const collected: JiraIssue[] = [];
+
+  // Add a level of issues, skipping anything already visited (cycle detection)
+  const addLevel = (issues: JiraIssue[], depth: number): JiraIssue[] => {
+    const added: JiraIssue[] = [];
+    issues.forEach(issue => {
+      const key = issue.key.toUpperCase();
+      if (visited.has(key)) {
+        return;
+      }
+      visited.add(key);
+      issue.depth = depth;
+      collected.push(issue);
+      added.push(issue);
+    });
+    return added;
+  };
+
+  let frontier = addLevel(directChildren, 1);
+  let depth = 1;
+  let truncated = false;
+
+  while (frontier.length > 0 && (maxDepth <= 0 || depth < maxDepth) && !truncated) {
+    depth++;
+    const nextLevel: JiraIssue[] = [];
+    for (const batch of batchKeys(frontier.map(issue => issue.key))) {
+      // Budget left under the cap (duplicates are counted, so this errs on the safe side)
+      const limit = maxIssues > 0 ? maxIssues - collected.length - nextLevel.length : 0;
+      if (maxIssues > 0 && limit <= 0) {
+        truncated = true;
+        break;
+      }
+      const result = await fetchChildrenOf(batch, limit);
+      nextLevel.push(...result.issues);
+      if (result.truncated) {
+        truncated = true;
+        break;
+      }
+    }
+    frontier = addLevel(nextLevel, depth);
+  }
+
+  return { issues: collected, truncated };
+}
@@ -0,0 +1,32 @@
+/**
+ * Issue Key Utility
+ * 
+ * Formats of Jira project and issue keys, shared by every route and client that validates keys.
+ * A project key starts with a letter followed by letters, digits or underscores
+ * (e.g., "PROJ", "AB2", "MY_PROJ"), an issue key is a project key and a number (e.g., "AB2-1").
+ */
+
+/**
+ * Project key (uppercase)
+ */
+export const PROJECT_KEY_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+/**
+ * Issue key (uppercase)
+ */
+export const ISSUE_KEY_PATTERN = /^[A-Z][A-Z0-9_]*-\d+$/;
+
+/**
+ * Project key, optionally followed by the dash of an issue key (e.g., "KAN-" typed in a search)
+ */
+export const ISSUE_KEY_PREFIX_PATTERN = /^[A-Z][A-Z0-9_]*-?$/;
+
+/**
+ * Normalize a project or issue key (trimmed, uppercase)
+ * 
+ * @param key - Key as entered (e.g., " ab2-1 ")
+ * @returns Normalized key, or an empty string if the key is not a string
+ */
+export function normalizeJiraKey(key: unknown): string {
+  return typeof key === 'string' ? key.trim().toUpperCase() : '';
+}
@@ -0,0 +1,207 @@
+/**
+ * Item Format Utility
+ *
+ * Evaluates the issue item format of a template (FieldMappingConfig.issueItemFormat),
+ * a small template language for the items listed in the week columns.
+ *
+ * Placeholders are field paths in braces, optionally followed by formatters:
+ *   "{key} {fields.summary | truncate:40} ({fields.assignee | default:Unassigned}, due {fields.duedate | date:DD/MM})"
+ *
+ * Formatters (applied from left to right):
+ * - date[:pattern] - format the date value with DD, MM, YYYY and YY (default pattern: YYYY-MM-DD);
+ *   it reads the field value, so it comes first
+ * - upper, lower - change the case
+ * - truncate:N - keep the first N characters (an ellipsis replaces the rest)
+ * - default:text - text used when the value is empty
+ *
+ * "{{" and "}}" are literal braces.
+ */
+
+import { JiraIssue } from '../types/jira';
+import { extractFieldValue, formatFieldValue, isValidFieldPath } from './fieldExtractor';
+
+/**
+ * Formatter of a placeholder
+ */
+interface ItemFormatter {
+  name: string;
+  argument?: string;
+}
+
+/**
+ * Part of a parsed item format: literal text or a placeholder
+ */
+export type ItemFormatPart =
+  | { type: 'text'; text: string }
+  | { type: 'field'; fieldPath: string; formatters: ItemFormatter[] };
+
+const FORMATTER_NAMES = ['date', 'upper', 'lower', 'truncate', 'default'];
+
+const DEFAULT_DATE_PATTERN = 'YYYY-MM-DD';
+
+/**
+ * Parse a formatter ("truncate:40", "default:Unassigned")
+ *
+ * @throws {Error} If the formatter is unknown or its argument is invalid
+ */
+const parseFormatter = (source: string): ItemFormatter => {
+  const separatorIndex = source.indexOf(':');
+  const name = (separatorIndex === -1 ? source : source.slice(0, separatorIndex)).trim();
+  const argument = separatorIndex === -1 ? undefined : source.slice(separatorIndex + 1).trim();
+
+  if (!FORMATTER_NAMES.includes(name)) {
+    throw new Error(`Unknown formatter "${name}" (expected one of: ${FORMATTER_NAMES.join(', ')})`);
+  }
+  if (name === 'truncate' && !(argument && /^\d+$/.test(argument) && Number(argument) > 0)) {
+    throw new Error('The truncate formatter needs a length, e.g. "truncate:40"');
+  }
+  if (name === 'default' && argument === undefined) {
+    throw new Error('The default formatter needs a text, e.g. "default:Unassigned"');
+  }
+  return { name, argument };
+};
+
+/**
+ * Parse an item format
+ *
+ * @param format - Item format (e.g., "{key} {fields.summary}")
+ * @returns Literal texts and placeholders in order
+ * @throws {Error} If a brace is not closed, a field path is invalid or a formatter is unknown
+ */
+export function parseItemFormat(format: string): ItemFormatPart[] {
+  const parts: ItemFormatPart[] = [];
+  let text = '';
+  let index = 0;
+
+  while (index < format.length) {
+    const char = format[index];
+
+    if ((char === '{' || char === '}') && format[index + 1] === char) {
+      text += char;
+      index += 2;
+      continue;
+    }
+    if (char === '}') {
+      throw new Error(`Unexpected "}" at position ${index + 1} (use "}}" for a literal brace)`);
+    }
+    if (char !== '{') {
+      text += char;
+      index++;
+      continue;
+    }
+
+    const end = format.indexOf('}', index);
+    if (end === -1) {
+      throw new Error(`Placeholder at position ${index + 1} is not closed with "}"`);
+    }
+    const [fieldPath, ...formatters] = format.slice(index + 1, end).split('|').map(part => part.trim());
+    if (!isValidFieldPath(fieldPath)) {
+      throw new Error(`"${fieldPath}" is not a valid field path (expected e.g. "key" or "fields.summary")`);
+    }
+
+    if (text) {
+      parts.push({ type: 'text', text });
+      text = '';
+    }
+    parts.push({ type: 'field', fieldPath, formatters: formatters.map(parseFormatter) });
+    index = end + 1;
+  }
+
+  if (text) {
+    parts.push({ type: 'text', text });
+  }
+  return parts;
+}
+
+/**
+ * Get the field paths read by an item format
+ *
+ * @returns Field paths of the placeholders, empty if the format is invalid
+ */
+export function getItemFormatFieldPaths(format: string): string[] {
+  try {
+    return parseItemFormat(format)
+      .filter((part): part is Extract<ItemFormatPart, { type: 'field' }> => part.type === 'field')
+      .map(part => part.fieldPath);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Format a date field value with a pattern
+ * Date strings use their calendar date as sent by Jira (no time zone conversion)
+ */
+const formatDate = (value: any, pattern: string): string => {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (typeof raw !== 'string' && typeof raw !== 'number') {
+    return '';
+  }
+
+  const dateMatch = typeof raw === 'string' ? raw.match(/^(\d{4})-(\d{2})-(\d{2})/) : null;
+  let parts: { year: string; month: string; day: string };
+  if (dateMatch) {
+    parts = { year: dateMatch[1], month: dateMatch[2], day: dateMatch[3] };
+  } else {
+    const date = new Date(raw);
+    if (isNaN(date.getTime())) {
+      return '';
+    }
+    parts = {
+      year: String(date.getFullYear()),
+      month: String(date.getMonth() + 1).padStart(2, '0'),
+      day: String(date.getDate()).padStart(2, '0'),
+    };
+  }
+
+  return pattern.replace(/YYYY|YY|MM|DD/g, token => {
+    switch (token) {
+      case 'YYYY': return parts.year;
+      case 'YY': return parts.year.slice(-2);
+      case 'MM': return parts.month;
+      default: return parts.day;
+    }
+  });
+};
+
+/**
+ * Format an issue item
+ *
+ * @param issue - Jira issue
+ * @param parts - Parsed item format (see parseItemFormat)
+ * @param separator - Separator of multi-value fields
+ * @returns Formatted item (trimmed)
+ */
+export function formatIssueItem(issue: JiraIssue, parts: ItemFormatPart[], separator: string = ', '): string {
+  return parts.map(part => {
+    if (part.type === 'text') {
+      return part.text;
+    }
+
+    const value = extractFieldValue(issue, part.fieldPath);
+    let text = formatFieldValue(value, { multiValueHandling: 'join', separator, fallback: '' });
+
+    for (const formatter of part.formatters) {
+      switch (formatter.name) {
+        case 'date':
+          text = formatDate(value, formatter.argument || DEFAULT_DATE_PATTERN);
+          break;
+        case 'upper':
+          text = text.toUpperCase();
+          break;
+        case 'lower':
+          text = text.toLowerCase();
+          break;
+        case 'truncate': {
+          const length = Number(formatter.argument);
+          text = text.length > length ? `${text.slice(0, Math.max(length - 1, 0))}…` : text;
+          break;
+        }
+        case 'default':
+          text = text || formatter.argument || '';
+          break;
+      }
+    }
+    return text;
+  }).join('').trim();
+}
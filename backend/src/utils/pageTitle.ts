@@ -0,0 +1,75 @@
+/**
+ * Page Title Utility
+ *
+ * Resolves the title pattern of published Confluence pages (ConfluencePublishConfig.titlePattern),
+ * e.g. "Weekly Report {issueKey} - Week {week}, {year}" → "Weekly Report PROJ-123 - Week 46, 2025".
+ * Pages are found by title, so the week placeholders decide whether a report creates a new page
+ * or updates the page of the same week.
+ */
+
+import { PAGE_TITLE_PLACEHOLDERS, PageTitlePlaceholder } from '../types/template';
+import { JiraIssue } from '../types/jira';
+import { getWeekBounds, getWeekNumbers } from './weekUtils';
+
+/**
+ * Maximum length of a Confluence page title
+ */
+export const MAX_PAGE_TITLE_LENGTH = 255;
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+
+/**
+ * Format a date as YYYY-MM-DD (local time)
+ */
+const formatDate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Get the unknown placeholders of a title pattern
+ *
+ * @param pattern - Title pattern
+ * @returns Names of the placeholders that are not in PAGE_TITLE_PLACEHOLDERS (empty if the pattern is valid)
+ */
+export function getUnknownTitlePlaceholders(pattern: string): string[] {
+  return Array.from(pattern.matchAll(PLACEHOLDER_PATTERN))
+    .map(match => match[1])
+    .filter(name => !(PAGE_TITLE_PLACEHOLDERS as readonly string[]).includes(name));
+}
+
+/**
+ * Resolve the title of a published page
+ *
+ * @param pattern - Title pattern (placeholders validated when the template is saved)
+ * @param issue - Parent ticket of the report
+ * @param referenceDate - Any date in the report week (optional, defaults to now)
+ * @returns Page title, trimmed to the Confluence maximum length
+ * @throws Error if the title is empty
+ */
+export function formatPageTitle(pattern: string, issue: JiraIssue, referenceDate?: Date): string {
+  const weekNumbers = getWeekNumbers(referenceDate);
+  const { currentWeek } = getWeekBounds(referenceDate);
+  const weekEnd = new Date(currentWeek.end);
+  weekEnd.setDate(weekEnd.getDate() - 1);
+
+  const values: Record<PageTitlePlaceholder, string> = {
+    issueKey: issue.key,
+    summary: issue.fields.summary || '',
+    week: String(weekNumbers.currentWeek),
+    year: String(weekNumbers.year),
+    weekStart: formatDate(currentWeek.start),
+    weekEnd: formatDate(weekEnd),
+  };
+
+  const title = pattern
+    .replace(PLACEHOLDER_PATTERN, (match, name: string) => values[name as PageTitlePlaceholder] ?? match)
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, MAX_PAGE_TITLE_LENGTH);
+  if (!title) {
+    throw new Error('The Confluence page title is empty');
+  }
+  return title;
+}
@@ -0,0 +1,82 @@
+/**
+ * Query String Hash Utility
+ *
+ * Computes the Atlassian Connect query string hash (qsh) of an incoming request.
+ * The qsh claim binds a JWT token to one request (method, path and query parameters),
+ * so that a token cannot be replayed against another endpoint.
+ *
+ * Canonical request format: METHOD&canonical-path&canonical-query
+ * - Path without the app base path and without a trailing slash ("/" when empty)
+ * - Query parameters (except "jwt") sorted by key, repeated values sorted and joined with ","
+ * - Keys and values percent-encoded (RFC 3986, spaces as %20)
+ */
+
+import crypto from 'crypto';
+
+/**
+ * qsh value of context JWTs (AP.context.getToken), which are not bound to a request
+ */
+export const CONTEXT_QSH = 'context-qsh';
+
+/**
+ * Percent-encode a value as required by the canonical request (RFC 3986)
+ */
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Get the canonical path of a request
+ *
+ * @param requestPath - Request path (without query string)
+ * @param basePath - Path of the app base URL (e.g., "/app" for https://example.com/app)
+ */
+const canonicalPath = (requestPath: string, basePath: string = ''): string => {
+  let pathname = requestPath;
+  const prefix = basePath.replace(/\/+$/, '');
+  if (prefix && pathname.startsWith(prefix)) {
+    pathname = pathname.substring(prefix.length);
+  }
+  pathname = pathname.replace(/\/+$/, '');
+  if (!pathname.startsWith('/')) {
+    pathname = `/${pathname}`;
+  }
+  return pathname.replace(/&/g, '%26');
+};
+
+/**
+ * Get the canonical query string of a request (the "jwt" parameter is excluded)
+ *
+ * @param rawQuery - Raw query string (without the leading "?")
+ */
+const canonicalQuery = (rawQuery: string): string => {
+  const values = new Map<string, string[]>();
+  new URLSearchParams(rawQuery).forEach((value, key) => {
+    if (key === 'jwt') {
+      return;
+    }
+    const encodedKey = encodeRfc3986(key);
+    values.set(encodedKey, [...(values.get(encodedKey) || []), encodeRfc3986(value)]);
+  });
+
+  return Array.from(values.keys())
+    .sort()
+    .map(key => `${key}=${values.get(key)!.sort().join(',')}`)
+    .join('&');
+};
+
+/**
+ * Compute the query string hash of a request
+ *
+ * @param method - HTTP method (e.g., "GET")
+ * @param url - Request URL relative to the host, with query string (e.g., req.originalUrl)
+ * @param basePath - Path of the app base URL, stripped from the request path
+ * @returns Hex-encoded SHA-256 hash of the canonical request
+ */
+export function createQueryStringHash(method: string, url: string, basePath: string = ''): string {
+  const queryStart = url.indexOf('?');
+  const requestPath = queryStart === -1 ? url : url.substring(0, queryStart);
+  const rawQuery = queryStart === -1 ? '' : url.substring(queryStart + 1);
+
+  const canonicalRequest = `${method.toUpperCase()}&${canonicalPath(requestPath, basePath)}&${canonicalQuery(rawQuery)}`;
+  return crypto.createHash('sha256').update(canonicalRequest).digest('hex');
+}
@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JiraIssue, JiraResponse } from '../types/jira';
+import { fetchAllPages, SEARCH_PAGE_SIZE } from './searchPagination';
+
+/**
+ * Minimal issue of a search page
+ */
+const issue = (index: number): JiraIssue => ({
+  id: String(index),
+  key: `ABC-${index}`,
+  summary: `Issue ${index}`,
+  status: { name: 'To Do', statusCategory: { key: 'new', name: 'To Do' } },
+  labels: [],
+  issueType: { name: 'Task' },
+  fields: {
+    summary: `Issue ${index}`,
+    status: { name: 'To Do', statusCategory: { key: 'new', name: 'To Do' } },
+    labels: [],
+    issuetype: { name: 'Task' },
+  },
+});
+
+/**
+ * Issues numbered from `from` to `from + count - 1`
+ */
+const issues = (from: number, count: number): JiraIssue[] => Array.from({ length: count }, (_, index) => issue(from + index));
+
+/**
+ * Stub page fetcher answering with the given pages in order, and recording the requests
+ */
+const stubPages = (pages: JiraResponse[]) => {
+  const requests: Array<{ maxResults: number; nextPageToken?: string }> = [];
+  const fetchPage = async (maxResults: number, nextPageToken?: string): Promise<JiraResponse> => {
+    requests.push({ maxResults, nextPageToken });
+    const page = pages.shift();
+    if (!page) {
+      throw new Error('No more pages');
+    }
+    return page;
+  };
+  return { fetchPage, requests };
+};
+
+test('fetchAllPages follows nextPageToken until the last page', async () => {
+  const { fetchPage, requests } = stubPages([
+    { issues: issues(1, SEARCH_PAGE_SIZE), nextPageToken: 'page-2' },
+    { issues: issues(101, SEARCH_PAGE_SIZE), nextPageToken: 'page-3' },
+    { issues: issues(201, 20), isLast: true },
+  ]);
+
+  const result = await fetchAllPages(fetchPage, 0);
+
+  assert.equal(result.issues.length, 220);
+  assert.equal(result.truncated, false);
+  assert.deepEqual(requests.map(request => request.nextPageToken), [undefined, 'page-2', 'page-3']);
+});
+
+test('fetchAllPages stops at a page without a token', async () => {
+  const { fetchPage, requests } = stubPages([
+    { issues: issues(1, 3), nextPageToken: 'page-2' },
+    { issues: issues(4, 2) },
+  ]);
+
+  const result = await fetchAllPages(fetchPage, 0);
+
+  assert.deepEqual(result.issues.map(found => found.key), ['ABC-1', 'ABC-2', 'ABC-3', 'ABC-4', 'ABC-5']);
+  assert.equal(requests.length, 2);
+});
+
+test('fetchAllPages stops at an empty page even if it has a token', async () => {
+  const { fetchPage, requests } = stubPages([
+    { issues: issues(1, 5), nextPageToken: 'page-2' },
+    { issues: [], nextPageToken: 'page-3' },
+  ]);
+
+  const result = await fetchAllPages(fetchPage, 0);
+
+  assert.equal(result.issues.length, 5);
+  assert.equal(result.truncated, false);
+  assert.equal(requests.length, 2);
+});
+
+test('fetchAllPages stops when Jira returns a token it already returned', async () => {
+  const { fetchPage, requests } = stubPages([
+    { issues: issues(1, 5), nextPageToken: 'page-2' },
+    { issues: issues(6, 5), nextPageToken: 'page-2' },
+    { issues: issues(11, 5), nextPageToken: 'page-2' },
+  ]);
+
+  const result = await fetchAllPages(fetchPage, 0);
+
+  assert.equal(result.issues.length, 10);
+  assert.deepEqual(requests.map(request => request.nextPageToken), [undefined, 'page-2']);
+});
+
+test('fetchAllPages requests no more than the cap and flags the results as truncated', async () => {
+  const { fetchPage, requests } = stubPages([
+    { issues: issues(1, SEARCH_PAGE_SIZE), nextPageToken: 'page-2' },
+    { issues: issues(101, SEARCH_PAGE_SIZE), nextPageToken: 'page-3' },
+  ]);
+
+  const result = await fetchAllPages(fetchPage, 150);
+
+  assert.equal(result.issues.length, 150);
+  assert.equal(result.truncated, true);
+  assert.deepEqual(requests.map(request => request.maxResults), [SEARCH_PAGE_SIZE, 50]);
+});
+
+test('fetchAllPages never returns more issues than the cap when Jira ignores maxResults', async () => {
+  const { fetchPage } = stubPages([{ issues: issues(1, 30), isLast: true }]);
+
+  const result = await fetchAllPages(fetchPage, 20);
+
+  assert.equal(result.issues.length, 20);
+  assert.equal(result.truncated, true);
+});
+
+test('fetchAllPages does not flag results that exactly reach the cap on the last page', async () => {
+  const { fetchPage, requests } = stubPages([{ issues: issues(1, 20), isLast: true }]);
+
+  const result = await fetchAllPages(fetchPage, 20);
+
+  assert.equal(result.issues.length, 20);
+  assert.equal(result.truncated, false);
+  assert.equal(requests.length, 1);
+});
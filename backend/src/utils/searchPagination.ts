@@ -0,0 +1,70 @@
+/**
+ * Search Pagination Utility
+ *
+ * Follows the token-based pagination of Jira's /search/jql endpoint (nextPageToken)
+ * until the last page or a hard cap is reached, so large programs are either fetched
+ * completely or explicitly flagged as truncated.
+ * Shared by JiraClient and ConnectJiraClient, which only provide the single page request.
+ */
+
+import { JiraIssue, JiraResponse } from '../types/jira';
+
+/**
+ * Number of issues requested per page
+ */
+export const SEARCH_PAGE_SIZE = 100;
+
+/**
+ * Issues returned by a paginated search
+ */
+export interface IssueSearchResult {
+  issues: JiraIssue[];
+  truncated: boolean; // True when the hard cap was reached before the last page
+}
+
+/**
+ * Fetch a single page of search results
+ *
+ * @param maxResults - Maximum number of issues in the page
+ * @param nextPageToken - Token returned by the previous page (undefined for the first page)
+ */
+export type SearchPageFetcher = (maxResults: number, nextPageToken?: string) => Promise<JiraResponse>;
+
+/**
+ * Fetch all pages of a search, up to a maximum number of issues
+ *
+ * @param fetchPage - Fetches a single page
+ * @param maxIssues - Hard cap on the number of issues (0 = no cap)
+ * @returns Issues of all pages, and whether results were cut at the cap
+ */
+export async function fetchAllPages(fetchPage: SearchPageFetcher, maxIssues: number): Promise<IssueSearchResult> {
+  const issues: JiraIssue[] = [];
+  const seenTokens = new Set<string>();
+  let nextPageToken: string | undefined;
+
+  do {
+    const remaining = maxIssues > 0 ? maxIssues - issues.length : SEARCH_PAGE_SIZE;
+    if (remaining <= 0) {
+      return { issues, truncated: true };
+    }
+
+    const page = await fetchPage(Math.min(SEARCH_PAGE_SIZE, remaining), nextPageToken);
+    const pageIssues = page.issues || [];
+    if (pageIssues.length > remaining) {
+      // Jira may return more than requested; never go above the cap
+      issues.push(...pageIssues.slice(0, remaining));
+      return { issues, truncated: true };
+    }
+    issues.push(...pageIssues);
+
+    // An empty page or a token already followed also ends the search, so a misbehaving token can't loop forever
+    nextPageToken = page.isLast || pageIssues.length === 0 || seenTokens.has(page.nextPageToken || '')
+      ? undefined
+      : page.nextPageToken;
+    if (nextPageToken) {
+      seenTokens.add(nextPageToken);
+    }
+  } while (nextPageToken);
+
+  return { issues, truncated: false };
+}
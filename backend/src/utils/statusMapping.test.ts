@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JiraIssue } from '../types/jira';
+import { StatusMappingConfig } from '../types/template';
+import { matchesStatusRule, resolveStatusSection } from './statusMapping';
+
+const status = (name: string, categoryKey = 'indeterminate'): JiraIssue['fields']['status'] => ({
+  name,
+  statusCategory: { key: categoryKey, name: categoryKey },
+});
+
+test('regex rules ignore the accents of the pattern and of the status name', () => {
+  const rule = { matchType: 'regex' as const, value: '^déployé', section: 'lastWeek' as const };
+
+  assert.equal(matchesStatusRule(status('Déployé en recette'), rule), true);
+  assert.equal(matchesStatusRule(status('DEPLOYE EN PROD'), rule), true);
+  assert.equal(matchesStatusRule(status('Non déployé'), rule), false);
+});
+
+test('name rules ignore case and accents', () => {
+  const rule = { matchType: 'name' as const, value: 'a deployer', section: 'nextWeek' as const };
+
+  assert.equal(matchesStatusRule(status('À déployer'), rule), true);
+  assert.equal(matchesStatusRule(status('À déployer demain'), rule), false);
+});
+
+test('invalid regex patterns never match', () => {
+  assert.equal(matchesStatusRule(status('Done'), { matchType: 'regex', value: '(', section: 'lastWeek' }), false);
+});
+
+test('resolveStatusSection uses the first matching rule, then the default section', () => {
+  const mapping: StatusMappingConfig = {
+    rules: [
+      { matchType: 'regex', value: 'recette', section: 'currentWeek' },
+      { matchType: 'category', value: 'done', section: 'lastWeek' },
+    ],
+    defaultSection: 'later',
+  };
+
+  assert.equal(resolveStatusSection(status('Déployé en recette', 'done'), mapping), 'currentWeek');
+  assert.equal(resolveStatusSection(status('Closed', 'done'), mapping), 'lastWeek');
+  assert.equal(resolveStatusSection(status('Backlog', 'new'), mapping), 'later');
+});
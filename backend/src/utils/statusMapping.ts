@@ -0,0 +1,77 @@
+/**
+ * Status Mapping Utility
+ * 
+ * Resolves which report section (Last week, Current week, Next week, Later) an issue
+ * belongs to, using the ordered status mapping rules of a template.
+ */
+
+import { JiraIssue } from '../types/jira';
+import { ReportSection, StatusMappingConfig, StatusMappingRule, DEFAULT_STATUS_MAPPING } from '../types/template';
+
+type IssueStatus = JiraIssue['fields']['status'];
+
+/**
+ * Remove the accents of a text (e.g., "Déployé" → "Deploye")
+ */
+const removeAccents = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * Normalize a status name for comparison (lowercase, accents removed, trimmed)
+ * 
+ * @param name - Status name (e.g., "Déployé en recette")
+ * @returns Normalized name (e.g., "deploye en recette")
+ */
+export function normalizeStatusName(name: string): string {
+  return removeAccents((name || '').toLowerCase()).trim();
+}
+
+/**
+ * Check whether a status matches a single mapping rule
+ * 
+ * Regex patterns are matched case-insensitively against the normalized status name, with their own
+ * accents removed too (e.g., "^déployé" matches "Déployé en recette").
+ * Invalid regex patterns never match (they are reported by the template editor).
+ * 
+ * @param status - Issue status (name, optional ID and status category)
+ * @param rule - Status mapping rule
+ * @returns true if the rule matches the status
+ */
+export function matchesStatusRule(status: IssueStatus, rule: StatusMappingRule): boolean {
+  if (!status || !rule || !rule.value) {
+    return false;
+  }
+
+  switch (rule.matchType) {
+    case 'category':
+      return (status.statusCategory?.key || '').toLowerCase() === rule.value.toLowerCase().trim();
+    case 'name':
+      return normalizeStatusName(status.name) === normalizeStatusName(rule.value);
+    case 'id':
+      return !!status.id && String(status.id) === rule.value.trim();
+    case 'regex':
+      try {
+        return new RegExp(removeAccents(rule.value), 'i').test(normalizeStatusName(status.name));
+      } catch {
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Resolve the report section of an issue status
+ * 
+ * Rules are evaluated in order, the first matching rule wins.
+ * Falls back to the mapping's default section when no rule matches.
+ * 
+ * @param status - Issue status
+ * @param mapping - Status mapping configuration (uses DEFAULT_STATUS_MAPPING if not provided)
+ * @returns Report section for the status
+ */
+export function resolveStatusSection(status: IssueStatus, mapping?: StatusMappingConfig): ReportSection {
+  const statusMapping = mapping || DEFAULT_STATUS_MAPPING;
+  const matchingRule = (statusMapping.rules || []).find(rule => matchesStatusRule(status, rule));
+  return matchingRule ? matchingRule.section : (statusMapping.defaultSection || 'later');
+}
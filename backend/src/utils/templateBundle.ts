@@ -0,0 +1,91 @@
+/**
+ * Template Bundle Utility
+ *
+ * Converts templates to and from portable JSON bundles (see TemplateBundle),
+ * used to copy templates between Jira sites or between staging and production.
+ * Bundles carry every template setting except identity, ownership, sharing and
+ * timestamps, so settings added to templates later are exported without changes here.
+ */
+
+import {
+  ReportTemplate,
+  TemplateBundle,
+  TemplateBundleContent,
+  TEMPLATE_BUNDLE_FORMAT,
+  TEMPLATE_BUNDLE_VERSION,
+} from '../types/template';
+
+/**
+ * Template fields that are not part of a bundle
+ */
+const SITE_FIELDS = ['id', 'userId', 'isShared', 'createdAt', 'updatedAt'];
+
+const isObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Remove identity, ownership, sharing and timestamps from template data
+ */
+const toBundleContent = (template: Record<string, any>): TemplateBundleContent => {
+  const content = { ...template };
+  for (const field of SITE_FIELDS) {
+    delete content[field];
+  }
+  return content as TemplateBundleContent;
+};
+
+/**
+ * Create the bundle of a template
+ *
+ * @param template - Template to export
+ * @returns Bundle (JSON-serializable)
+ */
+export function createTemplateBundle(template: ReportTemplate): TemplateBundle {
+  return {
+    format: TEMPLATE_BUNDLE_FORMAT,
+    formatVersion: TEMPLATE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    sourceTemplateId: template.id,
+    template: toBundleContent(template),
+  };
+}
+
+/**
+ * Read the template settings of a bundle
+ * Only the envelope is checked here; the settings are checked with validateTemplate before import.
+ * The settings get a new ID and owner when imported (see TemplateService.importTemplate)
+ *
+ * @param data - Parsed JSON document
+ * @returns Template settings
+ * @throws {Error} If the document is not a template bundle or has an unsupported format version
+ */
+export function parseTemplateBundle(data: any): TemplateBundleContent {
+  if (!isObject(data) || data.format !== TEMPLATE_BUNDLE_FORMAT) {
+    throw new Error(`Invalid template bundle: "format" must be "${TEMPLATE_BUNDLE_FORMAT}"`);
+  }
+
+  const { formatVersion } = data;
+  if (!Number.isInteger(formatVersion) || formatVersion < 1) {
+    throw new Error('Invalid template bundle: "formatVersion" must be a positive integer');
+  }
+  if (formatVersion > TEMPLATE_BUNDLE_VERSION) {
+    throw new Error(
+      `Invalid template bundle: format version ${formatVersion} is not supported (this version reads up to ${TEMPLATE_BUNDLE_VERSION})`
+    );
+  }
+
+  const template = data.template;
+  if (!isObject(template)) {
+    throw new Error('Invalid template bundle: "template" must be an object');
+  }
+
+  return toBundleContent(template);
+}
+
+/**
+ * Get a file name for the bundle of a template (e.g., "Weekly-Report.template.json")
+ */
+export function getTemplateBundleFileName(template: ReportTemplate): string {
+  const name = template.name.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'template';
+  return `${name}.template.json`;
+}
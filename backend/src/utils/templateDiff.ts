@@ -0,0 +1,76 @@
+/**
+ * Template Diff Utility
+ *
+ * Compares two versions of a template field by field.
+ * Objects are compared key by key and arrays item by item, so a change deep in the
+ * configuration is reported with its path (e.g., "statusMapping.rules[2].pattern").
+ */
+
+import { ReportTemplate, TemplateFieldChange } from '../types/template';
+
+/**
+ * Timestamps change on every save and are not reported
+ */
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+const isObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Append a key or array index to a field path
+ */
+const childPath = (parentPath: string, key: string | number): string =>
+  typeof key === 'number' ? `${parentPath}[${key}]` : (parentPath ? `${parentPath}.${key}` : key);
+
+/**
+ * Collect the changes between two values (recursive)
+ */
+const collectChanges = (before: any, after: any, path: string, changes: TemplateFieldChange[]): void => {
+  if (before === undefined && after === undefined) {
+    return;
+  }
+  if (before === undefined) {
+    changes.push({ path, type: 'added', after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path, type: 'removed', before });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let index = 0; index < length; index++) {
+      collectChanges(before[index], after[index], childPath(path, index), changes);
+    }
+    return;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      if (!path && IGNORED_FIELDS.has(key)) {
+        continue;
+      }
+      collectChanges(before[key], after[key], childPath(path, key), changes);
+    }
+    return;
+  }
+
+  if (before !== after) {
+    changes.push({ path, type: 'changed', before, after });
+  }
+};
+
+/**
+ * Compare two versions of a template
+ *
+ * @param before - Older version
+ * @param after - Newer version
+ * @returns Changed fields, in template field order
+ */
+export function diffTemplates(before: ReportTemplate, after: ReportTemplate): TemplateFieldChange[] {
+  const changes: TemplateFieldChange[] = [];
+  collectChanges(before, after, '', changes);
+  return changes;
+}
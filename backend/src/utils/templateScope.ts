@@ -0,0 +1,57 @@
+/**
+ * Template Scope Utility
+ *
+ * Determines the tenant and user of a request for template storage.
+ * - Connect mode: the installation (clientKey of the verified JWT) and the Jira account ID
+ * - Standalone mode: the Jira site configured on the server (JIRA_BASE_URL) and the email of the credentials
+ * Templates of different tenants never mix, even for the same user ID.
+ * The tenant never comes from the client (e.g., the X-Jira-Base-Url header), so a caller
+ * cannot read or overwrite the templates of another site.
+ */
+
+import { Request } from 'express';
+import { config } from '../config';
+import { TemplateScope } from '../types/template';
+
+/**
+ * Tenant of requests without a Connect installation or Jira base URL
+ */
+export const DEFAULT_TENANT_ID = 'default';
+
+/**
+ * Get the tenant ID of a Jira site
+ *
+ * @param baseUrl - Jira base URL (e.g., https://your-domain.atlassian.net/)
+ * @returns Tenant ID ("site:<origin>") or null if the URL is empty or invalid
+ */
+export function getSiteTenantId(baseUrl: string | undefined): string | null {
+  if (!baseUrl) {
+    return null;
+  }
+  try {
+    return `site:${new URL(baseUrl).origin.toLowerCase()}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the template scope (tenant and user) of a request
+ * Must run after verifyConnectJWT (or verifyConnectContextJWT) and extractJiraCredentials
+ */
+export function getTemplateScope(req: Request): TemplateScope {
+  // Connect mode: the JWT was verified against the installation's shared secret
+  if (req.context && req.jwt) {
+    return {
+      tenantId: `connect:${req.context.clientKey}`,
+      userId: req.jwt.sub || 'connect-user',
+    };
+  }
+
+  // Standalone mode: the configured Jira site (the base URL sent with the credentials is not verified)
+  return {
+    tenantId: getSiteTenantId(config.jira.baseUrl) || DEFAULT_TENANT_ID,
+    // Use a default user ID so we can still get a default template before authentication
+    userId: req.jiraCredentials?.email || 'default-user',
+  };
+}
@@ -0,0 +1,551 @@
+/**
+ * Template Validation Utility
+ *
+ * Validates template payloads (create, update, import, preview) against the template schema,
+ * so that invalid settings are rejected when saved instead of breaking reports later.
+ * Every violation is reported with the path of the setting (see TemplateFieldError);
+ * the routes answer 422 with the list, and the template editor shows it next to each field.
+ *
+ * Unknown settings are rejected at every level, and field paths must match the
+ * fieldExtractor syntax.
+ */
+
+import { TemplateFieldError, TemplateErrorCode } from '../types/template';
+import { isValidFieldPath } from './fieldExtractor';
+import { parseItemFormat } from './itemFormat';
+import { parseFilterDate } from './issueFilters';
+import { getUnknownTitlePlaceholders, MAX_PAGE_TITLE_LENGTH } from './pageTitle';
+
+/**
+ * Validates a value and appends errors for the given path
+ */
+type Validator = (value: any, path: string, errors: TemplateFieldError[]) => void;
+
+/**
+ * Setting of an object schema
+ */
+interface FieldSpec {
+  required?: boolean;
+  validate: Validator;
+}
+
+type ObjectSchema = Record<string, FieldSpec>;
+
+/**
+ * Options for validating a template payload
+ */
+export interface TemplateValidationOptions {
+  /**
+   * Partial payload (update): top-level settings are optional.
+   * Sections that are present (e.g., fieldMapping) replace the stored ones, so they must be complete.
+   */
+  partial?: boolean;
+
+  /**
+   * Top-level keys accepted and ignored (e.g., "userId" sent by older clients on create)
+   */
+  ignoredKeys?: string[];
+}
+
+/**
+ * Template settings that can't be set through a payload
+ */
+const READ_ONLY_KEYS = ['id', 'userId', 'createdAt', 'updatedAt'];
+
+const REPORT_SECTIONS = ['lastWeek', 'currentWeek', 'nextWeek', 'later'];
+
+const isObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const addError = (errors: TemplateFieldError[], path: string, code: TemplateErrorCode, message: string): void => {
+  errors.push({ path, code, message });
+};
+
+const childPath = (parentPath: string, key: string): string => (parentPath ? `${parentPath}.${key}` : key);
+
+/**
+ * String setting
+ */
+const string = (options: { nonEmpty?: boolean; maxLength?: number } = {}): Validator => (value, path, errors) => {
+  if (typeof value !== 'string') {
+    addError(errors, path, 'invalidType', 'Must be a string');
+    return;
+  }
+  if (options.nonEmpty && !value.trim()) {
+    addError(errors, path, 'invalidValue', 'Must not be empty');
+  } else if (options.maxLength !== undefined && value.length > options.maxLength) {
+    addError(errors, path, 'invalidValue', `Must be at most ${options.maxLength} characters`);
+  }
+};
+
+/**
+ * Field path setting (see fieldExtractor)
+ */
+const fieldPath = (): Validator => (value, path, errors) => {
+  if (typeof value !== 'string') {
+    addError(errors, path, 'invalidType', 'Must be a field path string');
+    return;
+  }
+  if (!isValidFieldPath(value)) {
+    addError(
+      errors,
+      path,
+      'invalidFieldPath',
+      `"${value}" is not a valid field path (expected e.g. "fields.summary", "fields.parent.fields.summary" or "fields.labels[0]")`
+    );
+  }
+};
+
+/**
+ * Issue item format setting (see itemFormat)
+ */
+const itemFormat = (): Validator => (value, path, errors) => {
+  string({ maxLength: 500 })(value, path, errors);
+  if (typeof value !== 'string') {
+    return;
+  }
+  try {
+    parseItemFormat(value);
+  } catch (error: any) {
+    addError(errors, path, 'invalidValue', error.message);
+  }
+};
+
+/**
+ * Setting with a fixed set of values
+ */
+const oneOf = (allowed: string[]): Validator => (value, path, errors) => {
+  if (!allowed.includes(value)) {
+    addError(errors, path, 'invalidValue', `Must be one of: ${allowed.join(', ')}`);
+  }
+};
+
+const boolean = (): Validator => (value, path, errors) => {
+  if (typeof value !== 'boolean') {
+    addError(errors, path, 'invalidType', 'Must be true or false');
+  }
+};
+
+/**
+ * Number setting
+ * @param options.integer - Whole numbers only
+ * @param options.min - Minimum (inclusive)
+ * @param options.above - Minimum (exclusive)
+ * @param options.max - Maximum (inclusive)
+ */
+const number = (options: { integer?: boolean; min?: number; above?: number; max?: number } = {}): Validator =>
+  (value, path, errors) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      addError(errors, path, 'invalidType', 'Must be a number');
+      return;
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      addError(errors, path, 'invalidValue', 'Must be a whole number');
+    } else if (options.min !== undefined && value < options.min) {
+      addError(errors, path, 'invalidValue', `Must be at least ${options.min}`);
+    } else if (options.above !== undefined && value <= options.above) {
+      addError(errors, path, 'invalidValue', `Must be greater than ${options.above}`);
+    } else if (options.max !== undefined && value > options.max) {
+      addError(errors, path, 'invalidValue', `Must be at most ${options.max}`);
+    }
+  };
+
+/**
+ * Array setting, every item validated
+ */
+const arrayOf = (item: Validator): Validator => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    addError(errors, path, 'invalidType', 'Must be a list');
+    return;
+  }
+  value.forEach((itemValue, index) => item(itemValue, `${path}[${index}]`, errors));
+};
+
+/**
+ * Validate the settings of an object against a schema (unknown keys are rejected)
+ */
+const checkObject = (
+  value: any,
+  path: string,
+  schema: ObjectSchema,
+  errors: TemplateFieldError[],
+  options: { partial?: boolean; ignoredKeys?: string[] } = {}
+): boolean => {
+  if (!isObject(value)) {
+    addError(errors, path || '(root)', 'invalidType', 'Must be an object');
+    return false;
+  }
+
+  for (const [key, spec] of Object.entries(schema)) {
+    const keyPath = childPath(path, key);
+    if (value[key] === undefined) {
+      if (spec.required && !options.partial) {
+        addError(errors, keyPath, 'required', 'Is required');
+      }
+      continue;
+    }
+    spec.validate(value[key], keyPath, errors);
+  }
+
+  for (const key of Object.keys(value)) {
+    if (schema[key] || options.ignoredKeys?.includes(key)) {
+      continue;
+    }
+    if (!path && READ_ONLY_KEYS.includes(key)) {
+      addError(errors, key, 'readOnly', 'Can\'t be changed');
+    } else {
+      addError(errors, childPath(path, key), 'unknownKey', 'Unknown setting');
+    }
+  }
+  return true;
+};
+
+/**
+ * Object setting
+ */
+const object = (schema: ObjectSchema, refine?: Validator): Validator => (value, path, errors) => {
+  if (checkObject(value, path, schema, errors) && refine) {
+    refine(value, path, errors);
+  }
+};
+
+const STATUS_MAPPING_RULE_SCHEMA: ObjectSchema = {
+  matchType: { required: true, validate: oneOf(['category', 'name', 'id', 'regex']) },
+  value: { required: true, validate: string({ nonEmpty: true }) },
+  section: { required: true, validate: oneOf(REPORT_SECTIONS) },
+};
+
+/**
+ * Regex rules must compile (status names are tested case-insensitively)
+ */
+const validateRegexRule: Validator = (rule, path, errors) => {
+  if (rule.matchType !== 'regex' || typeof rule.value !== 'string') {
+    return;
+  }
+  try {
+    new RegExp(rule.value, 'i');
+  } catch {
+    addError(errors, childPath(path, 'value'), 'invalidValue', 'Invalid regular expression');
+  }
+};
+
+const COLUMN_SOURCES = ['category', 'initiative', 'older', ...REPORT_SECTIONS, 'field'];
+
+/**
+ * Maximum number of report columns
+ */
+const MAX_REPORT_COLUMNS = 20;
+
+const REPORT_COLUMN_SCHEMA: ObjectSchema = {
+  source: { required: true, validate: oneOf(COLUMN_SOURCES) },
+  label: { validate: string({ maxLength: 100 }) },
+  fieldPath: { validate: fieldPath() },
+  aggregation: { validate: oneOf(['first', 'join', 'count', 'minDate', 'maxDate', 'sum']) },
+};
+
+/**
+ * Field columns need a label and a field path; built-in columns take neither a field path nor an aggregation
+ */
+const validateReportColumn: Validator = (column, path, errors) => {
+  if (column.source === 'field') {
+    if (!(typeof column.label === 'string' && column.label.trim())) {
+      addError(errors, childPath(path, 'label'), 'required', 'A label is required for field columns');
+    }
+    if (column.fieldPath === undefined) {
+      addError(errors, childPath(path, 'fieldPath'), 'required', 'A field path is required for field columns');
+    }
+    return;
+  }
+  for (const key of ['fieldPath', 'aggregation']) {
+    if (column[key] !== undefined) {
+      addError(errors, childPath(path, key), 'invalidValue', 'Only field columns have this setting');
+    }
+  }
+};
+
+/**
+ * Report columns: at least one, each built-in column at most once
+ */
+const reportColumns = (): Validator => (value, path, errors) => {
+  arrayOf(object(REPORT_COLUMN_SCHEMA, validateReportColumn))(value, path, errors);
+  if (!Array.isArray(value)) {
+    return;
+  }
+  if (value.length === 0) {
+    addError(errors, path, 'invalidValue', 'Must have at least one column');
+  } else if (value.length > MAX_REPORT_COLUMNS) {
+    addError(errors, path, 'invalidValue', `Must have at most ${MAX_REPORT_COLUMNS} columns`);
+  }
+  const seen = new Set<string>();
+  value.forEach((column, index) => {
+    if (!isObject(column) || column.source === 'field' || typeof column.source !== 'string') {
+      return;
+    }
+    if (seen.has(column.source)) {
+      addError(errors, `${path}[${index}].source`, 'invalidValue', `The "${column.source}" column is already in the list`);
+    }
+    seen.add(column.source);
+  });
+};
+
+/**
+ * Maximum number of grouping levels
+ */
+const MAX_GROUP_LEVELS = 4;
+
+const GROUP_SORT_ORDERS = ['source', 'manual', 'alphabetical', 'issueCount'];
+
+const GROUP_LEVEL_SCHEMA: ObjectSchema = {
+  source: { required: true, validate: oneOf(['category', 'initiative', 'field']) },
+  fieldPath: { validate: fieldPath() },
+  label: { validate: string({ maxLength: 100 }) },
+  sortOrder: { validate: oneOf(GROUP_SORT_ORDERS.filter(order => order !== 'manual')) },
+  subtotals: { validate: boolean() },
+};
+
+/**
+ * Field levels need a field path; category and initiative levels take neither a field path
+ * nor a sort order (they use the category / initiative values settings)
+ */
+const validateGroupLevel: Validator = (level, path, errors) => {
+  if (level.source === 'field') {
+    if (level.fieldPath === undefined) {
+      addError(errors, childPath(path, 'fieldPath'), 'required', 'A field path is required for field levels');
+    }
+    return;
+  }
+  for (const key of ['fieldPath', 'sortOrder']) {
+    if (level[key] !== undefined) {
+      addError(errors, childPath(path, key), 'invalidValue', 'Only field levels have this setting');
+    }
+  }
+};
+
+/**
+ * Grouping levels: between 1 and MAX_GROUP_LEVELS, category and initiative at most once
+ */
+const groupLevels = (): Validator => (value, path, errors) => {
+  arrayOf(object(GROUP_LEVEL_SCHEMA, validateGroupLevel))(value, path, errors);
+  if (!Array.isArray(value)) {
+    return;
+  }
+  if (value.length === 0) {
+    addError(errors, path, 'invalidValue', 'Must have at least one level');
+  } else if (value.length > MAX_GROUP_LEVELS) {
+    addError(errors, path, 'invalidValue', `Must have at most ${MAX_GROUP_LEVELS} levels`);
+  }
+  const seen = new Set<string>();
+  value.forEach((level, index) => {
+    if (!isObject(level) || level.source === 'field' || typeof level.source !== 'string') {
+      return;
+    }
+    if (seen.has(level.source)) {
+      addError(errors, `${path}[${index}].source`, 'invalidValue', `The "${level.source}" level is already in the list`);
+    }
+    seen.add(level.source);
+  });
+};
+
+/**
+ * Maximum number of issue filter rules
+ */
+const MAX_ISSUE_FILTERS = 50;
+
+const ISSUE_FILTER_SCHEMA: ObjectSchema = {
+  action: { required: true, validate: oneOf(['include', 'exclude']) },
+  field: { required: true, validate: oneOf(['issueType', 'status', 'label', 'component', 'assignee', 'field']) },
+  fieldPath: { validate: fieldPath() },
+  operator: { required: true, validate: oneOf(['equals', 'in', 'contains', 'empty', 'before', 'after']) },
+  value: { validate: string() },
+};
+
+/**
+ * Field rules need a field path (other fields don't take one), and every operator
+ * except "empty" needs a value; dates of "before" / "after" rules must parse
+ */
+const validateIssueFilter: Validator = (rule, path, errors) => {
+  if (rule.field === 'field' && rule.fieldPath === undefined) {
+    addError(errors, childPath(path, 'fieldPath'), 'required', 'A field path is required when filtering on a field');
+  } else if (rule.field !== 'field' && rule.fieldPath !== undefined) {
+    addError(errors, childPath(path, 'fieldPath'), 'invalidValue', 'Only field rules have a field path');
+  }
+
+  // Values of the wrong type are reported by the schema
+  if (rule.operator === 'empty' || (rule.value !== undefined && typeof rule.value !== 'string')) {
+    return;
+  }
+  if (!rule.value?.trim()) {
+    addError(errors, childPath(path, 'value'), 'required', 'A value is required for this operator');
+  } else if ((rule.operator === 'before' || rule.operator === 'after') && !parseFilterDate(rule.value)) {
+    addError(errors, childPath(path, 'value'), 'invalidValue', 'Must be a date (e.g., "2025-11-14") or an offset from the report date (e.g., "-14d", "+2w")');
+  }
+};
+
+/**
+ * Issue filter rules (at most MAX_ISSUE_FILTERS)
+ */
+const issueFilters = (): Validator => (value, path, errors) => {
+  arrayOf(object(ISSUE_FILTER_SCHEMA, validateIssueFilter))(value, path, errors);
+  if (Array.isArray(value) && value.length > MAX_ISSUE_FILTERS) {
+    addError(errors, path, 'invalidValue', `Must have at most ${MAX_ISSUE_FILTERS} rules`);
+  }
+};
+
+/**
+ * Maximum number of aliases of a grouping field
+ */
+const MAX_VALUE_ALIASES = 200;
+
+const VALUE_ALIAS_SCHEMA: ObjectSchema = {
+  values: { required: true, validate: arrayOf(string({ nonEmpty: true, maxLength: 200 })) },
+  label: { required: true, validate: string({ nonEmpty: true, maxLength: 200 }) },
+};
+
+/**
+ * An alias renames at least one value
+ */
+const validateValueAlias: Validator = (alias, path, errors) => {
+  if (Array.isArray(alias.values) && alias.values.length === 0) {
+    addError(errors, childPath(path, 'values'), 'invalidValue', 'Must list at least one value');
+  }
+};
+
+/**
+ * Aliases of a grouping field (at most MAX_VALUE_ALIASES)
+ */
+const valueAliases = (): Validator => (value, path, errors) => {
+  arrayOf(object(VALUE_ALIAS_SCHEMA, validateValueAlias))(value, path, errors);
+  if (Array.isArray(value) && value.length > MAX_VALUE_ALIASES) {
+    addError(errors, path, 'invalidValue', `Must have at most ${MAX_VALUE_ALIASES} aliases`);
+  }
+};
+
+/**
+ * Aliases and order of a grouping field (category or initiative values)
+ */
+const groupValues = (): Validator => object({
+  aliases: { validate: valueAliases() },
+  sortOrder: { validate: oneOf(GROUP_SORT_ORDERS) },
+  manualOrder: { validate: arrayOf(string({ nonEmpty: true, maxLength: 200 })) },
+});
+
+/**
+ * A JQL source needs a query
+ */
+const validateJqlSource: Validator = (issueSelection, path, errors) => {
+  if (issueSelection.source === 'jql' && !(typeof issueSelection.jql === 'string' && issueSelection.jql.trim())) {
+    addError(errors, childPath(path, 'jql'), 'required', 'A JQL query is required when the report source is a JQL query');
+  }
+};
+
+/**
+ * Confluence pages need a space and a title when publishing is enabled;
+ * parent pages are numeric IDs and titles only use known placeholders
+ */
+const validateConfluencePublishing: Validator = (confluence, path, errors) => {
+  if (typeof confluence.parentPageId === 'string' && confluence.parentPageId && !/^\d+$/.test(confluence.parentPageId)) {
+    addError(errors, childPath(path, 'parentPageId'), 'invalidValue', 'Must be a page ID (digits only)');
+  }
+  if (typeof confluence.titlePattern === 'string') {
+    const unknown = getUnknownTitlePlaceholders(confluence.titlePattern);
+    if (unknown.length > 0) {
+      addError(errors, childPath(path, 'titlePattern'), 'invalidValue', `Unknown placeholder: {${unknown[0]}}`);
+    }
+  }
+  if (confluence.enabled !== true) {
+    return;
+  }
+  if (!(typeof confluence.spaceKey === 'string' && confluence.spaceKey.trim())) {
+    addError(errors, childPath(path, 'spaceKey'), 'required', 'A space key is required when publishing is enabled');
+  }
+  if (!(typeof confluence.titlePattern === 'string' && confluence.titlePattern.trim())) {
+    addError(errors, childPath(path, 'titlePattern'), 'required', 'A title pattern is required when publishing is enabled');
+  }
+};
+
+/**
+ * Schema of template settings
+ */
+const TEMPLATE_SCHEMA: ObjectSchema = {
+  name: { required: true, validate: string({ nonEmpty: true, maxLength: 100 }) },
+  description: { validate: string({ maxLength: 500 }) },
+  isShared: { validate: boolean() },
+  fieldMapping: {
+    required: true,
+    validate: object({
+      categoryField: { required: true, validate: fieldPath() },
+      initiativeField: { required: true, validate: fieldPath() },
+      categoryValues: { validate: groupValues() },
+      initiativeValues: { validate: groupValues() },
+      issueItemField: { required: true, validate: fieldPath() },
+      issueItemFormat: { validate: itemFormat() },
+      multiValueHandling: { required: true, validate: oneOf(['join', 'first', 'all']) },
+      multiValueSeparator: { required: true, validate: string() },
+    }),
+  },
+  issueSelection: {
+    required: true,
+    validate: object({
+      maxDepth: { required: true, validate: number({ integer: true, min: 0 }) },
+      includeNestedChildren: { required: true, validate: boolean() },
+      parentGroupingField: { required: true, validate: fieldPath() },
+      source: { validate: oneOf(['children', 'jql']) },
+      jql: { validate: string() },
+      filters: { validate: issueFilters() },
+    }, validateJqlSource),
+  },
+  statusMapping: {
+    validate: object({
+      rules: { required: true, validate: arrayOf(object(STATUS_MAPPING_RULE_SCHEMA, validateRegexRule)) },
+      defaultSection: { required: true, validate: oneOf(REPORT_SECTIONS) },
+    }),
+  },
+  sectionTiming: {
+    validate: object({
+      mode: { required: true, validate: oneOf(['status', 'timeWindow']) },
+      olderIssues: { required: true, validate: oneOf(['drop', 'older']) },
+    }),
+  },
+  timesheet: {
+    validate: object({
+      mode: { required: true, validate: oneOf(['totals', 'worklog']) },
+      hoursPerDay: { validate: number({ above: 0, max: 24 }) },
+      displayUnit: { validate: oneOf(['hours', 'days', 'daysHours']) },
+    }),
+  },
+  columns: { validate: reportColumns() },
+  groupBy: { validate: groupLevels() },
+  confluence: {
+    validate: object({
+      enabled: { required: true, validate: boolean() },
+      spaceKey: { required: true, validate: string({ maxLength: 255 }) },
+      parentPageId: { validate: string() },
+      titlePattern: { required: true, validate: string({ maxLength: MAX_PAGE_TITLE_LENGTH }) },
+    }, validateConfluencePublishing),
+  },
+};
+
+/**
+ * Validate a template payload
+ *
+ * @param data - Payload (request body or template settings of a bundle)
+ * @param options - Partial payload (update) and ignored keys
+ * @returns Violations (empty if the payload is valid)
+ */
+export function validateTemplate(data: unknown, options: TemplateValidationOptions = {}): TemplateFieldError[] {
+  const errors: TemplateFieldError[] = [];
+  checkObject(data, '', TEMPLATE_SCHEMA, errors, options);
+  return errors;
+}
+
+/**
+ * Describe validation errors in one message (e.g., for the "error" field of a 422 response)
+ *
+ * @param errors - Violations returned by validateTemplate
+ * @param pathPrefix - Prefix of the setting paths (e.g., "template." for a bundle)
+ */
+export function describeTemplateErrors(errors: TemplateFieldError[], pathPrefix: string = ''): string {
+  const [first] = errors;
+  const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+  return `Invalid template: ${pathPrefix}${first.path}: ${first.message}${more}`;
+}
@@ -0,0 +1,110 @@
+/**
+ * Time Format Utility
+ *
+ * Converts Jira time tracking values (seconds) to hours and man days and formats them
+ * for display. Shared by the timesheet (web report) and the Word / PowerPoint exports,
+ * so every output uses the same working-day length and display unit.
+ */
+
+import { TimesheetConfig, TimeDisplayUnit } from '../types/template';
+
+/**
+ * Working-day length and display unit used to convert and format time
+ */
+export interface TimeFormatOptions {
+  hoursPerDay: number;
+  displayUnit: TimeDisplayUnit;
+}
+
+/**
+ * Default time format: 8 hour days, shown as days and hours (e.g., "2d 4h")
+ */
+export const DEFAULT_TIME_FORMAT: TimeFormatOptions = {
+  hoursPerDay: 8,
+  displayUnit: 'daysHours',
+};
+
+const DISPLAY_UNITS: TimeDisplayUnit[] = ['hours', 'days', 'daysHours'];
+
+/**
+ * Get the time format of a template timesheet configuration
+ * Missing or invalid values fall back to the defaults
+ *
+ * @param timesheetConfig - Template timesheet configuration (optional for older templates)
+ */
+export function resolveTimeFormat(timesheetConfig?: TimesheetConfig): TimeFormatOptions {
+  const hoursPerDay = Number(timesheetConfig?.hoursPerDay);
+  const displayUnit = timesheetConfig?.displayUnit;
+  return {
+    hoursPerDay: hoursPerDay > 0 && hoursPerDay <= 24 ? hoursPerDay : DEFAULT_TIME_FORMAT.hoursPerDay,
+    displayUnit: displayUnit && DISPLAY_UNITS.includes(displayUnit) ? displayUnit : DEFAULT_TIME_FORMAT.displayUnit,
+  };
+}
+
+/**
+ * Convert seconds to hours (rounded to 2 decimals)
+ */
+export function secondsToHours(seconds: number | undefined | null): number {
+  if (!seconds || typeof seconds !== 'number' || isNaN(seconds)) {
+    return 0;
+  }
+  return Number((seconds / 3600).toFixed(2));
+}
+
+/**
+ * Convert hours to man days (rounded to 2 decimals)
+ */
+export function hoursToManDays(hours: number | undefined | null, hoursPerDay: number = DEFAULT_TIME_FORMAT.hoursPerDay): number {
+  if (!hours || typeof hours !== 'number' || isNaN(hours)) {
+    return 0;
+  }
+  return Number((hours / hoursPerDay).toFixed(2));
+}
+
+/**
+ * Format a number without trailing zeros (e.g., 1.5, 2, 0.25)
+ */
+const formatNumber = (value: number, decimals: number): string => String(Number(value.toFixed(decimals)));
+
+/**
+ * Format a duration for display
+ *
+ * - "hours": "12h", "7.5h"
+ * - "days": "1.5d"
+ * - "daysHours": "2d 3h", or hours only below one day (e.g., "6h")
+ *
+ * Negative durations (e.g., over-estimate remaining time) keep their sign.
+ *
+ * @param seconds - Duration in seconds
+ * @param options - Working-day length and display unit
+ * @returns Formatted duration ("0h" / "0d" when empty)
+ */
+export function formatDuration(seconds: number | undefined | null, options: TimeFormatOptions = DEFAULT_TIME_FORMAT): string {
+  const validSeconds = typeof seconds === 'number' && !isNaN(seconds) ? seconds : 0;
+  const sign = validSeconds < 0 ? '-' : '';
+  // Rounded to the half hour, which is what time tracking is usually logged in
+  const hours = Math.round((Math.abs(validSeconds) / 3600) * 2) / 2;
+
+  if (options.displayUnit === 'hours') {
+    return hours === 0 ? '0h' : `${sign}${formatNumber(hours, 1)}h`;
+  }
+
+  if (hours === 0) {
+    return '0d';
+  }
+
+  if (options.displayUnit === 'days') {
+    return `${sign}${formatNumber(hours / options.hoursPerDay, 2)}d`;
+  }
+
+  // Days and hours: below one day, show hours only
+  const wholeDays = Math.floor(hours / options.hoursPerDay);
+  const remainingHours = Number((hours - wholeDays * options.hoursPerDay).toFixed(1));
+  if (wholeDays === 0) {
+    return `${sign}${formatNumber(remainingHours, 1)}h`;
+  }
+  if (remainingHours === 0) {
+    return `${sign}${wholeDays}d`;
+  }
+  return `${sign}${wholeDays}d ${formatNumber(remainingHours, 1)}h`;
+}
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getISOWeekNumber,
+  getISOWeekYear,
+  getISOWeeksInYear,
+  getWeekBounds,
+  getWeekNumbers,
+  parseReferenceDate,
+  parseWorklogRange,
+} from './weekUtils';
+
+/**
+ * Local date (months are 1-based, unlike new Date)
+ */
+const date = (year: number, month: number, day: number): Date => new Date(year, month - 1, day);
+
+test('ISO weeks around New Year belong to the year of their Thursday', () => {
+  // Monday 2024-12-30 starts week 1 of 2025
+  assert.equal(getISOWeekNumber(date(2024, 12, 30)), 1);
+  assert.equal(getISOWeekYear(date(2024, 12, 30)), 2025);
+  // Friday 2027-01-01 ends week 53 of 2026
+  assert.equal(getISOWeekNumber(date(2027, 1, 1)), 53);
+  assert.equal(getISOWeekYear(date(2027, 1, 1)), 2026);
+  // Sunday 2023-01-01 ends week 52 of 2022
+  assert.equal(getISOWeekNumber(date(2023, 1, 1)), 52);
+  assert.equal(getISOWeekYear(date(2023, 1, 1)), 2022);
+});
+
+test('getWeekNumbers titles the report week with its ISO week-year', () => {
+  assert.deepEqual(getWeekNumbers(date(2024, 12, 30)), { lastWeek: 52, currentWeek: 1, nextWeek: 2, year: 2025 });
+  assert.deepEqual(getWeekNumbers(date(2026, 12, 31)), { lastWeek: 52, currentWeek: 53, nextWeek: 1, year: 2026 });
+  assert.deepEqual(getWeekNumbers(date(2027, 1, 4)), { lastWeek: 53, currentWeek: 1, nextWeek: 2, year: 2027 });
+});
+
+test('getISOWeeksInYear counts 53 weeks in long ISO years only', () => {
+  assert.equal(getISOWeeksInYear(2020), 53);
+  assert.equal(getISOWeeksInYear(2026), 53);
+  assert.equal(getISOWeeksInYear(2024), 52);
+  assert.equal(getISOWeeksInYear(2025), 52);
+});
+
+test('getWeekBounds spans Monday to the following Monday across the year boundary', () => {
+  const { lastWeek, currentWeek, nextWeek } = getWeekBounds(date(2025, 1, 1));
+
+  assert.deepEqual(currentWeek, { start: date(2024, 12, 30), end: date(2025, 1, 6) });
+  assert.deepEqual(lastWeek, { start: date(2024, 12, 23), end: date(2024, 12, 30) });
+  assert.deepEqual(nextWeek, { start: date(2025, 1, 6), end: date(2025, 1, 13) });
+});
+
+test('parseReferenceDate returns the Monday of an ISO week', () => {
+  assert.deepEqual(parseReferenceDate({ week: '2025-W46' }), date(2025, 11, 10));
+  assert.deepEqual(parseReferenceDate({ week: '2025W01' }), date(2024, 12, 30));
+  assert.deepEqual(parseReferenceDate({ week: '2026-w53' }), date(2026, 12, 28));
+  assert.deepEqual(parseReferenceDate({ week: '2020-W53' }), date(2020, 12, 28));
+});
+
+test('parseReferenceDate rejects week 53 in years with 52 ISO weeks', () => {
+  assert.throws(() => parseReferenceDate({ week: '2025-W53' }), /Invalid week: "2025-W53". 2025 has 52 ISO weeks/);
+  assert.throws(() => parseReferenceDate({ week: '2024-W53' }), /2024 has 52 ISO weeks/);
+});
+
+test('parseReferenceDate rejects malformed weeks and dates', () => {
+  assert.throws(() => parseReferenceDate({ week: '2025-W00' }), /Expected format: 2025-W46/);
+  assert.throws(() => parseReferenceDate({ week: '2025-W54' }), /Expected format: 2025-W46/);
+  assert.throws(() => parseReferenceDate({ week: '46' }), /Expected format: 2025-W46/);
+  assert.throws(() => parseReferenceDate({ asOf: '2025-02-30' }), /Invalid date: "2025-02-30"/);
+  assert.throws(() => parseReferenceDate({ asOf: '14/11/2025' }), /Expected format: YYYY-MM-DD/);
+});
+
+test('parseReferenceDate reads asOf as a local date and defaults to the current week', () => {
+  assert.deepEqual(parseReferenceDate({ asOf: '2025-11-14' }), date(2025, 11, 14));
+  // The week takes precedence over asOf
+  assert.deepEqual(parseReferenceDate({ week: '2025-W46', asOf: '2025-01-01' }), date(2025, 11, 10));
+  assert.equal(parseReferenceDate({}), undefined);
+  assert.equal(parseReferenceDate({ week: ' ', asOf: '' }), undefined);
+});
+
+test('parseWorklogRange defaults to the report week and includes the "to" date', () => {
+  assert.deepEqual(parseWorklogRange({}, date(2025, 1, 1)), { start: date(2024, 12, 30), end: date(2025, 1, 6) });
+  assert.deepEqual(
+    parseWorklogRange({ worklogFrom: '2024-12-20', worklogTo: '2025-01-02' }, date(2025, 1, 1)),
+    { start: date(2024, 12, 20), end: date(2025, 1, 3) }
+  );
+  // A single bound keeps the other bound of the report week
+  assert.deepEqual(parseWorklogRange({ worklogTo: '2025-01-03' }, date(2025, 1, 1)), { start: date(2024, 12, 30), end: date(2025, 1, 4) });
+});
+
+test('parseWorklogRange rejects empty periods and invalid dates', () => {
+  assert.throws(() => parseWorklogRange({ worklogFrom: '2025-01-10', worklogTo: '2025-01-09' }), /the start date must be before the end date/);
+  assert.throws(() => parseWorklogRange({ worklogFrom: '2025-13-01' }), /Invalid date: "2025-13-01"/);
+});
@@ -10,13 +10,34 @@ export function getISOWeekNumber(date: Date): number {
   return Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
 }
 
+/**
+ * Get the ISO week-year of a date: the year of the Thursday of its ISO week
+ * Differs from the calendar year around New Year (e.g., 2024-12-30 is in week 1 of 2025)
+ */
+export function getISOWeekYear(date: Date): number {
+  const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  thursday.setDate(thursday.getDate() + 4 - (thursday.getDay() || 7));
+  return thursday.getFullYear();
+}
+
+/**
+ * Get the number of ISO weeks of a year (52 or 53)
+ * December 28th is always in the last ISO week of its year
+ */
+export function getISOWeeksInYear(year: number): number {
+  return getISOWeekNumber(new Date(year, 11, 28));
+}
+
 /**
  * Get the current week number and calculate last/next week numbers
+ * The year is the ISO week-year of the current week, so "Week 1, 2025" can start in December 2024
+ * 
+ * @param referenceDate - Any date in the report week (defaults to now)
  */
-export function getWeekNumbers(): { lastWeek: number; currentWeek: number; nextWeek: number; year: number } {
-  const now = new Date();
+export function getWeekNumbers(referenceDate: Date = new Date()): { lastWeek: number; currentWeek: number; nextWeek: number; year: number } {
+  const now = new Date(referenceDate);
   const currentWeek = getISOWeekNumber(now);
-  const year = now.getFullYear();
+  const year = getISOWeekYear(now);
 
   // Calculate last week
   const lastWeekDate = new Date(now);
@@ -48,3 +69,138 @@ export function getWeekNumbers(): { lastWeek: number; currentWeek: number; nextW
   };
 }
 
+
+/**
+ * Date range of a week: start is Monday 00:00, end is the following Monday 00:00 (exclusive)
+ */
+export interface WeekRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Get the start (Monday 00:00, local time) of the ISO week containing a date
+ */
+export function getISOWeekStart(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const dayNum = start.getDay() || 7; // Sunday = 7
+  start.setDate(start.getDate() - (dayNum - 1));
+  return start;
+}
+
+/**
+ * Get the date bounds of last, current and next ISO weeks
+ * Used to decide which week column an issue belongs to based on its dates
+ * 
+ * @param referenceDate - Any date in the report week (defaults to now)
+ */
+export function getWeekBounds(referenceDate: Date = new Date()): { lastWeek: WeekRange; currentWeek: WeekRange; nextWeek: WeekRange } {
+  const currentStart = getISOWeekStart(referenceDate);
+  const addDays = (date: Date, days: number): Date => {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  };
+
+  return {
+    lastWeek: { start: addDays(currentStart, -7), end: currentStart },
+    currentWeek: { start: currentStart, end: addDays(currentStart, 7) },
+    nextWeek: { start: addDays(currentStart, 7), end: addDays(currentStart, 14) },
+  };
+}
+
+/**
+ * Parse a Jira date as a local date
+ * Date-only values (e.g., duedate "2025-11-14") are read as local midnight, like the week bounds,
+ * instead of UTC midnight as with new Date(); datetimes keep their time zone
+ * 
+ * @param value - Date ("YYYY-MM-DD") or ISO datetime
+ * @returns Date, or null if the value is not a valid date
+ */
+export function parseLocalDate(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = match
+    ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10))
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse the reference date of a report from request parameters
+ * 
+ * Supports:
+ * - week: ISO week string (e.g., "2025-W46")
+ * - asOf: calendar date (e.g., "2025-11-14")
+ * 
+ * @param params - Request query parameters
+ * @returns Reference date, or undefined when neither parameter is provided (current week)
+ * @throws Error if a parameter is provided but invalid
+ */
+export function parseReferenceDate(params: { week?: unknown; asOf?: unknown }): Date | undefined {
+  const { week, asOf } = params;
+
+  if (typeof week === 'string' && week.trim()) {
+    const match = week.trim().match(/^(\d{4})-?W(\d{1,2})$/i);
+    const weekNumber = match ? parseInt(match[2], 10) : 0;
+    if (!match || weekNumber < 1 || weekNumber > 53) {
+      throw new Error(`Invalid week: "${week}". Expected format: 2025-W46`);
+    }
+    const year = parseInt(match[1], 10);
+    // Week 53 only exists in long ISO years (it would otherwise roll over to week 1 of the next year)
+    if (weekNumber > getISOWeeksInYear(year)) {
+      throw new Error(`Invalid week: "${week}". ${year} has ${getISOWeeksInYear(year)} ISO weeks`);
+    }
+    // ISO week 1 is the week containing January 4th
+    const weekStart = getISOWeekStart(new Date(year, 0, 4));
+    weekStart.setDate(weekStart.getDate() + (weekNumber - 1) * 7);
+    return weekStart;
+  }
+
+  if (typeof asOf === 'string' && asOf.trim()) {
+    const match = asOf.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (match) {
+      const [year, month, day] = match.slice(1).map(part => parseInt(part, 10));
+      const date = new Date(year, month - 1, day);
+      // Reject dates that roll over (e.g., 2025-02-30)
+      if (date.getMonth() === month - 1 && date.getDate() === day) {
+        return date;
+      }
+    }
+    throw new Error(`Invalid date: "${asOf}". Expected format: YYYY-MM-DD`);
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse the worklog period of a report from request parameters
+ * 
+ * Supports worklogFrom and worklogTo calendar dates (e.g., "2025-11-01", both inclusive).
+ * A missing bound defaults to the matching bound of the report week.
+ * 
+ * @param params - Request query parameters
+ * @param referenceDate - Any date in the report week (defaults to now)
+ * @returns Date range (start inclusive, end exclusive)
+ * @throws Error if a date is invalid or the range is empty
+ */
+export function parseWorklogRange(
+  params: { worklogFrom?: unknown; worklogTo?: unknown },
+  referenceDate: Date = new Date()
+): WeekRange {
+  const { currentWeek } = getWeekBounds(referenceDate);
+  const from = parseReferenceDate({ asOf: params.worklogFrom });
+  const to = parseReferenceDate({ asOf: params.worklogTo });
+
+  const start = from || currentWeek.start;
+  let end = currentWeek.end;
+  if (to) {
+    // The "to" date is inclusive: the range ends at midnight the day after
+    end = new Date(to);
+    end.setDate(end.getDate() + 1);
+  }
+
+  if (end <= start) {
+    throw new Error('Invalid worklog period: the start date must be before the end date');
+  }
+  return { start, end };
+}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { api } from '../services/api';
 import { IssueSuggestion } from '../types';
+import { ISSUE_KEY_PATTERN } from '../utils/issueKey';
 import './AutoCompleteInput.css';
 
 interface AutoCompleteInputProps {
@@ -47,7 +48,7 @@ export const AutoCompleteInput: React.FC<AutoCompleteInputProps> = ({
     const query = value.trim();
     
     // Don't search if query is too short or looks like a complete key (e.g., "KAN-123")
-    if (query.length < 2 || /^[A-Z]+-\d+$/.test(query.toUpperCase())) {
+    if (query.length < 2 || ISSUE_KEY_PATTERN.test(query.toUpperCase())) {
       setSuggestions([]);
       setShowSuggestions(false);
       return;
@@ -112,14 +113,14 @@ export const AutoCompleteInput: React.FC<AutoCompleteInputProps> = ({
         if (selectedIndex >= 0 && selectedIndex < suggestions.length) {
           const suggestion = suggestions[selectedIndex];
           // Validate that the suggestion has a complete key format
-          if (suggestion.key && /^[A-Z]+-\d+$/i.test(suggestion.key.trim())) {
+          if (suggestion.key && ISSUE_KEY_PATTERN.test(suggestion.key.trim().toUpperCase())) {
             handleSelect(suggestion);
           }
         } else {
           // If no suggestion selected but user pressed Enter, try to use current input value
           // This allows typing "KAN-4" and pressing Enter without selecting from dropdown
           const trimmedValue = value.trim().toUpperCase();
-          if (trimmedValue && /^[A-Z]+-\d+$/.test(trimmedValue)) {
+          if (trimmedValue && ISSUE_KEY_PATTERN.test(trimmedValue)) {
             onChange(trimmedValue);
             onSelect(trimmedValue);
           }
@@ -1,23 +1,32 @@
 import React, { useState } from 'react';
 import { api } from '../services/api';
+import { PortfolioQuery, WorklogRange } from '../types';
 import './ExportButton.css';
 
 interface ExportButtonProps {
-  issueKey: string;
+  issueKey?: string;
+  portfolio?: PortfolioQuery | null; // Exports a portfolio report instead of a single ticket
+  jql?: string | null; // Exports a JQL report instead of a single ticket
   templateId?: string | null;
+  asOf?: string | null;
+  worklogRange?: WorklogRange | null; // Worklog period of worklog timesheets
 }
 
-export const ExportButton: React.FC<ExportButtonProps> = ({ issueKey, templateId }) => {
+export const ExportButton: React.FC<ExportButtonProps> = ({ issueKey, portfolio, jql, templateId, asOf, worklogRange }) => {
   const [loading, setLoading] = useState(false);
 
   const handleExport = async () => {
     setLoading(true);
     try {
-      const blob = await api.exportWord(issueKey, templateId || undefined);
+      const blob = portfolio
+        ? await api.exportPortfolioWord(portfolio, templateId || undefined, asOf || undefined, worklogRange || undefined)
+        : jql
+        ? await api.exportJqlWord(jql, templateId || undefined, asOf || undefined, worklogRange || undefined)
+        : await api.exportWord(issueKey || '', templateId || undefined, asOf || undefined, worklogRange || undefined);
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `ABC-Manager-Weekly-${issueKey}.docx`;
+      link.download = `ABC-Manager-Weekly-${portfolio ? 'Portfolio' : jql ? 'JQL' : issueKey}.docx`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { api } from '../services/api';
+import { WorklogRange } from '../types';
+import './ExportButton.css';
+
+interface ExportExcelButtonProps {
+  issueKey: string;
+  templateId?: string | null;
+  asOf?: string | null;
+  worklogRange?: WorklogRange | null; // Worklog period of worklog timesheets
+}
+
+export const ExportExcelButton: React.FC<ExportExcelButtonProps> = ({ issueKey, templateId, asOf, worklogRange }) => {
+  const [loading, setLoading] = useState(false);
+
+  const handleExport = async () => {
+    setLoading(true);
+    try {
+      const blob = await api.exportExcel(issueKey, templateId || undefined, asOf || undefined, worklogRange || undefined);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `ABC-Manager-Weekly-${issueKey}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      alert(`Failed to export: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <button 
+      className="export-button" 
+      onClick={handleExport}
+      disabled={loading}
+    >
+      {loading ? 'Exporting...' : 'Download Excel Workbook'}
+    </button>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { api } from '../services/api';
+import { MarkupFormat, WorklogRange } from '../types';
+import './ExportButton.css';
+
+interface ExportMarkupButtonProps {
+  issueKey: string;
+  format: MarkupFormat;
+  templateId?: string | null;
+  asOf?: string | null;
+  worklogRange?: WorklogRange | null; // Worklog period of worklog timesheets
+}
+
+const FORMAT_LABELS: Record<MarkupFormat, string> = {
+  markdown: 'Markdown',
+  confluence: 'Confluence',
+};
+
+const FORMAT_FILES: Record<MarkupFormat, { extension: string; type: string }> = {
+  markdown: { extension: 'md', type: 'text/markdown;charset=utf-8' },
+  confluence: { extension: 'confluence.html', type: 'text/html;charset=utf-8' },
+};
+
+/**
+ * Download and "copy to clipboard" buttons of a text export (Markdown or Confluence storage format)
+ */
+export const ExportMarkupButton: React.FC<ExportMarkupButtonProps> = ({ issueKey, format, templateId, asOf, worklogRange }) => {
+  const [loading, setLoading] = useState<'download' | 'copy' | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fetchContent = async (): Promise<string> => {
+    const { content } = await api.exportMarkup(issueKey, format, templateId || undefined, asOf || undefined, worklogRange || undefined);
+    return content;
+  };
+
+  const handleDownload = async () => {
+    setLoading('download');
+    try {
+      const content = await fetchContent();
+      const blob = new Blob([content], { type: FORMAT_FILES[format].type });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `ABC-Manager-Weekly-${issueKey}.${FORMAT_FILES[format].extension}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      alert(`Failed to export: ${error.message}`);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    setLoading('copy');
+    try {
+      const content = await fetchContent();
+      await navigator.clipboard.writeText(content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error: any) {
+      alert(`Failed to copy: ${error.message}`);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  return (
+    <>
+      <button 
+        className="export-button" 
+        onClick={handleDownload}
+        disabled={loading !== null}
+      >
+        {loading === 'download' ? 'Exporting...' : `Download ${FORMAT_LABELS[format]}`}
+      </button>
+      <button 
+        className="export-button" 
+        onClick={handleCopy}
+        disabled={loading !== null}
+      >
+        {loading === 'copy' ? 'Copying...' : copied ? 'Copied!' : `Copy ${FORMAT_LABELS[format]}`}
+      </button>
+    </>
+  );
+};
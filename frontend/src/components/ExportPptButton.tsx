@@ -1,23 +1,32 @@
 import React, { useState } from 'react';
 import { api } from '../services/api';
+import { PortfolioQuery, WorklogRange } from '../types';
 import './ExportButton.css';
 
 interface ExportPptButtonProps {
-  issueKey: string;
+  issueKey?: string;
+  portfolio?: PortfolioQuery | null; // Exports a portfolio report instead of a single ticket
+  jql?: string | null; // Exports a JQL report instead of a single ticket
   templateId?: string | null;
+  asOf?: string | null;
+  worklogRange?: WorklogRange | null; // Worklog period of worklog timesheets
 }
 
-export const ExportPptButton: React.FC<ExportPptButtonProps> = ({ issueKey, templateId }) => {
+export const ExportPptButton: React.FC<ExportPptButtonProps> = ({ issueKey, portfolio, jql, templateId, asOf, worklogRange }) => {
   const [loading, setLoading] = useState(false);
 
   const handleExport = async () => {
     setLoading(true);
     try {
-      const blob = await api.exportPpt(issueKey, templateId || undefined);
+      const blob = portfolio
+        ? await api.exportPortfolioPpt(portfolio, templateId || undefined, asOf || undefined, worklogRange || undefined)
+        : jql
+        ? await api.exportJqlPpt(jql, templateId || undefined, asOf || undefined, worklogRange || undefined)
+        : await api.exportPpt(issueKey || '', templateId || undefined, asOf || undefined, worklogRange || undefined);
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `ABC-Manager-Weekly-${issueKey}.pptx`;
+      link.download = `ABC-Manager-Weekly-${portfolio ? 'Portfolio' : jql ? 'JQL' : issueKey}.pptx`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
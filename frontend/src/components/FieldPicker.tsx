@@ -0,0 +1,136 @@
+/**
+ * Field Picker Component
+ * 
+ * Searchable list of the fields of the Jira site (system and custom fields),
+ * used by the template editor to pick a field instead of typing its path.
+ * The list can be limited to the fields of the create screens of a project.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { JiraFieldInfo } from '../types';
+import './FieldPicker.css';
+
+interface FieldPickerProps {
+  onSelect: (field: JiraFieldInfo) => void;
+  onClose: () => void;
+}
+
+/**
+ * Maximum number of fields listed (refine the search to find others)
+ */
+const MAX_LISTED_FIELDS = 50;
+
+/**
+ * Describe the type of a field (e.g., "option", "array of string")
+ */
+const describeType = (field: JiraFieldInfo): string => {
+  if (!field.schemaType) return 'unknown';
+  return field.itemsType ? `${field.schemaType} of ${field.itemsType}` : field.schemaType;
+};
+
+export const FieldPicker: React.FC<FieldPickerProps> = ({ onSelect, onClose }) => {
+  const [fields, setFields] = useState<JiraFieldInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [projectInput, setProjectInput] = useState('');
+  const [project, setProject] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    api.getJiraFields(project || undefined)
+      .then(fetchedFields => {
+        if (!cancelled) setFields(fetchedFields);
+      })
+      .catch(err => {
+        console.error('Failed to load Jira fields:', err);
+        if (!cancelled) {
+          setError(`Failed to load fields: ${err.response?.data?.error || err.message}`);
+          setFields([]);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [project]);
+
+  const query = search.trim().toLowerCase();
+  const matchingFields = query
+    ? fields.filter(field =>
+        field.name.toLowerCase().includes(query) ||
+        field.id.toLowerCase().includes(query) ||
+        field.path.toLowerCase().includes(query))
+    : fields;
+
+  return (
+    <div className="field-picker" onKeyDown={(e) => e.key === 'Escape' && onClose()}>
+      <div className="field-picker-toolbar">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search fields by name or ID"
+          aria-label="Search fields"
+          autoFocus
+        />
+        <input
+          type="text"
+          className="field-picker-project"
+          value={projectInput}
+          onChange={(e) => setProjectInput(e.target.value)}
+          onBlur={() => setProject(projectInput.trim().toUpperCase())}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              setProject(projectInput.trim().toUpperCase());
+            }
+          }}
+          placeholder="Project (optional)"
+          aria-label="Limit to the fields of a project"
+        />
+        <button type="button" className="field-button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      {error && <small className="helper-text error-text">{error}</small>}
+
+      {loading ? (
+        <div className="field-picker-message">Loading fields...</div>
+      ) : matchingFields.length === 0 ? (
+        <div className="field-picker-message">
+          {query ? `No fields match "${search}".` : 'No fields found.'}
+        </div>
+      ) : (
+        <ul className="field-picker-list">
+          {matchingFields.slice(0, MAX_LISTED_FIELDS).map(field => (
+            <li key={field.id}>
+              <button type="button" onClick={() => onSelect(field)}>
+                <span className="field-picker-name">{field.name}</span>
+                <span className="field-picker-path">{field.path}</span>
+                <span className="field-picker-badges">
+                  <span className="field-picker-badge">{describeType(field)}</span>
+                  {field.custom && <span className="field-picker-badge">custom</span>}
+                  {field.multiValued && <span className="field-picker-badge">multi-value</span>}
+                  {field.required && <span className="field-picker-badge required">required</span>}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {matchingFields.length > MAX_LISTED_FIELDS && (
+        <small className="helper-text">
+          {matchingFields.length - MAX_LISTED_FIELDS} more fields, refine the search to find them
+        </small>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,15 @@
 import React from 'react';
-import { ReportRow, WeekNumbers } from '../types';
+import { ReportRow, ReportColumn, ReportGroupLevel, ReportTableLine } from '../types';
+import { getReportCellValue, buildReportTableLines, getSubtotalCellValue } from '../utils/reportColumns';
 import './IssueTable.css';
 
 interface IssueTableProps {
   rows: ReportRow[];
-  weekNumbers?: WeekNumbers;
+  columns: ReportColumn[]; // Columns of the template, resolved by the backend
+  groupLevels?: ReportGroupLevel[]; // Grouping levels of the template (sub-headers and subtotals)
 }
 
-export const IssueTable: React.FC<IssueTableProps> = ({ rows, weekNumbers }) => {
+export const IssueTable: React.FC<IssueTableProps> = ({ rows, columns, groupLevels = [] }) => {
   const formatList = (items: string[]) => {
     if (items.length === 0) return '-';
     return items.map((item, index) => (
@@ -15,55 +17,61 @@ export const IssueTable: React.FC<IssueTableProps> = ({ rows, weekNumbers }) =>
     ));
   };
 
-  // Use provided week numbers or calculate them
-  const getWeekNumbers = (): WeekNumbers => {
-    if (weekNumbers) return weekNumbers;
-    
-    // Calculate ISO week numbers on client side if not provided
-    const now = new Date();
-    const getISOWeek = (date: Date): number => {
-      const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
-      const dayNum = d.getUTCDay() || 7;
-      d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-      const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-      return Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-    };
+  const formatCell = (row: ReportRow, column: ReportColumn) => {
+    const value = getReportCellValue(row, column);
+    return Array.isArray(value) ? formatList(value) : value || '-';
+  };
 
-    const currentWeek = getISOWeek(now);
-    const lastWeekDate = new Date(now);
-    lastWeekDate.setDate(lastWeekDate.getDate() - 7);
-    const lastWeek = getISOWeek(lastWeekDate);
-    const nextWeekDate = new Date(now);
-    nextWeekDate.setDate(nextWeekDate.getDate() + 7);
-    const nextWeek = getISOWeek(nextWeekDate);
+  const lines = buildReportTableLines(rows, groupLevels);
+  const getParentKey = (line: ReportTableLine) => (line.type === 'row' ? line.row.parentKey : line.parentKey);
 
-    return { lastWeek, currentWeek, nextWeek, year: now.getFullYear() };
+  // Portfolio reports: lines are grouped by parent ticket, shown as one merged cell per parent
+  const hasParent = rows.some(row => !!row.parentKey);
+  const getParentRowSpan = (index: number): number => {
+    const parentKey = getParentKey(lines[index]);
+    if (index > 0 && getParentKey(lines[index - 1]) === parentKey) {
+      return 0; // Covered by the merged cell of a previous line
+    }
+    let span = 1;
+    while (index + span < lines.length && getParentKey(lines[index + span]) === parentKey) {
+      span++;
+    }
+    return span;
   };
 
-  const weeks = getWeekNumbers();
+  const renderLineCells = (line: ReportTableLine) => {
+    switch (line.type) {
+      case 'header':
+        return (
+          <td colSpan={columns.length} className={`group-header-cell group-level-${line.level}`}>
+            {line.text}
+          </td>
+        );
+      case 'subtotal':
+        return columns.map((column, columnIndex) => (
+          <td key={column.id}>{getSubtotalCellValue(line, column, columnIndex)}</td>
+        ));
+      default:
+        return columns.map(column => <td key={column.id}>{formatCell(line.row, column)}</td>);
+    }
+  };
 
   return (
     <div className="table-container">
       <table className="issue-table">
         <thead>
           <tr>
-            <th>Category</th>
-            <th>Initiative</th>
-            <th>Last week (Week {weeks.lastWeek})</th>
-            <th>Current Week (Week {weeks.currentWeek})</th>
-            <th>Next Week (Week {weeks.nextWeek})</th>
-            <th>Later</th>
+            {hasParent && <th>Parent</th>}
+            {columns.map(column => <th key={column.id}>{column.label}</th>)}
           </tr>
         </thead>
         <tbody>
-          {rows.map((row, index) => (
-            <tr key={index}>
-              <td>{row.category}</td>
-              <td>{row.initiative}</td>
-              <td>{formatList(row.lastWeek)}</td>
-              <td>{formatList(row.currentWeek)}</td>
-              <td>{formatList(row.nextWeek)}</td>
-              <td>{formatList(row.later)}</td>
+          {lines.map((line, index) => (
+            <tr key={index} className={line.type === 'row' ? undefined : `${line.type}-row`}>
+              {hasParent && getParentRowSpan(index) > 0 && (
+                <td rowSpan={getParentRowSpan(index)} className="parent-key-cell">{getParentKey(line) || '-'}</td>
+              )}
+              {renderLineCells(line)}
             </tr>
           ))}
         </tbody>
@@ -71,4 +79,3 @@ export const IssueTable: React.FC<IssueTableProps> = ({ rows, weekNumbers }) =>
     </div>
   );
 };
-
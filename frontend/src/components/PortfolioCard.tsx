@@ -0,0 +1,73 @@
+import React from 'react';
+import { PortfolioQuery, PortfolioReportData, WorklogRange } from '../types';
+import { ExportButton } from './ExportButton';
+import { ExportPptButton } from './ExportPptButton';
+import { normalizeStatusForClass, getStatusCategory } from '../utils/statusUtils';
+import './PortfolioCard.css';
+
+interface PortfolioCardProps {
+  portfolioData: PortfolioReportData;
+  portfolio: PortfolioQuery; // Query the report was loaded with, reused for exports
+  templateId?: string | null;
+  asOf?: string | null;
+  worklogRange?: WorklogRange | null;
+}
+
+/**
+ * Portfolio Card
+ * 
+ * Lists the parent tickets of a portfolio report, with combined export buttons.
+ */
+export const PortfolioCard: React.FC<PortfolioCardProps> = ({ portfolioData, portfolio, templateId, asOf, worklogRange }) => {
+  return (
+    <div className="parent-issue-card">
+      <div className="parent-issue-header">
+        <h2>Portfolio ({portfolioData.parentIssues.length} tickets)</h2>
+        <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+          <ExportButton portfolio={portfolio} templateId={templateId} asOf={asOf} worklogRange={worklogRange} />
+          <ExportPptButton portfolio={portfolio} templateId={templateId} asOf={asOf} worklogRange={worklogRange} />
+        </div>
+      </div>
+      <div className="parent-issue-content">
+        <table className="portfolio-parents">
+          <thead>
+            <tr>
+              <th>Ticket</th>
+              <th>Summary</th>
+              <th>Type</th>
+              <th>Assignee</th>
+              <th>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {portfolioData.parentIssues.map(parent => (
+              <tr key={parent.key}>
+                <td className="portfolio-parent-key">{parent.key}</td>
+                <td>{parent.summary}</td>
+                <td>{parent.issuetype}</td>
+                <td>{parent.assignee || '-'}</td>
+                <td>
+                  <span className={`meta-value status status-${normalizeStatusForClass(parent.status)} status-${getStatusCategory(parent.section)}`}>
+                    {parent.status}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="parent-issue-meta">
+          <div className="meta-item">
+            <span className="meta-label">Children:</span>
+            <span className="meta-value">{portfolioData.childrenCount}</span>
+          </div>
+          {!!portfolioData.filteredOutCount && (
+            <div className="meta-item">
+              <span className="meta-label">Filtered out:</span>
+              <span className="meta-value">{portfolioData.filteredOutCount}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { ConfluencePublishResult, WorklogRange } from '../types';
+import './ExportButton.css';
+
+interface PublishConfluenceButtonProps {
+  issueKey: string;
+  templateId?: string | null;
+  asOf?: string | null;
+  worklogRange?: WorklogRange | null; // Worklog period of worklog timesheets
+}
+
+/**
+ * Publish the report to the Confluence page of the report week
+ * Only shown when the selected template has Confluence publishing enabled
+ */
+export const PublishConfluenceButton: React.FC<PublishConfluenceButtonProps> = ({ issueKey, templateId, asOf, worklogRange }) => {
+  const [enabled, setEnabled] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<ConfluencePublishResult | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Templates edited in the template manager can enable or disable publishing
+  useEffect(() => {
+    const handleRefresh = () => setRefreshKey(prev => prev + 1);
+    window.addEventListener('templates-refresh', handleRefresh);
+    return () => {
+      window.removeEventListener('templates-refresh', handleRefresh);
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResult(null);
+    if (!templateId) {
+      setEnabled(false);
+      return;
+    }
+    api.getTemplate(templateId)
+      .then(template => {
+        if (!cancelled) setEnabled(!!template.confluence?.enabled);
+      })
+      .catch(() => {
+        if (!cancelled) setEnabled(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId, refreshKey]);
+
+  const handlePublish = async () => {
+    setLoading(true);
+    try {
+      setResult(await api.publishConfluence(issueKey, templateId || undefined, asOf || undefined, worklogRange || undefined));
+    } catch (error: any) {
+      alert(`Failed to publish: ${error.response?.data?.error || error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!enabled) {
+    return null;
+  }
+
+  return (
+    <>
+      <button 
+        className="export-button" 
+        onClick={handlePublish}
+        disabled={loading}
+      >
+        {loading ? 'Publishing...' : 'Publish to Confluence'}
+      </button>
+      {result && (
+        <span className="publish-result">
+          {result.created ? 'Page created' : `Page updated (version ${result.version})`}:{' '}
+          {result.url
+            ? <a href={result.url} target="_blank" rel="noopener noreferrer">{result.title}</a>
+            : result.title}
+        </span>
+      )}
+    </>
+  );
+};
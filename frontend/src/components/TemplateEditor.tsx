@@ -2,14 +2,93 @@
  * Template Editor Component
  * 
  * Modal/form component for creating and editing report templates.
- * Allows users to configure field mappings for Category, Initiative, and Issue Items.
+ * Allows users to configure field mappings for Category, Initiative, and Issue Items,
+ * the status mapping that decides which week column each issue lands in,
+ * the aliases and order of category and initiative values,
+ * the include/exclude filters applied to the issues,
+ * the ordered columns of the report table (built-in columns and aggregated fields),
+ * and the grouping levels of the rows (sub-headers and subtotals).
+ * Settings are validated by the backend while they are edited (same rules as when saving),
+ * and errors are shown next to each setting.
+ * Field paths can be typed or picked from the fields of the Jira site (FieldPicker),
+ * and the template can be previewed side by side on a sample ticket before saving.
  */
 
 import React, { useState, useEffect } from 'react';
 import { api } from '../services/api';
-import { ReportTemplate, FieldMappingConfig, IssueSelectionConfig, COMMON_FIELD_PATHS } from '../types/template';
+import { FieldPicker } from './FieldPicker';
+import { TemplatePreviewPanel } from './TemplatePreviewPanel';
+import { JiraFieldInfo, FieldPathPreview, TemplatePreview } from '../types';
+import {
+  ReportTemplate,
+  TemplateCreateRequest,
+  FieldMappingConfig,
+  IssueSelectionConfig,
+  StatusMappingConfig,
+  StatusMappingRule,
+  SectionTimingConfig,
+  TimesheetConfig,
+  ConfluencePublishConfig,
+  TimeDisplayUnit,
+  ReportSection,
+  ReportColumnConfig,
+  ReportColumnSource,
+  ReportColumnAggregation,
+  GroupLevelConfig,
+  GroupLevelSource,
+  StatusMatchType,
+  IssueFilterRule,
+  GroupValueConfig,
+  GroupSortOrder,
+  ValueAlias,
+  IssueFilterField,
+  IssueFilterOperator,
+  TemplateFieldError,
+  COMMON_FIELD_PATHS,
+  DEFAULT_SECTION_TIMING,
+  DEFAULT_TIMESHEET_CONFIG,
+  DEFAULT_REPORT_COLUMNS,
+  DEFAULT_GROUP_BY,
+  DEFAULT_CONFLUENCE_PUBLISHING,
+  PAGE_TITLE_PLACEHOLDERS,
+  REPORT_COLUMN_SOURCES,
+  REPORT_COLUMN_AGGREGATIONS,
+  GROUP_SORT_ORDERS,
+  GROUP_LEVEL_SOURCES,
+  ISSUE_FILTER_FIELDS,
+  ISSUE_FILTER_OPERATORS,
+  REPORT_SECTIONS,
+  STATUS_MATCH_TYPES,
+  TIME_DISPLAY_UNITS,
+} from '../types/template';
 import './TemplateEditor.css';
 
+/**
+ * Example issue item format (key, summary, assignee and due date)
+ */
+const ITEM_FORMAT_EXAMPLE = '{key} {fields.summary} ({fields.assignee | default:Unassigned}, due {fields.duedate | date:DD/MM | default:none})';
+
+/**
+ * Maximum number of grouping levels (same limit as the backend validation)
+ */
+const MAX_GROUP_LEVELS = 4;
+
+/**
+ * Settings that can be picked from the Jira fields: field mapping settings,
+ * or the field path of a report column (by index)
+ */
+type PickableField = 'categoryField' | 'initiativeField' | 'issueItemField' | number;
+
+/**
+ * Field mapping settings holding the aliases and order of a grouping field
+ */
+type GroupValuesKey = 'categoryValues' | 'initiativeValues';
+
+/**
+ * Status mapping shown until the default rules are loaded from the backend
+ */
+const EMPTY_STATUS_MAPPING: StatusMappingConfig = { rules: [], defaultSection: 'later' };
+
 interface TemplateEditorProps {
   template: ReportTemplate | null;
   isOpen: boolean;
@@ -38,8 +117,19 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({
     includeNestedChildren: false,
     parentGroupingField: 'fields.parent.key',
   });
+  const [statusMapping, setStatusMapping] = useState<StatusMappingConfig>(EMPTY_STATUS_MAPPING);
+  const [defaultStatusMapping, setDefaultStatusMapping] = useState<StatusMappingConfig | null>(null);
+  const [sectionTiming, setSectionTiming] = useState<SectionTimingConfig>(DEFAULT_SECTION_TIMING);
+  const [timesheet, setTimesheet] = useState<TimesheetConfig>(DEFAULT_TIMESHEET_CONFIG);
+  const [columns, setColumns] = useState<ReportColumnConfig[]>(DEFAULT_REPORT_COLUMNS);
+  const [groupBy, setGroupBy] = useState<GroupLevelConfig[]>(DEFAULT_GROUP_BY);
+  const [confluence, setConfluence] = useState<ConfluencePublishConfig>(DEFAULT_CONFLUENCE_PUBLISHING);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<TemplateFieldError[]>([]);
+  const [pickerField, setPickerField] = useState<PickableField | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
 
   useEffect(() => {
     if (template) {
@@ -48,6 +138,12 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({
       setIsShared(template.isShared);
       setFieldMapping(template.fieldMapping);
       setIssueSelection(template.issueSelection);
+      setStatusMapping(template.statusMapping || EMPTY_STATUS_MAPPING);
+      setSectionTiming(template.sectionTiming || DEFAULT_SECTION_TIMING);
+      setTimesheet(template.timesheet || DEFAULT_TIMESHEET_CONFIG);
+      setColumns(template.columns || DEFAULT_REPORT_COLUMNS);
+      setGroupBy(template.groupBy || DEFAULT_GROUP_BY);
+      setConfluence(template.confluence || DEFAULT_CONFLUENCE_PUBLISHING);
     } else {
       // Reset to defaults for new template
       setName('');
@@ -65,12 +161,329 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({
         includeNestedChildren: false,
         parentGroupingField: 'fields.parent.key',
       });
+      setStatusMapping(EMPTY_STATUS_MAPPING);
+      setSectionTiming(DEFAULT_SECTION_TIMING);
+      setTimesheet(DEFAULT_TIMESHEET_CONFIG);
+      setColumns(DEFAULT_REPORT_COLUMNS);
+      setGroupBy(DEFAULT_GROUP_BY);
+      setConfluence(DEFAULT_CONFLUENCE_PUBLISHING);
     }
     setError(null);
+    setFieldErrors([]);
+    setPickerField(null);
+    setPreview(null);
   }, [template, isOpen]);
 
+  // Load the default status mapping: status rules are defined and evaluated by the backend only
+  useEffect(() => {
+    if (!isOpen || defaultStatusMapping) return;
+
+    api.getDefaultStatusMapping()
+      .then(setDefaultStatusMapping)
+      .catch(err => {
+        console.error('Failed to load default status mapping:', err);
+      });
+  }, [isOpen, defaultStatusMapping]);
+
+  // New templates and templates without status mapping start from the default rules
+  useEffect(() => {
+    if (defaultStatusMapping && !template?.statusMapping) {
+      setStatusMapping(defaultStatusMapping);
+    }
+  }, [template, isOpen, defaultStatusMapping]);
+
+  // Validate the settings while they are edited (debounced)
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      api.validateTemplate({
+        name,
+        description,
+        isShared,
+        fieldMapping,
+        issueSelection,
+        statusMapping,
+        sectionTiming,
+        timesheet,
+        columns,
+        groupBy,
+        confluence,
+      })
+        .then(result => {
+          if (!cancelled) setFieldErrors(result.errors);
+        })
+        .catch(err => {
+          // Not blocking: the settings are validated again when saving
+          console.error('Failed to validate template:', err);
+        });
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, name, description, isShared, fieldMapping, issueSelection, statusMapping, sectionTiming, timesheet, columns, groupBy, confluence]);
+
+  const updateStatusRule = (index: number, updates: Partial<StatusMappingRule>) => {
+    setStatusMapping({
+      ...statusMapping,
+      rules: statusMapping.rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)),
+    });
+  };
+
+  const moveStatusRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= statusMapping.rules.length) return;
+    const rules = [...statusMapping.rules];
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    setStatusMapping({ ...statusMapping, rules });
+  };
+
+  const updateGroupValues = (key: GroupValuesKey, updates: Partial<GroupValueConfig>) => {
+    setFieldMapping({ ...fieldMapping, [key]: { ...fieldMapping[key], ...updates } });
+  };
+
+  const updateValueAlias = (key: GroupValuesKey, index: number, updates: Partial<ValueAlias>) => {
+    updateGroupValues(key, {
+      aliases: (fieldMapping[key]?.aliases || []).map((alias, i) => (i === index ? { ...alias, ...updates } : alias)),
+    });
+  };
+
+  const updateFilterRule = (index: number, updates: Partial<IssueFilterRule>) => {
+    setIssueSelection({
+      ...issueSelection,
+      filters: (issueSelection.filters || []).map((rule, i) => {
+        if (i !== index) return rule;
+        const updated = { ...rule, ...updates };
+        // The field path only applies to "field" rules, the value to operators other than "empty"
+        if (updated.field !== 'field') delete updated.fieldPath;
+        if (updated.operator === 'empty') delete updated.value;
+        return updated;
+      }),
+    });
+  };
+
+  const updateColumn = (index: number, updates: Partial<ReportColumnConfig>) => {
+    setColumns(columns.map((column, i) => (i === index ? { ...column, ...updates } : column)));
+  };
+
+  /**
+   * Change the source of a column (field path and aggregation only apply to field columns)
+   */
+  const changeColumnSource = (index: number, source: ReportColumnSource) => {
+    setColumns(columns.map((column, i) => {
+      if (i !== index) return column;
+      return source === 'field'
+        ? { source, label: column.label || '', fieldPath: '', aggregation: 'first' }
+        : { source, ...(column.label ? { label: column.label } : {}) };
+    }));
+  };
+
+  const moveColumn = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= columns.length) return;
+    const reordered = [...columns];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setColumns(reordered);
+  };
+
+  const updateGroupLevel = (index: number, updates: Partial<GroupLevelConfig>) => {
+    setGroupBy(groupBy.map((level, i) => (i === index ? { ...level, ...updates } : level)));
+  };
+
+  /**
+   * Change the source of a grouping level (field path and sort order only apply to field levels)
+   */
+  const changeGroupLevelSource = (index: number, source: GroupLevelSource) => {
+    setGroupBy(groupBy.map((level, i) => {
+      if (i !== index) return level;
+      const { label, subtotals } = level;
+      return {
+        source,
+        ...(source === 'field' ? { fieldPath: '' } : {}),
+        ...(label ? { label } : {}),
+        ...(subtotals ? { subtotals } : {}),
+      };
+    }));
+  };
+
+  const moveGroupLevel = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= groupBy.length) return;
+    const reordered = [...groupBy];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setGroupBy(reordered);
+  };
+
+  const isInvalidRegex = (rule: StatusMappingRule): boolean => {
+    if (rule.matchType !== 'regex') return false;
+    try {
+      new RegExp(rule.value, 'i');
+      return false;
+    } catch {
+      return true;
+    }
+  };
+
+  /**
+   * Validation messages of a setting (e.g., "fieldMapping.categoryField")
+   */
+  const renderFieldErrors = (path: string) => fieldErrors
+    .filter(fieldError => fieldError.path === path)
+    .map(fieldError => (
+      <small key={`${fieldError.path}-${fieldError.code}`} className="helper-text error-text">
+        {fieldError.message}
+      </small>
+    ));
+
+  /**
+   * Aliases and order of the category or initiative values
+   */
+  const renderGroupValues = (key: GroupValuesKey, label: string) => {
+    const config = fieldMapping[key] || {};
+    const aliases = config.aliases || [];
+    const groupErrors = fieldErrors.filter(fieldError => fieldError.path.startsWith(`fieldMapping.${key}`));
+
+    return (
+      <div className="form-group">
+        <label htmlFor={`${key}-sort-order`}>{label} Values</label>
+        <div className="status-rules">
+          {aliases.map((alias, index) => (
+            <div key={index} className="status-rule">
+              <input
+                type="text"
+                value={alias.values.join(',')}
+                onChange={(e) => updateValueAlias(key, index, { values: e.target.value.split(',') })}
+                placeholder="e.g., payments, paiement"
+                aria-label="Values renamed (comma-separated)"
+                required
+              />
+              <span className="status-rule-arrow">→</span>
+              <input
+                type="text"
+                value={alias.label}
+                onChange={(e) => updateValueAlias(key, index, { label: e.target.value })}
+                placeholder="e.g., Payments"
+                aria-label="Shown as"
+                required
+              />
+              <button
+                type="button"
+                className="field-button"
+                onClick={() => updateGroupValues(key, { aliases: aliases.filter((_, i) => i !== index) })}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+        {groupErrors.map(fieldError => {
+          const aliasIndex = fieldError.path.match(/aliases\[(\d+)\]/)?.[1];
+          return (
+            <small key={`${fieldError.path}-${fieldError.code}`} className="helper-text error-text">
+              {aliasIndex !== undefined ? `Alias ${Number(aliasIndex) + 1}: ` : ''}{fieldError.message}
+            </small>
+          );
+        })}
+        <div className="common-fields">
+          <button
+            type="button"
+            className="field-button"
+            onClick={() => updateGroupValues(key, { aliases: [...aliases, { values: [''], label: '' }] })}
+          >
+            + Add alias
+          </button>
+        </div>
+        <select
+          id={`${key}-sort-order`}
+          value={config.sortOrder || 'source'}
+          onChange={(e) => updateGroupValues(key, { sortOrder: e.target.value as GroupSortOrder })}
+        >
+          {GROUP_SORT_ORDERS.map(order => (
+            <option key={order.value} value={order.value}>{order.label}</option>
+          ))}
+        </select>
+        {config.sortOrder === 'manual' && (
+          <textarea
+            value={(config.manualOrder || []).join('\n')}
+            onChange={(e) => updateGroupValues(key, { manualOrder: e.target.value ? e.target.value.split('\n') : [] })}
+            placeholder="One value per line, in display order"
+            aria-label={`${label} order`}
+            rows={4}
+          />
+        )}
+        <small className="helper-text">
+          Aliases rename values (case-insensitive) so spellings of the same {label.toLowerCase()} share a row.
+          Values missing from a manual order come after the listed ones, alphabetically.
+        </small>
+      </div>
+    );
+  };
+
+  const selectJiraField = (target: PickableField, field: JiraFieldInfo) => {
+    if (typeof target === 'number') {
+      updateColumn(target, { fieldPath: field.path, label: columns[target].label || field.name });
+    } else {
+      setFieldMapping({ ...fieldMapping, [target]: field.path });
+    }
+    setPickerField(null);
+  };
+
+  /**
+   * Toggle button and picker of the Jira fields for a field mapping setting
+   */
+  const renderFieldPicker = (target: PickableField) => (
+    <>
+      <button
+        type="button"
+        className="field-button browse-fields-button"
+        onClick={() => setPickerField(pickerField === target ? null : target)}
+      >
+        {pickerField === target ? 'Hide Jira fields' : 'Browse Jira fields…'}
+      </button>
+      {pickerField === target && (
+        <FieldPicker
+          onSelect={(field) => selectJiraField(target, field)}
+          onClose={() => setPickerField(null)}
+        />
+      )}
+    </>
+  );
+
+  /**
+   * Warning when the previewed field path resolved to no value on every issue
+   * (only while the setting still holds the previewed path)
+   */
+  const renderPreviewWarning = (setting: FieldPathPreview['setting'], path: string) => {
+    const fieldPath = preview?.fieldPaths.find(previewed => previewed.setting === setting);
+    if (!fieldPath?.alwaysNull || fieldPath.path !== path) return null;
+    return (
+      <small className="helper-text warning-text">
+        ⚠ No value on any of the {fieldPath.issueCount} previewed issues of {preview!.issueKey}
+      </small>
+    );
+  };
+
+  // Placeholders of the item format that resolved to no value on every previewed issue
+  const formatPreviewWarnings = preview?.fieldPaths
+    .filter(fieldPath => fieldPath.setting === 'fieldMapping.issueItemFormat' && fieldPath.alwaysNull
+      && (fieldMapping.issueItemFormat || '').includes(fieldPath.path))
+    .map(fieldPath => (
+      <small key={fieldPath.path} className="helper-text warning-text">
+        ⚠ {fieldPath.path}: no value on any of the {fieldPath.issueCount} previewed issues of {preview.issueKey}
+      </small>
+    ));
+
+  const statusRuleErrors = fieldErrors.filter(fieldError => fieldError.path.startsWith('statusMapping.rules['));
+  const filterRuleErrors = fieldErrors.filter(fieldError => fieldError.path.startsWith('issueSelection.filters'));
+  const columnErrors = fieldErrors.filter(fieldError => fieldError.path.startsWith('columns'));
+  const groupLevelErrors = fieldErrors.filter(fieldError => fieldError.path.startsWith('groupBy'));
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
     setSaving(true);
     setError(null);
 
@@ -97,17 +510,29 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({
           isShared,
           fieldMapping,
           issueSelection,
+          statusMapping,
+          sectionTiming,
+          timesheet,
+          columns,
+          groupBy,
+          confluence,
         });
       } else {
         // Create new template
         // If userId is available from sessionStorage, pass it
         // Otherwise, let the backend extract it from JWT/Connect context
-        const templateData: any = {
+        const templateData: TemplateCreateRequest = {
           name,
           description,
           isShared,
           fieldMapping,
           issueSelection,
+          statusMapping,
+          sectionTiming,
+          timesheet,
+          columns,
+          groupBy,
+          confluence,
         };
         
         // Only include userId if we have it from sessionStorage
@@ -123,6 +548,10 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({
       onClose();
     } catch (err: any) {
       console.error('Failed to save template:', err);
+      // 422: the settings are invalid, show the error of each setting
+      if (Array.isArray(err.response?.data?.errors)) {
+        setFieldErrors(err.response.data.errors);
+      }
       setError(err.response?.data?.error || err.message || 'Failed to save template');
     } finally {
       setSaving(false);
@@ -131,263 +560,952 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({
 
   if (!isOpen) return null;
 
+  const templateSettings = {
+    name,
+    description,
+    isShared,
+    fieldMapping,
+    issueSelection,
+    statusMapping,
+    sectionTiming,
+    timesheet,
+    columns,
+    groupBy,
+    confluence,
+  };
+
   return (
     <div className="template-editor-overlay" onClick={onClose}>
-      <div className="template-editor-modal" onClick={(e) => e.stopPropagation()}>
+      <div
+        className={`template-editor-modal ${showPreview ? 'with-preview' : ''}`}
+        onClick={(e) => e.stopPropagation()}
+      >
         <div className="template-editor-header">
           <h2>{template ? 'Edit Template' : 'Create New Template'}</h2>
-          <button className="close-button" onClick={onClose} type="button">×</button>
+          <div className="template-editor-header-actions">
+            <button type="button" className="field-button" onClick={() => setShowPreview(!showPreview)}>
+              {showPreview ? 'Hide preview' : 'Preview'}
+            </button>
+            <button className="close-button" onClick={onClose} type="button">×</button>
+          </div>
         </div>
 
-        <form onSubmit={handleSubmit} className="template-editor-form">
-          {error && (
-            <div className="error-message">
-              {error}
+        <div className="template-editor-body">
+          <form onSubmit={handleSubmit} className="template-editor-form">
+            {error && (
+              <div className="error-message">
+                {error}
+                {fieldErrors.length > 0 && (
+                  <ul className="field-error-list">
+                    {fieldErrors.map(fieldError => (
+                      <li key={`${fieldError.path}-${fieldError.code}`}>
+                        <code>{fieldError.path}</code>: {fieldError.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <div className="form-group">
+              <label htmlFor="template-name">
+                Template Name <span className="required">*</span>
+              </label>
+              <input
+                id="template-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+                disabled={template?.name === 'Default'}
+                placeholder="e.g., My Custom Template"
+              />
+              {template?.name === 'Default' && (
+                <small className="helper-text">Default template name cannot be changed</small>
+              )}
+              {renderFieldErrors('name')}
             </div>
-          )}
 
-          <div className="form-group">
-            <label htmlFor="template-name">
-              Template Name <span className="required">*</span>
-            </label>
-            <input
-              id="template-name"
-              type="text"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              required
-              disabled={template?.name === 'Default'}
-              placeholder="e.g., My Custom Template"
-            />
-            {template?.name === 'Default' && (
-              <small className="helper-text">Default template name cannot be changed</small>
-            )}
-          </div>
+            <div className="form-group">
+              <label htmlFor="template-description">Description</label>
+              <textarea
+                id="template-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                placeholder="Optional description of this template"
+              />
+              {renderFieldErrors('description')}
+            </div>
 
-          <div className="form-group">
-            <label htmlFor="template-description">Description</label>
-            <textarea
-              id="template-description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              rows={2}
-              placeholder="Optional description of this template"
-            />
-          </div>
+            <div className="form-group checkbox-group">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={isShared}
+                  onChange={(e) => setIsShared(e.target.checked)}
+                />
+                Share this template with other users
+              </label>
+            </div>
+
+            <div className="section-divider">
+              <h3>Field Mappings</h3>
+              <p className="section-description">
+                Configure which fields from Jira issues are used for each column in the report.
+              </p>
+            </div>
 
-          <div className="form-group checkbox-group">
-            <label>
+            <div className="form-group">
+              <label htmlFor="category-field">
+                Category Field <span className="required">*</span>
+              </label>
               <input
-                type="checkbox"
-                checked={isShared}
-                onChange={(e) => setIsShared(e.target.checked)}
+                id="category-field"
+                type="text"
+                value={fieldMapping.categoryField}
+                onChange={(e) => setFieldMapping({ ...fieldMapping, categoryField: e.target.value })}
+                required
+                placeholder="e.g., fields.parent.fields.summary"
               />
-              Share this template with other users
-            </label>
-          </div>
+              {renderFieldErrors('fieldMapping.categoryField')}
+              {renderPreviewWarning('fieldMapping.categoryField', fieldMapping.categoryField)}
+              <small className="helper-text">
+                Field path from parent issue used for the Category column
+              </small>
+              <div className="common-fields">
+                <strong>Common fields:</strong>
+                {COMMON_FIELD_PATHS.map(field => (
+                  <button
+                    key={field.value}
+                    type="button"
+                    className="field-button"
+                    onClick={() => setFieldMapping({ ...fieldMapping, categoryField: field.value })}
+                  >
+                    {field.label}
+                  </button>
+                ))}
+                {renderFieldPicker('categoryField')}
+              </div>
+            </div>
 
-          <div className="section-divider">
-            <h3>Field Mappings</h3>
-            <p className="section-description">
-              Configure which fields from Jira issues are used for each column in the report.
-            </p>
-          </div>
+            {renderGroupValues('categoryValues', 'Category')}
 
-          <div className="form-group">
-            <label htmlFor="category-field">
-              Category Field <span className="required">*</span>
-            </label>
-            <input
-              id="category-field"
-              type="text"
-              value={fieldMapping.categoryField}
-              onChange={(e) => setFieldMapping({ ...fieldMapping, categoryField: e.target.value })}
-              required
-              placeholder="e.g., fields.parent.fields.summary"
-            />
-            <small className="helper-text">
-              Field path from parent issue used for the Category column
-            </small>
-            <div className="common-fields">
-              <strong>Common fields:</strong>
-              {COMMON_FIELD_PATHS.map(field => (
+            <div className="form-group">
+              <label htmlFor="initiative-field">
+                Initiative Field <span className="required">*</span>
+              </label>
+              <input
+                id="initiative-field"
+                type="text"
+                value={fieldMapping.initiativeField}
+                onChange={(e) => setFieldMapping({ ...fieldMapping, initiativeField: e.target.value })}
+                required
+                placeholder="e.g., fields.labels"
+              />
+              {renderFieldErrors('fieldMapping.initiativeField')}
+              {renderPreviewWarning('fieldMapping.initiativeField', fieldMapping.initiativeField)}
+              <small className="helper-text">
+                Field path from child issues used for grouping rows (Initiative column)
+              </small>
+              <div className="common-fields">
+                <strong>Common fields:</strong>
+                {COMMON_FIELD_PATHS.map(field => (
+                  <button
+                    key={field.value}
+                    type="button"
+                    className="field-button"
+                    onClick={() => setFieldMapping({ ...fieldMapping, initiativeField: field.value })}
+                  >
+                    {field.label}
+                  </button>
+                ))}
+                {renderFieldPicker('initiativeField')}
+              </div>
+            </div>
+
+            {renderGroupValues('initiativeValues', 'Initiative')}
+
+            <div className="form-group">
+              <label htmlFor="issue-item-field">
+                Issue Item Field <span className="required">*</span>
+              </label>
+              <input
+                id="issue-item-field"
+                type="text"
+                value={fieldMapping.issueItemField}
+                onChange={(e) => setFieldMapping({ ...fieldMapping, issueItemField: e.target.value })}
+                required
+                placeholder="e.g., fields.summary"
+              />
+              {renderFieldErrors('fieldMapping.issueItemField')}
+              {renderPreviewWarning('fieldMapping.issueItemField', fieldMapping.issueItemField)}
+              <small className="helper-text">
+                Field path from child issues displayed in Last Week, Current Week, Next Week, Later columns
+              </small>
+              <div className="common-fields">
+                <strong>Common fields:</strong>
+                {COMMON_FIELD_PATHS.map(field => (
+                  <button
+                    key={field.value}
+                    type="button"
+                    className="field-button"
+                    onClick={() => setFieldMapping({ ...fieldMapping, issueItemField: field.value })}
+                  >
+                    {field.label}
+                  </button>
+                ))}
+                {renderFieldPicker('issueItemField')}
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="issue-item-format">Issue Item Format</label>
+              <input
+                id="issue-item-format"
+                type="text"
+                value={fieldMapping.issueItemFormat || ''}
+                onChange={(e) => setFieldMapping({ ...fieldMapping, issueItemFormat: e.target.value || undefined })}
+                placeholder={ITEM_FORMAT_EXAMPLE}
+                maxLength={500}
+              />
+              {renderFieldErrors('fieldMapping.issueItemFormat')}
+              {formatPreviewWarnings}
+              <small className="helper-text">
+                Optional, replaces the issue item field: field paths in braces with formatters
+                (<code>date:DD/MM</code>, <code>upper</code>, <code>lower</code>, <code>truncate:40</code>,
+                {' '}<code>default:text</code>), e.g. <code>{ITEM_FORMAT_EXAMPLE}</code>
+              </small>
+              <div className="common-fields">
                 <button
-                  key={field.value}
                   type="button"
                   className="field-button"
-                  onClick={() => setFieldMapping({ ...fieldMapping, categoryField: field.value })}
+                  onClick={() => setFieldMapping({ ...fieldMapping, issueItemFormat: ITEM_FORMAT_EXAMPLE })}
                 >
-                  {field.label}
+                  Use example
                 </button>
-              ))}
+              </div>
             </div>
-          </div>
 
-          <div className="form-group">
-            <label htmlFor="initiative-field">
-              Initiative Field <span className="required">*</span>
-            </label>
-            <input
-              id="initiative-field"
-              type="text"
-              value={fieldMapping.initiativeField}
-              onChange={(e) => setFieldMapping({ ...fieldMapping, initiativeField: e.target.value })}
-              required
-              placeholder="e.g., fields.labels"
-            />
-            <small className="helper-text">
-              Field path from child issues used for grouping rows (Initiative column)
-            </small>
-            <div className="common-fields">
-              <strong>Common fields:</strong>
-              {COMMON_FIELD_PATHS.map(field => (
+            <div className="form-group">
+              <label htmlFor="multi-value-handling">Multi-Value Field Handling</label>
+              <select
+                id="multi-value-handling"
+                value={fieldMapping.multiValueHandling}
+                onChange={(e) => setFieldMapping({
+                  ...fieldMapping,
+                  multiValueHandling: e.target.value as 'join' | 'first' | 'all'
+                })}
+              >
+                <option value="join">Join values with separator</option>
+                <option value="first">Use first value only</option>
+                <option value="all">Create separate rows for each value</option>
+              </select>
+              <small className="helper-text">
+                How to handle fields with multiple values (like labels)
+              </small>
+            </div>
+
+            {fieldMapping.multiValueHandling === 'join' && (
+              <div className="form-group">
+                <label htmlFor="separator">Separator</label>
+                <input
+                  id="separator"
+                  type="text"
+                  value={fieldMapping.multiValueSeparator}
+                  onChange={(e) => setFieldMapping({ ...fieldMapping, multiValueSeparator: e.target.value })}
+                  placeholder=", "
+                />
+                {renderFieldErrors('fieldMapping.multiValueSeparator')}
+                <small className="helper-text">
+                  Separator for joining multiple values (e.g., ", " or " | ")
+                </small>
+              </div>
+            )}
+
+            <div className="section-divider">
+              <h3>Issue Selection</h3>
+              <p className="section-description">
+                Configure which child issues are included in the report.
+              </p>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="report-source">Report Source</label>
+              <select
+                id="report-source"
+                value={issueSelection.source || 'children'}
+                onChange={(e) => setIssueSelection({
+                  ...issueSelection,
+                  source: e.target.value as 'children' | 'jql'
+                })}
+              >
+                <option value="children">Children of a parent ticket</option>
+                <option value="jql">Issues matching a JQL query</option>
+              </select>
+              <small className="helper-text">
+                JQL reports have no parent ticket: rows are grouped by the Category field of each issue
+              </small>
+            </div>
+
+            {issueSelection.source === 'jql' && (
+              <div className="form-group">
+                <label htmlFor="source-jql">JQL Query <span className="required">*</span></label>
+                <textarea
+                  id="source-jql"
+                  value={issueSelection.jql || ''}
+                  onChange={(e) => setIssueSelection({
+                    ...issueSelection,
+                    jql: e.target.value
+                  })}
+                  placeholder="e.g., project = ABC AND sprint in openSprints()"
+                  rows={3}
+                />
+                {renderFieldErrors('issueSelection.jql')}
+                <small className="helper-text">
+                  Default query of JQL reports (it can be overridden when loading the report)
+                </small>
+              </div>
+            )}
+
+            {issueSelection.source !== 'jql' && (
+              <>
+                <div className="form-group checkbox-group">
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={issueSelection.includeNestedChildren}
+                      onChange={(e) => setIssueSelection({
+                        ...issueSelection,
+                        includeNestedChildren: e.target.checked
+                      })}
+                    />
+                    Include nested children (children of children)
+                  </label>
+                  <small className="helper-text">
+                    When enabled, the report will include child issues at multiple levels
+                  </small>
+                </div>
+
+                {issueSelection.includeNestedChildren && (
+                  <div className="form-group">
+                    <label htmlFor="max-depth">Maximum Depth</label>
+                    <input
+                      id="max-depth"
+                      type="number"
+                      min="0"
+                      max="10"
+                      value={issueSelection.maxDepth}
+                      onChange={(e) => {
+                        const maxDepth = parseInt(e.target.value, 10);
+                        setIssueSelection({
+                          ...issueSelection,
+                          maxDepth: isNaN(maxDepth) ? 1 : maxDepth
+                        });
+                      }}
+                    />
+                    {renderFieldErrors('issueSelection.maxDepth')}
+                    <small className="helper-text">
+                      Maximum depth for nested children (1 = only direct children, 2 = children and grandchildren, etc., 0 = unlimited)
+                    </small>
+                  </div>
+                )}
+
+                <div className="form-group">
+                  <label htmlFor="parent-grouping-field">Parent Grouping Field</label>
+                  <input
+                    id="parent-grouping-field"
+                    type="text"
+                    value={issueSelection.parentGroupingField}
+                    onChange={(e) => setIssueSelection({
+                      ...issueSelection,
+                      parentGroupingField: e.target.value
+                    })}
+                    placeholder="e.g., fields.parent.key"
+                  />
+                  {renderFieldErrors('issueSelection.parentGroupingField')}
+                  {renderPreviewWarning('issueSelection.parentGroupingField', issueSelection.parentGroupingField)}
+                  <small className="helper-text">
+                    Field path used to group issues by parent (usually fields.parent.key)
+                  </small>
+                </div>
+              </>
+            )}
+
+            <div className="form-group">
+              <label>Issue Filters</label>
+              <div className="status-rules">
+                {(issueSelection.filters || []).map((rule, index) => (
+                  <div key={index} className="status-rule">
+                    <select
+                      value={rule.action}
+                      onChange={(e) => updateFilterRule(index, { action: e.target.value as IssueFilterRule['action'] })}
+                      aria-label="Filter action"
+                    >
+                      <option value="include">Include</option>
+                      <option value="exclude">Exclude</option>
+                    </select>
+                    <select
+                      value={rule.field}
+                      onChange={(e) => updateFilterRule(index, {
+                        field: e.target.value as IssueFilterField,
+                        ...(e.target.value === 'field' ? { fieldPath: rule.fieldPath || '' } : {}),
+                      })}
+                      aria-label="Filter field"
+                    >
+                      {ISSUE_FILTER_FIELDS.map(field => (
+                        <option key={field.value} value={field.value}>{field.label}</option>
+                      ))}
+                    </select>
+                    {rule.field === 'field' && (
+                      <input
+                        type="text"
+                        value={rule.fieldPath || ''}
+                        onChange={(e) => updateFilterRule(index, { fieldPath: e.target.value })}
+                        placeholder="e.g., fields.resolution.name"
+                        aria-label="Filter field path"
+                        required
+                      />
+                    )}
+                    <select
+                      value={rule.operator}
+                      onChange={(e) => updateFilterRule(index, {
+                        operator: e.target.value as IssueFilterOperator,
+                        ...(e.target.value !== 'empty' ? { value: rule.value || '' } : {}),
+                      })}
+                      aria-label="Filter operator"
+                    >
+                      {ISSUE_FILTER_OPERATORS.map(operator => (
+                        <option key={operator.value} value={operator.value}>{operator.label}</option>
+                      ))}
+                    </select>
+                    {rule.operator !== 'empty' && (
+                      <input
+                        type="text"
+                        value={rule.value || ''}
+                        onChange={(e) => updateFilterRule(index, { value: e.target.value })}
+                        placeholder={rule.operator === 'before' || rule.operator === 'after' ? 'e.g., 2025-11-14 or -14d' : 'e.g., Sub-task'}
+                        aria-label="Filter value"
+                        required
+                      />
+                    )}
+                    <button
+                      type="button"
+                      className="field-button"
+                      onClick={() => setIssueSelection({
+                        ...issueSelection,
+                        filters: (issueSelection.filters || []).filter((_, i) => i !== index),
+                      })}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {filterRuleErrors.map(fieldError => {
+                const ruleIndex = fieldError.path.match(/\[(\d+)\]/)?.[1];
+                return (
+                  <small key={`${fieldError.path}-${fieldError.code}`} className="helper-text error-text">
+                    {ruleIndex !== undefined ? `Filter ${Number(ruleIndex) + 1}: ` : ''}{fieldError.message}
+                  </small>
+                );
+              })}
+              <div className="common-fields">
                 <button
-                  key={field.value}
                   type="button"
                   className="field-button"
-                  onClick={() => setFieldMapping({ ...fieldMapping, initiativeField: field.value })}
+                  onClick={() => setIssueSelection({
+                    ...issueSelection,
+                    filters: [...(issueSelection.filters || []), { action: 'exclude', field: 'issueType', operator: 'equals', value: '' }],
+                  })}
                 >
-                  {field.label}
+                  + Add filter
                 </button>
-              ))}
+              </div>
+              <small className="helper-text">
+                Issues are kept when they match one of the include filters (if any) and none of the exclude filters.
+                Filtered issues are left out of the report table but still count in the timesheet.
+              </small>
             </div>
-          </div>
 
-          <div className="form-group">
-            <label htmlFor="issue-item-field">
-              Issue Item Field <span className="required">*</span>
-            </label>
-            <input
-              id="issue-item-field"
-              type="text"
-              value={fieldMapping.issueItemField}
-              onChange={(e) => setFieldMapping({ ...fieldMapping, issueItemField: e.target.value })}
-              required
-              placeholder="e.g., fields.summary"
-            />
-            <small className="helper-text">
-              Field path from child issues displayed in Last Week, Current Week, Next Week, Later columns
-            </small>
-            <div className="common-fields">
-              <strong>Common fields:</strong>
-              {COMMON_FIELD_PATHS.map(field => (
+            <div className="section-divider">
+              <h3>Status Mapping</h3>
+              <p className="section-description">
+                Decide which column each issue lands in based on its status. Rules are evaluated
+                from top to bottom and the first matching rule wins.
+              </p>
+            </div>
+
+            <div className="form-group">
+              <div className="status-rules">
+                {statusMapping.rules.map((rule, index) => (
+                  <div key={index} className="status-rule">
+                    <select
+                      value={rule.matchType}
+                      onChange={(e) => updateStatusRule(index, { matchType: e.target.value as StatusMatchType })}
+                      aria-label="Match type"
+                    >
+                      {STATUS_MATCH_TYPES.map(type => (
+                        <option key={type.value} value={type.value}>{type.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={rule.value}
+                      onChange={(e) => updateStatusRule(index, { value: e.target.value })}
+                      placeholder={STATUS_MATCH_TYPES.find(type => type.value === rule.matchType)?.placeholder}
+                      className={isInvalidRegex(rule) ? 'invalid' : undefined}
+                      aria-label="Match value"
+                      required
+                    />
+                    <span className="status-rule-arrow">→</span>
+                    <select
+                      value={rule.section}
+                      onChange={(e) => updateStatusRule(index, { section: e.target.value as ReportSection })}
+                      aria-label="Section"
+                    >
+                      {REPORT_SECTIONS.map(section => (
+                        <option key={section.value} value={section.value}>{section.label}</option>
+                      ))}
+                    </select>
+                    <button type="button" className="field-button" onClick={() => moveStatusRule(index, -1)} disabled={index === 0}>↑</button>
+                    <button type="button" className="field-button" onClick={() => moveStatusRule(index, 1)} disabled={index === statusMapping.rules.length - 1}>↓</button>
+                    <button
+                      type="button"
+                      className="field-button"
+                      onClick={() => setStatusMapping({
+                        ...statusMapping,
+                        rules: statusMapping.rules.filter((_, i) => i !== index),
+                      })}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {statusRuleErrors.map(fieldError => (
+                <small key={`${fieldError.path}-${fieldError.code}`} className="helper-text error-text">
+                  Rule {Number(fieldError.path.match(/\[(\d+)\]/)?.[1]) + 1}: {fieldError.message}
+                </small>
+              ))}
+              <div className="common-fields">
                 <button
-                  key={field.value}
                   type="button"
                   className="field-button"
-                  onClick={() => setFieldMapping({ ...fieldMapping, issueItemField: field.value })}
+                  onClick={() => setStatusMapping({
+                    ...statusMapping,
+                    rules: [...statusMapping.rules, { matchType: 'name', value: '', section: 'currentWeek' }],
+                  })}
                 >
-                  {field.label}
+                  + Add rule
                 </button>
-              ))}
+                <button
+                  type="button"
+                  className="field-button"
+                  onClick={() => defaultStatusMapping && setStatusMapping(defaultStatusMapping)}
+                  disabled={!defaultStatusMapping}
+                >
+                  Reset to defaults
+                </button>
+              </div>
+              <small className="helper-text">
+                Names and regular expressions ignore case and accents: "^déployé" matches "Déployé en recette".
+                Regular expressions match anywhere in the status name unless anchored with ^ or $.
+              </small>
             </div>
-          </div>
 
-          <div className="form-group">
-            <label htmlFor="multi-value-handling">Multi-Value Field Handling</label>
-            <select
-              id="multi-value-handling"
-              value={fieldMapping.multiValueHandling}
-              onChange={(e) => setFieldMapping({
-                ...fieldMapping,
-                multiValueHandling: e.target.value as 'join' | 'first' | 'all'
-              })}
-            >
-              <option value="join">Join values with separator</option>
-              <option value="first">Use first value only</option>
-              <option value="all">Create separate rows for each value</option>
-            </select>
-            <small className="helper-text">
-              How to handle fields with multiple values (like labels)
-            </small>
-          </div>
+            <div className="form-group">
+              <label htmlFor="default-section">Default Section</label>
+              <select
+                id="default-section"
+                value={statusMapping.defaultSection}
+                onChange={(e) => setStatusMapping({
+                  ...statusMapping,
+                  defaultSection: e.target.value as ReportSection
+                })}
+              >
+                {REPORT_SECTIONS.map(section => (
+                  <option key={section.value} value={section.value}>{section.label}</option>
+                ))}
+              </select>
+              <small className="helper-text">
+                Section used for statuses that don't match any rule
+              </small>
+            </div>
 
-          {fieldMapping.multiValueHandling === 'join' && (
             <div className="form-group">
-              <label htmlFor="separator">Separator</label>
-              <input
-                id="separator"
-                type="text"
-                value={fieldMapping.multiValueSeparator}
-                onChange={(e) => setFieldMapping({ ...fieldMapping, multiValueSeparator: e.target.value })}
-                placeholder=", "
-              />
+              <label htmlFor="section-timing-mode">Week Columns</label>
+              <select
+                id="section-timing-mode"
+                value={sectionTiming.mode}
+                onChange={(e) => setSectionTiming({
+                  ...sectionTiming,
+                  mode: e.target.value as 'status' | 'timeWindow'
+                })}
+              >
+                <option value="status">By current status only</option>
+                <option value="timeWindow">By dates (status transitions, resolution and due dates)</option>
+              </select>
               <small className="helper-text">
-                Separator for joining multiple values (e.g., ", " or " | ")
+                By dates, "Last week" only lists issues actually completed during last week
               </small>
             </div>
-          )}
 
-          <div className="section-divider">
-            <h3>Issue Selection</h3>
-            <p className="section-description">
-              Configure which child issues are included in the report.
-            </p>
-          </div>
+            {sectionTiming.mode === 'timeWindow' && (
+              <div className="form-group">
+                <label htmlFor="older-issues">Issues Completed Before Last Week</label>
+                <select
+                  id="older-issues"
+                  value={sectionTiming.olderIssues}
+                  onChange={(e) => setSectionTiming({
+                    ...sectionTiming,
+                    olderIssues: e.target.value as 'drop' | 'older'
+                  })}
+                >
+                  <option value="older">Show in an "Older" column</option>
+                  <option value="drop">Leave out of the report</option>
+                </select>
+              </div>
+            )}
 
-          <div className="form-group checkbox-group">
-            <label>
-              <input
-                type="checkbox"
-                checked={issueSelection.includeNestedChildren}
-                onChange={(e) => setIssueSelection({
-                  ...issueSelection,
-                  includeNestedChildren: e.target.checked
+            <div className="section-divider">
+              <h3>Report Columns</h3>
+              <p className="section-description">
+                Choose the columns of the report table, in display order (web report and exports).
+                Field columns combine a field of the issues of each row, e.g. the latest due date
+                or the sum of story points.
+              </p>
+            </div>
+
+            <div className="form-group">
+              <div className="report-columns">
+                {columns.map((column, index) => (
+                  <div key={index} className="report-column">
+                    <select
+                      value={column.source}
+                      onChange={(e) => changeColumnSource(index, e.target.value as ReportColumnSource)}
+                      aria-label="Column"
+                    >
+                      {REPORT_COLUMN_SOURCES.map(source => (
+                        <option key={source.value} value={source.value}>{source.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={column.label || ''}
+                      onChange={(e) => updateColumn(index, { label: e.target.value || undefined })}
+                      placeholder={column.source === 'field' ? 'Header, e.g. Owner' : 'Default header'}
+                      aria-label="Header"
+                      maxLength={100}
+                    />
+                    {column.source === 'field' && (
+                      <>
+                        <input
+                          type="text"
+                          value={column.fieldPath || ''}
+                          onChange={(e) => updateColumn(index, { fieldPath: e.target.value })}
+                          placeholder="e.g., fields.duedate"
+                          aria-label="Field path"
+                          required
+                        />
+                        <select
+                          value={column.aggregation || 'first'}
+                          onChange={(e) => updateColumn(index, { aggregation: e.target.value as ReportColumnAggregation })}
+                          aria-label="Aggregation"
+                        >
+                          {REPORT_COLUMN_AGGREGATIONS.map(aggregation => (
+                            <option key={aggregation.value} value={aggregation.value}>{aggregation.label}</option>
+                          ))}
+                        </select>
+                      </>
+                    )}
+                    <button type="button" className="field-button" onClick={() => moveColumn(index, -1)} disabled={index === 0}>↑</button>
+                    <button type="button" className="field-button" onClick={() => moveColumn(index, 1)} disabled={index === columns.length - 1}>↓</button>
+                    <button
+                      type="button"
+                      className="field-button"
+                      onClick={() => setColumns(columns.filter((_, i) => i !== index))}
+                      disabled={columns.length === 1}
+                    >
+                      Remove
+                    </button>
+                    {column.source === 'field' && renderFieldPicker(index)}
+                    {column.source === 'field' && renderPreviewWarning(`columns[${index}].fieldPath`, column.fieldPath || '')}
+                  </div>
+                ))}
+              </div>
+              {columnErrors.map(fieldError => (
+                <small key={`${fieldError.path}-${fieldError.code}`} className="helper-text error-text">
+                  {fieldError.path === 'columns'
+                    ? fieldError.message
+                    : `Column ${Number(fieldError.path.match(/\[(\d+)\]/)?.[1]) + 1}: ${fieldError.message}`}
+                </small>
+              ))}
+              <div className="common-fields">
+                <button
+                  type="button"
+                  className="field-button"
+                  onClick={() => setColumns([...columns, { source: 'field', label: '', fieldPath: '', aggregation: 'first' }])}
+                >
+                  + Add field column
+                </button>
+                <button
+                  type="button"
+                  className="field-button"
+                  onClick={() => setColumns(DEFAULT_REPORT_COLUMNS)}
+                >
+                  Reset to defaults
+                </button>
+              </div>
+            </div>
+
+            <div className="section-divider">
+              <h3>Grouping</h3>
+              <p className="section-description">
+                Group the report rows by one or more levels, outermost first (e.g. assignee, or component
+                then initiative). Levels without a column of their own are shown as sub-headers, and
+                subtotals count the issue items of each group per week column.
+              </p>
+            </div>
+
+            <div className="form-group">
+              <div className="report-columns">
+                {groupBy.map((level, index) => (
+                  <div key={index} className="report-column">
+                    <select
+                      value={level.source}
+                      onChange={(e) => changeGroupLevelSource(index, e.target.value as GroupLevelSource)}
+                      aria-label="Group by"
+                    >
+                      {GROUP_LEVEL_SOURCES.map(source => (
+                        <option key={source.value} value={source.value}>{source.label}</option>
+                      ))}
+                    </select>
+                    {level.source === 'field' && (
+                      <>
+                        <input
+                          type="text"
+                          value={level.fieldPath || ''}
+                          onChange={(e) => updateGroupLevel(index, { fieldPath: e.target.value })}
+                          placeholder="e.g., fields.assignee.displayName"
+                          aria-label="Field path"
+                          required
+                        />
+                        <select
+                          value={level.sortOrder || 'source'}
+                          onChange={(e) => updateGroupLevel(index, { sortOrder: e.target.value as GroupLevelConfig['sortOrder'] })}
+                          aria-label="Order"
+                        >
+                          {GROUP_SORT_ORDERS.filter(order => order.value !== 'manual').map(order => (
+                            <option key={order.value} value={order.value}>{order.label}</option>
+                          ))}
+                        </select>
+                      </>
+                    )}
+                    <input
+                      type="text"
+                      value={level.label || ''}
+                      onChange={(e) => updateGroupLevel(index, { label: e.target.value || undefined })}
+                      placeholder={level.source === 'field' ? 'Name, e.g. Assignee' : 'Default name'}
+                      aria-label="Name"
+                      maxLength={100}
+                    />
+                    <label className="report-column-checkbox">
+                      <input
+                        type="checkbox"
+                        checked={!!level.subtotals}
+                        onChange={(e) => updateGroupLevel(index, { subtotals: e.target.checked || undefined })}
+                      />
+                      Subtotals
+                    </label>
+                    <button type="button" className="field-button" onClick={() => moveGroupLevel(index, -1)} disabled={index === 0}>↑</button>
+                    <button type="button" className="field-button" onClick={() => moveGroupLevel(index, 1)} disabled={index === groupBy.length - 1}>↓</button>
+                    <button
+                      type="button"
+                      className="field-button"
+                      onClick={() => setGroupBy(groupBy.filter((_, i) => i !== index))}
+                      disabled={groupBy.length === 1}
+                    >
+                      Remove
+                    </button>
+                    {level.source === 'field' && renderPreviewWarning(`groupBy[${index}].fieldPath`, level.fieldPath || '')}
+                  </div>
+                ))}
+              </div>
+              {groupLevelErrors.map(fieldError => (
+                <small key={`${fieldError.path}-${fieldError.code}`} className="helper-text error-text">
+                  {fieldError.path === 'groupBy'
+                    ? fieldError.message
+                    : `Level ${Number(fieldError.path.match(/\[(\d+)\]/)?.[1]) + 1}: ${fieldError.message}`}
+                </small>
+              ))}
+              <div className="common-fields">
+                <button
+                  type="button"
+                  className="field-button"
+                  onClick={() => setGroupBy([...groupBy, { source: 'field', fieldPath: '' }])}
+                  disabled={groupBy.length >= MAX_GROUP_LEVELS}
+                >
+                  + Add level
+                </button>
+                <button
+                  type="button"
+                  className="field-button"
+                  onClick={() => setGroupBy(DEFAULT_GROUP_BY)}
+                >
+                  Reset to defaults
+                </button>
+              </div>
+            </div>
+
+            <div className="section-divider">
+              <h3>Timesheet</h3>
+              <p className="section-description">
+                Choose what the timesheet shows besides the time spent and estimate of each ticket,
+                and how time is converted to days and displayed.
+              </p>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="timesheet-mode">Timesheet Mode</label>
+              <select
+                id="timesheet-mode"
+                value={timesheet.mode}
+                onChange={(e) => setTimesheet({
+                  ...timesheet,
+                  mode: e.target.value as 'totals' | 'worklog'
                 })}
-              />
-              Include nested children (children of children)
-            </label>
-            <small className="helper-text">
-              When enabled, the report will include child issues at multiple levels
-            </small>
-          </div>
+              >
+                <option value="totals">Time tracking totals only</option>
+                <option value="worklog">Also time logged per person (worklogs)</option>
+              </select>
+              <small className="helper-text">
+                Worklogs cover the report week unless a worklog period is chosen on the report page
+              </small>
+            </div>
 
-          {issueSelection.includeNestedChildren && (
             <div className="form-group">
-              <label htmlFor="max-depth">Maximum Depth</label>
+              <label htmlFor="hours-per-day">Hours per Day</label>
               <input
-                id="max-depth"
+                id="hours-per-day"
                 type="number"
                 min="1"
-                max="10"
-                value={issueSelection.maxDepth}
-                onChange={(e) => setIssueSelection({
-                  ...issueSelection,
-                  maxDepth: parseInt(e.target.value, 10) || 1
+                max="24"
+                step="0.5"
+                value={timesheet.hoursPerDay ?? 8}
+                onChange={(e) => setTimesheet({
+                  ...timesheet,
+                  hoursPerDay: parseFloat(e.target.value) || 8
                 })}
               />
+              {renderFieldErrors('timesheet.hoursPerDay')}
               <small className="helper-text">
-                Maximum depth for nested children (1 = only direct children, 2 = children and grandchildren, etc.)
+                Length of a working day, used to convert time to man days (e.g., 7 or 7.5)
               </small>
             </div>
-          )}
 
-          <div className="form-group">
-            <label htmlFor="parent-grouping-field">Parent Grouping Field</label>
-            <input
-              id="parent-grouping-field"
-              type="text"
-              value={issueSelection.parentGroupingField}
-              onChange={(e) => setIssueSelection({
-                ...issueSelection,
-                parentGroupingField: e.target.value
-              })}
-              placeholder="e.g., fields.parent.key"
-            />
-            <small className="helper-text">
-              Field path used to group issues by parent (usually fields.parent.key)
-            </small>
-          </div>
+            <div className="form-group">
+              <label htmlFor="time-display-unit">Time Display Unit</label>
+              <select
+                id="time-display-unit"
+                value={timesheet.displayUnit || 'daysHours'}
+                onChange={(e) => setTimesheet({
+                  ...timesheet,
+                  displayUnit: e.target.value as TimeDisplayUnit
+                })}
+              >
+                {TIME_DISPLAY_UNITS.map(unit => (
+                  <option key={unit.value} value={unit.value}>{unit.label}</option>
+                ))}
+              </select>
+              <small className="helper-text">
+                Used in the web report and in the Word and PowerPoint exports
+              </small>
+            </div>
 
-          <div className="form-actions">
-            <button type="button" onClick={onClose} disabled={saving}>
-              Cancel
-            </button>
-            <button type="submit" disabled={saving || !name.trim()}>
-              {saving ? 'Saving...' : template ? 'Update Template' : 'Create Template'}
-            </button>
-          </div>
-        </form>
+            <div className="section-divider">
+              <h3>Confluence Publishing</h3>
+              <p className="section-description">
+                Publish the report as a Confluence page from the report page. The page of the report week
+                is created under the parent page, or updated when it was already published.
+              </p>
+            </div>
+
+            <div className="form-group checkbox-group">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={confluence.enabled}
+                  onChange={(e) => setConfluence({ ...confluence, enabled: e.target.checked })}
+                />
+                Enable publishing to Confluence
+              </label>
+            </div>
+
+            {confluence.enabled && (
+              <>
+                <div className="form-group">
+                  <label htmlFor="confluence-space-key">Space Key *</label>
+                  <input
+                    id="confluence-space-key"
+                    type="text"
+                    value={confluence.spaceKey}
+                    onChange={(e) => setConfluence({ ...confluence, spaceKey: e.target.value })}
+                    placeholder="e.g., PROG"
+                  />
+                  {renderFieldErrors('confluence.spaceKey')}
+                </div>
+
+                <div className="form-group">
+                  <label htmlFor="confluence-parent-page">Parent Page ID</label>
+                  <input
+                    id="confluence-parent-page"
+                    type="text"
+                    value={confluence.parentPageId || ''}
+                    onChange={(e) => setConfluence({ ...confluence, parentPageId: e.target.value.trim() || undefined })}
+                    placeholder="e.g., 123456"
+                  />
+                  {renderFieldErrors('confluence.parentPageId')}
+                  <small className="helper-text">
+                    Number at the end of the page URL (pages/123456); new pages go to the space root when empty
+                  </small>
+                </div>
+
+                <div className="form-group">
+                  <label htmlFor="confluence-title-pattern">Page Title *</label>
+                  <input
+                    id="confluence-title-pattern"
+                    type="text"
+                    value={confluence.titlePattern}
+                    onChange={(e) => setConfluence({ ...confluence, titlePattern: e.target.value })}
+                  />
+                  {renderFieldErrors('confluence.titlePattern')}
+                  <small className="helper-text">
+                    Placeholders: {PAGE_TITLE_PLACEHOLDERS.map(placeholder => `${placeholder.value} (${placeholder.label})`).join(', ')}.
+                    Include the week so each week gets its own page.
+                  </small>
+                </div>
+              </>
+            )}
+
+            <div className="form-actions">
+              <button type="button" onClick={onClose} disabled={saving}>
+                Cancel
+              </button>
+              <button type="submit" disabled={saving || !name.trim()}>
+                {saving ? 'Saving...' : template ? 'Update Template' : 'Create Template'}
+              </button>
+            </div>
+          </form>
+
+          {showPreview && (
+            <TemplatePreviewPanel
+              template={templateSettings}
+              preview={preview}
+              onPreviewChange={setPreview}
+            />
+          )}
+        </div>
       </div>
     </div>
   );
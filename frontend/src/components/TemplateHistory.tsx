@@ -0,0 +1,246 @@
+/**
+ * Template History Component
+ *
+ * Panel showing the version history of a template: every create, update, clone and restore,
+ * who made it and when, the changes between two versions, and restoring a version.
+ * The history of a deleted template is shown too: restoring a version creates the template again.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import {
+  ReportTemplate,
+  TemplateVersionSummary,
+  TemplateVersionDiff,
+  TEMPLATE_VERSION_ACTIONS,
+} from '../types/template';
+import './TemplateHistory.css';
+
+interface TemplateHistoryProps {
+  template: ReportTemplate;
+  isDeleted?: boolean;
+  isOpen: boolean;
+  onClose: () => void;
+  onRestore: () => void;
+}
+
+/**
+ * Format a field value of a template for display
+ */
+const formatValue = (value: any): string => {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value === '' ? '""' : value;
+  return JSON.stringify(value);
+};
+
+export const TemplateHistory: React.FC<TemplateHistoryProps> = ({
+  template,
+  isDeleted = false,
+  isOpen,
+  onClose,
+  onRestore,
+}) => {
+  const [versions, setVersions] = useState<TemplateVersionSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<TemplateVersionDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  // Incremented to reload the history (e.g., after a restore)
+  const [reloadCount, setReloadCount] = useState(0);
+
+  /**
+   * Select a version and compare it with the version before it (if any)
+   */
+  const selectVersion = (versionList: TemplateVersionSummary[], version: number | null) => {
+    setSelectedVersion(version);
+    const previous = versionList.find(v => version !== null && v.version < version);
+    setCompareVersion(previous ? previous.version : null);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    api.getTemplateVersions(template.id)
+      .then(fetchedVersions => {
+        if (cancelled) return;
+        setVersions(fetchedVersions);
+        // Select the latest version, compared with the one before
+        setSelectedVersion(fetchedVersions[0]?.version ?? null);
+        setCompareVersion(fetchedVersions[1]?.version ?? null);
+      })
+      .catch(err => {
+        console.error('Failed to load template history:', err);
+        if (!cancelled) setError('Failed to load template history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, template.id, reloadCount]);
+
+  useEffect(() => {
+    if (selectedVersion === null || compareVersion === null) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    setDiffLoading(true);
+    setError(null);
+    api.diffTemplateVersions(template.id, compareVersion, selectedVersion)
+      .then(fetchedDiff => {
+        if (!cancelled) setDiff(fetchedDiff);
+      })
+      .catch(err => {
+        console.error('Failed to compare template versions:', err);
+        if (!cancelled) {
+          setError(`Failed to compare versions: ${err.response?.data?.error || err.message}`);
+          setDiff(null);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setDiffLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [template.id, selectedVersion, compareVersion]);
+
+  const handleRestore = async (version: number) => {
+    if (!window.confirm(`Restore version ${version} of "${template.name}"? This is recorded as a new version.`)) {
+      return;
+    }
+
+    try {
+      setRestoring(true);
+      await api.restoreTemplateVersion(template.id, version);
+      setReloadCount(count => count + 1);
+      onRestore();
+    } catch (err: any) {
+      alert(`Failed to restore version: ${err.response?.data?.error || err.message}`);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const latestVersion = versions[0]?.version;
+
+  return (
+    <div className="template-history-overlay" onClick={onClose}>
+      <div className="template-history-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="template-history-header">
+          <h2>History: {template.name}{isDeleted && ' (deleted)'}</h2>
+          <button className="close-button" onClick={onClose} type="button">×</button>
+        </div>
+
+        <div className="template-history-content">
+          {error && (
+            <div className="error-message">
+              {error}
+            </div>
+          )}
+
+          {loading && versions.length === 0 ? (
+            <div className="loading-message">Loading history...</div>
+          ) : versions.length === 0 ? (
+            <div className="empty-message">No versions recorded for this template.</div>
+          ) : (
+            <div className="template-history-body">
+              <ul className="version-list">
+                {versions.map(version => (
+                  <li
+                    key={version.version}
+                    className={`version-item ${version.version === selectedVersion ? 'selected' : ''}`}
+                    onClick={() => selectVersion(versions, version.version)}
+                  >
+                    <div className="version-title">
+                      <strong>v{version.version}</strong> {TEMPLATE_VERSION_ACTIONS[version.action]}
+                      {version.restoredFrom !== undefined && ` (v${version.restoredFrom})`}
+                      {version.version === latestVersion && !isDeleted && <span className="current-badge">Current</span>}
+                    </div>
+                    <div className="version-meta">
+                      {version.userId} · {new Date(version.createdAt).toLocaleString()}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="version-details">
+                {selectedVersion !== null && (
+                  <>
+                    <div className="version-toolbar">
+                      <label>
+                        Compare v{selectedVersion} with{' '}
+                        <select
+                          value={compareVersion ?? ''}
+                          onChange={(e) => setCompareVersion(e.target.value ? Number(e.target.value) : null)}
+                        >
+                          <option value="">—</option>
+                          {versions
+                            .filter(v => v.version !== selectedVersion)
+                            .map(v => (
+                              <option key={v.version} value={v.version}>v{v.version}</option>
+                            ))}
+                        </select>
+                      </label>
+                      {(selectedVersion !== latestVersion || isDeleted) && (
+                        <button
+                          className="restore-button"
+                          onClick={() => handleRestore(selectedVersion)}
+                          disabled={restoring}
+                          type="button"
+                        >
+                          {restoring ? 'Restoring...' : `Restore v${selectedVersion}`}
+                        </button>
+                      )}
+                    </div>
+
+                    {compareVersion === null ? (
+                      <div className="empty-message">First version of the template.</div>
+                    ) : diffLoading ? (
+                      <div className="loading-message">Comparing versions...</div>
+                    ) : diff && diff.changes.length === 0 ? (
+                      <div className="empty-message">No differences.</div>
+                    ) : diff && (
+                      <table className="diff-table">
+                        <thead>
+                          <tr>
+                            <th>Field</th>
+                            <th>v{diff.from.version}</th>
+                            <th>v{diff.to.version}</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {diff.changes.map(change => (
+                            <tr key={change.path} className={`diff-${change.type}`}>
+                              <td className="diff-path">{change.path}</td>
+                              <td className="diff-before">{formatValue(change.before)}</td>
+                              <td className="diff-after">{formatValue(change.after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
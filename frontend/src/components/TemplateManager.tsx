@@ -1,13 +1,16 @@
 /**
  * Template Manager Component
  * 
- * Component for managing templates (list, edit, delete, clone).
+ * Component for managing templates (list, edit, delete, clone, version history,
+ * import/export as JSON files). Deleted templates are listed with their history,
+ * so that they can be restored.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { api } from '../services/api';
-import { ReportTemplate } from '../types/template';
+import { ReportTemplate, TemplateVersion } from '../types/template';
 import { TemplateEditor } from './TemplateEditor';
+import { TemplateHistory } from './TemplateHistory';
 import './TemplateManager.css';
 
 interface TemplateManagerProps {
@@ -22,12 +25,17 @@ export const TemplateManager: React.FC<TemplateManagerProps> = ({
   onTemplateSelect,
 }) => {
   const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [deletedTemplates, setDeletedTemplates] = useState<TemplateVersion[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [editingTemplate, setEditingTemplate] = useState<ReportTemplate | null>(null);
   const [showEditor, setShowEditor] = useState(false);
   const [cloningTemplateId, setCloningTemplateId] = useState<string | null>(null);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [historyTemplate, setHistoryTemplate] = useState<ReportTemplate | null>(null);
+  const [exportingTemplateId, setExportingTemplateId] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -41,6 +49,7 @@ export const TemplateManager: React.FC<TemplateManagerProps> = ({
       setError(null);
       const fetchedTemplates = await api.getTemplates(true);
       setTemplates(fetchedTemplates);
+      setDeletedTemplates(await api.getDeletedTemplates());
     } catch (err: any) {
       console.error('Failed to load templates:', err);
       setError('Failed to load templates');
@@ -103,6 +112,58 @@ export const TemplateManager: React.FC<TemplateManagerProps> = ({
     window.dispatchEvent(new Event('templates-refresh'));
   };
 
+  const handleExport = async (template: ReportTemplate) => {
+    try {
+      setExportingTemplateId(template.id);
+      const bundle = await api.exportTemplate(template.id);
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${template.name.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'template'}.template.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err: any) {
+      alert(`Failed to export template: ${err.response?.data?.error || err.message}`);
+    } finally {
+      setExportingTemplateId(null);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset the input so that the same file can be imported again
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      let bundle;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not a JSON file`);
+      }
+      const imported = await api.importTemplate(bundle);
+      await loadTemplates();
+      // Notify TemplateSelector to refresh
+      window.dispatchEvent(new Event('templates-refresh'));
+      alert(`Imported template "${imported.name}"`);
+    } catch (err: any) {
+      alert(`Failed to import template: ${err.response?.data?.error || err.message}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    await loadTemplates();
+    // Notify TemplateSelector to refresh
+    window.dispatchEvent(new Event('templates-refresh'));
+  };
+
   const handleSelect = (templateId: string) => {
     if (onTemplateSelect) {
       onTemplateSelect(templateId);
@@ -132,6 +193,20 @@ export const TemplateManager: React.FC<TemplateManagerProps> = ({
               <button className="create-button" onClick={handleCreate}>
                 + Create New Template
               </button>
+              <button
+                className="import-button"
+                onClick={() => importInputRef.current?.click()}
+                disabled={importing}
+              >
+                {importing ? 'Importing...' : 'Import Template'}
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImportFile}
+                style={{ display: 'none' }}
+              />
             </div>
 
             {loading && templates.length === 0 ? (
@@ -169,6 +244,19 @@ export const TemplateManager: React.FC<TemplateManagerProps> = ({
                         >
                           Edit
                         </button>
+                        <button
+                          className="history-button"
+                          onClick={() => setHistoryTemplate(template)}
+                        >
+                          History
+                        </button>
+                        <button
+                          className="export-template-button"
+                          onClick={() => handleExport(template)}
+                          disabled={exportingTemplateId === template.id}
+                        >
+                          {exportingTemplateId === template.id ? 'Exporting...' : 'Export'}
+                        </button>
                         {template.name !== 'Default' && (
                           <>
                             <button
@@ -202,6 +290,19 @@ export const TemplateManager: React.FC<TemplateManagerProps> = ({
                       <div className="detail-item">
                         <strong>Issue Item:</strong> {template.fieldMapping.issueItemField}
                       </div>
+                      <div className="detail-item">
+                        <strong>Status rules:</strong> {template.statusMapping ? template.statusMapping.rules.length : 'Default'}
+                      </div>
+                      {template.issueSelection.source === 'jql' && (
+                        <div className="detail-item">
+                          <strong>JQL:</strong> {template.issueSelection.jql}
+                        </div>
+                      )}
+                      {template.timesheet?.mode === 'worklog' && (
+                        <div className="detail-item">
+                          <strong>Timesheet:</strong> Worklogs per person
+                        </div>
+                      )}
                     </div>
                     <div className="template-meta">
                       Updated: {new Date(template.updatedAt).toLocaleDateString()}
@@ -210,6 +311,30 @@ export const TemplateManager: React.FC<TemplateManagerProps> = ({
                 ))}
               </div>
             )}
+
+            {deletedTemplates.length > 0 && (
+              <div className="deleted-templates">
+                <h3>Deleted templates</h3>
+                {deletedTemplates.map(deleted => (
+                  <div key={deleted.templateId} className="deleted-template-item">
+                    <div className="deleted-template-title">
+                      <strong>{deleted.name}</strong>
+                      <span className="template-meta">
+                        Version {deleted.version}, {new Date(deleted.createdAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <div className="template-item-actions">
+                      <button
+                        className="history-button"
+                        onClick={() => setHistoryTemplate(deleted.template)}
+                      >
+                        History
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -225,6 +350,16 @@ export const TemplateManager: React.FC<TemplateManagerProps> = ({
           onSave={handleSave}
         />
       )}
+
+      {historyTemplate && (
+        <TemplateHistory
+          template={historyTemplate}
+          isDeleted={!templates.some(t => t.id === historyTemplate.id)}
+          isOpen={!!historyTemplate}
+          onClose={() => setHistoryTemplate(null)}
+          onRestore={handleRestore}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,208 @@
+/**
+ * Template Preview Panel Component
+ * 
+ * Side panel of the template editor: runs the unsaved template on the children of a
+ * sample issue and shows the report rows and the values each mapped field path resolved to.
+ * Field paths that resolve to no value on every issue are flagged.
+ */
+
+import React, { useState } from 'react';
+import { api } from '../services/api';
+import { FieldPathPreview, TemplatePreview } from '../types';
+import { ReportTemplate } from '../types/template';
+import { getReportCellValue, buildReportTableLines, getSubtotalCellValue } from '../utils/reportColumns';
+import './TemplatePreviewPanel.css';
+
+interface TemplatePreviewPanelProps {
+  template: Partial<Omit<ReportTemplate, 'id' | 'createdAt' | 'updatedAt'>>;
+  preview: TemplatePreview | null;
+  onPreviewChange: (preview: TemplatePreview | null) => void;
+}
+
+/**
+ * Labels of the previewed template settings (field columns are labeled with their header)
+ */
+const SETTING_LABELS: Record<string, string> = {
+  'fieldMapping.categoryField': 'Category',
+  'fieldMapping.initiativeField': 'Initiative',
+  'fieldMapping.issueItemField': 'Issue item',
+  'fieldMapping.issueItemFormat': 'Item format',
+  'issueSelection.parentGroupingField': 'Parent grouping',
+};
+
+/**
+ * Number of sample values shown per field path
+ */
+const SHOWN_SAMPLES = 3;
+
+/**
+ * Format a raw field value for display
+ */
+const formatSample = (value: any): string => {
+  if (value === null || value === undefined) return 'null';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+export const TemplatePreviewPanel: React.FC<TemplatePreviewPanelProps> = ({
+  template,
+  preview,
+  onPreviewChange,
+}) => {
+  const [issueKey, setIssueKey] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runPreview = async () => {
+    const key = issueKey.trim().toUpperCase();
+    if (!key) {
+      setError('Enter the key of a parent ticket to preview the template');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      onPreviewChange(await api.previewTemplate(template, key));
+    } catch (err: any) {
+      console.error('Failed to preview template:', err);
+      setError(err.response?.data?.error || err.message || 'Failed to preview template');
+      onPreviewChange(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getSettingLabel = (setting: FieldPathPreview['setting']): string => {
+    const columnIndex = setting.match(/^columns\[(\d+)\]/)?.[1];
+    if (columnIndex !== undefined) {
+      return `Column "${template.columns?.[Number(columnIndex)]?.label || ''}"`;
+    }
+    const levelIndex = setting.match(/^groupBy\[(\d+)\]/)?.[1];
+    if (levelIndex !== undefined) {
+      return `Grouping level ${Number(levelIndex) + 1}`;
+    }
+    return SETTING_LABELS[setting];
+  };
+
+  return (
+    <div className="template-preview-panel">
+      <h3>Preview</h3>
+      <div className="template-preview-toolbar">
+        <input
+          type="text"
+          value={issueKey}
+          onChange={(e) => setIssueKey(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              runPreview();
+            }
+          }}
+          placeholder="Parent ticket, e.g. PROJ-123"
+          aria-label="Sample parent ticket"
+        />
+        <button type="button" className="field-button" onClick={runPreview} disabled={loading}>
+          {loading ? 'Loading...' : preview ? 'Refresh' : 'Preview'}
+        </button>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {!preview && !error && (
+        <p className="template-preview-hint">
+          Runs the template as edited (not saved yet) on the children of a ticket.
+        </p>
+      )}
+
+      {preview && (
+        <>
+          <p className="template-preview-hint">
+            {preview.childrenCount} child issue(s) of <strong>{preview.issueKey}</strong> {preview.summary}
+            {preview.truncated && ' (limited for the preview)'}
+            {preview.filteredOutCount > 0 && `, ${preview.filteredOutCount} filtered out by the filter rules`}
+          </p>
+
+          <h4>Field paths</h4>
+          <table className="template-preview-table">
+            <thead>
+              <tr>
+                <th>Setting</th>
+                <th>Resolved</th>
+                <th>Values</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.fieldPaths.map(fieldPath => (
+                <tr key={`${fieldPath.setting}:${fieldPath.path}`} className={fieldPath.alwaysNull ? 'always-null' : undefined}>
+                  <td>
+                    {getSettingLabel(fieldPath.setting)}
+                    <code>{fieldPath.path}</code>
+                  </td>
+                  <td>
+                    {fieldPath.alwaysNull && <span title="No value on any issue">⚠ </span>}
+                    {fieldPath.resolvedCount}/{fieldPath.issueCount}
+                  </td>
+                  <td>
+                    {fieldPath.samples.slice(0, SHOWN_SAMPLES).map(sample => (
+                      <div key={sample.issueKey} className="template-preview-sample">
+                        {sample.issueKey}: <code>{formatSample(sample.value)}</code>
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h4>Report</h4>
+          {preview.report.length === 0 ? (
+            <p className="template-preview-hint">No report rows.</p>
+          ) : (
+            <table className="template-preview-table">
+              <thead>
+                <tr>
+                  {preview.columns.map(column => <th key={column.id}>{column.label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {buildReportTableLines(preview.report, preview.groupLevels).map((line, index) => {
+                  if (line.type === 'header') {
+                    return (
+                      <tr key={index} className="template-preview-group">
+                        <td colSpan={preview.columns.length}>{line.text}</td>
+                      </tr>
+                    );
+                  }
+                  if (line.type === 'subtotal') {
+                    return (
+                      <tr key={index} className="template-preview-group">
+                        {preview.columns.map((column, columnIndex) => (
+                          <td key={column.id}>{getSubtotalCellValue(line, column, columnIndex)}</td>
+                        ))}
+                      </tr>
+                    );
+                  }
+                  return (
+                    <tr key={index}>
+                      {preview.columns.map(column => {
+                        const value = getReportCellValue(line.row, column);
+                        return (
+                          <td key={column.id}>
+                            {Array.isArray(value)
+                              ? value.map((item, itemIndex) => <div key={itemIndex}>{item}</div>)
+                              : value}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -5,36 +5,10 @@ import './TimesheetCard.css';
 
 interface TimesheetCardProps {
   timesheet: TimesheetSummary;
+  parentLabel?: string; // Title of the parent totals section (e.g., "Parent Tickets" for portfolios)
 }
 
-export const TimesheetCard: React.FC<TimesheetCardProps> = ({ timesheet }) => {
-  const formatManDays = (manDays: number | undefined | null): string => {
-    const validManDays = manDays ?? 0;
-    if (isNaN(validManDays) || validManDays === null || validManDays === undefined) {
-      return '0d';
-    }
-    if (validManDays === 0) return '0d';
-    
-    const isNegative = validManDays < 0;
-    const absManDays = Math.abs(validManDays);
-    
-    // For values less than 1 day (absolute), show as hours
-    if (absManDays < 1) {
-      const hours = Math.round(absManDays * 8);
-      return `${isNegative ? '-' : ''}${hours}h`;
-    }
-    
-    // Calculate whole days and remaining hours
-    const wholeDays = Math.floor(absManDays);
-    const remainingDays = absManDays - wholeDays;
-    const hours = Math.round(remainingDays * 8);
-    
-    // Format: days and hours if there are hours
-    if (hours === 0) {
-      return `${isNegative ? '-' : ''}${wholeDays}d`;
-    }
-    return `${isNegative ? '-' : ''}${wholeDays}d ${hours}h`;
-  };
+export const TimesheetCard: React.FC<TimesheetCardProps> = ({ timesheet, parentLabel = 'Parent Ticket' }) => {
 
   return (
     <div className="timesheet-card">
@@ -42,20 +16,20 @@ export const TimesheetCard: React.FC<TimesheetCardProps> = ({ timesheet }) => {
       
       {/* Parent Timesheet */}
       <div className="timesheet-section">
-        <h4 className="timesheet-section-title">Parent Ticket</h4>
+        <h4 className="timesheet-section-title">{parentLabel}</h4>
         <div className="timesheet-stats">
           <div className="stat-item">
             <span className="stat-label">Time Spent:</span>
-            <span className="stat-value primary">{formatManDays(timesheet.parentTimeSpentManDays ?? (timesheet.parentTimeSpentHours ? timesheet.parentTimeSpentHours / 8 : 0))}</span>
+            <span className="stat-value primary">{timesheet.parentTimeSpentDisplay}</span>
           </div>
           <div className="stat-item">
             <span className="stat-label">Estimate:</span>
-            <span className="stat-value">{formatManDays(timesheet.parentTimeEstimateManDays ?? (timesheet.parentTimeEstimateHours ? timesheet.parentTimeEstimateHours / 8 : 0))}</span>
+            <span className="stat-value">{timesheet.parentTimeEstimateDisplay}</span>
           </div>
           <div className="stat-item">
             <span className="stat-label">Remaining Time:</span>
-            <span className={`stat-value ${((timesheet.parentRemainingManDays ?? (timesheet.parentRemainingHours ? timesheet.parentRemainingHours / 8 : 0)) >= 0) ? 'success' : 'warning'}`}>
-              {formatManDays(timesheet.parentRemainingManDays ?? (timesheet.parentRemainingHours ? timesheet.parentRemainingHours / 8 : 0))}
+            <span className={`stat-value ${(timesheet.parentRemainingHours ?? 0) >= 0 ? 'success' : 'warning'}`}>
+              {timesheet.parentRemainingDisplay}
             </span>
           </div>
         </div>
@@ -82,13 +56,13 @@ export const TimesheetCard: React.FC<TimesheetCardProps> = ({ timesheet }) => {
                   <tr key={idx}>
                     <td className="ticket-key">{entry.issueKey}</td>
                     <td className="ticket-summary">{entry.summary}</td>
-                    <td className="time-value">{formatManDays(entry.timespentManDays ?? (entry.timespentHours ? entry.timespentHours / 8 : 0))}</td>
-                    <td className="time-value">{formatManDays(entry.timeestimateManDays ?? (entry.timeestimateHours ? entry.timeestimateHours / 8 : 0))}</td>
-                    <td className={`time-value ${((entry.remainingManDays ?? (entry.remainingHours ? entry.remainingHours / 8 : 0)) >= 0) ? 'success' : 'warning'}`}>
-                      {formatManDays(entry.remainingManDays ?? (entry.remainingHours ? entry.remainingHours / 8 : 0))}
+                    <td className="time-value">{entry.timespentDisplay}</td>
+                    <td className="time-value">{entry.timeestimateDisplay}</td>
+                    <td className={`time-value ${(entry.remainingHours ?? 0) >= 0 ? 'success' : 'warning'}`}>
+                      {entry.remainingDisplay}
                     </td>
                     <td>
-                      <span className={`status-badge status-${normalizeStatusForClass(entry.status)} status-${getStatusCategory(entry.status)}`}>
+                      <span className={`status-badge status-${normalizeStatusForClass(entry.status)} status-${getStatusCategory(entry.section)}`}>
                         {entry.status}
                       </span>
                     </td>
@@ -99,6 +73,60 @@ export const TimesheetCard: React.FC<TimesheetCardProps> = ({ timesheet }) => {
           </div>
         </div>
       )}
+
+      {/* Time logged per person (worklog timesheet mode) */}
+      {timesheet.worklog && (
+        <div className="timesheet-section">
+          <h4 className="timesheet-section-title">
+            Time Logged by Person
+            <span className="worklog-period"> ({timesheet.worklog.from} to {timesheet.worklog.to})</span>
+          </h4>
+          {timesheet.worklog.authors.length === 0 ? (
+            <p className="worklog-empty">No time logged during this period.</p>
+          ) : (
+            <div className="timesheet-table-container">
+              <table className="timesheet-table">
+                <thead>
+                  <tr>
+                    <th>Person</th>
+                    <th>Ticket</th>
+                    <th>Summary</th>
+                    <th>Time Logged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {timesheet.worklog.authors.map(author => (
+                    <React.Fragment key={author.accountId || author.author}>
+                      <tr className="worklog-author-row">
+                        <td>{author.author}</td>
+                        <td></td>
+                        <td className="ticket-summary">
+                          {author.issues.length} ticket{author.issues.length > 1 ? 's' : ''}
+                        </td>
+                        <td className="time-value">{author.timeSpentDisplay}</td>
+                      </tr>
+                      {author.issues.map(issueTime => (
+                        <tr key={`${author.accountId || author.author}-${issueTime.issueKey}`}>
+                          <td></td>
+                          <td className="ticket-key">{issueTime.issueKey}</td>
+                          <td className="ticket-summary">{issueTime.summary}</td>
+                          <td className="time-value">{issueTime.timeSpentDisplay}</td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  ))}
+                  <tr className="worklog-total-row">
+                    <td>Total</td>
+                    <td></td>
+                    <td></td>
+                    <td className="time-value">{timesheet.worklog.totalTimeSpentDisplay}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,16 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { api } from '../services/api';
-import { ReportData } from '../types';
+import { ReportData, PortfolioQuery, PortfolioReportData, JqlReportData, WorklogRange } from '../types';
 import { IssueTable } from './IssueTable';
 import { ExportButton } from './ExportButton';
 import { ExportPptButton } from './ExportPptButton';
+import { ExportPdfButton } from './ExportPdfButton';
+import { ExportExcelButton } from './ExportExcelButton';
+import { ExportMarkupButton } from './ExportMarkupButton';
+import { PublishConfluenceButton } from './PublishConfluenceButton';
 import { AutoCompleteInput } from './AutoCompleteInput';
 import { TimesheetCard } from './TimesheetCard';
+import { PortfolioCard } from './PortfolioCard';
 import { AuthModal } from './AuthModal';
 import { TemplateSelector } from './TemplateSelector';
 import { TemplateManager } from './TemplateManager';
 import { normalizeStatusForClass, getStatusCategory } from '../utils/statusUtils';
 import { isConnectApp } from '../utils/connectUtils';
+import { ISSUE_KEY_PATTERN } from '../utils/issueKey';
 import './WeeklyReport.css';
 
 export const WeeklyReport: React.FC = () => {
@@ -22,6 +28,24 @@ export const WeeklyReport: React.FC = () => {
   const [userEmail, setUserEmail] = useState<string | null>(null);
   const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
   const [showTemplateManager, setShowTemplateManager] = useState(false);
+  // Any date in the report week (YYYY-MM-DD), empty for the current week
+  const [asOf, setAsOf] = useState('');
+  // Week of the loaded report, so exports match what is displayed
+  const [reportAsOf, setReportAsOf] = useState('');
+  // Worklog period of worklog timesheets (YYYY-MM-DD bounds, empty = report week)
+  const [worklogRange, setWorklogRange] = useState<WorklogRange>({});
+  // Worklog period of the loaded report, so exports match what is displayed
+  const [reportWorklogRange, setReportWorklogRange] = useState<WorklogRange>({});
+  // Single ticket report, portfolio report over several parent tickets or JQL report
+  const [reportMode, setReportMode] = useState<'issue' | 'portfolio' | 'jql'>('issue');
+  const [portfolioInput, setPortfolioInput] = useState('');
+  const [portfolioInputType, setPortfolioInputType] = useState<'keys' | 'jql'>('keys');
+  const [portfolioData, setPortfolioData] = useState<PortfolioReportData | null>(null);
+  // Query of the loaded portfolio report, so exports match what is displayed
+  const [reportPortfolio, setReportPortfolio] = useState<PortfolioQuery | null>(null);
+  // JQL query typed by the user (empty = the template's JQL source)
+  const [jqlInput, setJqlInput] = useState('');
+  const [jqlData, setJqlData] = useState<JqlReportData | null>(null);
 
   // Check if user is authenticated on mount
   useEffect(() => {
@@ -66,35 +90,12 @@ export const WeeklyReport: React.FC = () => {
     setUserEmail(null);
     setReportData(null);
     setIssueKey('');
+    setPortfolioData(null);
+    setPortfolioInput('');
+    setJqlData(null);
+    setJqlInput('');
   };
 
-  const formatManDays = (manDays: number | undefined | null): string => {
-    const validManDays = manDays ?? 0;
-    if (isNaN(validManDays) || validManDays === null || validManDays === undefined) {
-      return '0d';
-    }
-    if (validManDays === 0) return '0d';
-    
-    const isNegative = validManDays < 0;
-    const absManDays = Math.abs(validManDays);
-    
-    // For values less than 1 day (absolute), show as hours
-    if (absManDays < 1) {
-      const hours = Math.round(absManDays * 8);
-      return `${isNegative ? '-' : ''}${hours}h`;
-    }
-    
-    // Calculate whole days and remaining hours
-    const wholeDays = Math.floor(absManDays);
-    const remainingDays = absManDays - wholeDays;
-    const hours = Math.round(remainingDays * 8);
-    
-    // Format: days and hours if there are hours
-    if (hours === 0) {
-      return `${isNegative ? '-' : ''}${wholeDays}d`;
-    }
-    return `${isNegative ? '-' : ''}${wholeDays}d ${hours}h`;
-  };
 
   const handleFetch = async (keyToFetch?: string) => {
     // Use provided key or fall back to issueKey state
@@ -107,7 +108,7 @@ export const WeeklyReport: React.FC = () => {
     }
 
     // Validate format
-    if (!/^[A-Z]+-\d+$/.test(trimmedKey)) {
+    if (!ISSUE_KEY_PATTERN.test(trimmedKey)) {
       setError(`Invalid format: "${trimmedKey}". Expected format: PROJ-123`);
       return;
     }
@@ -117,8 +118,10 @@ export const WeeklyReport: React.FC = () => {
 
     try {
       // Use selected template ID if available
-      const data = await api.getReport(trimmedKey, selectedTemplateId || undefined);
+      const data = await api.getReport(trimmedKey, selectedTemplateId || undefined, asOf || undefined, worklogRange);
       setReportData(data);
+      setReportAsOf(asOf);
+      setReportWorklogRange(worklogRange);
     } catch (err: any) {
       const errorMessage = err.response?.data?.error || err.message || 'Failed to load report';
       console.error('Failed to fetch report:', errorMessage, err);
@@ -129,11 +132,77 @@ export const WeeklyReport: React.FC = () => {
     }
   };
 
+  const handleFetchPortfolio = async () => {
+    const trimmedInput = portfolioInput.trim();
+    if (!trimmedInput) {
+      setError(portfolioInputType === 'keys' ? 'Please enter at least one ticket key' : 'Please enter a JQL query');
+      return;
+    }
+
+    const portfolio: PortfolioQuery = portfolioInputType === 'keys'
+      ? { keys: trimmedInput.toUpperCase() }
+      : { jql: trimmedInput };
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await api.getPortfolioReport(portfolio, selectedTemplateId || undefined, asOf || undefined, worklogRange);
+      setPortfolioData(data);
+      setReportPortfolio(portfolio);
+      setReportAsOf(asOf);
+      setReportWorklogRange(worklogRange);
+    } catch (err: any) {
+      const errorMessage = err.response?.data?.error || err.message || 'Failed to load portfolio report';
+      console.error('Failed to fetch portfolio report:', errorMessage, err);
+      setError(errorMessage);
+      setPortfolioData(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFetchJql = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      // An empty query uses the JQL source of the selected template
+      const data = await api.getJqlReport(jqlInput.trim(), selectedTemplateId || undefined, asOf || undefined, worklogRange);
+      setJqlData(data);
+      setReportAsOf(asOf);
+      setReportWorklogRange(worklogRange);
+    } catch (err: any) {
+      // Invalid queries come back with Jira's validation messages
+      const errorMessage = err.response?.data?.error || err.message || 'Failed to load JQL report';
+      console.error('Failed to fetch JQL report:', errorMessage, err);
+      setError(errorMessage);
+      setJqlData(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload the displayed report (e.g., after a template change)
+  const reloadReport = () => {
+    if (reportMode === 'jql') {
+      if (jqlData) {
+        handleFetchJql();
+      }
+    } else if (reportMode === 'portfolio') {
+      if (portfolioData && portfolioInput.trim()) {
+        handleFetchPortfolio();
+      }
+    } else if (reportData && issueKey.trim()) {
+      handleFetch();
+    }
+  };
+
   const handleSelect = (selectedKey: string) => {
     const trimmedKey = selectedKey.trim().toUpperCase();
     setIssueKey(trimmedKey);
     // Auto-fetch when a suggestion is selected (only if it's a valid format)
-    if (trimmedKey && /^[A-Z]+-\d+$/.test(trimmedKey)) {
+    if (trimmedKey && ISSUE_KEY_PATTERN.test(trimmedKey)) {
       // Pass the selected key directly to handleFetch to avoid state update timing issues
       setTimeout(() => {
         handleFetch(trimmedKey);
@@ -141,6 +210,11 @@ export const WeeklyReport: React.FC = () => {
     }
   };
 
+  // Report shown for the current mode (used for the truncation warning)
+  const activeReport = reportMode === 'portfolio' ? portfolioData
+                     : reportMode === 'jql' ? jqlData
+                     : reportData;
+
   // Show authentication modal if not authenticated
   // Show modal if no credentials in sessionStorage, regardless of Connect mode detection
   if (!isAuthenticated) {
@@ -165,23 +239,117 @@ export const WeeklyReport: React.FC = () => {
 
       <div className="report-container">
         <div className="input-section">
-          <div className="input-group">
-            <label htmlFor="issueKey">Jira Ticket Key:</label>
-            <AutoCompleteInput
-              value={issueKey}
-              onChange={setIssueKey}
-              onSelect={handleSelect}
-              placeholder="Enter a ticket key (e.g., KAN-4) or search..."
+          <div className="report-mode">
+            <button
+              type="button"
+              className={`report-mode-button ${reportMode === 'issue' ? 'active' : ''}`}
+              onClick={() => { setReportMode('issue'); setError(null); }}
+              disabled={loading}
+            >
+              Single ticket
+            </button>
+            <button
+              type="button"
+              className={`report-mode-button ${reportMode === 'portfolio' ? 'active' : ''}`}
+              onClick={() => { setReportMode('portfolio'); setError(null); }}
               disabled={loading}
-            />
-            <button 
-              onClick={() => handleFetch()} 
-              disabled={loading || !issueKey.trim()}
-              className="fetch-button"
             >
-              {loading ? 'Loading...' : 'Load Report'}
+              Portfolio
+            </button>
+            <button
+              type="button"
+              className={`report-mode-button ${reportMode === 'jql' ? 'active' : ''}`}
+              onClick={() => { setReportMode('jql'); setError(null); }}
+              disabled={loading}
+            >
+              JQL query
             </button>
           </div>
+
+          {reportMode === 'issue' && (
+            <div className="input-group">
+              <label htmlFor="issueKey">Jira Ticket Key:</label>
+              <AutoCompleteInput
+                value={issueKey}
+                onChange={setIssueKey}
+                onSelect={handleSelect}
+                placeholder="Enter a ticket key (e.g., KAN-4) or search..."
+                disabled={loading}
+              />
+              <button 
+                onClick={() => handleFetch()} 
+                disabled={loading || !issueKey.trim()}
+                className="fetch-button"
+              >
+                {loading ? 'Loading...' : 'Load Report'}
+              </button>
+            </div>
+          )}
+
+          {reportMode === 'portfolio' && (
+            <div className="input-group">
+              <label htmlFor="portfolioInput">Parent Tickets:</label>
+              <select
+                className="portfolio-input-type"
+                value={portfolioInputType}
+                onChange={(e) => setPortfolioInputType(e.target.value as 'keys' | 'jql')}
+                disabled={loading}
+              >
+                <option value="keys">Ticket keys</option>
+                <option value="jql">JQL query</option>
+              </select>
+              <input
+                id="portfolioInput"
+                type="text"
+                className="issue-input"
+                value={portfolioInput}
+                onChange={(e) => setPortfolioInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    handleFetchPortfolio();
+                  }
+                }}
+                placeholder={portfolioInputType === 'keys'
+                  ? 'e.g., KAN-4, KAN-12, OPS-7'
+                  : 'e.g., project = ABC AND issuetype = Epic AND statusCategory != Done'}
+                disabled={loading}
+              />
+              <button
+                onClick={() => handleFetchPortfolio()}
+                disabled={loading || !portfolioInput.trim()}
+                className="fetch-button"
+              >
+                {loading ? 'Loading...' : 'Load Portfolio'}
+              </button>
+            </div>
+          )}
+
+          {reportMode === 'jql' && (
+            <div className="input-group">
+              <label htmlFor="jqlInput">JQL Query:</label>
+              <input
+                id="jqlInput"
+                type="text"
+                className="issue-input"
+                value={jqlInput}
+                onChange={(e) => setJqlInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    handleFetchJql();
+                  }
+                }}
+                placeholder="e.g., project = ABC AND sprint in openSprints() (empty = template query)"
+                disabled={loading}
+              />
+              <button
+                onClick={() => handleFetchJql()}
+                disabled={loading}
+                className="fetch-button"
+              >
+                {loading ? 'Loading...' : 'Load Report'}
+              </button>
+            </div>
+          )}
           
           {/* Template Selector */}
           <div className="template-section">
@@ -190,9 +358,7 @@ export const WeeklyReport: React.FC = () => {
               onTemplateChange={(templateId) => {
                 setSelectedTemplateId(templateId);
                 // Reload report with new template if report is already loaded
-                if (reportData && issueKey.trim()) {
-                  handleFetch();
-                }
+                reloadReport();
               }}
             />
             <button
@@ -202,6 +368,54 @@ export const WeeklyReport: React.FC = () => {
             >
               Manage Templates
             </button>
+            <div className="week-picker">
+              <label htmlFor="report-week">Report week of:</label>
+              <input
+                id="report-week"
+                type="date"
+                value={asOf}
+                onChange={(e) => setAsOf(e.target.value)}
+                disabled={loading}
+              />
+              {asOf && (
+                <button
+                  className="manage-templates-button"
+                  onClick={() => setAsOf('')}
+                  type="button"
+                  disabled={loading}
+                >
+                  Current week
+                </button>
+              )}
+            </div>
+            <div className="week-picker">
+              <label htmlFor="worklog-from">Worklogs from:</label>
+              <input
+                id="worklog-from"
+                type="date"
+                value={worklogRange.from || ''}
+                onChange={(e) => setWorklogRange({ ...worklogRange, from: e.target.value })}
+                disabled={loading}
+              />
+              <label htmlFor="worklog-to">to:</label>
+              <input
+                id="worklog-to"
+                type="date"
+                value={worklogRange.to || ''}
+                onChange={(e) => setWorklogRange({ ...worklogRange, to: e.target.value })}
+                disabled={loading}
+              />
+              {(worklogRange.from || worklogRange.to) && (
+                <button
+                  className="manage-templates-button"
+                  onClick={() => setWorklogRange({})}
+                  type="button"
+                  disabled={loading}
+                >
+                  Report week
+                </button>
+              )}
+            </div>
           </div>
         </div>
 
@@ -211,15 +425,93 @@ export const WeeklyReport: React.FC = () => {
           </div>
         )}
 
-        {reportData && (
+        {!error && activeReport?.truncated && (
+          <div className="warning-message">
+            <strong>Warning:</strong> Results were capped by the search limit. This report only covers
+            the first {activeReport.childrenCount} issues; narrow the query or the nesting depth to see them all.
+          </div>
+        )}
+
+        {reportMode === 'portfolio' && portfolioData && reportPortfolio && (
+          <div className="report-section">
+            {/* Parent Tickets Card */}
+            <PortfolioCard
+              portfolioData={portfolioData}
+              portfolio={reportPortfolio}
+              templateId={selectedTemplateId}
+              asOf={reportAsOf} worklogRange={reportWorklogRange}
+            />
+
+            {/* Report Table (rows grouped by parent ticket) */}
+            <div className="report-table-section">
+              <h3 className="section-title">
+                Weekly Report - Week {portfolioData.weekNumbers.currentWeek}, {portfolioData.weekNumbers.year}
+              </h3>
+              <IssueTable rows={portfolioData.report} columns={portfolioData.columns} groupLevels={portfolioData.groupLevels} />
+            </div>
+
+            {/* Timesheet Card (summed over all parents) */}
+            <TimesheetCard timesheet={portfolioData.timesheet} parentLabel="Parent Tickets" />
+          </div>
+        )}
+
+        {reportMode === 'jql' && jqlData && (
+          <div className="report-section">
+            {/* Query Card */}
+            <div className="parent-issue-card">
+              <div className="parent-issue-header">
+                <h2>JQL Report</h2>
+                <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+                  <ExportButton jql={jqlData.jql} templateId={selectedTemplateId} asOf={reportAsOf} worklogRange={reportWorklogRange} />
+                  <ExportPptButton jql={jqlData.jql} templateId={selectedTemplateId} asOf={reportAsOf} worklogRange={reportWorklogRange} />
+                </div>
+              </div>
+              <div className="parent-issue-content">
+                <div className="parent-issue-main">
+                  <code className="jql-query">{jqlData.jql}</code>
+                </div>
+                <div className="parent-issue-meta">
+                  <div className="meta-item">
+                    <span className="meta-label">Issues:</span>
+                    <span className="meta-value">{jqlData.childrenCount}</span>
+                  </div>
+                  {!!jqlData.filteredOutCount && (
+                    <div className="meta-item">
+                      <span className="meta-label">Filtered out:</span>
+                      <span className="meta-value">{jqlData.filteredOutCount}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Report Table (rows grouped by the template category field) */}
+            <div className="report-table-section">
+              <h3 className="section-title">
+                Weekly Report - Week {jqlData.weekNumbers.currentWeek}, {jqlData.weekNumbers.year}
+              </h3>
+              <IssueTable rows={jqlData.report} columns={jqlData.columns} groupLevels={jqlData.groupLevels} />
+            </div>
+
+            {/* Timesheet Card (totals of all matching issues) */}
+            <TimesheetCard timesheet={jqlData.timesheet} parentLabel="All Matching Issues" />
+          </div>
+        )}
+
+        {reportMode === 'issue' && reportData && (
           <div className="report-section">
             {/* Parent Issue Info Card */}
             <div className="parent-issue-card">
               <div className="parent-issue-header">
                 <h2>{reportData.parentIssue.key}</h2>
                 <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
-                  <ExportButton issueKey={reportData.parentIssue.key} templateId={selectedTemplateId} />
-                  <ExportPptButton issueKey={reportData.parentIssue.key} templateId={selectedTemplateId} />
+                  <ExportButton issueKey={reportData.parentIssue.key} templateId={selectedTemplateId} asOf={reportAsOf} worklogRange={reportWorklogRange} />
+                  <ExportPptButton issueKey={reportData.parentIssue.key} templateId={selectedTemplateId} asOf={reportAsOf} worklogRange={reportWorklogRange} />
+                  <ExportPdfButton issueKey={reportData.parentIssue.key} templateId={selectedTemplateId} asOf={reportAsOf} worklogRange={reportWorklogRange} />
+                  <ExportExcelButton issueKey={reportData.parentIssue.key} templateId={selectedTemplateId} asOf={reportAsOf} worklogRange={reportWorklogRange} />
+                  <ExportMarkupButton issueKey={reportData.parentIssue.key} format="markdown" templateId={selectedTemplateId} asOf={reportAsOf} worklogRange={reportWorklogRange} />
+                  <ExportMarkupButton issueKey={reportData.parentIssue.key} format="confluence" templateId={selectedTemplateId} asOf={reportAsOf} worklogRange={reportWorklogRange} />
+                  <PublishConfluenceButton issueKey={reportData.parentIssue.key} templateId={selectedTemplateId} asOf={reportAsOf} worklogRange={reportWorklogRange} />
                 </div>
               </div>
               <div className="parent-issue-content">
@@ -265,7 +557,7 @@ export const WeeklyReport: React.FC = () => {
                   )}
                   <div className="meta-item">
                     <span className="meta-label">Status:</span>
-                    <span className={`meta-value status status-${normalizeStatusForClass(reportData.parentIssue.status)} status-${getStatusCategory(reportData.parentIssue.status)}`}>
+                    <span className={`meta-value status status-${normalizeStatusForClass(reportData.parentIssue.status)} status-${getStatusCategory(reportData.parentIssue.section)}`}>
                       {reportData.parentIssue.status}
                     </span>
                   </div>
@@ -273,14 +565,20 @@ export const WeeklyReport: React.FC = () => {
                     <span className="meta-label">Children:</span>
                     <span className="meta-value">{reportData.childrenCount}</span>
                   </div>
+                  {!!reportData.filteredOutCount && (
+                    <div className="meta-item">
+                      <span className="meta-label">Filtered out:</span>
+                      <span className="meta-value">{reportData.filteredOutCount}</span>
+                    </div>
+                  )}
                   <div className="meta-item">
                     <span className="meta-label">Time Spent Global:</span>
-                    <span className="meta-value primary">{formatManDays(reportData.timesheet?.totalTimeSpentManDays ?? reportData.timesheet?.totalTimeSpentHours ? (reportData.timesheet.totalTimeSpentHours / 8) : 0)}</span>
+                    <span className="meta-value primary">{reportData.timesheet.totalTimeSpentDisplay}</span>
                   </div>
                   <div className="meta-item">
                     <span className="meta-label">Remaining Time:</span>
-                    <span className={`meta-value ${((reportData.timesheet?.parentRemainingManDays ?? reportData.timesheet?.parentRemainingHours ? (reportData.timesheet.parentRemainingHours / 8) : 0) >= 0) ? 'success' : 'warning'}`}>
-                      {formatManDays(reportData.timesheet?.parentRemainingManDays ?? reportData.timesheet?.parentRemainingHours ? (reportData.timesheet.parentRemainingHours / 8) : 0)}
+                    <span className={`meta-value ${(reportData.timesheet.parentRemainingHours ?? 0) >= 0 ? 'success' : 'warning'}`}>
+                      {reportData.timesheet.parentRemainingDisplay}
                     </span>
                   </div>
                   {reportData.parentIssue.labels.length > 0 && (
@@ -299,8 +597,10 @@ export const WeeklyReport: React.FC = () => {
 
             {/* Report Table */}
             <div className="report-table-section">
-              <h3 className="section-title">Weekly Report</h3>
-              <IssueTable rows={reportData.report} weekNumbers={reportData.weekNumbers} />
+              <h3 className="section-title">
+                Weekly Report - Week {reportData.weekNumbers.currentWeek}, {reportData.weekNumbers.year}
+              </h3>
+              <IssueTable rows={reportData.report} columns={reportData.columns} groupLevels={reportData.groupLevels} />
             </div>
 
             {/* Timesheet Card */}
@@ -316,9 +616,7 @@ export const WeeklyReport: React.FC = () => {
         onTemplateSelect={(templateId) => {
           setSelectedTemplateId(templateId);
           // Reload report with new template if report is already loaded
-          if (reportData && issueKey.trim()) {
-            handleFetch();
-          }
+          reloadReport();
         }}
       />
     </div>
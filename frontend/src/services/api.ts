@@ -10,8 +10,17 @@
  */
 
 import axios from 'axios';
-import { ReportData, IssueSuggestion } from '../types';
-import { ReportTemplate } from '../types/template';
+import { ReportData, IssueSuggestion, JiraFieldInfo, TemplatePreview, PortfolioQuery, PortfolioReportData, JqlReportData, WorklogRange, MarkupFormat, MarkupExport, ConfluencePublishResult } from '../types';
+import {
+  ReportTemplate,
+  StatusMappingConfig,
+  TemplateBundle,
+  TemplateCreateRequest,
+  TemplateValidationResult,
+  TemplateVersion,
+  TemplateVersionDiff,
+  TemplateVersionSummary,
+} from '../types/template';
 import { isConnectApp, makeConnectRequest, getJWT } from '../utils/connectUtils';
 
 // Base URL for API requests
@@ -98,13 +107,44 @@ const shouldUseConnectAPI = (): boolean => {
   return hasJWT && isConnectApp() && typeof window !== 'undefined' && typeof window.AP !== 'undefined' && typeof window.AP.request !== 'undefined';
 };
 
+/**
+ * Helper to build a report URL with optional query parameters
+ * 
+ * Empty parameters are left out so the backend applies its defaults
+ * (default template, current week).
+ * 
+ * @param path - Report endpoint path (e.g., "/jira/report/PROJ-123")
+ * @param params - Query parameters (e.g., templateId, asOf)
+ * @returns Full URL with query string
+ */
+const buildReportUrl = (path: string, params: Record<string, string | undefined>): string => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) {
+      query.append(key, value);
+    }
+  });
+  const queryString = query.toString();
+  return `${API_BASE_URL}${path}${queryString ? `?${queryString}` : ''}`;
+};
+
+/**
+ * Query parameters of a worklog period (worklog timesheets)
+ * Missing bounds are left out so the backend uses the report week
+ */
+const worklogParams = (worklogRange?: WorklogRange): Record<string, string | undefined> => ({
+  worklogFrom: worklogRange?.from,
+  worklogTo: worklogRange?.to,
+});
+
 /**
  * API Service Object
  * 
  * Provides methods for all API interactions:
  * - Authentication
  * - Fetching reports
- * - Exporting documents (Word, PPT)
+ * - Exporting documents (Word, PPT, PDF, Excel, Markdown, Confluence)
+ * - Publishing reports to Confluence
  * - Searching issues
  */
 export const api = {
@@ -140,12 +180,12 @@ export const api = {
    * 
    * @param issueKey - The Jira issue key (e.g., "PROJ-123")
    * @param templateId - Optional template ID to use for field mapping
+   * @param asOf - Optional date in the report week (YYYY-MM-DD), defaults to the current week
+   * @param worklogRange - Optional worklog period (worklog timesheets), defaults to the report week
    * @returns Promise that resolves to ReportData
    */
-  getReport: async (issueKey: string, templateId?: string): Promise<ReportData> => {
-    const url = templateId
-      ? `${API_BASE_URL}/jira/report/${issueKey}?templateId=${templateId}`
-      : `${API_BASE_URL}/jira/report/${issueKey}`;
+  getReport: async (issueKey: string, templateId?: string, asOf?: string, worklogRange?: WorklogRange): Promise<ReportData> => {
+    const url = buildReportUrl(`/jira/report/${issueKey}`, { templateId, asOf, ...worklogParams(worklogRange) });
     
     if (shouldUseConnectAPI()) {
       // Connect mode: Use Connect API (AP.request) which handles JWT automatically
@@ -165,12 +205,12 @@ export const api = {
    * 
    * @param issueKey - The Jira issue key
    * @param templateId - Optional template ID to use for field mapping
+   * @param asOf - Optional date in the report week (YYYY-MM-DD)
+   * @param worklogRange - Optional worklog period (worklog timesheets), defaults to the report week
    * @returns Promise that resolves to a Blob containing the Word document
    */
-  exportWord: async (issueKey: string, templateId?: string): Promise<Blob> => {
-    const url = templateId
-      ? `${API_BASE_URL}/jira/export/${issueKey}?templateId=${templateId}`
-      : `${API_BASE_URL}/jira/export/${issueKey}`;
+  exportWord: async (issueKey: string, templateId?: string, asOf?: string, worklogRange?: WorklogRange): Promise<Blob> => {
+    const url = buildReportUrl(`/jira/export/${issueKey}`, { templateId, asOf, ...worklogParams(worklogRange) });
     
     if (shouldUseConnectAPI()) {
       // Connect mode: Use Connect API for blob download
@@ -193,12 +233,12 @@ export const api = {
    * 
    * @param issueKey - The Jira issue key
    * @param templateId - Optional template ID to use for field mapping
+   * @param asOf - Optional date in the report week (YYYY-MM-DD)
+   * @param worklogRange - Optional worklog period (worklog timesheets), defaults to the report week
    * @returns Promise that resolves to a Blob containing the PPT file
    */
-  exportPpt: async (issueKey: string, templateId?: string): Promise<Blob> => {
-    const url = templateId
-      ? `${API_BASE_URL}/jira/export-ppt/${issueKey}?templateId=${templateId}`
-      : `${API_BASE_URL}/jira/export-ppt/${issueKey}`;
+  exportPpt: async (issueKey: string, templateId?: string, asOf?: string, worklogRange?: WorklogRange): Promise<Blob> => {
+    const url = buildReportUrl(`/jira/export-ppt/${issueKey}`, { templateId, asOf, ...worklogParams(worklogRange) });
     
     if (shouldUseConnectAPI()) {
       // Connect mode: Use Connect API for blob download
@@ -214,6 +254,259 @@ export const api = {
     }
   },
 
+  /**
+   * Export report to PDF document
+   * 
+   * Downloads the weekly report as a PDF document (.pdf), with the same content as the Word document.
+   * 
+   * @param issueKey - The Jira issue key
+   * @param templateId - Optional template ID to use for field mapping
+   * @param asOf - Optional date in the report week (YYYY-MM-DD)
+   * @param worklogRange - Optional worklog period (worklog timesheets), defaults to the report week
+   * @returns Promise that resolves to a Blob containing the PDF file
+   */
+  exportPdf: async (issueKey: string, templateId?: string, asOf?: string, worklogRange?: WorklogRange): Promise<Blob> => {
+    const url = buildReportUrl(`/jira/export-pdf/${issueKey}`, { templateId, asOf, ...worklogParams(worklogRange) });
+    
+    if (shouldUseConnectAPI()) {
+      // Connect mode: Use Connect API for blob download
+      return makeConnectRequest(url, { method: 'GET', responseType: 'blob' });
+    } else {
+      // Standalone mode: Use regular axios with blob response type
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get(url, {
+        ...config,
+        responseType: 'blob', // Request binary data (PDF file)
+      });
+      return response.data;
+    }
+  },
+
+  /**
+   * Export report to Excel workbook
+   * 
+   * Downloads the weekly report as an Excel workbook (.xlsx) with the report table,
+   * the timesheet (hours and man-days as numbers) and the raw list of the report issues.
+   * 
+   * @param issueKey - The Jira issue key
+   * @param templateId - Optional template ID to use for field mapping
+   * @param asOf - Optional date in the report week (YYYY-MM-DD)
+   * @param worklogRange - Optional worklog period (worklog timesheets), defaults to the report week
+   * @returns Promise that resolves to a Blob containing the Excel file
+   */
+  exportExcel: async (issueKey: string, templateId?: string, asOf?: string, worklogRange?: WorklogRange): Promise<Blob> => {
+    const url = buildReportUrl(`/jira/export-xlsx/${issueKey}`, { templateId, asOf, ...worklogParams(worklogRange) });
+    
+    if (shouldUseConnectAPI()) {
+      // Connect mode: Use Connect API for blob download
+      return makeConnectRequest(url, { method: 'GET', responseType: 'blob' });
+    } else {
+      // Standalone mode: Use regular axios with blob response type
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get(url, {
+        ...config,
+        responseType: 'blob', // Request binary data (Excel file)
+      });
+      return response.data;
+    }
+  },
+
+  /**
+   * Export report as text (Markdown or Confluence storage format)
+   * 
+   * Returns the text rather than a file so it can be downloaded or copied to the clipboard.
+   * 
+   * @param issueKey - The Jira issue key
+   * @param format - "markdown" (GitHub-flavoured Markdown) or "confluence" (Confluence storage format)
+   * @param templateId - Optional template ID to use for field mapping
+   * @param asOf - Optional date in the report week (YYYY-MM-DD)
+   * @param worklogRange - Optional worklog period (worklog timesheets), defaults to the report week
+   * @returns Promise that resolves to the format and text of the report
+   */
+  exportMarkup: async (issueKey: string, format: MarkupFormat, templateId?: string, asOf?: string, worklogRange?: WorklogRange): Promise<MarkupExport> => {
+    const url = buildReportUrl(`/jira/export-markup/${issueKey}`, { format, templateId, asOf, ...worklogParams(worklogRange) });
+    
+    if (shouldUseConnectAPI()) {
+      // Connect mode: Use Connect API (AP.request) which handles JWT automatically
+      return makeConnectRequest(url, { method: 'GET' });
+    } else {
+      // Standalone mode: Use regular axios with Bearer token
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get<MarkupExport>(url, config);
+      return response.data;
+    }
+  },
+
+  /**
+   * Publish report to Confluence
+   * 
+   * Creates or updates the Confluence page of the report week, in the space and under the
+   * parent page configured in the template.
+   * 
+   * @param issueKey - The Jira issue key
+   * @param templateId - Optional template ID (the template must have Confluence publishing enabled)
+   * @param asOf - Optional date in the report week (YYYY-MM-DD)
+   * @param worklogRange - Optional worklog period (worklog timesheets), defaults to the report week
+   * @returns Promise that resolves to the published page
+   */
+  publishConfluence: async (issueKey: string, templateId?: string, asOf?: string, worklogRange?: WorklogRange): Promise<ConfluencePublishResult> => {
+    const url = buildReportUrl(`/jira/publish-confluence/${issueKey}`, { templateId, asOf, ...worklogParams(worklogRange) });
+    
+    if (shouldUseConnectAPI()) {
+      // Connect mode: Use Connect API (AP.request) which handles JWT automatically
+      return makeConnectRequest(url, { method: 'POST' });
+    } else {
+      // Standalone mode: Use regular axios with Bearer token
+      const config = await createAuthenticatedRequest();
+      const response = await axios.post<ConfluencePublishResult>(url, {}, config);
+      return response.data;
+    }
+  },
+
+  /**
+   * Get a portfolio report covering several parent tickets
+   * 
+   * Children of all parents are merged into one report (rows grouped by parent)
+   * and their timesheets are summed.
+   * 
+   * @param portfolio - Parent ticket keys (comma-separated) or JQL query
+   * @param templateId - Optional template ID to use for field mapping
+   * @param asOf - Optional date in the report week (YYYY-MM-DD), defaults to the current week
+   * @param worklogRange - Optional worklog period (worklog timesheets), defaults to the report week
+   * @returns Promise that resolves to PortfolioReportData
+   */
+  getPortfolioReport: async (portfolio: PortfolioQuery, templateId?: string, asOf?: string, worklogRange?: WorklogRange): Promise<PortfolioReportData> => {
+    const url = buildReportUrl('/jira/portfolio/report', { ...portfolio, templateId, asOf, ...worklogParams(worklogRange) });
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'GET' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get<PortfolioReportData>(url, config);
+      return response.data;
+    }
+  },
+
+  /**
+   * Export a portfolio report to one Word document
+   * 
+   * @param portfolio - Parent ticket keys (comma-separated) or JQL query
+   * @param templateId - Optional template ID to use for field mapping
+   * @param asOf - Optional date in the report week (YYYY-MM-DD)
+   * @param worklogRange - Optional worklog period (worklog timesheets), defaults to the report week
+   * @returns Promise that resolves to a Blob containing the Word document
+   */
+  exportPortfolioWord: async (portfolio: PortfolioQuery, templateId?: string, asOf?: string, worklogRange?: WorklogRange): Promise<Blob> => {
+    const url = buildReportUrl('/jira/portfolio/export', { ...portfolio, templateId, asOf, ...worklogParams(worklogRange) });
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'GET', responseType: 'blob' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get(url, {
+        ...config,
+        responseType: 'blob',
+      });
+      return response.data;
+    }
+  },
+
+  /**
+   * Export a portfolio report to one PowerPoint presentation
+   * 
+   * @param portfolio - Parent ticket keys (comma-separated) or JQL query
+   * @param templateId - Optional template ID to use for field mapping
+   * @param asOf - Optional date in the report week (YYYY-MM-DD)
+   * @param worklogRange - Optional worklog period (worklog timesheets), defaults to the report week
+   * @returns Promise that resolves to a Blob containing the PPT file
+   */
+  exportPortfolioPpt: async (portfolio: PortfolioQuery, templateId?: string, asOf?: string, worklogRange?: WorklogRange): Promise<Blob> => {
+    const url = buildReportUrl('/jira/portfolio/export-ppt', { ...portfolio, templateId, asOf, ...worklogParams(worklogRange) });
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'GET', responseType: 'blob' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get(url, {
+        ...config,
+        responseType: 'blob',
+      });
+      return response.data;
+    }
+  },
+
+  /**
+   * Get a report built from the issues matching a JQL query (no parent ticket)
+   * 
+   * Rows are grouped by the template category field. Invalid queries are rejected
+   * with Jira's validation messages (HTTP 400).
+   * 
+   * @param jql - JQL query, empty to use the template's JQL source
+   * @param templateId - Optional template ID to use for field mapping
+   * @param asOf - Optional date in the report week (YYYY-MM-DD), defaults to the current week
+   * @param worklogRange - Optional worklog period (worklog timesheets), defaults to the report week
+   * @returns Promise that resolves to JqlReportData
+   */
+  getJqlReport: async (jql: string, templateId?: string, asOf?: string, worklogRange?: WorklogRange): Promise<JqlReportData> => {
+    const url = buildReportUrl('/jira/jql/report', { jql, templateId, asOf, ...worklogParams(worklogRange) });
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'GET' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get<JqlReportData>(url, config);
+      return response.data;
+    }
+  },
+
+  /**
+   * Export a JQL report to Word document
+   * 
+   * @param jql - JQL query, empty to use the template's JQL source
+   * @param templateId - Optional template ID to use for field mapping
+   * @param asOf - Optional date in the report week (YYYY-MM-DD)
+   * @param worklogRange - Optional worklog period (worklog timesheets), defaults to the report week
+   * @returns Promise that resolves to a Blob containing the Word document
+   */
+  exportJqlWord: async (jql: string, templateId?: string, asOf?: string, worklogRange?: WorklogRange): Promise<Blob> => {
+    const url = buildReportUrl('/jira/jql/export', { jql, templateId, asOf, ...worklogParams(worklogRange) });
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'GET', responseType: 'blob' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get(url, {
+        ...config,
+        responseType: 'blob',
+      });
+      return response.data;
+    }
+  },
+
+  /**
+   * Export a JQL report to PowerPoint presentation
+   * 
+   * @param jql - JQL query, empty to use the template's JQL source
+   * @param templateId - Optional template ID to use for field mapping
+   * @param asOf - Optional date in the report week (YYYY-MM-DD)
+   * @param worklogRange - Optional worklog period (worklog timesheets), defaults to the report week
+   * @returns Promise that resolves to a Blob containing the PPT file
+   */
+  exportJqlPpt: async (jql: string, templateId?: string, asOf?: string, worklogRange?: WorklogRange): Promise<Blob> => {
+    const url = buildReportUrl('/jira/jql/export-ppt', { jql, templateId, asOf, ...worklogParams(worklogRange) });
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'GET', responseType: 'blob' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get(url, {
+        ...config,
+        responseType: 'blob',
+      });
+      return response.data;
+    }
+  },
+
   /**
    * Search issues by text
    * 
@@ -249,6 +542,26 @@ export const api = {
    * Template Management APIs
    */
 
+  /**
+   * Get the fields of the Jira site (template editor field picker)
+   * 
+   * @param project - Optional project key: only the fields of its create screens
+   * @returns Promise that resolves to the fields with their template field path
+   */
+  getJiraFields: async (project?: string): Promise<JiraFieldInfo[]> => {
+    const url = project
+      ? `${API_BASE_URL}/jira/fields?project=${encodeURIComponent(project)}`
+      : `${API_BASE_URL}/jira/fields`;
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'GET' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get<JiraFieldInfo[]>(url, config);
+      return response.data;
+    }
+  },
+
   /**
    * Get all templates for the current user
    * 
@@ -302,13 +615,30 @@ export const api = {
     }
   },
 
+  /**
+   * Get the default status mapping rules (status rules are evaluated by the backend only)
+   *
+   * @returns Promise that resolves to the default status mapping
+   */
+  getDefaultStatusMapping: async (): Promise<StatusMappingConfig> => {
+    const url = `${API_BASE_URL}/templates/status-mapping/default`;
+
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'GET' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get<StatusMappingConfig>(url, config);
+      return response.data;
+    }
+  },
+
   /**
    * Create a new template
    * 
-   * @param template - Template data (without id, createdAt, updatedAt)
+   * @param template - Template data (without id, createdAt, updatedAt; userId only in standalone mode)
    * @returns Promise that resolves to the created template
    */
-  createTemplate: async (template: Omit<ReportTemplate, 'id' | 'createdAt' | 'updatedAt'>): Promise<ReportTemplate> => {
+  createTemplate: async (template: TemplateCreateRequest): Promise<ReportTemplate> => {
     const url = `${API_BASE_URL}/templates`;
     
     if (shouldUseConnectAPI()) {
@@ -320,6 +650,44 @@ export const api = {
     }
   },
 
+  /**
+   * Validate a template payload without saving it
+   * 
+   * @param template - Template data (as sent to createTemplate)
+   * @returns Promise that resolves to the validation errors per setting
+   */
+  validateTemplate: async (template: Partial<Omit<ReportTemplate, 'id' | 'createdAt' | 'updatedAt'>>): Promise<TemplateValidationResult> => {
+    const url = `${API_BASE_URL}/templates/validate`;
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'POST', data: template });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.post<TemplateValidationResult>(url, template, config);
+      return response.data;
+    }
+  },
+
+  /**
+   * Preview an unsaved template on the children of a sample issue
+   * 
+   * @param template - Template data (as sent to createTemplate)
+   * @param issueKey - Sample parent issue key
+   * @returns Promise that resolves to the report rows and the values resolved for each field path
+   */
+  previewTemplate: async (template: Partial<Omit<ReportTemplate, 'id' | 'createdAt' | 'updatedAt'>>, issueKey: string): Promise<TemplatePreview> => {
+    const url = `${API_BASE_URL}/templates/preview`;
+    const data = { template, issueKey };
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'POST', data });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.post<TemplatePreview>(url, data, config);
+      return response.data;
+    }
+  },
+
   /**
    * Update an existing template
    * 
@@ -374,5 +742,128 @@ export const api = {
       return response.data;
     }
   },
+
+  /**
+   * Export a template as a portable JSON bundle
+   * 
+   * @param templateId - Template ID
+   */
+  exportTemplate: async (templateId: string): Promise<TemplateBundle> => {
+    const url = `${API_BASE_URL}/templates/${templateId}/export`;
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'GET' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get<TemplateBundle>(url, config);
+      return response.data;
+    }
+  },
+
+  /**
+   * Import a template bundle as a new template
+   * 
+   * @param bundle - Parsed template bundle (as exported by exportTemplate)
+   * @returns Imported template (new ID, owned by the current user)
+   */
+  importTemplate: async (bundle: TemplateBundle): Promise<ReportTemplate> => {
+    const url = `${API_BASE_URL}/templates/import`;
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'POST', data: bundle });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.post<ReportTemplate>(url, bundle, config);
+      return response.data;
+    }
+  },
+
+  /**
+   * Get the deleted templates of the current user (the last version of each, newest first)
+   * Their history can still be read and restored
+   */
+  getDeletedTemplates: async (): Promise<TemplateVersion[]> => {
+    const url = `${API_BASE_URL}/templates/deleted`;
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'GET' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get<TemplateVersion[]>(url, config);
+      return response.data;
+    }
+  },
+
+  /**
+   * Get the version history of a template (newest first)
+   * 
+   * @param templateId - Template ID
+   */
+  getTemplateVersions: async (templateId: string): Promise<TemplateVersionSummary[]> => {
+    const url = `${API_BASE_URL}/templates/${templateId}/versions`;
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'GET' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get<TemplateVersionSummary[]>(url, config);
+      return response.data;
+    }
+  },
+
+  /**
+   * Get a version of a template (with the template content)
+   * 
+   * @param templateId - Template ID
+   * @param version - Version number
+   */
+  getTemplateVersion: async (templateId: string, version: number): Promise<TemplateVersion> => {
+    const url = `${API_BASE_URL}/templates/${templateId}/versions/${version}`;
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'GET' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get<TemplateVersion>(url, config);
+      return response.data;
+    }
+  },
+
+  /**
+   * Compare two versions of a template
+   * 
+   * @param templateId - Template ID
+   * @param fromVersion - Older version number
+   * @param toVersion - Newer version number
+   */
+  diffTemplateVersions: async (templateId: string, fromVersion: number, toVersion: number): Promise<TemplateVersionDiff> => {
+    const url = `${API_BASE_URL}/templates/${templateId}/versions/diff?from=${fromVersion}&to=${toVersion}`;
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'GET' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.get<TemplateVersionDiff>(url, config);
+      return response.data;
+    }
+  },
+
+  /**
+   * Restore a version of a template (recorded as a new version)
+   * 
+   * @param templateId - Template ID
+   * @param version - Version number to restore
+   */
+  restoreTemplateVersion: async (templateId: string, version: number): Promise<ReportTemplate> => {
+    const url = `${API_BASE_URL}/templates/${templateId}/versions/${version}/restore`;
+    
+    if (shouldUseConnectAPI()) {
+      return makeConnectRequest(url, { method: 'POST' });
+    } else {
+      const config = await createAuthenticatedRequest();
+      const response = await axios.post<ReportTemplate>(url, {}, config);
+      return response.data;
+    }
+  },
 };
 
@@ -1,3 +1,7 @@
+import { ReportSection, ReportColumnSource } from './template';
+
+export type ReportBucket = ReportSection | 'older';
+
 export interface ReportRow {
   category: string;
   initiative: string;
@@ -5,8 +9,38 @@ export interface ReportRow {
   currentWeek: string[];
   nextWeek: string[];
   later: string[];
+  older?: string[];
+  groups?: string[]; // Values of the grouping levels, outermost first
+  values: Record<string, string>; // Values of the field columns, by column ID
+  parentKey?: string; // Parent ticket of the row (portfolio reports only)
+}
+
+/**
+ * Column of the report table, resolved by the backend from the template columns
+ */
+export interface ReportColumn {
+  id: string; // Built-in source (e.g., "lastWeek"), or "field<N>" for a field column
+  source: ReportColumnSource;
+  label: string; // Header (week headers include the week number)
 }
 
+/**
+ * Grouping level of the report table, resolved by the backend from the template levels
+ */
+export interface ReportGroupLevel {
+  label: string;
+  header: boolean; // Groups start with a sub-header line (false when a column shows the level values)
+  subtotals: boolean;
+}
+
+/**
+ * Line of a report table: a report row, or the sub-header / subtotal of a group
+ */
+export type ReportTableLine =
+  | { type: 'header'; level: number; text: string; parentKey?: string }
+  | { type: 'row'; row: ReportRow; index: number }
+  | { type: 'subtotal'; level: number; text: string; itemCounts: Record<ReportBucket, number>; parentKey?: string };
+
 export interface WeekNumbers {
   lastWeek: number;
   currentWeek: number;
@@ -14,23 +48,99 @@ export interface WeekNumbers {
   year: number;
 }
 
+export interface ParentIssueInfo {
+  key: string;
+  summary: string;
+  status: string;
+  statusCategory: string;
+  section: ReportSection; // Resolved by the backend from the template status mapping
+  issuetype: string;
+  labels: string[];
+  assignee?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  confidence?: any;
+}
+
 export interface ReportData {
-  parentIssue: {
-    key: string;
-    summary: string;
-    status: string;
-    statusCategory: string;
-    issuetype: string;
-    labels: string[];
-    assignee?: string | null;
-    startDate?: string | null;
-    endDate?: string | null;
-    confidence?: any;
-  };
+  parentIssue: ParentIssueInfo;
+  columns: ReportColumn[];
+  groupLevels: ReportGroupLevel[];
   report: ReportRow[];
   timesheet: TimesheetSummary;
   weekNumbers: WeekNumbers;
   childrenCount: number;
+  filteredOutCount?: number; // Children left out by the template filter rules
+  truncated?: boolean; // Children were capped by the backend search limit
+}
+
+/**
+ * Parent tickets of a portfolio report: comma-separated keys or a JQL query
+ */
+export interface PortfolioQuery {
+  keys?: string;
+  jql?: string;
+}
+
+export interface PortfolioReportData {
+  parentIssues: ParentIssueInfo[];
+  columns: ReportColumn[];
+  groupLevels: ReportGroupLevel[];
+  report: ReportRow[]; // Rows of all parents, grouped by parentKey
+  timesheet: TimesheetSummary; // Summed over all parents
+  weekNumbers: WeekNumbers;
+  childrenCount: number;
+  filteredOutCount?: number; // Children left out by the template filter rules
+  truncated?: boolean; // Children of at least one parent were capped by the backend search limit
+}
+
+/**
+ * Report built from the issues matching a JQL query (no parent ticket)
+ */
+export interface JqlReportData {
+  jql: string; // Query the report was built from (request or template query)
+  columns: ReportColumn[];
+  groupLevels: ReportGroupLevel[];
+  report: ReportRow[];
+  timesheet: TimesheetSummary; // Parent totals are the totals of all matching issues
+  weekNumbers: WeekNumbers;
+  childrenCount: number;
+  filteredOutCount?: number; // Matching issues left out by the template filter rules
+  truncated?: boolean; // Matching issues were capped by the backend search limit
+}
+
+/**
+ * Values resolved for a field path of a previewed template (mirrors the backend FieldPathPreview)
+ */
+export interface FieldPathPreview {
+  setting:
+    | 'fieldMapping.categoryField'
+    | 'fieldMapping.initiativeField'
+    | 'fieldMapping.issueItemField'
+    | 'fieldMapping.issueItemFormat'
+    | 'issueSelection.parentGroupingField'
+    | `columns[${number}].fieldPath`
+    | `groupBy[${number}].fieldPath`;
+  path: string;
+  issueCount: number;
+  resolvedCount: number;
+  alwaysNull: boolean; // Resolved to null on every issue (likely a wrong path)
+  samples: Array<{ issueKey: string; value: any }>;
+}
+
+/**
+ * Report of an unsaved template on the children of a sample issue
+ */
+export interface TemplatePreview {
+  issueKey: string;
+  summary: string;
+  columns: ReportColumn[];
+  groupLevels: ReportGroupLevel[];
+  report: ReportRow[];
+  childrenCount: number;
+  filteredOutCount: number; // Children left out by the template filter rules
+  truncated: boolean; // Children were capped by the backend preview limit
+  fieldPaths: FieldPathPreview[];
 }
 
 export interface IssueSuggestion {
@@ -39,6 +149,20 @@ export interface IssueSuggestion {
   issuetype: string;
 }
 
+/**
+ * Jira field offered by the template editor field picker
+ */
+export interface JiraFieldInfo {
+  id: string; // e.g. "summary", "customfield_10020"
+  name: string;
+  custom: boolean;
+  schemaType: string | null; // e.g. "string", "user", "option", "array"
+  itemsType?: string; // Type of the values of multi-valued fields
+  multiValued: boolean;
+  path: string; // Template field path, e.g. "fields.customfield_10030.value"
+  required?: boolean; // Required on the create / edit screen (only when a project or issue is given)
+}
+
 export interface TimesheetEntry {
   issueKey: string;
   summary: string;
@@ -50,7 +174,11 @@ export interface TimesheetEntry {
   timespentManDays: number;
   timeestimateManDays: number;
   remainingManDays: number;
+  timespentDisplay: string; // Formatted by the backend with the template time unit
+  timeestimateDisplay: string;
+  remainingDisplay: string;
   status: string;
+  section: ReportSection; // Resolved by the backend from the template status mapping
 }
 
 export interface TimesheetSummary {
@@ -71,5 +199,78 @@ export interface TimesheetSummary {
   parentTimeEstimateManDays: number;
   parentRemainingHours: number;
   parentRemainingManDays: number;
+  totalTimeSpentDisplay: string; // Formatted by the backend with the template time unit
+  totalTimeEstimateDisplay: string;
+  remainingDisplay: string;
+  parentTimeSpentDisplay: string;
+  parentTimeEstimateDisplay: string;
+  parentRemainingDisplay: string;
+  worklog?: WorklogTimesheet; // Only present when the template uses worklogs
+}
+
+export interface WorklogIssueTime {
+  issueKey: string;
+  summary: string;
+  timeSpent: number;
+  timeSpentHours: number;
+  timeSpentManDays: number;
+  timeSpentDisplay: string;
+}
+
+export interface WorklogAuthorTime {
+  author: string;
+  accountId?: string;
+  timeSpent: number;
+  timeSpentHours: number;
+  timeSpentManDays: number;
+  timeSpentDisplay: string;
+  issues: WorklogIssueTime[]; // Most time first
 }
 
+/**
+ * Time logged per person during the worklog period
+ */
+export interface WorklogTimesheet {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD, inclusive
+  totalTimeSpent: number;
+  totalTimeSpentHours: number;
+  totalTimeSpentManDays: number;
+  totalTimeSpentDisplay: string;
+  authors: WorklogAuthorTime[]; // Most time first
+}
+
+/**
+ * Worklog period of a report (YYYY-MM-DD, inclusive); a missing bound uses the report week
+ */
+export interface WorklogRange {
+  from?: string;
+  to?: string;
+}
+
+
+/**
+ * Text formats of the markup export
+ * - markdown: GitHub-flavoured Markdown
+ * - confluence: Confluence storage format (XHTML)
+ */
+export type MarkupFormat = 'markdown' | 'confluence';
+
+/**
+ * Weekly report rendered as text (markup export)
+ */
+export interface MarkupExport {
+  format: MarkupFormat;
+  content: string;
+}
+
+/**
+ * Confluence page the report was published to
+ */
+export interface ConfluencePublishResult {
+  pageId: string;
+  title: string;
+  version: number; // 1 for a new page
+  url: string; // Empty if Confluence returned no link
+  created: boolean; // false when an existing page was updated
+}
@@ -10,6 +10,54 @@
  */
 export type FieldPath = string;
 
+/**
+ * Report section (week bucket) an issue is placed in
+ */
+export type ReportSection = 'lastWeek' | 'currentWeek' | 'nextWeek' | 'later';
+
+/**
+ * How a status mapping rule is matched against an issue status
+ */
+export type StatusMatchType = 'category' | 'name' | 'id' | 'regex';
+
+/**
+ * A single status mapping rule
+ */
+export interface StatusMappingRule {
+  matchType: StatusMatchType;
+  value: string;
+  section: ReportSection;
+}
+
+/**
+ * Status mapping configuration (first matching rule wins)
+ */
+export interface StatusMappingConfig {
+  rules: StatusMappingRule[];
+  defaultSection: ReportSection;
+}
+
+/**
+ * Issue property a filter rule reads ("field" = any field path)
+ */
+export type IssueFilterField = 'issueType' | 'status' | 'label' | 'component' | 'assignee' | 'field';
+
+/**
+ * How a filter rule compares the issue value (case-insensitive)
+ */
+export type IssueFilterOperator = 'equals' | 'in' | 'contains' | 'empty' | 'before' | 'after';
+
+/**
+ * Rule including or excluding issues from the report
+ */
+export interface IssueFilterRule {
+  action: 'include' | 'exclude';
+  field: IssueFilterField;
+  fieldPath?: FieldPath; // only for field "field"
+  operator: IssueFilterOperator;
+  value?: string; // not used by "empty"
+}
+
 /**
  * Issue selection configuration
  */
@@ -17,6 +65,31 @@ export interface IssueSelectionConfig {
   maxDepth: number;
   includeNestedChildren: boolean;
   parentGroupingField: FieldPath;
+  source?: 'children' | 'jql'; // "jql" = issues matching the jql query, no parent ticket
+  jql?: string;
+  filters?: IssueFilterRule[]; // applied before grouping, filtered issues still count in the timesheet
+}
+
+/**
+ * Order of the category or initiative groups of a report ("source" = order of first appearance)
+ */
+export type GroupSortOrder = 'source' | 'manual' | 'alphabetical' | 'issueCount';
+
+/**
+ * Alias renaming field values (compared case-insensitively)
+ */
+export interface ValueAlias {
+  values: string[];
+  label: string;
+}
+
+/**
+ * Aliases and order of the values of a grouping field (category or initiative)
+ */
+export interface GroupValueConfig {
+  aliases?: ValueAlias[];
+  sortOrder?: GroupSortOrder;
+  manualOrder?: string[]; // values in display order for the "manual" sort order, others follow alphabetically
 }
 
 /**
@@ -25,11 +98,90 @@ export interface IssueSelectionConfig {
 export interface FieldMappingConfig {
   categoryField: FieldPath;
   initiativeField: FieldPath;
+  categoryValues?: GroupValueConfig;
+  initiativeValues?: GroupValueConfig;
   issueItemField: FieldPath;
+  issueItemFormat?: string; // e.g. "{key} {fields.summary | truncate:40}", replaces issueItemField when set
   multiValueHandling: 'join' | 'first' | 'all';
   multiValueSeparator: string;
 }
 
+/**
+ * What a report column shows: the category or initiative of the row, the issue items
+ * of a week bucket, or a field of the row issues combined with an aggregation ("field")
+ */
+export type ReportColumnSource = 'category' | 'initiative' | 'older' | ReportSection | 'field';
+
+/**
+ * How the values of a field column are combined over the issues of a row
+ */
+export type ReportColumnAggregation = 'first' | 'join' | 'count' | 'minDate' | 'maxDate' | 'sum';
+
+/**
+ * Column of the report table
+ * label is optional for built-in columns (default header), fieldPath and aggregation apply to field columns only
+ */
+export interface ReportColumnConfig {
+  source: ReportColumnSource;
+  label?: string;
+  fieldPath?: FieldPath;
+  aggregation?: ReportColumnAggregation;
+}
+
+/**
+ * What a grouping level groups the issues by ("field" = any field path)
+ */
+export type GroupLevelSource = 'category' | 'initiative' | 'field';
+
+/**
+ * Level of the report grouping (outermost level first)
+ * fieldPath and sortOrder apply to field levels only
+ */
+export interface GroupLevelConfig {
+  source: GroupLevelSource;
+  fieldPath?: FieldPath;
+  label?: string; // sub-header name, default "Category", "Initiative" or the field path
+  sortOrder?: Exclude<GroupSortOrder, 'manual'>;
+  subtotals?: boolean;
+}
+
+/**
+ * Section timing configuration
+ * "status" = week columns by current status, "timeWindow" = by transition, resolution and due dates
+ */
+export interface SectionTimingConfig {
+  mode: 'status' | 'timeWindow';
+  olderIssues: 'drop' | 'older';
+}
+
+/**
+ * Unit time is displayed in: hours only, man days, or days and hours
+ */
+export type TimeDisplayUnit = 'hours' | 'days' | 'daysHours';
+
+/**
+ * Timesheet configuration
+ * "totals" = time spent / estimate of each issue, "worklog" = also time logged per person during the period
+ * hoursPerDay (default 8) and displayUnit (default "daysHours") apply to the web report and the exports
+ */
+export interface TimesheetConfig {
+  mode: 'totals' | 'worklog';
+  hoursPerDay?: number;
+  displayUnit?: TimeDisplayUnit;
+}
+
+/**
+ * Confluence publishing configuration
+ * The page titled with titlePattern (placeholders, see PAGE_TITLE_PLACEHOLDERS) is created in the space
+ * under parentPageId (optional), or updated when it already exists
+ */
+export interface ConfluencePublishConfig {
+  enabled: boolean;
+  spaceKey: string;
+  parentPageId?: string;
+  titlePattern: string;
+}
+
 /**
  * Complete template configuration
  */
@@ -41,10 +193,268 @@ export interface ReportTemplate {
   isShared: boolean;
   fieldMapping: FieldMappingConfig;
   issueSelection: IssueSelectionConfig;
+  statusMapping?: StatusMappingConfig;
+  sectionTiming?: SectionTimingConfig;
+  timesheet?: TimesheetConfig;
+  columns?: ReportColumnConfig[];
+  groupBy?: GroupLevelConfig[];
+  confluence?: ConfluencePublishConfig;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Body of a template creation request
+ * userId is only sent in standalone mode; in Connect mode the backend takes it from the JWT
+ */
+export type TemplateCreateRequest = Omit<ReportTemplate, 'id' | 'userId' | 'createdAt' | 'updatedAt'> & { userId?: string };
+
+/**
+ * Change that produced a template version
+ */
+export type TemplateVersionAction = 'create' | 'update' | 'clone' | 'restore' | 'import';
+
+/**
+ * Version of a template (without the template content)
+ */
+export interface TemplateVersionSummary {
+  templateId: string;
+  version: number;
+  action: TemplateVersionAction;
+  userId: string;
+  createdAt: string;
+  name: string;
+  restoredFrom?: number;
+}
+
+/**
+ * Immutable revision of a template
+ */
+export interface TemplateVersion extends TemplateVersionSummary {
+  template: ReportTemplate;
+}
+
+/**
+ * Difference of one template field between two versions
+ */
+export interface TemplateFieldChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
+/**
+ * Differences between two versions of a template
+ */
+export interface TemplateVersionDiff {
+  templateId: string;
+  from: TemplateVersionSummary;
+  to: TemplateVersionSummary;
+  changes: TemplateFieldChange[];
+}
+
+/**
+ * Portable JSON document of a template (mirrors the backend TemplateBundle)
+ */
+export interface TemplateBundle {
+  format: 'abc-report-template';
+  formatVersion: number;
+  exportedAt: string;
+  sourceTemplateId?: string;
+  template: Omit<ReportTemplate, 'id' | 'userId' | 'isShared' | 'createdAt' | 'updatedAt'>;
+}
+
+/**
+ * Kind of template validation error (mirrors the backend TemplateErrorCode)
+ */
+export type TemplateErrorCode = 'required' | 'invalidType' | 'invalidValue' | 'invalidFieldPath' | 'unknownKey' | 'readOnly';
+
+/**
+ * Validation error of a template setting (path e.g. "fieldMapping.categoryField", "statusMapping.rules[0].value")
+ */
+export interface TemplateFieldError {
+  path: string;
+  code: TemplateErrorCode;
+  message: string;
+}
+
+/**
+ * Result of validating a template payload
+ */
+export interface TemplateValidationResult {
+  valid: boolean;
+  errors: TemplateFieldError[];
+}
+
+/**
+ * Labels of template version actions
+ */
+export const TEMPLATE_VERSION_ACTIONS: Record<TemplateVersionAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  clone: 'Cloned',
+  restore: 'Restored',
+  import: 'Initial version',
+};
+
+/**
+ * Default section timing (status-only, mirrors the backend default)
+ */
+export const DEFAULT_SECTION_TIMING: SectionTimingConfig = {
+  mode: 'status',
+  olderIssues: 'older',
+};
+
+/**
+ * Default timesheet configuration (totals only, mirrors the backend default)
+ */
+export const DEFAULT_TIMESHEET_CONFIG: TimesheetConfig = {
+  mode: 'totals',
+  hoursPerDay: 8,
+  displayUnit: 'daysHours',
+};
+
+/**
+ * Default report columns (mirrors the backend default)
+ */
+export const DEFAULT_REPORT_COLUMNS: ReportColumnConfig[] = [
+  { source: 'category' },
+  { source: 'initiative' },
+  { source: 'older' },
+  { source: 'lastWeek' },
+  { source: 'currentWeek' },
+  { source: 'nextWeek' },
+  { source: 'later' },
+];
+
+/**
+ * Default grouping levels (mirrors the backend default: category, then initiative)
+ */
+export const DEFAULT_GROUP_BY: GroupLevelConfig[] = [
+  { source: 'category' },
+  { source: 'initiative' },
+];
+
+/**
+ * Default Confluence publishing configuration (disabled, mirrors the backend default)
+ */
+export const DEFAULT_CONFLUENCE_PUBLISHING: ConfluencePublishConfig = {
+  enabled: false,
+  spaceKey: '',
+  titlePattern: 'Weekly Report {issueKey} - Week {week}, {year}',
+};
+
+/**
+ * Placeholders of Confluence page titles
+ */
+export const PAGE_TITLE_PLACEHOLDERS: Array<{ value: string; label: string }> = [
+  { value: '{issueKey}', label: 'Parent ticket key' },
+  { value: '{summary}', label: 'Parent ticket summary' },
+  { value: '{week}', label: 'Week number' },
+  { value: '{year}', label: 'Year of the week' },
+  { value: '{weekStart}', label: 'Monday of the week (YYYY-MM-DD)' },
+  { value: '{weekEnd}', label: 'Sunday of the week (YYYY-MM-DD)' },
+];
+
+/**
+ * Grouping level sources for the grouping settings
+ */
+export const GROUP_LEVEL_SOURCES: Array<{ value: GroupLevelSource; label: string }> = [
+  { value: 'category', label: 'Category' },
+  { value: 'initiative', label: 'Initiative' },
+  { value: 'field', label: 'Field' },
+];
+
+/**
+ * Report column sources for the column settings
+ */
+export const REPORT_COLUMN_SOURCES: Array<{ value: ReportColumnSource; label: string }> = [
+  { value: 'category', label: 'Category' },
+  { value: 'initiative', label: 'Initiative' },
+  { value: 'older', label: 'Older (only shown when there are older issues)' },
+  { value: 'lastWeek', label: 'Last week' },
+  { value: 'currentWeek', label: 'Current week' },
+  { value: 'nextWeek', label: 'Next week' },
+  { value: 'later', label: 'Later' },
+  { value: 'field', label: 'Field' },
+];
+
+/**
+ * Aggregations of field columns
+ */
+export const REPORT_COLUMN_AGGREGATIONS: Array<{ value: ReportColumnAggregation; label: string }> = [
+  { value: 'first', label: 'First value' },
+  { value: 'join', label: 'All values (joined)' },
+  { value: 'count', label: 'Count of issues with a value' },
+  { value: 'minDate', label: 'Earliest date' },
+  { value: 'maxDate', label: 'Latest date' },
+  { value: 'sum', label: 'Sum' },
+];
+
+/**
+ * Sort orders of category and initiative groups
+ */
+export const GROUP_SORT_ORDERS: Array<{ value: GroupSortOrder; label: string }> = [
+  { value: 'source', label: 'As found in the issues' },
+  { value: 'alphabetical', label: 'Alphabetical' },
+  { value: 'issueCount', label: 'Most issues first' },
+  { value: 'manual', label: 'Manual order' },
+];
+
+/**
+ * Fields of issue filter rules
+ */
+export const ISSUE_FILTER_FIELDS: Array<{ value: IssueFilterField; label: string }> = [
+  { value: 'issueType', label: 'Issue type' },
+  { value: 'status', label: 'Status' },
+  { value: 'label', label: 'Label' },
+  { value: 'component', label: 'Component' },
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'field', label: 'Field' },
+];
+
+/**
+ * Operators of issue filter rules
+ */
+export const ISSUE_FILTER_OPERATORS: Array<{ value: IssueFilterOperator; label: string }> = [
+  { value: 'equals', label: 'equals' },
+  { value: 'in', label: 'is one of (comma-separated)' },
+  { value: 'contains', label: 'contains' },
+  { value: 'empty', label: 'is empty' },
+  { value: 'before', label: 'date before' },
+  { value: 'after', label: 'date after' },
+];
+
+/**
+ * Time display units for the timesheet settings
+ */
+export const TIME_DISPLAY_UNITS: Array<{ value: TimeDisplayUnit; label: string }> = [
+  { value: 'daysHours', label: 'Days and hours (e.g., 1d 4h)' },
+  { value: 'days', label: 'Days (e.g., 1.5d)' },
+  { value: 'hours', label: 'Hours (e.g., 12h)' },
+];
+
+/**
+ * Report sections for status mapping selection
+ */
+export const REPORT_SECTIONS: Array<{ value: ReportSection; label: string }> = [
+  { value: 'lastWeek', label: 'Last week' },
+  { value: 'currentWeek', label: 'Current week' },
+  { value: 'nextWeek', label: 'Next week' },
+  { value: 'later', label: 'Later' },
+];
+
+/**
+ * Status match types for status mapping selection
+ */
+export const STATUS_MATCH_TYPES: Array<{ value: StatusMatchType; label: string; placeholder: string }> = [
+  { value: 'category', label: 'Status category', placeholder: 'new, indeterminate or done' },
+  { value: 'name', label: 'Status name', placeholder: 'e.g., Waiting for QA' },
+  { value: 'id', label: 'Status ID', placeholder: 'e.g., 10001' },
+  { value: 'regex', label: 'Regex', placeholder: 'e.g., blocked|deploye en recette' },
+];
+
 /**
  * Common field paths for easy selection
  */
@@ -39,6 +39,14 @@ declare global {
        */
       getContext?: (callback: (context: any) => void) => void;
       
+      /**
+       * Connect context API
+       * getToken returns a context JWT (qsh "context-qsh") for calls to the app backend
+       */
+      context?: {
+        getToken?: (callback: (token: string) => void) => void;
+      };
+      
       /**
        * Make an authenticated request to an external URL
        * Automatically includes JWT token for authentication
@@ -71,8 +79,9 @@ export const isConnectApp = (): boolean => {
 /**
  * Get JWT token from Connect context
  * 
- * Extracts the JWT token from the current URL. In Connect mode, Jira
- * includes the JWT token in the URL query parameters for security.
+ * Prefers a context JWT (AP.context.getToken), which the backend accepts on all its
+ * routes. Falls back to the JWT of the current URL: Jira includes it in the
+ * URL query parameters, but it is only valid for the page request itself.
  * 
  * @returns Promise that resolves to JWT token string or null if not found
  */
@@ -84,6 +93,11 @@ export const getJWT = (): Promise<string | null> => {
       return;
     }
 
+    if (window.AP.context?.getToken) {
+      window.AP.context.getToken((token: string) => resolve(token || null));
+      return;
+    }
+
     // Use AP.getLocation to get the current URL
     // In Connect apps, the JWT is included in the URL as a query parameter
     if (window.AP.getLocation) {
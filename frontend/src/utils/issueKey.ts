@@ -0,0 +1,6 @@
+/**
+ * Issue key (uppercase), same format as the backend validation:
+ * a project key starting with a letter followed by letters, digits or underscores, and a number
+ * (e.g., "PROJ-123", "AB2-1", "MY_PROJ-7")
+ */
+export const ISSUE_KEY_PATTERN = /^[A-Z][A-Z0-9_]*-\d+$/;
@@ -0,0 +1,91 @@
+import { ReportRow, ReportColumn, ReportBucket, ReportGroupLevel, ReportTableLine } from '../types';
+
+/**
+ * Get the content of a report cell (mirrors the backend getReportCellValue)
+ *
+ * @returns Issue items for bucket columns, otherwise the cell text (empty when there is no value)
+ */
+export function getReportCellValue(row: ReportRow, column: ReportColumn): string | string[] {
+  switch (column.source) {
+    case 'category':
+      return row.category;
+    case 'initiative':
+      return row.initiative;
+    case 'field':
+      return row.values?.[column.id] || '';
+    default:
+      return row[column.source] || [];
+  }
+}
+
+/**
+ * Whether a column lists issue items (week buckets) rather than a single value
+ */
+export function isBucketColumn(column: ReportColumn): boolean {
+  return !['category', 'initiative', 'field'].includes(column.source);
+}
+
+const REPORT_BUCKETS: ReportBucket[] = ['older', 'lastWeek', 'currentWeek', 'nextWeek', 'later'];
+
+/**
+ * Get the lines of a report table (mirrors the backend buildReportTableLines): a sub-header before
+ * the first row of each group and a subtotal after its last row, for the levels that have them
+ */
+export function buildReportTableLines(rows: ReportRow[], groupLevels: ReportGroupLevel[]): ReportTableLine[] {
+  const lines: ReportTableLine[] = [];
+  const openGroups: Array<{ value: string; itemCounts: Record<ReportBucket, number> }> = [];
+
+  const closeGroups = (depth: number, parentKey?: string) => {
+    for (let level = openGroups.length - 1; level >= depth; level--) {
+      const group = openGroups.pop()!;
+      if (groupLevels[level].subtotals) {
+        lines.push({ type: 'subtotal', level, text: `Subtotal ${group.value}`, itemCounts: group.itemCounts, parentKey });
+      }
+    }
+  };
+
+  rows.forEach((row, index) => {
+    const previous = rows[index - 1];
+    const values = row.groups || [];
+
+    // Depth of the first level whose group changes
+    let depth = 0;
+    if (previous && previous.parentKey === row.parentKey) {
+      while (depth < openGroups.length && openGroups[depth].value === (values[depth] ?? '')) {
+        depth++;
+      }
+    }
+    closeGroups(depth, previous?.parentKey);
+
+    for (let level = depth; level < groupLevels.length; level++) {
+      const value = values[level] ?? '';
+      openGroups.push({ value, itemCounts: { older: 0, lastWeek: 0, currentWeek: 0, nextWeek: 0, later: 0 } });
+      if (groupLevels[level].header) {
+        lines.push({ type: 'header', level, text: `${groupLevels[level].label}: ${value}`, parentKey: row.parentKey });
+      }
+    }
+
+    openGroups.forEach(group => REPORT_BUCKETS.forEach(bucket => {
+      group.itemCounts[bucket] += row[bucket]?.length || 0;
+    }));
+    lines.push({ type: 'row', row, index });
+  });
+
+  closeGroups(0, rows[rows.length - 1]?.parentKey);
+  return lines;
+}
+
+/**
+ * Get the content of a subtotal cell (mirrors the backend getSubtotalCellValue)
+ */
+export function getSubtotalCellValue(
+  line: Extract<ReportTableLine, { type: 'subtotal' }>,
+  column: ReportColumn,
+  columnIndex: number
+): string {
+  if (!isBucketColumn(column)) {
+    return columnIndex === 0 ? line.text : '';
+  }
+  const count = String(line.itemCounts[column.source as ReportBucket]);
+  return columnIndex === 0 ? `${line.text}: ${count}` : count;
+}
@@ -1,3 +1,5 @@
+import { ReportSection } from '../types/template';
+
 /**
  * Normalize status name for CSS class (removes accents and spaces, converts to lowercase)
  */
@@ -10,55 +12,21 @@ export function normalizeStatusForClass(status: string): string {
     .replace(/[()]/g, ''); // Remove parentheses
 }
 
+/**
+ * Map a report section to the status category used for styling
+ */
+const SECTION_STATUS_CATEGORIES: Record<ReportSection, 'done' | 'in-progress' | 'to-do' | 'other'> = {
+  lastWeek: 'done',
+  currentWeek: 'in-progress',
+  nextWeek: 'to-do',
+  later: 'other',
+};
+
 /**
  * Get status category for styling (done, in-progress, to-do)
+ * 
+ * @param section - Report section resolved by the backend from the template status mapping
  */
-export function getStatusCategory(status: string): 'done' | 'in-progress' | 'to-do' | 'other' {
-  const normalized = normalizeStatusForClass(status);
-  
-  // Done statuses (English and French)
-  if (
-    normalized.includes('done') ||
-    normalized.includes('closed') ||
-    normalized.includes('resolved') ||
-    normalized.includes('termine') ||
-    normalized.includes('fini') ||
-    normalized.includes('complete') ||
-    normalized.includes('resolu')
-  ) {
-    return 'done';
-  }
-  
-  // In Progress statuses (English and French)
-  if (
-    normalized.includes('in-progress') ||
-    normalized.includes('in-progress') ||
-    normalized.includes('in-development') ||
-    normalized.includes('testing') ||
-    normalized.includes('en-cours') ||
-    normalized.includes('en-developpement') ||
-    normalized.includes('en-test') ||
-    normalized.includes('en-revue') ||
-    normalized.includes('review')
-  ) {
-    return 'in-progress';
-  }
-  
-  // To Do statuses (English and French)
-  if (
-    normalized.includes('to-do') ||
-    normalized.includes('open') ||
-    normalized.includes('ready') ||
-    normalized.includes('a-faire') ||
-    normalized.includes('a-realiser') ||
-    normalized.includes('nouveau') ||
-    normalized.includes('nouvelle') ||
-    normalized.includes('pret') ||
-    normalized.includes('backlog')
-  ) {
-    return 'to-do';
-  }
-  
-  return 'other';
+export function getStatusCategory(section: ReportSection): 'done' | 'in-progress' | 'to-do' | 'other' {
+  return SECTION_STATUS_CATEGORIES[section] || 'other';
 }
-